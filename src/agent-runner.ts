@@ -1,5 +1,6 @@
 import type { AgentBackend, AgentConfig, EffortLevel } from './config.js';
 import type { LocalLlmMode } from './backend-resolver.js';
+import type { SandboxMode } from './local-llm/sandbox.js';
 import type { ChatPlatform } from './prompts/index.js';
 import { ClaudeCodeRunner } from './claude-code.js';
 import { CodexRunner } from './codex-cli.js';
@@ -21,6 +22,22 @@ export interface RunOptions {
   effort?: EffortLevel; // Claude Code の --effort オプション
   /** Local LLM の動作モード override（per-channel override 由来）。Local LLM 以外では無視される */
   localLlmMode?: LocalLlmMode;
+  /** Local LLM の exec サンドボックス override（per-channel override 由来）。Local LLM 以外では無視される */
+  localLlmSandbox?: SandboxMode;
+  /** スキルのマニフェスト由来の実行設定（skill-runner.ts がセットする） */
+  skill?: SkillRunOptions;
+}
+
+/**
+ * SKILL.md フロントマター由来の実行設定。
+ * backend / model は CHANNEL_OVERRIDES より優先する
+ */
+export interface SkillRunOptions {
+  name: string;
+  backend?: AgentBackend;
+  model?: string;
+  /** 使えるツール。claude-code と local-llm 以外の backend では実行を拒否する */
+  allowedTools?: string[];
 }
 
 export interface RunResult {
@@ -32,6 +49,21 @@ export interface RunResult {
    * MEDIA: 抽出（extractFilePaths）とは別経路で、両者は呼び出し側で合算・重複排除される。
    */
   attachments?: string[];
+  /** このターンで消費したトークン数（backend が報告した実測値。取れない backend では undefined） */
+  usage?: TokenUsage;
+}
+
+/**
+ * backend 共通のトークン使用量。
+ * inputTokens は cache から読んだ / 書いた分も含む入力総数（OpenAI の prompt_tokens と同じ意味）。
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheCreationTokens?: number;
+  /** backend が費用を報告した場合のみ（Claude Code の total_cost_usd） */
+  costUsd?: number;
 }
 
 /** 現在処理中リクエストのタイムアウト状態 */
@@ -65,6 +97,8 @@ export interface ExtendTimeoutResult {
 export interface StreamCallbacks {
   onText?: (text: string, fullText: string) => void;
   onToolUse?: (toolName: string, toolInput: Record<string, unknown>) => void;
+  /** ツールの実行が終わった（結果を知らせられるランナーだけが呼ぶ。呼ばれる順は onToolUse と同じ） */
+  onToolResult?: (toolName: string, success: boolean) => void;
   onComplete?: (result: RunResult) => void;
   onError?: (error: Error) => void;
 }
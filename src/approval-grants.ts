@@ -0,0 +1,188 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import type { ChatPlatform } from './prompts/index.js';
+
+/**
+ * 承認の記憶（「このセッション中は許可」「このチャンネルで N 時間許可」）
+ *
+ * 承認ボタンで once 以外のスコープが選ばれたら、承認したコマンド（空白を詰めたもの）と
+ * マッチしたルールの説明（danger.matches）を記録し、以降の同じコマンドは承認を求めずに通す。
+ * ルールだけで判定すると `rm -rf dist` の承認が `rm -rf ~` まで通してしまうため、コマンドも一致させる。
+ *   <dataDir>/approval-grants.json
+ *
+ * 判定のたびにファイルを読み直すので、xangi-cmd approval_revoke での取り消しは
+ * 本体プロセスを経由せずに即座に効く。ポリシーの deny には効かない。
+ */
+
+export const APPROVAL_SCOPES = ['once', 'session', 'channel'] as const;
+export type ApprovalScope = (typeof APPROVAL_SCOPES)[number];
+
+/** channel スコープの既定の有効時間 */
+export const DEFAULT_APPROVAL_GRANT_HOURS = 4;
+/** APPROVAL_GRANT_HOURS の上限（1 週間） */
+export const MAX_APPROVAL_GRANT_HOURS = 168;
+
+export const APPROVAL_GRANTS_FILENAME = 'approval-grants.json';
+
+export interface ApprovalGrant {
+  id: string;
+  scope: Exclude<ApprovalScope, 'once'>;
+  platform: ChatPlatform;
+  /** contextKey（Discord / Slack はチャンネル ID、Web は web-chat:<id>、LINE は line:<userId>） */
+  channelId: string;
+  /** session スコープ: 承認時のアクティブセッション。/new 等でセッションが変わると効かなくなる */
+  appSessionId?: string;
+  /** 許可したコマンド（normalizeGrantCommand 済み）。承認メッセージに表示したもの */
+  command: string;
+  /** 承認時にマッチしたルールの説明（表示・監査用） */
+  matches: string[];
+  /** 承認したユーザー（`discord:<userId>` 等） */
+  grantedBy?: string;
+  createdAt: string;
+  /** channel スコープの有効期限 ISO8601 */
+  expiresAt?: string;
+}
+
+/** 判定対象（承認リクエストの送り先 + その時点のアクティブセッション） */
+export interface ApprovalGrantContext {
+  platform: ChatPlatform;
+  channelId: string;
+  appSessionId?: string;
+}
+
+let grantsDataDir: string | null = null;
+
+/**
+ * 記録先を設定（未設定なら記憶しない）
+ */
+export function initApprovalGrants(dataDir: string | null): void {
+  grantsDataDir = dataDir;
+}
+
+/** initApprovalGrants で設定された dataDir（未初期化なら null） */
+export function getApprovalGrantsDataDir(): string | null {
+  return grantsDataDir;
+}
+
+/**
+ * APPROVAL_GRANT_HOURS を解釈する。未設定・不正値は既定値
+ */
+export function parseApprovalGrantHours(raw: string | undefined): number {
+  if (raw === undefined || raw.trim() === '') return DEFAULT_APPROVAL_GRANT_HOURS;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1 || n > MAX_APPROVAL_GRANT_HOURS) {
+    return DEFAULT_APPROVAL_GRANT_HOURS;
+  }
+  return n;
+}
+
+/** channel スコープの有効時間（APPROVAL_GRANT_HOURS） */
+export function getApprovalGrantHours(env = process.env): number {
+  return parseApprovalGrantHours(env.APPROVAL_GRANT_HOURS);
+}
+
+function getGrantsPath(dataDir: string): string {
+  return join(dataDir, APPROVAL_GRANTS_FILENAME);
+}
+
+function isExpired(grant: ApprovalGrant, now: Date): boolean {
+  return !!grant.expiresAt && Date.parse(grant.expiresAt) <= now.getTime();
+}
+
+/**
+ * 有効な記憶を読む（期限切れは除く。壊れたファイルは空扱い）
+ */
+export function readApprovalGrants(dataDir: string, now = new Date()): ApprovalGrant[] {
+  const filePath = getGrantsPath(dataDir);
+  if (!existsSync(filePath)) return [];
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf-8')) as { grants?: ApprovalGrant[] };
+    return (parsed.grants ?? []).filter((g) => !isExpired(g, now));
+  } catch (err) {
+    console.warn('[approval] Failed to read approval grants:', err);
+    return [];
+  }
+}
+
+function writeApprovalGrants(dataDir: string, grants: ApprovalGrant[]): void {
+  if (!existsSync(dataDir)) {
+    mkdirSync(dataDir, { recursive: true });
+  }
+  writeFileSync(getGrantsPath(dataDir), JSON.stringify({ grants }, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * 記憶を追加する（期限切れはこのタイミングで掃除）
+ */
+export function addApprovalGrant(
+  dataDir: string,
+  grant: Omit<ApprovalGrant, 'id' | 'createdAt' | 'expiresAt'>,
+  hours: number,
+  now = new Date()
+): ApprovalGrant {
+  const created: ApprovalGrant = {
+    id: randomUUID().slice(0, 8),
+    ...grant,
+    createdAt: now.toISOString(),
+    ...(grant.scope === 'channel' && {
+      expiresAt: new Date(now.getTime() + hours * 3_600_000).toISOString(),
+    }),
+  };
+  writeApprovalGrants(dataDir, [...readApprovalGrants(dataDir, now), created]);
+  return created;
+}
+
+/**
+ * 記憶を取り消す（id = 'all' で全件）。取り消した件数を返す
+ */
+export function revokeApprovalGrants(dataDir: string, id: string, now = new Date()): number {
+  const grants = readApprovalGrants(dataDir, now);
+  const kept = id === 'all' ? [] : grants.filter((g) => g.id !== id);
+  const revoked = grants.length - kept.length;
+  if (revoked > 0) {
+    writeApprovalGrants(dataDir, kept);
+  }
+  return revoked;
+}
+
+/** 記憶と照合するためにコマンドの前後と連続する空白を詰める */
+export function normalizeGrantCommand(command: string): string {
+  return command.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * 同じコマンドを許可した記憶があれば返す。コマンドを持たない古い記憶には一致しない
+ */
+export function findApprovalGrant(
+  grants: ApprovalGrant[],
+  context: ApprovalGrantContext,
+  danger: { command: string; matches: string[] }
+): ApprovalGrant | undefined {
+  if (danger.matches.length === 0) return undefined;
+  const command = normalizeGrantCommand(danger.command);
+  return grants.find(
+    (g) =>
+      g.platform === context.platform &&
+      g.channelId === context.channelId &&
+      (g.scope === 'channel' || (!!g.appSessionId && g.appSessionId === context.appSessionId)) &&
+      typeof g.command === 'string' &&
+      g.command === command
+  );
+}
+
+/**
+ * 一覧表示用に整形する
+ */
+export function formatApprovalGrants(grants: ApprovalGrant[]): string {
+  if (grants.length === 0) return '記憶している承認はありません';
+  const lines = grants.map((g) => {
+    const scope =
+      g.scope === 'channel'
+        ? `チャンネル（${g.expiresAt ? new Date(g.expiresAt).toLocaleString('ja-JP') : '無期限'} まで）`
+        : `セッション ${g.appSessionId}`;
+    const by = g.grantedBy ? ` by ${g.grantedBy}` : '';
+    return `- \`${g.id}\` \`${g.command}\`（${g.matches.join(', ')}） — ${g.platform} ${g.channelId} / ${scope}${by}`;
+  });
+  return `**記憶している承認** (${grants.length}件)\n${lines.join('\n')}`;
+}
@@ -0,0 +1,583 @@
+/**
+ * 承認ポリシーエンジン
+ *
+ * シェルコマンドを argv の列に分解し（パイプ・`&&` / `||` / `;` 連結・`sh -c` の本文・
+ * `$(...)` / バッククォート・heredoc を含む）、プログラム名 + フラグ + 引数 + パスで
+ * ルールに照合して allow / deny / ask を決める。
+ * 入力全体への部分文字列一致と違い、`echo "rm -r"` を誤検知せず、`rm  -r` や `/bin/rm -R` を
+ * 取りこぼさない。
+ *
+ * ルールの評価順:
+ * - コマンドごとに、マッチしたルールのうち deny > allow > ask の順で決まる
+ *   （allow は ask の例外を切り出すためのもの。deny は allow でも打ち消せない）
+ * - 入力全体では、どれか 1 つでも deny なら deny、そうでなく ask があれば ask
+ *
+ * 既定のルールセットは approval-patterns.json。ワークスペースのポリシーファイル
+ * （`<workspace>/approval-policy.json`、APPROVAL_POLICY_FILE で上書き可能）のルールを加える:
+ * ```json
+ * {
+ *   "rules": [
+ *     { "program": "rm", "flags": ["-r", "-R"], "paths": ["node_modules", "dist/"],
+ *       "decision": "allow", "description": "ビルド成果物の削除" },
+ *     { "program": "git", "args": ["push"], "flags": ["--force", "-f"],
+ *       "decision": "deny", "description": "force push" }
+ *   ]
+ * }
+ * ```
+ */
+import * as fs from 'node:fs';
+import { homedir } from 'node:os';
+import * as path from 'node:path';
+
+export const POLICY_DECISIONS = ['allow', 'deny', 'ask'] as const;
+export type PolicyDecision = (typeof POLICY_DECISIONS)[number];
+
+/**
+ * 承認ルール。指定した条件をすべて満たすコマンドにマッチする（省略した条件は無条件）。
+ */
+export interface PolicyRule {
+  /** プログラム名（basename で比較するので `/bin/rm` も `rm`）。配列はいずれか */
+  program?: string | string[];
+  /** すべて含まれている必要がある位置引数（例: git の `push`） */
+  args?: string[];
+  /** いずれかが含まれていればよいフラグ（`-rf` は `-r` / `-f` にも展開して比較） */
+  flags?: string[];
+  /**
+   * パス prefix（`~/` は HOME に展開）。deny / ask はいずれかの引数・リダイレクト先が、
+   * allow はすべての引数が prefix 配下のときにマッチする（`rm -rf dist /` を allow しないため）
+   */
+  paths?: string[];
+  /** いずれかの引数・リダイレクト先の basename が一致すればよい glob（例: `*.pem`） */
+  files?: string[];
+  /** 引数・heredoc にこの文字列を含めばマッチ（大文字小文字は無視。SQL 文などの判定用） */
+  contains?: string;
+  /** true ならパイプの 2 段目以降（stdin をパイプで受ける）コマンドだけにマッチ */
+  piped?: boolean;
+  decision: PolicyDecision;
+  description: string;
+  category?: string;
+}
+
+/** 分解済みの単純コマンド 1 つ */
+export interface ShellCommand {
+  /** ラッパー（sudo / env / xargs 等）と変数代入を外した argv。argv[0] がプログラム */
+  argv: string[];
+  /** argv[0] の basename */
+  program: string;
+  /** パイプの 2 段目以降なら true */
+  piped: boolean;
+  /** リダイレクト先（here-string の本文を含む） */
+  redirects: string[];
+  /** heredoc の本文 */
+  heredoc: string[];
+}
+
+export interface PolicyVerdict {
+  decision: PolicyDecision;
+  /** decision を決めたルール（重複なし、マッチ順） */
+  rules: PolicyRule[];
+}
+
+/** `sh -c` / `$(...)` の入れ子を追う深さの上限 */
+const MAX_NESTING = 4;
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'ash']);
+
+/** 後ろに続くコマンドを実行するだけのラッパー */
+const WRAPPERS = new Set([
+  'sudo',
+  'doas',
+  'env',
+  'nohup',
+  'time',
+  'nice',
+  'timeout',
+  'xargs',
+  'exec',
+  'command',
+  'builtin',
+]);
+
+/** ラッパーの、値を 1 つ取るオプション */
+const WRAPPER_VALUE_OPTIONS: Record<string, string[]> = {
+  sudo: ['-u', '-g', '-h', '-p', '-C', '-D', '-r', '-t', '-U'],
+  doas: ['-u', '-C'],
+  env: ['-u', '-C', '-S'],
+  nice: ['-n'],
+  timeout: ['-s', '-k'],
+  xargs: ['-I', '-n', '-P', '-L', '-d', '-E', '-s', '-a'],
+};
+
+/** コマンド位置に現れても実行対象ではない予約語 */
+const SHELL_KEYWORDS = new Set([
+  'if',
+  'then',
+  'else',
+  'elif',
+  'fi',
+  'do',
+  'done',
+  'while',
+  'until',
+  '!',
+  '{',
+  '}',
+]);
+
+interface RawSegment {
+  words: string[];
+  piped: boolean;
+  redirects: string[];
+  heredoc: string[];
+}
+
+/** `(` の位置から対応する `)` の位置を返す（クォート内の括弧は数えない） */
+function matchParen(input: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < input.length; i++) {
+    const c = input[i];
+    if (c === '\\') {
+      i++;
+    } else if (c === "'") {
+      const end = input.indexOf("'", i + 1);
+      i = end === -1 ? input.length : end;
+    } else if (c === '(') {
+      depth++;
+    } else if (c === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return input.length - 1;
+}
+
+/** バッククォートの終端位置を返す */
+function matchBacktick(input: string, open: number): number {
+  for (let i = open + 1; i < input.length; i++) {
+    if (input[i] === '\\') i++;
+    else if (input[i] === '`') return i;
+  }
+  return input.length - 1;
+}
+
+/**
+ * シェル文法の最小限の字句解析。単純コマンドの列と、コマンド置換の本文を返す。
+ * 変数展開・glob 展開はしない（静的に分かる範囲だけを見る）。
+ */
+function splitShell(input: string): { segments: RawSegment[]; substitutions: string[] } {
+  const segments: RawSegment[] = [];
+  const substitutions: string[] = [];
+  const pendingHeredocs: { delimiter: string; owner: RawSegment }[] = [];
+  const newSegment = (piped: boolean): RawSegment => ({
+    words: [],
+    piped,
+    redirects: [],
+    heredoc: [],
+  });
+
+  let seg = newSegment(false);
+  let word = '';
+  let inWord = false;
+  let redirectNext = false;
+  let heredocNext = false;
+
+  const endWord = () => {
+    if (!inWord) return;
+    if (heredocNext) {
+      pendingHeredocs.push({ delimiter: word, owner: seg });
+      heredocNext = false;
+    } else if (redirectNext) {
+      seg.redirects.push(word);
+      redirectNext = false;
+    } else {
+      seg.words.push(word);
+    }
+    word = '';
+    inWord = false;
+  };
+  const endSegment = (nextPiped: boolean) => {
+    endWord();
+    if (seg.words.length > 0 || seg.redirects.length > 0) segments.push(seg);
+    seg = newSegment(nextPiped);
+  };
+  /** 改行の直後から heredoc 本文を読み飛ばし、最後に読んだ位置を返す */
+  const consumeHeredocs = (newline: number): number => {
+    let pos = newline + 1;
+    for (const { delimiter, owner } of pendingHeredocs.splice(0)) {
+      const body: string[] = [];
+      while (pos < input.length) {
+        const newlineAt = input.indexOf('\n', pos);
+        const end = newlineAt === -1 ? input.length : newlineAt;
+        const line = input.slice(pos, end);
+        pos = end + 1;
+        if (line.trim() === delimiter) break;
+        body.push(line);
+      }
+      owner.heredoc.push(body.join('\n'));
+    }
+    return pos - 1;
+  };
+  /** `$(` または '`' で始まるコマンド置換を読み、終端位置を返す */
+  const readSubstitution = (i: number): number => {
+    const end = input[i] === '`' ? matchBacktick(input, i) : matchParen(input, i + 1);
+    const bodyStart = input[i] === '`' ? i + 1 : i + 2;
+    substitutions.push(input.slice(bodyStart, end));
+    word += input.slice(i, end + 1);
+    inWord = true;
+    return end;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (c === '\\') {
+      if (input[i + 1] !== '\n' && i + 1 < input.length) {
+        word += input[i + 1];
+        inWord = true;
+      }
+      i++;
+    } else if (c === "'") {
+      const quoteAt = input.indexOf("'", i + 1);
+      const end = quoteAt === -1 ? input.length : quoteAt;
+      word += input.slice(i + 1, end);
+      inWord = true;
+      i = end;
+    } else if (c === '"') {
+      inWord = true;
+      for (i++; i < input.length && input[i] !== '"'; i++) {
+        if (input[i] === '\\' && '"\\$`'.includes(input[i + 1] ?? '')) {
+          word += input[++i];
+        } else if (input[i] === '`' || (input[i] === '$' && input[i + 1] === '(')) {
+          i = readSubstitution(i);
+        } else {
+          word += input[i];
+        }
+      }
+    } else if (c === '`' || (c === '$' && input[i + 1] === '(')) {
+      i = readSubstitution(i);
+    } else if (c === '\n') {
+      endSegment(false);
+      if (pendingHeredocs.length > 0) i = consumeHeredocs(i);
+    } else if (/\s/.test(c)) {
+      endWord();
+    } else if (c === '#' && !inWord) {
+      const end = input.indexOf('\n', i);
+      i = (end === -1 ? input.length : end) - 1;
+    } else if (c === '|') {
+      if (input[i + 1] === '|') {
+        endSegment(false);
+        i++;
+      } else {
+        if (input[i + 1] === '&') i++;
+        endSegment(true);
+      }
+    } else if (c === '&') {
+      if (input[i + 1] === '&') {
+        endSegment(false);
+        i++;
+      } else if (input[i + 1] === '>') {
+        endWord();
+        i += input[i + 2] === '>' ? 2 : 1;
+        redirectNext = true;
+      } else {
+        endSegment(false);
+      }
+    } else if (c === ';' || c === '(' || c === ')') {
+      endSegment(false);
+    } else if (c === '<' || c === '>') {
+      // 直前の数字だけの語は fd 番号（2>&1 の 2）
+      if (inWord && /^\d+$/.test(word)) {
+        word = '';
+        inWord = false;
+      } else {
+        endWord();
+      }
+      if (c === '<' && input[i + 1] === '<') {
+        if (input[i + 2] === '<') {
+          i += 2;
+          redirectNext = true;
+        } else {
+          i += input[i + 2] === '-' ? 2 : 1;
+          heredocNext = true;
+        }
+      } else {
+        if ('>&|'.includes(input[i + 1] ?? '')) i++;
+        redirectNext = true;
+      }
+    } else {
+      word += c;
+      inWord = true;
+    }
+  }
+  endSegment(false);
+  return { segments, substitutions };
+}
+
+/** 予約語・変数代入・ラッパー（sudo / env / xargs 等）を外して実際に実行される argv を返す */
+function unwrap(words: string[]): string[] {
+  let i = 0;
+  for (let guard = 0; guard < 8 && i < words.length; guard++) {
+    while (i < words.length && SHELL_KEYWORDS.has(words[i])) i++;
+    while (i < words.length && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[i])) i++;
+    const wrapper = path.posix.basename(words[i] ?? '');
+    if (!WRAPPERS.has(wrapper)) break;
+    i++;
+    while (i < words.length && words[i].startsWith('-')) {
+      const option = words[i++];
+      if (WRAPPER_VALUE_OPTIONS[wrapper]?.includes(option)) i++;
+    }
+    // timeout はオプションの後に時間を取る
+    if (wrapper === 'timeout') i++;
+  }
+  return words.slice(i);
+}
+
+/** シェルとして解釈される本文（`sh -c` の引数・`eval`・`find -exec`・シェルへの heredoc） */
+function nestedBodies(program: string, argv: string[], heredoc: string[]): string[] {
+  if (program === 'eval') return [argv.slice(1).join(' ')];
+  if (program === 'find') {
+    const bodies: string[] = [];
+    for (let i = 1; i < argv.length; i++) {
+      if (!['-exec', '-execdir', '-ok', '-okdir'].includes(argv[i])) continue;
+      const end = argv.findIndex((a, j) => j > i && (a === ';' || a === '+'));
+      const inner = argv.slice(i + 1, end === -1 ? argv.length : end);
+      bodies.push(inner.map((a) => (/\s/.test(a) ? `'${a}'` : a)).join(' '));
+      i = end === -1 ? argv.length : end;
+    }
+    return bodies;
+  }
+  if (!SHELLS.has(program)) return [];
+  for (let i = 1; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-o' || arg === '+o') {
+      i++;
+      continue;
+    }
+    if (!arg.startsWith('-') || arg === '--') break;
+    if (/^-[a-zA-Z]*c[a-zA-Z]*$/.test(arg)) return argv[i + 1] !== undefined ? [argv[i + 1]] : [];
+  }
+  // スクリプトファイル指定が無ければ stdin（heredoc）を実行する
+  return argv.slice(1).some((a) => !a.startsWith('-')) ? [] : heredoc;
+}
+
+/**
+ * シェルコマンド文字列を単純コマンドの列に分解する。
+ * `sh -c` / `eval` の本文、コマンド置換、`find -exec`、シェルへ流す heredoc も再帰的に展開する。
+ */
+export function parseShellCommand(input: string, depth = 0): ShellCommand[] {
+  if (depth > MAX_NESTING) return [];
+  const { segments, substitutions } = splitShell(input);
+  const commands: ShellCommand[] = [];
+  for (const seg of segments) {
+    const argv = unwrap(seg.words);
+    if (argv.length === 0 && seg.redirects.length === 0) continue;
+    const program = argv.length > 0 ? path.posix.basename(argv[0]) : '';
+    commands.push({
+      argv,
+      program,
+      piped: seg.piped,
+      redirects: seg.redirects,
+      heredoc: seg.heredoc,
+    });
+    for (const body of nestedBodies(program, argv, seg.heredoc)) {
+      commands.push(...parseShellCommand(body, depth + 1));
+    }
+  }
+  for (const body of substitutions) {
+    commands.push(...parseShellCommand(body, depth + 1));
+  }
+  return commands;
+}
+
+/** argv[1..] のフラグ集合（`-rf` は `-rf` / `-r` / `-f`、`--force=yes` は `--force`） */
+function flagSet(argv: string[]): Set<string> {
+  const flags = new Set<string>();
+  for (const arg of argv.slice(1)) {
+    if (arg === '--') break;
+    if (!arg.startsWith('-') || arg === '-') continue;
+    if (arg.startsWith('--')) {
+      flags.add(arg.split('=')[0]);
+      continue;
+    }
+    flags.add(arg);
+    if (arg.length > 2) {
+      for (const ch of arg.slice(1)) flags.add(`-${ch}`);
+    }
+  }
+  return flags;
+}
+
+/** argv[1..] の位置引数（`--` 以降はすべて位置引数） */
+function positionalArgs(argv: string[]): string[] {
+  const args: string[] = [];
+  let afterDoubleDash = false;
+  for (const arg of argv.slice(1)) {
+    if (!afterDoubleDash && arg === '--') {
+      afterDoubleDash = true;
+    } else if (afterDoubleDash || !arg.startsWith('-') || arg === '-') {
+      args.push(arg);
+    }
+  }
+  return args;
+}
+
+/** パス判定の対象: 位置引数・`--opt=value` の値・リダイレクト先 */
+function pathCandidates(cmd: ShellCommand): string[] {
+  const values = cmd.argv
+    .slice(1)
+    .filter((a) => a.startsWith('-') && a.includes('='))
+    .map((a) => a.slice(a.indexOf('=') + 1));
+  return [...positionalArgs(cmd.argv), ...values, ...cmd.redirects].filter(Boolean);
+}
+
+function expandHome(p: string): string {
+  return p === '~' || p.startsWith('~/') ? path.posix.join(homedir(), p.slice(1)) : p;
+}
+
+function underPrefix(candidate: string, prefix: string): boolean {
+  const c = path.posix.normalize(expandHome(candidate));
+  const p = path.posix.normalize(expandHome(prefix));
+  if (p.endsWith('/')) return c.startsWith(p) || c === p.slice(0, -1);
+  return c === p || c.startsWith(`${p}/`);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const body = glob
+    .split('')
+    .map((ch) => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${body}$`);
+}
+
+/** ルールが単純コマンド 1 つにマッチするか */
+export function matchesRule(rule: PolicyRule, cmd: ShellCommand): boolean {
+  if (rule.piped && !cmd.piped) return false;
+  if (rule.program !== undefined) {
+    const programs = Array.isArray(rule.program) ? rule.program : [rule.program];
+    if (!programs.includes(cmd.program)) return false;
+  }
+  if (rule.args?.length) {
+    const args = positionalArgs(cmd.argv);
+    if (!rule.args.every((a) => args.includes(a))) return false;
+  }
+  if (rule.flags?.length) {
+    const flags = flagSet(cmd.argv);
+    if (!rule.flags.some((f) => flags.has(f))) return false;
+  }
+  if (rule.paths?.length) {
+    const candidates = pathCandidates(cmd);
+    const matches = (c: string) => rule.paths!.some((p) => underPrefix(c, p));
+    const ok =
+      rule.decision === 'allow'
+        ? candidates.length > 0 && candidates.every(matches)
+        : candidates.some(matches);
+    if (!ok) return false;
+  }
+  if (rule.files?.length) {
+    const patterns = rule.files.map(globToRegExp);
+    const names = pathCandidates(cmd).map((c) => path.posix.basename(c));
+    if (!names.some((n) => patterns.some((re) => re.test(n)))) return false;
+  }
+  if (rule.contains) {
+    const needle = rule.contains.toLowerCase();
+    const haystack = [...cmd.argv.slice(1), ...cmd.redirects, ...cmd.heredoc];
+    if (!haystack.some((s) => s.toLowerCase().includes(needle))) return false;
+  }
+  return true;
+}
+
+/**
+ * シェルコマンドをルールで評価する。どのルールにもマッチしなければ null。
+ */
+export function evaluatePolicy(input: string, rules: PolicyRule[]): PolicyVerdict | null {
+  const matched: Record<PolicyDecision, PolicyRule[]> = { allow: [], deny: [], ask: [] };
+  const add = (decision: PolicyDecision, hits: PolicyRule[]) => {
+    for (const rule of hits) {
+      if (!matched[decision].includes(rule)) matched[decision].push(rule);
+    }
+  };
+
+  for (const cmd of parseShellCommand(input)) {
+    const hits = rules.filter((rule) => matchesRule(rule, cmd));
+    const deny = hits.filter((r) => r.decision === 'deny');
+    const allow = hits.filter((r) => r.decision === 'allow');
+    if (deny.length > 0) add('deny', deny);
+    else if (allow.length > 0) add('allow', allow);
+    else add('ask', hits);
+  }
+
+  for (const decision of ['deny', 'ask', 'allow'] as const) {
+    if (matched[decision].length > 0) return { decision, rules: matched[decision] };
+  }
+  return null;
+}
+
+const RULE_MATCHERS = ['program', 'args', 'flags', 'paths', 'files', 'contains'] as const;
+
+const isStringArray = (v: unknown): v is string[] =>
+  Array.isArray(v) && v.every((s) => typeof s === 'string');
+
+/**
+ * ルール定義の配列を検証する。不正なエントリは警告を出してスキップする
+ * （1 件の書き損じでポリシー全体を失わないため）。
+ */
+export function parsePolicyRules(value: unknown, source: string): PolicyRule[] {
+  if (!Array.isArray(value)) {
+    console.warn(`[approval] rules must be an array (${source})`);
+    return [];
+  }
+  const rules: PolicyRule[] = [];
+  value.forEach((entry, index) => {
+    const skip = (why: string) =>
+      console.warn(`[approval] rules[${index}] ${why}, skipped (${source})`);
+    if (!entry || typeof entry !== 'object') return skip('must be an object');
+    const e = entry as Record<string, unknown>;
+    if (!POLICY_DECISIONS.includes(e.decision as PolicyDecision)) {
+      return skip(`has invalid decision "${String(e.decision)}"`);
+    }
+    if (typeof e.description !== 'string' || !e.description) {
+      return skip('is missing "description"');
+    }
+    if (!RULE_MATCHERS.some((key) => e[key] !== undefined)) {
+      return skip(`needs at least one of ${RULE_MATCHERS.join(' / ')}`);
+    }
+    if (e.program !== undefined && typeof e.program !== 'string' && !isStringArray(e.program)) {
+      return skip('has invalid "program"');
+    }
+    for (const key of ['args', 'flags', 'paths', 'files'] as const) {
+      if (e[key] !== undefined && !isStringArray(e[key])) {
+        return skip(`has invalid "${key}" (must be a string array)`);
+      }
+    }
+    if (e.contains !== undefined && typeof e.contains !== 'string') {
+      return skip('has invalid "contains"');
+    }
+    rules.push(e as unknown as PolicyRule);
+  });
+  return rules;
+}
+
+/**
+ * ワークスペースのポリシーファイルを読む。
+ * ファイルが無ければ null。壊れていれば警告して null（既定ルールだけで動く）。
+ *
+ * @returns rules と、既定ルールを併用するか（`"defaults": false` で既定ルールを外せる）
+ */
+export function loadPolicyFile(file: string): { rules: PolicyRule[]; defaults: boolean } | null {
+  if (!fs.existsSync(file)) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (err) {
+    console.warn(`[approval] approval policy is not valid JSON (${file}): ${String(err)}`);
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    console.warn(`[approval] approval policy must be an object (${file})`);
+    return null;
+  }
+  const { rules, defaults } = parsed as { rules?: unknown; defaults?: unknown };
+  return {
+    rules: rules === undefined ? [] : parsePolicyRules(rules, file),
+    defaults: defaults !== false,
+  };
+}
@@ -14,25 +14,26 @@
  * }
  */
 import { createServer, type Server } from 'http';
-import { detectDangerousTool } from './approval.js';
+import {
+  detectDangerousTool,
+  findApprovalTarget,
+  isApprovalEnabled,
+  recordPolicyDenial,
+  requestApproval,
+} from './approval.js';
 
 const DEFAULT_PORT = 18181;
 
-type ApprovalCallback = (
-  toolName: string,
-  toolInput: Record<string, unknown>,
-  dangerDescription: string[]
-) => Promise<boolean>;
-
 let server: Server | null = null;
-let approvalCallback: ApprovalCallback | null = null;
 
 /**
  * 承認サーバーを起動
+ *
+ * 承認メッセージの送り先は、Claude Code のフック入力の session_id（providerSessionId）から
+ * 元のチャンネルを逆引きして決める。Local LLM は tools.ts から承認フローを直接呼ぶ。
  */
-export function startApprovalServer(callback: ApprovalCallback, port?: number): void {
+export function startApprovalServer(port?: number): void {
   const listenPort = port || parseInt(process.env.APPROVAL_SERVER_PORT || String(DEFAULT_PORT), 10);
-  approvalCallback = callback;
 
   server = createServer(async (req, res) => {
     // ヘルスチェック
@@ -61,21 +62,45 @@ export function startApprovalServer(callback: ApprovalCallback, port?: number):
           `[approval-server] Tool: ${toolName}, Input keys: ${Object.keys(toolInput).join(',')}`
         );
 
-        // 危険コマンド判定
-        const danger = detectDangerousTool(toolName, toolInput);
+        // 危険コマンド判定（送り先で記憶された承認も参照する）
+        const target = isApprovalEnabled()
+          ? findApprovalTarget({
+              sessionId: typeof body.session_id === 'string' ? body.session_id : undefined,
+            })
+          : undefined;
+        const danger = detectDangerousTool(toolName, toolInput, target);
 
-        if (!danger || !approvalCallback) {
+        if (!danger) {
           // 危険でなければ許可（空レスポンスでOK）
           res.writeHead(200, { 'Content-Type': 'application/json' });
           res.end('{}');
           return;
         }
 
+        // ポリシーで deny のものは確認せずに拒否
+        if (danger.decision === 'deny') {
+          console.log(
+            `[approval-server] Denied by policy: ${toolName} (${danger.matches.join(', ')})`
+          );
+          recordPolicyDenial(target, danger);
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(
+            JSON.stringify({
+              hookSpecificOutput: {
+                hookEventName: 'PreToolUse',
+                permissionDecision: 'deny',
+                permissionDecisionReason: `Denied by policy: ${danger.matches.join(', ')}`,
+              },
+            })
+          );
+          return;
+        }
+
         // 承認を待つ
         console.log(
           `[approval-server] Dangerous tool detected: ${toolName} (${danger.matches.join(', ')})`
         );
-        const approved = await approvalCallback(toolName, toolInput, danger.matches);
+        const approved = await requestApproval(target, danger);
 
         res.writeHead(200, { 'Content-Type': 'application/json' });
         if (approved) {
@@ -131,35 +156,3 @@ export function stopApprovalServer(): void {
 export function getApprovalServerPort(): number {
   return parseInt(process.env.APPROVAL_SERVER_PORT || String(DEFAULT_PORT), 10);
 }
-
-/**
- * 承認サーバーにHTTPリクエストを送ってツール実行の承認を得る
- * Local LLMバックエンドから呼ばれる（Claude Codeと同じ承認サーバーを使用）
- */
-export async function checkApprovalServer(
-  toolName: string,
-  toolInput: Record<string, unknown>
-): Promise<'allow' | 'deny'> {
-  const port = getApprovalServerPort();
-  try {
-    const body = JSON.stringify({
-      tool_name: toolName,
-      tool_input: toolInput,
-      hook_event_name: 'PreToolUse',
-    });
-    const response = await fetch(`http://127.0.0.1:${port}/hooks/pre-tool-use`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body,
-    });
-    const result = (await response.json()) as Record<string, unknown>;
-    const output = result.hookSpecificOutput as Record<string, unknown> | undefined;
-    if (output?.permissionDecision === 'deny') {
-      return 'deny';
-    }
-    return 'allow';
-  } catch {
-    // 承認サーバーに接続できない場合は許可（fail-open）
-    return 'allow';
-  }
-}
@@ -1,24 +1,48 @@
 /**
- * 危険コマンド検知 + Discord/Slack承認フロー
+ * 危険コマンド検知 + 承認フロー（Discord / Slack / Web Chat / LINE）
  *
- * パターンは approval-patterns.json から読み込み。
+ * 判定は approval-policy.ts のポリシーエンジン（シェルコマンドを argv に分解してルール照合）。
+ * 既定ルールは approval-patterns.json、ワークスペースの approval-policy.json で追加・上書きできる。
+ * 承認リクエストは各プラットフォームが登録した送信関数でボタン付きメッセージとして送り、
+ * リクエスト・応答・応答者・タイムアウトを <dataDir>/approval-audit.jsonl に記録する。
+ * リクエストと結果は events（approval.requested / approval.resolved）にも流す。
  * APPROVAL_ENABLED=true で有効化（デフォルト無効）。
  */
-import { readFileSync } from 'fs';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import {
+  evaluatePolicy,
+  loadPolicyFile,
+  parsePolicyRules,
+  type PolicyDecision,
+  type PolicyRule,
+} from './approval-policy.js';
+import type { ChatPlatform } from './prompts/index.js';
+import {
+  addApprovalGrant,
+  findApprovalGrant,
+  getApprovalGrantHours,
+  getApprovalGrantsDataDir,
+  normalizeGrantCommand,
+  readApprovalGrants,
+  type ApprovalScope,
+} from './approval-grants.js';
+import {
+  findSessionByProviderSessionId,
+  getActiveSessionId,
+  getSessionEntry,
+  threadIdForContext,
+} from './sessions.js';
+import { events, summarizeToolArgs, turnIdFor } from './events-emitter.js';
 
-/** 危険コマンドのパターン定義 */
-export interface DangerPattern {
-  command: string;
-  description: string;
-  category: string;
-}
+/** ワークスペースのポリシーファイル名（APPROVAL_POLICY_FILE で上書き可能） */
+export const APPROVAL_POLICY_FILENAME = 'approval-policy.json';
 
 /**
- * approval-patterns.json からパターンを読み込み
+ * approval-patterns.json から既定ルールを読み込み
  */
-function loadPatternsFromFile(): DangerPattern[] {
+function loadDefaultRules(): PolicyRule[] {
   const paths = [
     join(dirname(fileURLToPath(import.meta.url)), '..', 'src', 'approval-patterns.json'),
     join(dirname(fileURLToPath(import.meta.url)), 'approval-patterns.json'),
@@ -26,33 +50,52 @@ function loadPatternsFromFile(): DangerPattern[] {
   for (const filePath of paths) {
     try {
       const raw = readFileSync(filePath, 'utf-8');
-      return JSON.parse(raw) as DangerPattern[];
+      return parsePolicyRules(JSON.parse(raw), filePath);
     } catch {
       // next path
     }
   }
-  console.warn('[approval] Failed to load approval-patterns.json, using empty patterns');
+  console.warn('[approval] Failed to load approval-patterns.json, using empty rules');
   return [];
 }
 
+/**
+ * 既定ルール + ワークスペースのポリシーファイルから有効なルールを組み立てる。
+ * ワークスペースのルールを先に並べる（同じ decision 内ではマッチ順 = 表示順になる）。
+ */
+function loadRules(workspace?: string, env = process.env): PolicyRule[] {
+  const file =
+    env.APPROVAL_POLICY_FILE || (workspace ? join(workspace, APPROVAL_POLICY_FILENAME) : undefined);
+  const policy = file ? loadPolicyFile(file) : null;
+  if (!policy) return loadDefaultRules();
+  console.log(`[approval] Loaded ${policy.rules.length} rules from ${file}`);
+  return policy.defaults ? [...policy.rules, ...loadDefaultRules()] : policy.rules;
+}
+
 /** 機密ファイルパターン（Write/Edit検知用） */
 const SENSITIVE_FILE_PATTERNS = /\.env$|credentials|\.pem$|\.key$/;
 
-/** 有効なパターンリスト */
-let activePatterns: DangerPattern[] = loadPatternsFromFile();
+/** 有効なルールリスト */
+let activeRules: PolicyRule[] = loadDefaultRules();
+
+/** ポリシーファイルを探すワークスペース（reload 用に保持） */
+let policyWorkspace: string | undefined;
 
 /** 承認機能の有効/無効（デフォルト無効） */
 let approvalEnabled = false;
 
 /**
  * 承認機能を有効/無効化
+ *
+ * @param workspace 指定するとワークスペースの approval-policy.json も読み込む
  */
-export function setApprovalEnabled(enabled: boolean): void {
+export function setApprovalEnabled(enabled: boolean, workspace?: string): void {
   approvalEnabled = enabled;
-  if (enabled && activePatterns.length === 0) {
-    activePatterns = loadPatternsFromFile();
+  if (enabled) {
+    policyWorkspace = workspace;
+    activeRules = loadRules(workspace);
   }
-  console.log(`[approval] ${enabled ? `Enabled (${activePatterns.length} patterns)` : 'Disabled'}`);
+  console.log(`[approval] ${enabled ? `Enabled (${activeRules.length} rules)` : 'Disabled'}`);
 }
 
 /**
@@ -63,53 +106,80 @@ export function isApprovalEnabled(): boolean {
 }
 
 /**
- * パターンを再読み込み
+ * ルールを再読み込み
  */
-export function reloadPatterns(): void {
-  activePatterns = loadPatternsFromFile();
-  console.log(`[approval] Reloaded ${activePatterns.length} patterns`);
+export function reloadApprovalPolicy(): void {
+  activeRules = loadRules(policyWorkspace);
+  console.log(`[approval] Reloaded ${activeRules.length} rules`);
 }
 
 /**
- * 現在のパターンリストを取得
+ * 現在のルールリストを取得
  */
-export function getDangerPatterns(): DangerPattern[] {
-  return [...activePatterns];
+export function getApprovalRules(): PolicyRule[] {
+  return [...activeRules];
 }
 
 export interface DangerousCommand {
   command: string;
   matches: string[];
+  /** deny はユーザーに確認せず拒否する。省略時は ask */
+  decision?: Exclude<PolicyDecision, 'allow'>;
 }
 
 /**
- * コマンドが危険かどうか判定
+ * コマンドが危険かどうか判定（allow ルールにだけマッチしたものは null）
  */
 export function detectDangerousCommand(input: string): DangerousCommand | null {
   if (!approvalEnabled) return null;
-  const lower = input.toLowerCase();
-  const matches: string[] = [];
-  for (const { command: cmd, description } of activePatterns) {
-    if (lower.includes(cmd.toLowerCase())) {
-      matches.push(description);
-    }
-  }
-  return matches.length > 0 ? { command: input, matches } : null;
+  const verdict = evaluatePolicy(input, activeRules);
+  if (!verdict || verdict.decision === 'allow') return null;
+  const matches = [...new Set(verdict.rules.map((r) => r.description))];
+  return { command: input, matches, decision: verdict.decision };
 }
 
 /**
  * ツール呼び出しが危険かどうか判定
+ *
+ * target（承認リクエストの送り先）を渡すと、そこで記憶された承認（approval-grants.ts）を参照し、
+ * 同じコマンドが許可済みなら null を返す。ポリシーの deny は記憶に関係なく返す。
  */
 export function detectDangerousTool(
   toolName: string,
-  toolInput: Record<string, unknown>
+  toolInput: Record<string, unknown>,
+  target?: ApprovalTarget
 ): DangerousCommand | null {
   if (!approvalEnabled) return null;
-  if (toolName === 'Bash' && toolInput.command) {
+  const danger = detectDangerousToolInput(toolName, toolInput);
+  if (!danger || danger.decision === 'deny' || !target) return danger;
+
+  const dataDir = getApprovalGrantsDataDir();
+  if (!dataDir) return danger;
+  const grant = findApprovalGrant(
+    readApprovalGrants(dataDir),
+    { ...target, appSessionId: getActiveSessionId(target.channelId) },
+    danger
+  );
+  if (!grant) return danger;
+  console.log(`[approval] Allowed by grant ${grant.id}: ${danger.command}`);
+  appendApprovalAudit('granted', { target, danger }, grant.grantedBy, {
+    scope: grant.scope,
+    grantId: grant.id,
+  });
+  return null;
+}
+
+function detectDangerousToolInput(
+  toolName: string,
+  toolInput: Record<string, unknown>
+): DangerousCommand | null {
+  // Claude Code の Bash / Write / Edit と Local LLM の exec / write / edit
+  if ((toolName === 'Bash' || toolName === 'exec') && toolInput.command) {
     return detectDangerousCommand(String(toolInput.command));
   }
-  if ((toolName === 'Write' || toolName === 'Edit') && toolInput.file_path) {
-    const filePath = String(toolInput.file_path);
+  const filePathInput = toolInput.file_path ?? toolInput.path;
+  if (['Write', 'Edit', 'write', 'edit'].includes(toolName) && filePathInput) {
+    const filePath = String(filePathInput);
     if (SENSITIVE_FILE_PATTERNS.test(filePath)) {
       return { command: `${toolName}: ${filePath}`, matches: ['機密ファイルの変更'] };
     }
@@ -119,52 +189,354 @@ export function detectDangerousTool(
 
 // --- 承認キュー ---
 
-interface PendingApproval {
-  id: string;
+/** 承認メッセージの送り先（channelId は各プラットフォームの contextKey） */
+export interface ApprovalTarget {
+  platform: ChatPlatform;
   channelId: string;
+}
+
+/** 送信関数に渡す承認リクエスト */
+export interface ApprovalRequest {
+  id: string;
+  target: ApprovalTarget;
   danger: DangerousCommand;
+  /** 自動拒否される時刻（epoch ms） */
+  expiresAt: number;
+}
+
+/** 承認メッセージを送る関数。各プラットフォームが起動時に登録する */
+export type ApprovalSender = (request: ApprovalRequest) => void | Promise<void>;
+
+interface PendingApproval extends ApprovalRequest {
   resolve: (approved: boolean) => void;
   timer: ReturnType<typeof setTimeout>;
 }
 
 const pendingApprovals = new Map<string, PendingApproval>();
 
+const approvalSenders = new Map<ChatPlatform, ApprovalSender>();
+
+/** 送り先が解決できなかったときの送り先（Discord の最初の auto-reply チャンネル等） */
+let defaultApprovalTarget: ApprovalTarget | undefined;
+
 const APPROVAL_TIMEOUT_MS = 120_000; // 2分
 
+/** 承認メッセージに表示するコマンドの最大文字数（監査ログには全文を残す） */
+export const APPROVAL_COMMAND_PREVIEW_MAX = 200;
+
+/**
+ * 承認ボタンのラベル
+ */
+export function approvalScopeLabel(scope: ApprovalScope, hours = getApprovalGrantHours()): string {
+  switch (scope) {
+    case 'once':
+      return '許可';
+    case 'session':
+      return 'このセッション中は許可';
+    case 'channel':
+      return `このチャンネルで${hours}時間許可`;
+  }
+}
+
+/**
+ * 応答後に承認メッセージを置き換える表示
+ */
+export function formatApprovalResult(
+  approved: boolean,
+  scope: ApprovalScope = 'once',
+  hours = getApprovalGrantHours()
+): string {
+  if (!approved) return '❌ 拒否しました';
+  switch (scope) {
+    case 'once':
+      return '✅ 許可しました';
+    case 'session':
+      return '✅ 許可しました（このセッション中は同じコマンドを確認しません）';
+    case 'channel':
+      return `✅ 許可しました（このチャンネルでは ${hours} 時間、同じコマンドを確認しません）`;
+  }
+}
+
+/** 応答済み・タイムアウト済みの承認ボタンが押されたときの表示 */
+export const APPROVAL_EXPIRED_TEXT = '⌛ この承認リクエストは応答済みか期限切れです';
+
 let approvalCounter = 0;
 
+function approvalEventBase(request: ApprovalRequest) {
+  return {
+    threadId: threadIdForContext(request.target.platform, request.target.channelId),
+    turnId: turnIdFor(request.target.platform, request.id),
+    platform: request.target.platform,
+    approvalId: request.id,
+  };
+}
+
+/**
+ * プラットフォームの承認メッセージ送信関数を登録
+ */
+export function registerApprovalSender(platform: ChatPlatform, sender: ApprovalSender): void {
+  approvalSenders.set(platform, sender);
+}
+
 /**
- * 承認リクエストを作成し、ユーザーの応答を待つ
+ * 送り先が解決できなかったときの既定の送り先を設定
+ */
+export function setDefaultApprovalTarget(target: ApprovalTarget | undefined): void {
+  defaultApprovalTarget = target;
+}
+
+/**
+ * 承認リクエストの送り先を解決する
+ *
+ * - channelId（RunOptions.channelId = contextKey）があればそのアクティブセッションのプラットフォーム
+ * - sessionId（Claude Code のフック入力の session_id）があれば providerSessionId から逆引き
+ * - どちらも解決できなければ既定の送り先
+ */
+export function findApprovalTarget(context: {
+  sessionId?: string;
+  channelId?: string;
+}): ApprovalTarget | undefined {
+  if (context.channelId) {
+    const appId = getActiveSessionId(context.channelId);
+    const entry = appId ? getSessionEntry(appId) : undefined;
+    if (entry && approvalSenders.has(entry.platform as ChatPlatform)) {
+      return { platform: entry.platform as ChatPlatform, channelId: context.channelId };
+    }
+  }
+  if (context.sessionId) {
+    const entry = findSessionByProviderSessionId(context.sessionId);
+    if (entry && approvalSenders.has(entry.platform as ChatPlatform)) {
+      return { platform: entry.platform as ChatPlatform, channelId: entry.contextKey };
+    }
+  }
+  return defaultApprovalTarget;
+}
+
+/**
+ * 承認リクエストを作成して送り先に送信し、ユーザーの応答を待つ
+ *
+ * 送り先が解決できないか、送り先のプラットフォームに送信関数が無ければ確認できないので
+ * 拒否して監査ログに no_approver を残す（スケジューラ実行や CLI で ask が素通りしないように）。
+ * 送信に失敗したものも拒否。
  */
 export function requestApproval(
-  channelId: string,
-  danger: DangerousCommand,
-  sendApprovalMessage: (approvalId: string, danger: DangerousCommand) => void
+  target: ApprovalTarget | undefined,
+  danger: DangerousCommand
 ): Promise<boolean> {
+  const sender = target ? approvalSenders.get(target.platform) : undefined;
+  if (!target || !sender) {
+    console.warn(
+      `[approval] No approval UI for ${target ? target.platform : 'unknown target'}, denying: ${danger.command}`
+    );
+    appendApprovalAudit('no_approver', { target, danger });
+    return Promise.resolve(false);
+  }
+
   return new Promise((resolve) => {
     const id = `approval_${++approvalCounter}`;
+    const request: ApprovalRequest = {
+      id,
+      target,
+      danger,
+      expiresAt: Date.now() + APPROVAL_TIMEOUT_MS,
+    };
 
     const timer = setTimeout(() => {
       pendingApprovals.delete(id);
       console.log(`[approval] Timeout: ${id} (auto-denied)`);
+      appendApprovalAudit('timeout', request);
+      events.approvalResolved({ ...approvalEventBase(request), outcome: 'timeout' });
       resolve(false);
     }, APPROVAL_TIMEOUT_MS);
 
-    pendingApprovals.set(id, { id, channelId, danger, resolve, timer });
-    sendApprovalMessage(id, danger);
+    pendingApprovals.set(id, { ...request, resolve, timer });
+    appendApprovalAudit('requested', request);
+    events.approvalRequested({
+      ...approvalEventBase(request),
+      command: summarizeToolArgs({ command: danger.command }),
+      matches: danger.matches,
+      expiresAt: request.expiresAt,
+    });
+
+    Promise.resolve()
+      .then(() => sender(request))
+      .catch((err) => {
+        console.error(`[approval] Failed to send approval request ${id}:`, err);
+        settleApproval(id, false, 'send_failed');
+      });
   });
 }
 
+/**
+ * 保留中の承認リクエストを取得（ボタンを押したユーザーの送り先チェック用）
+ */
+export function getPendingApproval(approvalId: string): ApprovalRequest | undefined {
+  const pending = pendingApprovals.get(approvalId);
+  if (!pending) return undefined;
+  const { id, target, danger, expiresAt } = pending;
+  return { id, target, danger, expiresAt };
+}
+
 /**
  * 承認/拒否の応答を処理
+ *
+ * @param decidedBy 応答したユーザー（`discord:<userId>` 等）。監査ログに残す
+ * @param scope session / channel で許可すると、同じパターンを以降は確認せずに通す
  */
-export function resolveApproval(approvalId: string, approved: boolean): boolean {
+export function resolveApproval(
+  approvalId: string,
+  approved: boolean,
+  decidedBy?: string,
+  scope: ApprovalScope = 'once'
+): boolean {
+  const pending = pendingApprovals.get(approvalId);
+  if (!pending) return false;
+
+  let grantId: string | undefined;
+  const dataDir = getApprovalGrantsDataDir();
+  if (approved && scope !== 'once' && dataDir) {
+    try {
+      grantId = addApprovalGrant(
+        dataDir,
+        {
+          scope,
+          platform: pending.target.platform,
+          channelId: pending.target.channelId,
+          appSessionId:
+            scope === 'session' ? getActiveSessionId(pending.target.channelId) : undefined,
+          command: normalizeGrantCommand(pending.danger.command),
+          matches: pending.danger.matches,
+          grantedBy: decidedBy,
+        },
+        getApprovalGrantHours()
+      ).id;
+    } catch (err) {
+      // 記憶に失敗しても今回の許可は通す
+      console.warn('[approval] Failed to save approval grant:', err);
+    }
+  }
+  return settleApproval(approvalId, approved, approved ? 'approved' : 'denied', decidedBy, {
+    ...(approved && { scope }),
+    ...(grantId && { grantId }),
+  });
+}
+
+function settleApproval(
+  approvalId: string,
+  approved: boolean,
+  event: Extract<ApprovalAuditEvent, 'approved' | 'denied' | 'send_failed'>,
+  decidedBy?: string,
+  extra?: Pick<ApprovalAuditRecord, 'scope' | 'grantId'>
+): boolean {
   const pending = pendingApprovals.get(approvalId);
   if (!pending) return false;
 
   clearTimeout(pending.timer);
   pendingApprovals.delete(approvalId);
-  console.log(`[approval] ${approved ? 'Approved' : 'Denied'}: ${approvalId}`);
+  console.log(
+    `[approval] ${approved ? 'Approved' : 'Denied'}: ${approvalId}${decidedBy ? ` by ${decidedBy}` : ''}`
+  );
+  appendApprovalAudit(event, pending, decidedBy, extra);
+  events.approvalResolved({
+    ...approvalEventBase(pending),
+    outcome: event,
+    decidedBy,
+    scope: extra?.scope,
+  });
   pending.resolve(approved);
   return true;
 }
+
+// --- 監査ログ ---
+
+/**
+ * 監査ログのイベント
+ *
+ * - requested: 承認リクエストを送信した
+ * - approved / denied: ユーザーが応答した（decidedBy 付き）
+ * - timeout: 応答が無く自動拒否した
+ * - send_failed: 承認メッセージを送れず拒否した
+ * - policy_denied: ポリシーの deny ルールで確認せずに拒否した
+ * - granted: 記憶した承認（session / channel スコープ）で確認せずに許可した
+ */
+export type ApprovalAuditEvent =
+  | 'requested'
+  | 'approved'
+  | 'denied'
+  | 'timeout'
+  | 'send_failed'
+  | 'policy_denied'
+  | 'no_approver'
+  | 'granted';
+
+export interface ApprovalAuditRecord {
+  ts: string;
+  event: ApprovalAuditEvent;
+  /** policy_denied / no_approver は承認リクエストを作らないので id なし */
+  id?: string;
+  platform?: ChatPlatform;
+  channelId?: string;
+  command: string;
+  matches: string[];
+  decidedBy?: string;
+  /** approved: 選ばれたスコープ / granted: 使われた記憶のスコープ */
+  scope?: ApprovalScope;
+  /** 作成した（granted は使われた）記憶の ID */
+  grantId?: string;
+}
+
+/** 監査ログのファイル名（<dataDir>/approval-audit.jsonl） */
+export const APPROVAL_AUDIT_FILENAME = 'approval-audit.jsonl';
+
+let auditPath: string | null = null;
+
+/**
+ * 監査ログの記録先を設定（未設定なら記録しない）
+ */
+export function initApprovalAudit(dataDir: string | null): void {
+  auditPath = dataDir ? join(dataDir, APPROVAL_AUDIT_FILENAME) : null;
+}
+
+/**
+ * ポリシーの deny で拒否したことを監査ログに残す
+ */
+export function recordPolicyDenial(
+  target: ApprovalTarget | undefined,
+  danger: DangerousCommand
+): void {
+  appendApprovalAudit('policy_denied', { target, danger });
+}
+
+/**
+ * 監査ログに 1 行追記する。書き込み失敗で承認フローを止めない。
+ */
+function appendApprovalAudit(
+  event: ApprovalAuditEvent,
+  request: { id?: string; target?: ApprovalTarget; danger: DangerousCommand },
+  decidedBy?: string,
+  extra?: Pick<ApprovalAuditRecord, 'scope' | 'grantId'>
+): void {
+  if (!auditPath) return;
+  const record: ApprovalAuditRecord = {
+    ts: new Date().toISOString(),
+    event,
+    ...(request.id && { id: request.id }),
+    ...(request.target && {
+      platform: request.target.platform,
+      channelId: request.target.channelId,
+    }),
+    command: request.danger.command,
+    matches: request.danger.matches,
+    ...(decidedBy && { decidedBy }),
+    ...extra,
+  };
+  try {
+    const dir = dirname(auditPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    appendFileSync(auditPath, JSON.stringify(record) + '\n');
+  } catch (err) {
+    console.warn('[approval] Failed to write audit log:', err);
+  }
+}
@@ -2,7 +2,9 @@ import { readFileSync, writeFileSync } from 'fs';
 import type { AgentBackend, Config, EffortLevel } from './config.js';
 import { getBackendDisplayName } from './agent-runner.js';
 import { resolveEnvFilePath } from './env-persist.js';
-import { validateChannelOverrides } from './config-validate.js';
+import { parseBudgetEnv, validateChannelOverrides } from './config-validate.js';
+import { formatUsageDay, getTodayUsage } from './token-usage.js';
+import type { SandboxMode } from './local-llm/sandbox.js';
 
 /**
  * Local LLM の動作モード
@@ -12,6 +14,19 @@ import { validateChannelOverrides } from './config-validate.js';
  */
 export type LocalLlmMode = 'agent' | 'lite' | 'chat';
 
+/**
+ * 1 日あたりの予算（ローカル時刻の日付で区切る）。
+ * トークンは入力 + 出力（cache 読み込み分は含めない）。soft で警告、hard で拒否か振り替え。
+ */
+export interface DailyBudget {
+  softTokens?: number;
+  hardTokens?: number;
+  softTurns?: number;
+  hardTurns?: number;
+  /** hard 到達後の振り替え先。未指定ならターンを拒否する */
+  fallback?: { backend: AgentBackend; model?: string };
+}
+
 /**
  * チャンネルごとのオーバーライド設定
  */
@@ -21,8 +36,23 @@ export interface ChannelOverride {
   effort?: EffortLevel;
   /** Local LLM のみ有効。バックエンドが local-llm の時に動作モードを切替 */
   localLlmMode?: LocalLlmMode;
+  /** Local LLM のみ有効。exec ツールのサンドボックス（未指定なら LOCAL_LLM_SANDBOX） */
+  localLlmSandbox?: SandboxMode;
+  /** このチャンネルの日次予算（DAILY_BUDGET の全体予算とは別に判定する） */
+  budget?: DailyBudget;
 }
 
+/**
+ * 予算判定の結果
+ * - allow: そのまま実行（notice があれば応答に添えて警告する）
+ * - downgrade: resolved を振り替え先に差し替えて実行
+ * - refuse: 実行しない
+ */
+export type BudgetDecision =
+  | { action: 'allow'; notice?: string }
+  | { action: 'downgrade'; resolved: ResolvedBackend; notice?: string }
+  | { action: 'refuse'; reason: string };
+
 /**
  * チャンネルごとに解決されたバックエンド設定
  */
@@ -32,6 +62,29 @@ export interface ResolvedBackend {
   effort?: EffortLevel;
   /** Local LLM mode override（local-llm backend の時のみ意味あり） */
   localLlmMode?: LocalLlmMode;
+  /** Local LLM exec サンドボックス override（local-llm backend の時のみ意味あり） */
+  localLlmSandbox?: SandboxMode;
+}
+
+/**
+ * 予算の soft / hard を超えていれば `トークン 1,200,000/1,000,000` のような説明を返す
+ */
+function describeBudgetExceeded(
+  budget: DailyBudget,
+  tokens: number,
+  turns: number,
+  level: 'soft' | 'hard'
+): string | undefined {
+  const tokenLimit = level === 'soft' ? budget.softTokens : budget.hardTokens;
+  const turnLimit = level === 'soft' ? budget.softTurns : budget.hardTurns;
+  const fmt = (n: number) => n.toLocaleString('en-US');
+  if (tokenLimit !== undefined && tokens >= tokenLimit) {
+    return `トークン ${fmt(tokens)}/${fmt(tokenLimit)}`;
+  }
+  if (turnLimit !== undefined && turns >= turnLimit) {
+    return `ターン ${fmt(turns)}/${fmt(turnLimit)}`;
+  }
+  return undefined;
 }
 
 /**
@@ -57,6 +110,10 @@ export class BackendResolver {
   private channelOverrides: Map<string, ChannelOverride>;
   /** .envファイルのパス（永続化用） */
   private envFilePath?: string;
+  /** DAILY_BUDGET（全チャンネル合計の日次予算） */
+  private globalBudget?: DailyBudget;
+  /** 今日すでに警告したキー（`<day>:<scope>:<channelId>:<soft|hard>`）。同じ警告を毎ターン出さない */
+  private budgetNotified = new Set<string>();
 
   constructor(config: Config) {
     this.defaultBackend = config.agent.backend;
@@ -83,6 +140,16 @@ export class BackendResolver {
       }
     }
 
+    const envBudget = process.env.DAILY_BUDGET?.trim();
+    if (envBudget) {
+      const { budget, error } = parseBudgetEnv(envBudget);
+      if (budget) {
+        this.globalBudget = budget as DailyBudget;
+      } else {
+        console.error(`[backend-resolver] DAILY_BUDGET: ${error}`);
+      }
+    }
+
     // .env ファイルのパスを検出 (永続化用)。XANGI_ENV_PATH 環境変数があればそれを優先、
     // 無ければ process.cwd() の .env をデフォルトに使う。
     // 読み取れない場合は永続化しない (Docker 環境で .env ファイルが mount されていない等)。
@@ -126,6 +193,7 @@ export class BackendResolver {
       model: override.model ?? (override.backend ? undefined : defaultModel),
       effort: override.effort,
       localLlmMode: override.localLlmMode ?? defaultLocalLlmMode,
+      ...(override.localLlmSandbox && { localLlmSandbox: override.localLlmSandbox }),
     };
   }
 
@@ -133,7 +201,9 @@ export class BackendResolver {
    * チャンネルオーバーライドを設定し、.envに永続化
    */
   setChannelOverride(channelId: string, override: ChannelOverride): void {
-    this.channelOverrides.set(channelId, override);
+    // /backend set は backend/model/effort だけを渡してくるので、予算は引き継ぐ
+    const budget = override.budget ?? this.channelOverrides.get(channelId)?.budget;
+    this.channelOverrides.set(channelId, { ...override, ...(budget && { budget }) });
     this.persistToEnv();
     console.log(
       `[backend-resolver] Set override for ${channelId}: ${getBackendDisplayName(override.backend ?? this.defaultBackend)}` +
@@ -154,7 +224,14 @@ export class BackendResolver {
       existing.localLlmMode = mode;
     }
     // 全フィールドが空ならエントリ削除、そうでなければ更新
-    if (!existing.backend && !existing.model && !existing.effort && !existing.localLlmMode) {
+    if (
+      !existing.backend &&
+      !existing.model &&
+      !existing.effort &&
+      !existing.localLlmMode &&
+      !existing.localLlmSandbox &&
+      !existing.budget
+    ) {
       this.channelOverrides.delete(channelId);
     } else {
       this.channelOverrides.set(channelId, existing);
@@ -165,9 +242,12 @@ export class BackendResolver {
 
   /**
    * チャンネルオーバーライドを削除し、.envに永続化
+   * （予算は /backend reset で外れると困るので残す）
    */
   deleteChannelOverride(channelId: string): boolean {
+    const budget = this.channelOverrides.get(channelId)?.budget;
     const had = this.channelOverrides.delete(channelId);
+    if (budget) this.channelOverrides.set(channelId, { budget });
     if (had) {
       this.persistToEnv();
       console.log(`[backend-resolver] Deleted override for ${channelId}`);
@@ -210,6 +290,83 @@ export class BackendResolver {
     }
   }
 
+  /**
+   * 今日の使用量を日次予算と照らし合わせる。
+   * チャンネル予算と全体予算（DAILY_BUDGET）のどちらかが hard に達していれば
+   * 振り替え先へ差し替えるか拒否する（拒否が優先）。soft 到達は 1 日 1 回だけ notice を返す。
+   */
+  checkBudget(
+    channelId: string | undefined,
+    resolved: ResolvedBackend,
+    now = new Date()
+  ): BudgetDecision {
+    const scopes: Array<{ label: string; key: string; budget: DailyBudget; channelId?: string }> =
+      [];
+    const channelBudget = channelId ? this.channelOverrides.get(channelId)?.budget : undefined;
+    if (channelId && channelBudget) {
+      scopes.push({ label: 'チャンネル', key: channelId, budget: channelBudget, channelId });
+    }
+    if (this.globalBudget) {
+      scopes.push({ label: '全体', key: '*', budget: this.globalBudget });
+    }
+    if (scopes.length === 0) return { action: 'allow' };
+
+    const day = formatUsageDay(now);
+    const notices: string[] = [];
+    let downgradeTo: DailyBudget['fallback'];
+
+    for (const scope of scopes) {
+      const usage = getTodayUsage(scope.channelId, now);
+      const tokens = usage.inputTokens - usage.cacheReadTokens + usage.outputTokens;
+      const hard = describeBudgetExceeded(scope.budget, tokens, usage.turns, 'hard');
+      if (hard) {
+        const fallback = scope.budget.fallback;
+        // 振り替え先そのもので動いているなら、それ以上は絞らない
+        if (fallback && fallback.backend === resolved.backend) continue;
+        if (!fallback) {
+          return { action: 'refuse', reason: `${scope.label}の日次予算 (${hard})` };
+        }
+        downgradeTo ??= fallback;
+        const noticeKey = `${day}:${scope.key}:${channelId ?? ''}:hard`;
+        if (!this.budgetNotified.has(noticeKey)) {
+          this.budgetNotified.add(noticeKey);
+          notices.push(
+            `⚠️ ${scope.label}の日次予算の上限 (${hard}) に達したため、今日は ${getBackendDisplayName(fallback.backend)} で応答します`
+          );
+        }
+        continue;
+      }
+      const soft = describeBudgetExceeded(scope.budget, tokens, usage.turns, 'soft');
+      const noticeKey = `${day}:${scope.key}:${channelId ?? ''}:soft`;
+      if (soft && !this.budgetNotified.has(noticeKey)) {
+        this.budgetNotified.add(noticeKey);
+        notices.push(`⚠️ ${scope.label}の日次予算の警告ライン (${soft}) を超えました`);
+      }
+    }
+
+    // 日付が変わったら前日分の通知済みキーは不要
+    for (const key of this.budgetNotified) {
+      if (!key.startsWith(`${day}:`)) this.budgetNotified.delete(key);
+    }
+
+    const notice = notices.length > 0 ? notices.join('\n') : undefined;
+    if (downgradeTo) {
+      console.warn(
+        `[backend-resolver] Daily budget reached for ${channelId ?? '(no channel)'}; routing ${resolved.backend} to ${downgradeTo.backend}`
+      );
+      return {
+        action: 'downgrade',
+        resolved: {
+          backend: downgradeTo.backend,
+          model: downgradeTo.model,
+          localLlmMode: resolved.localLlmMode,
+        },
+        notice,
+      };
+    }
+    return { action: 'allow', notice };
+  }
+
   /**
    * チャンネルオーバーライドを取得
    */
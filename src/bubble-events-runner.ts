@@ -14,6 +14,9 @@
  *   通る。caller の UI 更新ロジックを壊さない。
  * - cancel (`Request cancelled by user`) は agent.error ではなく
  *   turn.aborted として送る。
+ * - onToolUse / onToolResult から tool.started / tool.finished を送る。
+ *   onToolResult を呼ばないランナーのツールは、ターンの終わりに
+ *   ターンの成否を success として tool.finished を送る。
  *
  * 非ストリーミング呼び出しが欲しい caller は callbacks を空 `{}` で渡し、
  * 戻り値の RunResult から最終テキストを取ればよい。runStream 経由でも
@@ -21,7 +24,7 @@
  * incremental にしないが pet 側では typing animation が出る。
  */
 
-import { events, type Platform } from './events-emitter.js';
+import { events, summarizeToolArgs, type Platform } from './events-emitter.js';
 import type { AgentRunner, RunOptions, RunResult, StreamCallbacks } from './agent-runner.js';
 
 export interface BubbleEventContext {
@@ -45,25 +48,52 @@ export async function runWithBubbleEvents(
   const { userText, ...eventBase } = ctx;
   events.turnStarted({ ...eventBase, userText });
   let errorEmitted = false;
+  // tool.finished 待ちのツール（開始順）
+  const runningTools: Array<{ toolName: string; argsSummary: string; startedAt: number }> = [];
+  const finishTool = (index: number, success: boolean): void => {
+    const [tool] = runningTools.splice(index, 1);
+    events.toolFinished({
+      ...eventBase,
+      toolName: tool.toolName,
+      argsSummary: tool.argsSummary,
+      durationMs: Date.now() - tool.startedAt,
+      success,
+    });
+  };
+  const finishAllTools = (success: boolean): void => {
+    while (runningTools.length > 0) finishTool(0, success);
+  };
   try {
     const runOptions = {
       ...options,
       platform: options?.platform ?? ctx.platform,
     };
 
-    return await runner.runStream(
+    const result = await runner.runStream(
       prompt,
       {
         onText: (chunk, fullText) => {
           events.messageDelta({ ...eventBase, chunk, fullText });
           callbacks.onText?.(chunk, fullText);
         },
-        onToolUse: callbacks.onToolUse,
+        onToolUse: (toolName, toolInput) => {
+          const argsSummary = summarizeToolArgs(toolInput);
+          runningTools.push({ toolName, argsSummary, startedAt: Date.now() });
+          events.toolStarted({ ...eventBase, toolName, argsSummary });
+          callbacks.onToolUse?.(toolName, toolInput);
+        },
+        onToolResult: (toolName, success) => {
+          const index = runningTools.findIndex((t) => t.toolName === toolName);
+          if (index !== -1) finishTool(index, success);
+          callbacks.onToolResult?.(toolName, success);
+        },
         onComplete: (result) => {
+          finishAllTools(true);
           events.turnComplete({ ...eventBase, text: result.result });
           callbacks.onComplete?.(result);
         },
         onError: (error) => {
+          finishAllTools(false);
           if (error.message === CANCEL_MESSAGE) {
             events.turnAborted(eventBase);
           } else {
@@ -75,8 +105,12 @@ export async function runWithBubbleEvents(
       },
       runOptions
     );
+    // onComplete を呼ばずに終わるランナー向け
+    finishAllTools(true);
+    return result;
   } catch (e) {
     if (!errorEmitted) {
+      finishAllTools(false);
       const msg = e instanceof Error ? e.message : String(e);
       if (msg === CANCEL_MESSAGE) {
         events.turnAborted(eventBase);
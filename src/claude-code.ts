@@ -1,4 +1,4 @@
-import type { RunOptions, RunResult, StreamCallbacks } from './agent-runner.js';
+import type { RunOptions, RunResult, StreamCallbacks, TokenUsage } from './agent-runner.js';
 import { mergeTexts, sanitizeSurrogates, prependRuntimeContext } from './agent-runner.js';
 import { stripToolCallArtifacts, finalizeDisplayText } from './tool-call-sanitize.js';
 import { buildSystemPrompt } from './base-runner.js';
@@ -6,13 +6,14 @@ import type { BaseRunnerOptions } from './base-runner.js';
 import type { ChatPlatform } from './prompts/index.js';
 import { logPrompt, logResponse } from './transcript-logger.js';
 import { CliRunnerBase, type CliStreamParser } from './cli-runner-core.js';
+import { parseClaudeUsage, type ClaudeResultUsage } from './token-usage.js';
 
 export interface ClaudeCodeOptions extends BaseRunnerOptions {
   platform?: ChatPlatform;
   effort?: string;
 }
 
-interface ClaudeCodeResponse {
+interface ClaudeCodeResponse extends ClaudeResultUsage {
   type: 'result';
   subtype: 'success' | 'error';
   is_error: boolean;
@@ -22,7 +23,7 @@ interface ClaudeCodeResponse {
   duration_ms: number;
 }
 
-interface ClaudeStreamEvent {
+interface ClaudeStreamEvent extends ClaudeResultUsage {
   type?: string;
   message?: { content?: Array<{ type?: string; text?: string }> };
   session_id?: string;
@@ -37,6 +38,7 @@ export class ClaudeCodeRunner extends CliRunnerBase {
   protected readonly command = 'claude';
   protected readonly displayName = 'Claude Code CLI';
   protected readonly logPrefix = 'claude-code';
+  protected readonly backend = 'claude-code' as const;
 
   private systemPrompt: string;
   private effort?: string;
@@ -60,7 +62,13 @@ export class ClaudeCodeRunner extends CliRunnerBase {
       args.push('--verbose');
     }
 
-    const skip = options?.skipPermissions ?? this.skipPermissions;
+    // スキルの allowed-tools にパターン付きの指定（`Bash(git status)` 等）があると、
+    // --dangerously-skip-permissions ではパターンが効かずツール全体を許可してしまう。
+    // そのスキルでは権限確認を残し、--allowedTools で事前承認した呼び出しだけを通す
+    // （-p の非対話実行では、それ以外の権限が要る呼び出しは拒否される）
+    const allowedTools = options?.skill?.allowedTools;
+    const hasToolPatterns = !!allowedTools?.some((t) => t.includes('('));
+    const skip = (options?.skipPermissions ?? this.skipPermissions) && !hasToolPatterns;
     if (skip) {
       args.push('--dangerously-skip-permissions');
     }
@@ -79,6 +87,16 @@ export class ClaudeCodeRunner extends CliRunnerBase {
       args.push('--effort', effort);
     }
 
+    // スキルの allowed-tools: --tools で使えるツール自体を絞る。パターン付きの指定があるときは
+    // 全項目を --allowedTools にも渡す（パターンなしの項目はそのツールを丸ごと事前承認する）
+    if (allowedTools) {
+      const baseNames = [...new Set(allowedTools.map((t) => t.replace(/\(.*\)$/, '').trim()))];
+      args.push('--tools', baseNames.join(','));
+      if (hasToolPatterns) {
+        args.push('--allowedTools', allowedTools.join(','));
+      }
+    }
+
     // チャットプラットフォーム連携のシステムプロンプト + AGENTS.md
     args.push('--append-system-prompt', this.systemPrompt);
 
@@ -88,7 +106,9 @@ export class ClaudeCodeRunner extends CliRunnerBase {
   }
 
   async run(rawPrompt: string, options?: RunOptions): Promise<RunResult> {
-    const prompt = prependRuntimeContext(sanitizeSurrogates(rawPrompt));
+    const prompt = prependRuntimeContext(
+      sanitizeSurrogates(await this.applyPromptHooks(rawPrompt, options))
+    );
     const args = this.buildArgs(prompt, 'json', options);
 
     this.logExecution('Executing', options);
@@ -125,6 +145,7 @@ export class ClaudeCodeRunner extends CliRunnerBase {
       // 非ストリーミング経路でも tool-call 構文の除去 + 空→正直な fallback を適用
       result: finalizeDisplayText(response.result),
       sessionId: response.session_id,
+      usage: parseClaudeUsage(response),
     };
   }
 
@@ -164,7 +185,9 @@ export class ClaudeCodeRunner extends CliRunnerBase {
     callbacks: StreamCallbacks,
     options?: RunOptions
   ): Promise<RunResult> {
-    const prompt = prependRuntimeContext(sanitizeSurrogates(rawPrompt));
+    const prompt = prependRuntimeContext(
+      sanitizeSurrogates(await this.applyPromptHooks(rawPrompt, options))
+    );
     const args = this.buildArgs(prompt, 'stream-json', options);
 
     this.logExecution('Streaming', options);
@@ -191,6 +214,7 @@ export class ClaudeCodeRunner extends CliRunnerBase {
   protected createStreamParser(callbacks: StreamCallbacks): CliStreamParser {
     let fullText = '';
     let sessionId = '';
+    let usage: TokenUsage | undefined;
 
     return {
       handleEvent: (json, phase) => {
@@ -213,6 +237,7 @@ export class ClaudeCodeRunner extends CliRunnerBase {
 
         if (event.type === 'result') {
           sessionId = event.session_id ?? sessionId;
+          usage = parseClaudeUsage(event);
           if (phase === 'stream' && event.is_error) {
             return new Error(event.result);
           }
@@ -225,7 +250,7 @@ export class ClaudeCodeRunner extends CliRunnerBase {
 
         return undefined;
       },
-      finalize: () => ({ result: finalizeDisplayText(fullText), sessionId }),
+      finalize: () => ({ result: finalizeDisplayText(fullText), sessionId, usage }),
     };
   }
 }
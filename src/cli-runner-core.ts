@@ -13,6 +13,8 @@ import { TimeoutController } from './timeout-controller.js';
 import { buildCliEnv, clearManagedCliProcess, registerManagedCliProcess } from './cli-process.js';
 import { appendJsonlChunk, flushJsonlBuffer } from './jsonl-buffer.js';
 import type { BaseRunnerOptions } from './base-runner.js';
+import type { AgentBackend } from './config.js';
+import { applyPromptHooks, createHookRunner, type HookRunner } from './hooks.js';
 
 /**
  * JSONL ストリームをランナー固有のイベント解釈に変換するパーサ。
@@ -27,8 +29,8 @@ export interface CliStreamParser {
    * パーサ側からは callbacks.onError を直接呼ばないこと（二重通知になる）。
    */
   handleEvent(json: unknown, phase: 'stream' | 'flush'): Error | undefined | void;
-  /** 正常終了時の結果テキストとセッション ID を返す */
-  finalize(): { result: string; sessionId: string };
+  /** 正常終了時の結果テキストとセッション ID（CLI が報告していればトークン使用量も）を返す */
+  finalize(): Pick<RunResult, 'result' | 'sessionId' | 'usage'>;
   /** exit code != 0 のとき、エラーメッセージに添える詳細（CLI の error イベント本文など） */
   exitErrorDetail?(): string | undefined;
 }
@@ -68,6 +70,11 @@ export abstract class CliRunnerBase extends EventEmitter implements AgentRunner
   protected readonly timeoutController: TimeoutController;
   /** 同時実行されている子プロセスを channelId で索く（並列セッション対応） */
   protected readonly activeProcesses = new Map<string, ChildProcess>();
+  /**
+   * ワークスペース hooks。CLI はツール実行を xangi に委ねないので、
+   * 使えるのはプロンプト組み立て時の SessionStart / UserPromptSubmit だけ
+   */
+  protected readonly hooks: HookRunner | null;
 
   /** spawn する実行ファイル名（例: 'codex'） */
   protected abstract readonly command: string;
@@ -75,6 +82,8 @@ export abstract class CliRunnerBase extends EventEmitter implements AgentRunner
   protected abstract readonly displayName: string;
   /** console ログの prefix（例: 'codex'） */
   protected abstract readonly logPrefix: string;
+  /** hooks のペイロードに載せる backend 名 */
+  protected abstract readonly backend: AgentBackend;
 
   constructor(options?: BaseRunnerOptions) {
     super();
@@ -83,6 +92,7 @@ export abstract class CliRunnerBase extends EventEmitter implements AgentRunner
     this.workdir = options?.workdir;
     this.skipPermissions = options?.skipPermissions ?? false;
     this.timeoutController = new TimeoutController({ baseTimeoutMs: this.timeoutMs });
+    this.hooks = createHookRunner(this.workdir || process.cwd());
     for (const evt of ['timeout-started', 'timeout-extended', 'timeout-cleared'] as const) {
       this.timeoutController.on(evt, (payload) => this.emit(evt, payload));
     }
@@ -103,6 +113,20 @@ export abstract class CliRunnerBase extends EventEmitter implements AgentRunner
     return buildCliEnv(channelId);
   }
 
+  /**
+   * SessionStart / UserPromptSubmit hooks を通したプロンプトを返す（block なら HookBlockedError）。
+   * SessionStart は resume しない（= 新しいセッションを始める）ターンだけ。
+   */
+  protected applyPromptHooks(prompt: string, options?: RunOptions): Promise<string> {
+    return applyPromptHooks(this.hooks, prompt, this.workdir || process.cwd(), {
+      sessionId: options?.appSessionId || options?.sessionId || '',
+      channelId: options?.channelId,
+      backend: this.backend,
+      platform: options?.platform,
+      sessionStart: options?.sessionId ? undefined : 'startup',
+    });
+  }
+
   protected logExecution(kind: 'Executing' | 'Streaming', options?: RunOptions): void {
     const sessionInfo = options?.sessionId
       ? ` (session: ${options.sessionId.slice(0, 8)}...)`
@@ -284,8 +308,8 @@ export abstract class CliRunnerBase extends EventEmitter implements AgentRunner
           return;
         }
 
-        const { result, sessionId } = parser.finalize();
-        const runResult: RunResult = { result, sessionId };
+        const { result, sessionId, usage } = parser.finalize();
+        const runResult: RunResult = { result, sessionId, ...(usage && { usage }) };
         opts.onComplete?.(runResult);
         callbacks.onComplete?.(runResult);
         resolve(runResult);
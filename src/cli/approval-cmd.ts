@@ -0,0 +1,42 @@
+/**
+ * 承認の記憶（セッション / チャンネル単位の許可）の管理CLIモジュール
+ *
+ * <dataDir>/approval-grants.json を直接読み書きする。本体は判定のたびにファイルを
+ * 読み直すので、取り消しは xangi を再起動しなくても即座に効く。
+ */
+import { join } from 'path';
+import {
+  formatApprovalGrants,
+  readApprovalGrants,
+  revokeApprovalGrants,
+} from '../approval-grants.js';
+
+function getDataDir(): string {
+  const workdir = process.env.WORKSPACE_PATH || process.cwd();
+  return process.env.DATA_DIR || join(workdir, '.xangi');
+}
+
+/**
+ * xangi-cmd approval_grants [--json]
+ * xangi-cmd approval_revoke --id <id|all>
+ */
+export function approvalCmd(command: string, flags: Record<string, string>): string {
+  const dataDir = getDataDir();
+  switch (command) {
+    case 'approval_grants': {
+      const grants = readApprovalGrants(dataDir);
+      return flags['json'] === 'true'
+        ? JSON.stringify(grants, null, 2)
+        : formatApprovalGrants(grants);
+    }
+    case 'approval_revoke': {
+      const id = flags['id'];
+      if (!id) throw new Error('--id is required (use --id all to revoke everything)');
+      const revoked = revokeApprovalGrants(dataDir, id);
+      if (revoked === 0) throw new Error(`Approval grant not found: ${id}`);
+      return `🗑️ 承認の記憶を ${revoked} 件取り消しました`;
+    }
+    default:
+      throw new Error(`Unknown approval command: ${command}`);
+  }
+}
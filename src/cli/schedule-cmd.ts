@@ -7,28 +7,58 @@
  */
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
-import { parseScheduleInput, formatScheduleList } from '../scheduler.js';
+import {
+  parseScheduleInput,
+  formatScheduleList,
+  findScheduleCycle,
+  findScheduleDependents,
+  SCHEDULE_PLATFORMS,
+  type Platform,
+  type ScheduleType,
+} from '../scheduler.js';
+import {
+  formatScheduleHistory,
+  readScheduleRuns,
+  type ScheduleLastRun,
+} from '../schedule-history.js';
+import { CATCH_UP_POLICIES, type CatchUpPolicy } from '../schedule-catch-up.js';
+import { WEB_CHAT_CONTEXT_PREFIX } from '../sessions.js';
 
 interface Schedule {
   id: string;
-  type: 'cron' | 'once' | 'startup';
+  type: ScheduleType;
   expression?: string;
   runAt?: string;
+  after?: string;
+  injectUpstreamResult?: boolean;
   message: string;
   channelId: string;
-  platform: 'discord' | 'slack';
+  platform: Platform;
   createdAt: string;
   enabled: boolean;
   label?: string;
+  timezone?: string;
+  lastRun?: ScheduleLastRun;
+  lastRunAt?: string;
+  catchUp?: CatchUpPolicy;
+  catchUpLimit?: number;
+  maxRetries?: number;
 }
 
-function getScheduleFilePath(): string {
+/** schedule_history のデフォルト表示件数 */
+const DEFAULT_HISTORY_LIMIT = 10;
+
+function getDataDir(): string {
   const workdir = process.env.WORKSPACE_PATH || process.cwd();
   const dataDir = process.env.DATA_DIR || join(workdir, '.xangi');
   if (!existsSync(dataDir)) {
     mkdirSync(dataDir, { recursive: true });
   }
-  return join(dataDir, 'schedules.json');
+  return dataDir;
+}
+
+function getScheduleFilePath(): string {
+  return join(getDataDir(), 'schedules.json');
 }
 
 function loadSchedules(): Schedule[] {
@@ -46,6 +76,25 @@ function saveSchedules(schedules: Schedule[]): void {
   writeFileSync(filePath, JSON.stringify(schedules, null, 2));
 }
 
+/**
+ * xangi 内部から呼ばれたときの XANGI_CHANNEL_ID（現在の contextKey）から送信先を推定する。
+ * Web は `web-chat:<appSessionId>`、LINE は `line:<userId>` がセットされている。
+ * それ以外（Discord/Slack）はチャンネルIDそのもの。
+ */
+function targetFromContextKey(contextKey: string | undefined): {
+  channelId?: string;
+  platform?: Platform;
+} {
+  if (!contextKey) return {};
+  if (contextKey.startsWith(WEB_CHAT_CONTEXT_PREFIX)) {
+    return { channelId: contextKey.slice(WEB_CHAT_CONTEXT_PREFIX.length), platform: 'web' };
+  }
+  if (contextKey.startsWith('line:')) {
+    return { channelId: contextKey.slice('line:'.length), platform: 'line' };
+  }
+  return { channelId: contextKey };
+}
+
 function generateId(): string {
   return `s_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
 }
@@ -60,32 +109,69 @@ async function scheduleList(): Promise<string> {
 
 async function scheduleAdd(flags: Record<string, string>): Promise<string> {
   const input = flags['input'];
-  const channelId = flags['channel'];
-  const platform = (flags['platform'] || 'discord') as 'discord' | 'slack';
-
   if (!input) throw new Error('--input is required');
-  if (!channelId) throw new Error('--channel is required');
 
   const parsed = parseScheduleInput(input);
   if (!parsed) {
     throw new Error(`スケジュール形式を解析できません: ${input}`);
   }
 
+  // 送信先の優先順: 入力中の指定（-c <#id> / -c line:<userId> 等）> --channel >
+  // 現在の会話（XANGI_CHANNEL_ID）
+  const current =
+    parsed.targetChannelId || flags['channel']
+      ? {}
+      : targetFromContextKey(process.env.XANGI_CHANNEL_ID);
+  const targetChannel = parsed.targetChannelId || flags['channel'] || current.channelId;
+  const targetPlatform = (parsed.targetPlatform ||
+    flags['platform'] ||
+    current.platform ||
+    'discord') as Platform;
+
+  if (!targetChannel) throw new Error('--channel is required');
+  if (!SCHEDULE_PLATFORMS.includes(targetPlatform)) {
+    throw new Error(`--platform must be one of: ${SCHEDULE_PLATFORMS.join(', ')}`);
+  }
+
+  const catchUp = flags['catch-up'] as CatchUpPolicy | undefined;
+  if (catchUp !== undefined && !CATCH_UP_POLICIES.includes(catchUp)) {
+    throw new Error(`--catch-up must be one of: ${CATCH_UP_POLICIES.join(', ')}`);
+  }
+  const catchUpLimit = flags['catch-up-limit'] ? parseInt(flags['catch-up-limit'], 10) : undefined;
+  if (catchUpLimit !== undefined && (!Number.isInteger(catchUpLimit) || catchUpLimit <= 0)) {
+    throw new Error('--catch-up-limit must be a positive integer');
+  }
+  const maxRetries = flags['max-retries'] ? parseInt(flags['max-retries'], 10) : undefined;
+  if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || maxRetries < 0)) {
+    throw new Error('--max-retries must be a non-negative integer');
+  }
+
   const schedules = loadSchedules();
-  // targetChannelId が指定されていればそちらを優先
-  const targetChannel = parsed.targetChannelId || channelId;
+  if (parsed.after && !schedules.some((s) => s.id === parsed.after)) {
+    throw new Error(`上流スケジュールが見つかりません: ${parsed.after}`);
+  }
 
   const newSchedule: Schedule = {
     id: generateId(),
     type: parsed.type,
     expression: parsed.expression,
     runAt: parsed.runAt,
+    ...(parsed.after && { after: parsed.after }),
+    ...(parsed.injectUpstreamResult && { injectUpstreamResult: true }),
     message: parsed.message,
     channelId: targetChannel,
-    platform,
+    platform: targetPlatform,
     createdAt: new Date().toISOString(),
     enabled: true,
+    ...(parsed.timezone && { timezone: parsed.timezone }),
+    ...(catchUp && { catchUp }),
+    ...(catchUpLimit && { catchUpLimit }),
+    ...(maxRetries !== undefined && { maxRetries }),
   };
+  const cycle = findScheduleCycle([...schedules, newSchedule], newSchedule.id);
+  if (cycle) {
+    throw new Error(`依存関係が循環しています: ${cycle.join(' → ')}`);
+  }
   schedules.push(newSchedule);
   saveSchedules(schedules);
 
@@ -101,6 +187,10 @@ async function scheduleRemove(flags: Record<string, string>): Promise<string> {
   if (index === -1) {
     return `❌ スケジュールが見つかりません: ${id}`;
   }
+  const dependents = findScheduleDependents(schedules, id);
+  if (dependents.length > 0) {
+    return `❌ このスケジュールの後に実行する下流スケジュールがあるため削除できません: ${dependents.map((s) => s.id).join(', ')}（先に下流を削除してください）`;
+  }
 
   schedules.splice(index, 1);
   saveSchedules(schedules);
@@ -124,6 +214,21 @@ async function scheduleToggle(flags: Record<string, string>): Promise<string> {
   return `🔄 スケジュール ${id}: ${schedule.enabled ? '有効' : '無効'} に切り替えました`;
 }
 
+async function scheduleHistory(flags: Record<string, string>): Promise<string> {
+  const id = flags['id'];
+  if (!id) throw new Error('--id is required');
+  const limit = flags['limit'] ? parseInt(flags['limit'], 10) : DEFAULT_HISTORY_LIMIT;
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error('--limit must be a positive integer');
+  }
+
+  const runs = readScheduleRuns(getDataDir(), id, limit);
+  if (runs.length === 0 && !loadSchedules().some((s) => s.id === id)) {
+    return `❌ スケジュールが見つかりません: ${id}`;
+  }
+  return formatScheduleHistory(id, runs);
+}
+
 // ─── Router ─────────────────────────────────────────────────────────
 
 export async function scheduleCmd(command: string, flags: Record<string, string>): Promise<string> {
@@ -136,6 +241,8 @@ export async function scheduleCmd(command: string, flags: Record<string, string>
       return scheduleRemove(flags);
     case 'schedule_toggle':
       return scheduleToggle(flags);
+    case 'schedule_history':
+      return scheduleHistory(flags);
     default:
       throw new Error(`Unknown schedule command: ${command}`);
   }
@@ -0,0 +1,53 @@
+/**
+ * スキルの診断CLIモジュール
+ *
+ * ワークスペースのスキルディレクトリを走査し、同名スキルの衝突（優先順位の低い方が
+ * 黙って隠れる）と、読み込めなかった・一部を無視した SKILL.md を一覧する。
+ */
+import { getSkillDirs, scanSkills, type SkillScan } from '../skills.js';
+
+function getWorkdir(): string {
+  return process.env.WORKSPACE_PATH || process.cwd();
+}
+
+/**
+ * 診断結果を整形する
+ */
+export function formatSkillsDoctor(scan: SkillScan, skillDirs: string[]): string {
+  const lines = [`📚 スキル ${scan.skills.length}件（優先順: ${skillDirs.join(' > ')}）`];
+
+  if (scan.conflicts.length === 0) {
+    lines.push('', '✅ 同名スキルの衝突はありません');
+  } else {
+    lines.push('', `⚠️ 同名スキルの衝突 (${scan.conflicts.length}件)`);
+    for (const conflict of scan.conflicts) {
+      lines.push(`- ${conflict.name}`, `  使用: ${conflict.used}`);
+      for (const path of conflict.shadowed) lines.push(`  無視: ${path}`);
+    }
+  }
+
+  if (scan.issues.length === 0) {
+    lines.push('', '✅ 不正な SKILL.md はありません');
+  } else {
+    lines.push('', `❌ 不正な SKILL.md (${scan.issues.length}件)`);
+    for (const issue of scan.issues) lines.push(`- ${issue.path}: ${issue.message}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * xangi-cmd skills_doctor [--json]
+ */
+export function skillsCmd(command: string, flags: Record<string, string>): string {
+  switch (command) {
+    case 'skills_doctor': {
+      const workdir = getWorkdir();
+      const scan = scanSkills(workdir);
+      return flags['json'] === 'true'
+        ? JSON.stringify(scan, null, 2)
+        : formatSkillsDoctor(scan, getSkillDirs(workdir));
+    }
+    default:
+      throw new Error(`Unknown skills command: ${command}`);
+  }
+}
@@ -33,7 +33,16 @@ export async function terminalSessionCmd(
   const token =
     flags.token || process.env.XANGI_DEVICE_INBOX_TOKEN || process.env.XANGI_PET_INBOX_TOKEN || '';
 
-  const createRes = await fetch(`${baseUrl}/api/sessions`, { method: 'POST' });
+  // Web チャットの API と events は WEB_CHAT_AUTH_TOKEN（設定時）で認証する
+  const webToken = (process.env.WEB_CHAT_AUTH_TOKEN || '').trim();
+  const webAuthHeaders: Record<string, string> = webToken
+    ? { Authorization: `Bearer ${webToken}` }
+    : {};
+
+  const createRes = await fetch(`${baseUrl}/api/sessions`, {
+    method: 'POST',
+    headers: webAuthHeaders,
+  });
   const createBody = await readJson(createRes);
   if (!createRes.ok) {
     throw new Error(
@@ -48,7 +57,7 @@ export async function terminalSessionCmd(
 
   await fetch(`${baseUrl}/api/sessions/${encodeURIComponent(sessionId)}`, {
     method: 'PATCH',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...webAuthHeaders },
     body: JSON.stringify({ title }),
   }).catch(() => undefined);
 
@@ -65,6 +74,7 @@ export async function terminalSessionCmd(
     `thread_id: ${threadId}`,
     `base_url: ${baseUrl}`,
     `events: ${eventsUrl}`,
+    ...(webToken ? [`events_auth: Authorization: Bearer ${webToken}`] : []),
     `inbox: ${inboxUrl}`,
     `auth: ${authLine}`,
     '',
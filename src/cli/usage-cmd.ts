@@ -0,0 +1,55 @@
+/**
+ * トークン使用量の集計CLIモジュール
+ *
+ * <dataDir>/usage/*.jsonl（xangi 本体が 1 ターン 1 行で追記）を読んで集計する。
+ * 本体プロセスを経由しないので、xangi が停止中でも使える。
+ */
+import { join } from 'path';
+import {
+  USAGE_DEFAULT_DAYS,
+  USAGE_GROUP_BY,
+  USAGE_RETENTION_DAYS,
+  formatUsageSummary,
+  loadUsageSummary,
+  type UsageGroupBy,
+} from '../token-usage.js';
+
+function getDataDir(): string {
+  const workdir = process.env.WORKSPACE_PATH || process.cwd();
+  return process.env.DATA_DIR || join(workdir, '.xangi');
+}
+
+/**
+ * xangi-cmd usage [--by day|backend|channel|session] [--days <n>]
+ *   [--channel <id>] [--session <id>] [--backend <name>] [--json]
+ */
+export function usageCmd(flags: Record<string, string>): string {
+  const by = flags['by'] || 'day';
+  if (!USAGE_GROUP_BY.some((g) => g === by)) {
+    throw new Error(`--by must be one of: ${USAGE_GROUP_BY.join(', ')}`);
+  }
+  const days = flags['days'] ? Number(flags['days']) : USAGE_DEFAULT_DAYS;
+  if (!Number.isInteger(days) || days < 1 || days > USAGE_RETENTION_DAYS) {
+    throw new Error(`--days must be an integer between 1 and ${USAGE_RETENTION_DAYS}`);
+  }
+
+  const summary = loadUsageSummary(getDataDir(), {
+    groupBy: by as UsageGroupBy,
+    days,
+    channelId: flags['channel'],
+    appSessionId: flags['session'],
+    backend: flags['backend'],
+  });
+  if (flags['json'] === 'true') {
+    return JSON.stringify(summary, null, 2);
+  }
+
+  const scope = [
+    flags['channel'] && `channel=${flags['channel']}`,
+    flags['session'] && `session=${flags['session']}`,
+    flags['backend'] && `backend=${flags['backend']}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+  return formatUsageSummary(summary, scope || undefined);
+}
@@ -0,0 +1,28 @@
+/**
+ * Web チャットのログインユーザー用 CLI モジュール
+ *
+ * WEB_CHAT_USERS に書くエントリ（`ユーザー名:scrypt.<salt>.<hash>`）を作る。
+ * 平文のパスワードは .env に置かない。
+ */
+import { hashPassword } from '../web-auth.js';
+
+/**
+ * xangi-cmd web_hash_password --user <name> --password <password>
+ */
+export function webAuthCmd(command: string, flags: Record<string, string>): string {
+  switch (command) {
+    case 'web_hash_password': {
+      const user = flags['user'];
+      const password = flags['password'];
+      if (!user || user === 'true' || user.includes(':') || user.includes(',')) {
+        throw new Error('--user is required (":" and "," are not allowed)');
+      }
+      if (!password || password === 'true') {
+        throw new Error('--password is required');
+      }
+      return `${user}:${hashPassword(password)}`;
+    }
+    default:
+      throw new Error(`Unknown web auth command: ${command}`);
+  }
+}
@@ -17,10 +17,18 @@
  *   node xangi-cmd.js discord_edit --channel <id> --message-id <id> --content <text>
  *   node xangi-cmd.js discord_delete --channel <id> --message-id <id>
  *   node xangi-cmd.js web_history [--count <n>] [--previous]
+ *   node xangi-cmd.js web_hash_password --user <name> --password <password>
  *   node xangi-cmd.js schedule_list
- *   node xangi-cmd.js schedule_add --input <text> --channel <id> --platform <discord|slack>
+ *   node xangi-cmd.js schedule_add --input <text> --channel <id> --platform <discord|slack|line|web>
+ *     [--catch-up <skip|run-once|run-all>] [--catch-up-limit <n>] [--max-retries <n>]
  *   node xangi-cmd.js schedule_remove --id <id>
  *   node xangi-cmd.js schedule_toggle --id <id>
+ *   node xangi-cmd.js schedule_history --id <id> [--limit <n>]
+ *   node xangi-cmd.js usage [--by <day|backend|channel|session>] [--days <n>]
+ *     [--channel <id>] [--session <id>] [--backend <name>] [--json]
+ *   node xangi-cmd.js approval_grants [--json]
+ *   node xangi-cmd.js approval_revoke --id <id|all>
+ *   node xangi-cmd.js skills_doctor [--json]
  *   node xangi-cmd.js media_send --channel <id> --file <path>
  *   node xangi-cmd.js terminal_session [--base-url <url>] [--title <title>] [--token <token>]
  *   node xangi-cmd.js g2_session [--base-url <url>] [--title <title>] [--token <token>]  # alias
@@ -37,6 +45,10 @@ import { interChatCmd } from './inter-chat-cmd.js';
 import { webHistoryCmd } from './web-history-cmd.js';
 import { slackHistoryCmd } from './slack-history-cmd.js';
 import { terminalSessionCmd } from './terminal-session-cmd.js';
+import { usageCmd } from './usage-cmd.js';
+import { approvalCmd } from './approval-cmd.js';
+import { skillsCmd } from './skills-cmd.js';
+import { webAuthCmd } from './web-auth-cmd.js';
 
 // .env を自動読み込み（DISCORD_TOKEN等のシークレットを取得）
 function loadEnvFile(): void {
@@ -138,6 +150,7 @@ Discord操作:
 
 Web Chat操作:
   web_history       Web Chat の現セッション履歴取得
+  web_hash_password WEB_CHAT_USERS 用のパスワードハッシュ作成 --user <name> --password <pw>
   slack_history     Slack の現チャンネル履歴取得
 
 スケジュール:
@@ -145,6 +158,7 @@ Web Chat操作:
   schedule_add      追加
   schedule_remove   削除
   schedule_toggle   有効/無効切替
+  schedule_history  実行履歴
 
 インスタンス間チャット:
   inter_chat_send    --text <text> [--from-label <label>] [--origin-chain a,b]
@@ -154,6 +168,10 @@ Web Chat操作:
   inter_chat_config  解決済み設定を表示
 
 その他:
+  usage             トークン使用量の集計 [--by day|backend|channel|session] [--days <n>]
+  approval_grants   記憶している承認の一覧 [--json]
+  approval_revoke   記憶している承認を取り消す --id <id|all>
+  skills_doctor     スキルの同名衝突・不正な SKILL.md を一覧 [--json]
   media_send        ファイル送信
   terminal_session  外部 device / terminal 用 Web セッション作成
   g2_session        terminal_session の Even G2 向け alias
@@ -178,8 +196,16 @@ Web Chat操作:
       result = await systemCmd(command, flags);
     } else if (command.startsWith('inter_chat_')) {
       result = await interChatCmd(command, flags);
+    } else if (command === 'usage') {
+      result = usageCmd(flags);
+    } else if (command.startsWith('approval_')) {
+      result = approvalCmd(command, flags);
+    } else if (command.startsWith('skills_')) {
+      result = skillsCmd(command, flags);
     } else if (command === 'web_history') {
       result = webHistoryCmd(flags);
+    } else if (command === 'web_hash_password') {
+      result = webAuthCmd(command, flags);
     } else if (command === 'slack_history') {
       result = slackHistoryCmd(flags);
     } else if (command === 'terminal_session') {
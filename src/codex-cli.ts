@@ -1,10 +1,11 @@
-import type { RunOptions, RunResult, StreamCallbacks } from './agent-runner.js';
+import type { RunOptions, RunResult, StreamCallbacks, TokenUsage } from './agent-runner.js';
 import { buildSystemPrompt } from './base-runner.js';
 import type { BaseRunnerOptions } from './base-runner.js';
 import { prependRuntimeContext } from './runtime-context.js';
 import { logPrompt, logResponse } from './transcript-logger.js';
 import type { ChatPlatform } from './prompts/index.js';
 import { CliRunnerBase, type CliStreamParser } from './cli-runner-core.js';
+import { addTokenUsage, parseCodexUsage } from './token-usage.js';
 
 export interface CodexOptions extends BaseRunnerOptions {
   platform?: ChatPlatform;
@@ -60,6 +61,7 @@ export class CodexRunner extends CliRunnerBase {
   protected readonly command = 'codex';
   protected readonly displayName = 'Codex CLI';
   protected readonly logPrefix = 'codex';
+  protected readonly backend = 'codex' as const;
 
   private systemPrompt: string;
 
@@ -229,7 +231,7 @@ export class CodexRunner extends CliRunnerBase {
   }
 
   async run(rawPrompt: string, options?: RunOptions): Promise<RunResult> {
-    const prompt = prependRuntimeContext(rawPrompt);
+    const prompt = prependRuntimeContext(await this.applyPromptHooks(rawPrompt, options));
     const args = this.buildArgs(prompt, options);
 
     this.logExecution('Executing', options);
@@ -265,9 +267,12 @@ export class CodexRunner extends CliRunnerBase {
     }
 
     let sessionId = '';
+    let usage: TokenUsage | undefined;
     this.forEachJsonlEvent(stdout, (event) => {
       const sid = this.extractSessionId(event);
       if (sid) sessionId = sid;
+      const turnUsage = event.type === 'turn.completed' ? parseCodexUsage(event.usage) : undefined;
+      if (turnUsage) usage = addTokenUsage(usage, turnUsage);
     });
     const result = this.extractResult(stdout);
 
@@ -276,7 +281,7 @@ export class CodexRunner extends CliRunnerBase {
       logResponse(this.workdir, options.appSessionId, { result, sessionId });
     }
 
-    return { result, sessionId };
+    return { result, sessionId, usage };
   }
 
   private extractResult(output: string): string {
@@ -301,7 +306,7 @@ export class CodexRunner extends CliRunnerBase {
     callbacks: StreamCallbacks,
     options?: RunOptions
   ): Promise<RunResult> {
-    const prompt = prependRuntimeContext(rawPrompt);
+    const prompt = prependRuntimeContext(await this.applyPromptHooks(rawPrompt, options));
     const args = this.buildArgs(prompt, options);
 
     this.logExecution('Streaming', options);
@@ -348,6 +353,7 @@ export class CodexRunner extends CliRunnerBase {
     let fullText = '';
     let sessionId = '';
     let errorMessage: string | undefined;
+    let usage: TokenUsage | undefined;
     const emittedToolIds = new Set<string>();
 
     return {
@@ -381,16 +387,21 @@ export class CodexRunner extends CliRunnerBase {
           }
         }
 
-        // トークン使用量ログ
-        if (phase === 'stream' && event.type === 'turn.completed' && event.usage) {
-          console.log(
-            `[codex] Usage: input=${event.usage.input_tokens} (cached=${event.usage.cached_input_tokens ?? 0}), output=${event.usage.output_tokens}`
-          );
+        // トークン使用量（RunResult.usage で集計に回す）
+        const turnUsage =
+          event.type === 'turn.completed' ? parseCodexUsage(event.usage) : undefined;
+        if (turnUsage) {
+          usage = addTokenUsage(usage, turnUsage);
+          if (phase === 'stream') {
+            console.log(
+              `[codex] Usage: input=${turnUsage.inputTokens} (cached=${turnUsage.cacheReadTokens ?? 0}), output=${turnUsage.outputTokens}`
+            );
+          }
         }
 
         return undefined;
       },
-      finalize: () => ({ result: fullText, sessionId }),
+      finalize: () => ({ result: fullText, sessionId, usage }),
       exitErrorDetail: () => errorMessage,
     };
   }
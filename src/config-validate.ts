@@ -8,6 +8,7 @@
  * - `XANGI_CONFIG_STRICT=true` の場合は警告をエラーに格上げして起動を中断する
  * - 外部依存なし（zod 等は追加しない）
  */
+import { SANDBOX_MODES } from './local-llm/sandbox.js';
 
 export interface ConfigIssue {
   /** 環境変数名 */
@@ -144,6 +145,92 @@ const VALID_BACKENDS = ['claude-code', 'codex', 'cursor', 'grok', 'local-llm'] a
 const VALID_EFFORTS = ['low', 'medium', 'high', 'max'] as const;
 const VALID_LLM_MODES = ['agent', 'lite', 'chat'] as const;
 
+/** 日次予算（CHANNEL_OVERRIDES の budget / DAILY_BUDGET）の検証済みの形 */
+export interface BudgetSpec {
+  softTokens?: number;
+  hardTokens?: number;
+  softTurns?: number;
+  hardTurns?: number;
+  fallback?: { backend: string; model?: string };
+}
+
+const BUDGET_LIMIT_KEYS = ['softTokens', 'hardTokens', 'softTurns', 'hardTurns'] as const;
+
+/**
+ * 日次予算の検証。問題があれば error を返し budget は null。
+ * 予算は安全装置なので、typo したキーを黙って無視せず全体を不正として扱う。
+ */
+export function validateBudget(value: unknown): { budget: BudgetSpec | null; error?: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { budget: null, error: 'budget はオブジェクトが必要です' };
+  }
+  const o = value as Record<string, unknown>;
+  const budget: BudgetSpec = {};
+  for (const key of Object.keys(o)) {
+    if (key !== 'fallback' && !(BUDGET_LIMIT_KEYS as readonly string[]).includes(key)) {
+      return {
+        budget: null,
+        error: `budget のキー '${key}' は不明です (${[...BUDGET_LIMIT_KEYS, 'fallback'].join(' / ')})`,
+      };
+    }
+  }
+  for (const key of BUDGET_LIMIT_KEYS) {
+    if (o[key] === undefined) continue;
+    const n = o[key];
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < 1) {
+      return { budget: null, error: `budget.${key} は 1 以上の整数が必要です` };
+    }
+    budget[key] = n;
+  }
+  if (BUDGET_LIMIT_KEYS.every((key) => budget[key] === undefined)) {
+    return {
+      budget: null,
+      error: `budget には ${BUDGET_LIMIT_KEYS.join(' / ')} のいずれかが必要です`,
+    };
+  }
+  for (const [soft, hard] of [
+    ['softTokens', 'hardTokens'],
+    ['softTurns', 'hardTurns'],
+  ] as const) {
+    const s = budget[soft];
+    const h = budget[hard];
+    if (s !== undefined && h !== undefined && s > h) {
+      return { budget: null, error: `budget.${soft} は ${hard} 以下にしてください` };
+    }
+  }
+  if (o.fallback !== undefined) {
+    const f = o.fallback as Record<string, unknown> | null;
+    if (
+      !f ||
+      typeof f !== 'object' ||
+      typeof f.backend !== 'string' ||
+      !(VALID_BACKENDS as readonly string[]).includes(f.backend) ||
+      (f.model !== undefined && typeof f.model !== 'string')
+    ) {
+      return {
+        budget: null,
+        error: `budget.fallback は {"backend": "${VALID_BACKENDS.join(' | ')}", "model"?: string} の形式が必要です`,
+      };
+    }
+    budget.fallback = {
+      backend: f.backend,
+      ...(f.model !== undefined && { model: f.model as string }),
+    };
+  }
+  return { budget };
+}
+
+/** DAILY_BUDGET (JSON 文字列) を読んで検証する */
+export function parseBudgetEnv(raw: string): { budget: BudgetSpec | null; error?: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    return { budget: null, error: `JSON として解析できません: ${e}` };
+  }
+  return validateBudget(parsed);
+}
+
 export interface ChannelOverrideIssue {
   channelId: string;
   message: string;
@@ -157,7 +244,14 @@ export interface ChannelOverrideIssue {
 export function validateChannelOverrides(raw: string): {
   overrides: Record<
     string,
-    { backend?: string; model?: string; effort?: string; localLlmMode?: string }
+    {
+      backend?: string;
+      model?: string;
+      effort?: string;
+      localLlmMode?: string;
+      localLlmSandbox?: string;
+      budget?: BudgetSpec;
+    }
   > | null;
   issues: ChannelOverrideIssue[];
 } {
@@ -182,7 +276,14 @@ export function validateChannelOverrides(raw: string): {
 
   const result: Record<
     string,
-    { backend?: string; model?: string; effort?: string; localLlmMode?: string }
+    {
+      backend?: string;
+      model?: string;
+      effort?: string;
+      localLlmMode?: string;
+      localLlmSandbox?: string;
+      budget?: BudgetSpec;
+    }
   > = {};
 
   for (const [channelId, value] of Object.entries(parsed as Record<string, unknown>)) {
@@ -197,7 +298,14 @@ export function validateChannelOverrides(raw: string): {
       continue;
     }
     const o = value as Record<string, unknown>;
-    const entry: { backend?: string; model?: string; effort?: string; localLlmMode?: string } = {};
+    const entry: {
+      backend?: string;
+      model?: string;
+      effort?: string;
+      localLlmMode?: string;
+      localLlmSandbox?: string;
+      budget?: BudgetSpec;
+    } = {};
     let valid = true;
 
     if (o.backend !== undefined) {
@@ -247,6 +355,29 @@ export function validateChannelOverrides(raw: string): {
         valid = false;
       }
     }
+    if (o.localLlmSandbox !== undefined) {
+      if (
+        typeof o.localLlmSandbox === 'string' &&
+        (SANDBOX_MODES as readonly string[]).includes(o.localLlmSandbox)
+      ) {
+        entry.localLlmSandbox = o.localLlmSandbox;
+      } else {
+        issues.push({
+          channelId,
+          message: `localLlmSandbox '${String(o.localLlmSandbox)}' は不正です (${SANDBOX_MODES.join(' / ')})。このエントリは無視します`,
+        });
+        valid = false;
+      }
+    }
+    if (o.budget !== undefined) {
+      const { budget, error } = validateBudget(o.budget);
+      if (budget) {
+        entry.budget = budget;
+      } else {
+        issues.push({ channelId, message: `${error}。このエントリは無視します` });
+        valid = false;
+      }
+    }
 
     if (valid) {
       result[channelId] = entry;
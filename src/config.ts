@@ -1,7 +1,24 @@
 import * as fs from 'node:fs';
 import { DEFAULT_TIMEOUT_MS } from './constants.js';
 import type { ChatPlatform } from './prompts/index.js';
-import { EnvValidator } from './config-validate.js';
+import { EnvValidator, parseBudgetEnv } from './config-validate.js';
+import { LLM_PROVIDER_NAMES } from './local-llm/providers/types.js';
+import { DEFAULT_ENDPOINT_COOLDOWN_MS, parseFallbackEndpoints } from './local-llm/endpoint-pool.js';
+import {
+  DEFAULT_SANDBOX_CPU_SECONDS,
+  DEFAULT_SANDBOX_MEMORY_MB,
+  SANDBOX_MODES,
+} from './local-llm/sandbox.js';
+import { DEFAULT_STOP_HOOK_MAX_ROUNDS, MAX_STOP_HOOK_ROUNDS } from './hooks.js';
+import { DEFAULT_APPROVAL_GRANT_HOURS, MAX_APPROVAL_GRANT_HOURS } from './approval-grants.js';
+import { DEFAULT_WEB_SESSION_HOURS, MAX_WEB_SESSION_HOURS } from './web-auth.js';
+import {
+  DEFAULT_EVENTS_WEBHOOK_BATCH_SIZE,
+  DEFAULT_EVENTS_WEBHOOK_FLUSH_MS,
+  DEFAULT_EVENTS_WEBHOOK_MAX_RETRIES,
+  MAX_EVENTS_WEBHOOK_BATCH_SIZE,
+  MAX_EVENTS_WEBHOOK_MAX_RETRIES,
+} from './events-webhook.js';
 
 export const ALL_AGENT_BACKENDS = ['claude-code', 'codex', 'cursor', 'grok', 'local-llm'] as const;
 export type AgentBackend = (typeof ALL_AGENT_BACKENDS)[number];
@@ -231,11 +248,46 @@ export function loadConfig(): Config {
     ...ALL_AGENT_BACKENDS,
   ];
 
-  // LOCAL_LLM_MODE は local-llm/runner 等で直接参照されるが、typo 検出のためここで検証する
+  // LOCAL_LLM_MODE / LOCAL_LLM_PROVIDER は local-llm/runner 等で直接参照されるが、typo 検出のためここで検証する
   v.enumOf('LOCAL_LLM_MODE', ['agent', 'lite', 'chat'] as const, 'agent');
+  v.enumOf('LOCAL_LLM_PROVIDER', ['auto', ...LLM_PROVIDER_NAMES] as const, 'auto');
+  v.int('LOCAL_LLM_ENDPOINT_COOLDOWN_MS', DEFAULT_ENDPOINT_COOLDOWN_MS, { min: 0 });
+  // LOCAL_LLM_SANDBOX* は local-llm/sandbox.ts で直接参照されるが、typo 検出のためここで検証する
+  v.enumOf('LOCAL_LLM_SANDBOX', SANDBOX_MODES, 'off');
+  v.enumOf('LOCAL_LLM_SANDBOX_NETWORK', ['true', 'false'] as const, 'false');
+  v.int('LOCAL_LLM_SANDBOX_CPU_SECONDS', DEFAULT_SANDBOX_CPU_SECONDS, { min: 1 });
+  v.int('LOCAL_LLM_SANDBOX_MEMORY_MB', DEFAULT_SANDBOX_MEMORY_MB, { min: 64 });
+  {
+    const fallbacks = process.env.LOCAL_LLM_FALLBACK_ENDPOINTS?.trim();
+    if (fallbacks) {
+      try {
+        parseFallbackEndpoints(fallbacks, { baseUrl: '', model: '', provider: 'auto' });
+      } catch (err) {
+        v.issue(
+          'LOCAL_LLM_FALLBACK_ENDPOINTS',
+          fallbacks,
+          `${err instanceof Error ? err.message : String(err)}。フォールバックなしで起動します`
+        );
+      }
+    }
+  }
+
+  // DAILY_BUDGET は BackendResolver で直接参照されるが、typo 検出のためここで検証する
+  {
+    const budget = process.env.DAILY_BUDGET?.trim();
+    if (budget) {
+      const { error } = parseBudgetEnv(budget);
+      if (error) v.issue('DAILY_BUDGET', budget, `${error}。全体の日次予算なしで起動します`);
+    }
+  }
 
-  // XANGI_HOOKS_ENABLED / XANGI_HOOKS_FILE は hooks.ts で直接参照されるが、typo 検出のためここで検証する
+  // XANGI_HOOKS_ENABLED / XANGI_HOOKS_FILE / XANGI_STOP_HOOK_MAX_ROUNDS は hooks.ts で直接参照されるが、
+  // typo 検出のためここで検証する
   v.enumOf('XANGI_HOOKS_ENABLED', ['true', 'false'] as const, 'true');
+  v.int('XANGI_STOP_HOOK_MAX_ROUNDS', DEFAULT_STOP_HOOK_MAX_ROUNDS, {
+    min: 1,
+    max: MAX_STOP_HOOK_ROUNDS,
+  });
   {
     const hooksFile = process.env.XANGI_HOOKS_FILE?.trim();
     if (hooksFile && !fs.existsSync(hooksFile)) {
@@ -247,6 +299,41 @@ export function loadConfig(): Config {
     }
   }
 
+  // APPROVAL_POLICY_FILE は approval.ts で直接参照されるが、typo 検出のためここで検証する
+  {
+    const policyFile = process.env.APPROVAL_POLICY_FILE?.trim();
+    if (policyFile && !fs.existsSync(policyFile)) {
+      v.issue(
+        'APPROVAL_POLICY_FILE',
+        policyFile,
+        'ファイルが存在しません。既定の承認ルールだけで起動します'
+      );
+    }
+  }
+
+  // APPROVAL_GRANT_HOURS は approval-grants.ts で直接参照されるが、typo 検出のためここで検証する
+  v.int('APPROVAL_GRANT_HOURS', DEFAULT_APPROVAL_GRANT_HOURS, {
+    min: 1,
+    max: MAX_APPROVAL_GRANT_HOURS,
+  });
+
+  // WEB_CHAT_SESSION_HOURS も web-auth.ts で直接参照される。typo 検出のためここで検証する
+  v.int('WEB_CHAT_SESSION_HOURS', DEFAULT_WEB_SESSION_HOURS, {
+    min: 1,
+    max: MAX_WEB_SESSION_HOURS,
+  });
+
+  // XANGI_EVENTS_WEBHOOK_* も events-webhook.ts で直接参照される。typo 検出のためここで検証する
+  v.int('XANGI_EVENTS_WEBHOOK_BATCH_SIZE', DEFAULT_EVENTS_WEBHOOK_BATCH_SIZE, {
+    min: 1,
+    max: MAX_EVENTS_WEBHOOK_BATCH_SIZE,
+  });
+  v.int('XANGI_EVENTS_WEBHOOK_FLUSH_MS', DEFAULT_EVENTS_WEBHOOK_FLUSH_MS, { min: 0 });
+  v.int('XANGI_EVENTS_WEBHOOK_MAX_RETRIES', DEFAULT_EVENTS_WEBHOOK_MAX_RETRIES, {
+    min: 0,
+    max: MAX_EVENTS_WEBHOOK_MAX_RETRIES,
+  });
+
   const allowedModelsRaw = process.env.ALLOWED_MODELS;
   const allowedModels: string[] | undefined = allowedModelsRaw
     ? allowedModelsRaw
@@ -33,6 +33,7 @@ export class CursorRunner extends CliRunnerBase {
   protected readonly command = 'cursor-agent';
   protected readonly displayName = 'Cursor CLI';
   protected readonly logPrefix = 'cursor';
+  protected readonly backend = 'cursor' as const;
 
   private force: boolean;
   private trustWorkspace: boolean;
@@ -84,7 +85,7 @@ export class CursorRunner extends CliRunnerBase {
   }
 
   async run(prompt: string, options?: RunOptions): Promise<RunResult> {
-    const fullPrompt = this.buildFullPrompt(prompt);
+    const fullPrompt = this.buildFullPrompt(await this.applyPromptHooks(prompt, options));
     const args = [...this.buildBaseArgs(options), '-p', fullPrompt, '--output-format', 'json'];
 
     this.logExecution('Executing', options);
@@ -155,7 +156,7 @@ export class CursorRunner extends CliRunnerBase {
     callbacks: StreamCallbacks,
     options?: RunOptions
   ): Promise<RunResult> {
-    const fullPrompt = this.buildFullPrompt(prompt);
+    const fullPrompt = this.buildFullPrompt(await this.applyPromptHooks(prompt, options));
     const args = [
       ...this.buildBaseArgs(options),
       '-p',
@@ -0,0 +1,67 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, type Client } from 'discord.js';
+import type { Config } from '../config.js';
+import {
+  APPROVAL_COMMAND_PREVIEW_MAX,
+  approvalScopeLabel,
+  registerApprovalSender,
+  setDefaultApprovalTarget,
+} from '../approval.js';
+import { APPROVAL_SCOPES, type ApprovalScope } from '../approval-grants.js';
+
+/**
+ * 承認リクエストを Discord のボタン付きメッセージで送る送信関数を登録する。
+ * Discord ログイン後に一度だけ呼ぶ。
+ *
+ * 送り先が解決できない承認リクエスト（スケジューラ実行や providerSessionId 確定前の
+ * 初回ターン等）は最初の auto-reply チャンネルに送る。
+ * ボタンの応答は slash-commands.ts の `xangi_approve_` / `xangi_deny_` で処理する。
+ */
+export function registerDiscordApprovalSender(client: Client, config: Config): void {
+  registerApprovalSender('discord', async ({ id, target, danger }) => {
+    const channel = await client.channels.fetch(target.channelId);
+    if (!channel || !('send' in channel)) {
+      throw new Error(`Channel not found: ${target.channelId}`);
+    }
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      ...APPROVAL_SCOPES.map((scope) =>
+        new ButtonBuilder()
+          .setCustomId(scope === 'once' ? `xangi_approve_${id}` : `xangi_approve_${scope}_${id}`)
+          .setLabel(approvalScopeLabel(scope))
+          .setStyle(scope === 'once' ? ButtonStyle.Success : ButtonStyle.Secondary)
+      ),
+      new ButtonBuilder()
+        .setCustomId(`xangi_deny_${id}`)
+        .setLabel('拒否')
+        .setStyle(ButtonStyle.Danger)
+    );
+    await (channel as unknown as { send: (opts: unknown) => Promise<unknown> }).send({
+      content: `⚠️ **危険なコマンドを検知**\n\`\`\`\n${danger.command.slice(0, APPROVAL_COMMAND_PREVIEW_MAX)}\n\`\`\`\n${danger.matches.join(', ')}\n\n2分以内に応答がなければ自動拒否`,
+      components: [row],
+    });
+  });
+
+  const fallbackChannelId = config.discord.autoReplyChannels?.[0];
+  if (fallbackChannelId) {
+    setDefaultApprovalTarget({ platform: 'discord', channelId: fallbackChannelId });
+  }
+}
+
+/**
+ * 承認ボタンの customId（`xangi_approve_[session_|channel_]<id>` / `xangi_deny_<id>`）を解釈する。
+ * 承認ボタンでなければ null。
+ */
+export function parseApprovalCustomId(
+  customId: string
+): { approvalId: string; approved: boolean; scope: ApprovalScope } | null {
+  if (customId.startsWith('xangi_deny_')) {
+    return { approvalId: customId.slice('xangi_deny_'.length), approved: false, scope: 'once' };
+  }
+  if (!customId.startsWith('xangi_approve_')) return null;
+  const rest = customId.slice('xangi_approve_'.length);
+  for (const scope of APPROVAL_SCOPES) {
+    if (scope !== 'once' && rest.startsWith(`${scope}_`)) {
+      return { approvalId: rest.slice(scope.length + 1), approved: true, scope };
+    }
+  }
+  return { approvalId: rest, approved: true, scope: 'once' };
+}
@@ -15,10 +15,17 @@ import { getBackendDisplayName, type AgentRunner } from '../agent-runner.js';
 import type { BackendResolver } from '../backend-resolver.js';
 import type { DynamicRunnerManager } from '../dynamic-runner.js';
 import { ClaudeCodeRunner } from '../claude-code.js';
-import { formatAgentErrorForUser } from '../errors.js';
+import { ValidationError, formatAgentErrorForUser } from '../errors.js';
 import { processManager } from '../process-manager.js';
-import { resolveApproval } from '../approval.js';
-import { loadSkills, formatSkillList, type Skill } from '../skills.js';
+import { APPROVAL_EXPIRED_TEXT, formatApprovalResult, resolveApproval } from '../approval.js';
+import { reloadSkills } from '../skill-registry.js';
+import { formatSkillList, formatSkillUsage, type Skill, type SkillArgument } from '../skills.js';
+import {
+  findSkill,
+  prepareSkillInvocation,
+  runSkill,
+  suggestSkillArguments,
+} from '../skill-runner.js';
 import {
   getChannelCompletionNotifyMode,
   loadSettings,
@@ -38,7 +45,24 @@ import {
   type Platform,
   type ScheduleType,
 } from '../scheduler.js';
+import { formatScheduleHistory } from '../schedule-history.js';
+import {
+  USAGE_DEFAULT_DAYS,
+  USAGE_RETENTION_DAYS,
+  formatUsageSummary,
+  getTokenUsageDataDir,
+  loadUsageSummary,
+  type UsageGroupBy,
+} from '../token-usage.js';
 import { discordToolHistoryByMessageId } from './ui.js';
+import { parseApprovalCustomId } from './approval-ui.js';
+import { resolveSandboxMode } from '../local-llm/sandbox.js';
+import {
+  formatApprovalGrants,
+  getApprovalGrantsDataDir,
+  readApprovalGrants,
+  revokeApprovalGrants,
+} from '../approval-grants.js';
 
 /** スキル一覧を保持する可変参照。`/skills` での再読込を呼び出し元と共有する */
 export interface SkillsRef {
@@ -46,6 +70,8 @@ export interface SkillsRef {
 }
 
 const DISCORD_APPLICATION_COMMAND_LIMIT = 100;
+/** /schedule history で表示する履歴件数 */
+const SCHEDULE_HISTORY_DISPLAY_LIMIT = 10;
 
 const BACKEND_CHOICE_LABELS: Record<AgentBackend, string> = {
   'claude-code': 'Claude Code',
@@ -73,6 +99,58 @@ function skillCommandName(skillName: string): string {
     .slice(0, 32);
 }
 
+/** Discord のコマンドオプション名（小文字英数字・ハイフン・アンダースコア、最大32文字） */
+const DISCORD_OPTION_NAME_PATTERN = /^[-_a-z0-9]{1,32}$/;
+/** Discord の 1 コマンドあたりのオプション数・choices 数の上限 */
+const DISCORD_OPTION_LIMIT = 25;
+
+/**
+ * 個別スキルコマンドで引数ごとのオプションを作れるか
+ * （名前が Discord のオプション名として使えて、数が上限以内）。
+ * 作れないスキルは従来どおり args 1 個で受ける
+ */
+function hasTypedSkillOptions(skill: Skill): skill is Skill & { arguments: SkillArgument[] } {
+  const args = skill.arguments;
+  return (
+    !!args &&
+    args.length > 0 &&
+    args.length <= DISCORD_OPTION_LIMIT &&
+    args.every((a) => DISCORD_OPTION_NAME_PATTERN.test(a.name))
+  );
+}
+
+/** 個別スキルコマンドのオプションを組み立てる（Discord の制約で必須オプションが先） */
+function addSkillOptions(builder: SlashCommandBuilder, skill: Skill): SlashCommandBuilder {
+  if (!hasTypedSkillOptions(skill)) {
+    builder.addStringOption((option) =>
+      option.setName('args').setDescription('引数（任意）').setRequired(false)
+    );
+    return builder;
+  }
+  const ordered = [...skill.arguments].sort((a, b) => Number(b.required) - Number(a.required));
+  for (const arg of ordered) {
+    const description = (arg.description || arg.name).slice(0, 100);
+    if (arg.type === 'number') {
+      builder.addNumberOption((option) =>
+        option.setName(arg.name).setDescription(description).setRequired(arg.required)
+      );
+    } else if (arg.type === 'boolean') {
+      builder.addBooleanOption((option) =>
+        option.setName(arg.name).setDescription(description).setRequired(arg.required)
+      );
+    } else {
+      builder.addStringOption((option) => {
+        option.setName(arg.name).setDescription(description).setRequired(arg.required);
+        if (arg.choices && arg.choices.length <= DISCORD_OPTION_LIMIT) {
+          option.addChoices(...arg.choices.map((c) => ({ name: c, value: c })));
+        }
+        return option;
+      });
+    }
+  }
+  return builder;
+}
+
 /** スケジュール一覧をDiscord向けに分割する */
 function splitScheduleContent(content: string, maxLength: number): string[] {
   const sep = '\n' + SCHEDULE_SEPARATOR + '\n';
@@ -83,12 +161,14 @@ function splitScheduleContent(content: string, maxLength: number): string[] {
 /** スケジュールタイプに応じたラベルを生成 */
 function getTypeLabel(
   type: ScheduleType,
-  options: { expression?: string; runAt?: string; channelInfo?: string }
+  options: { expression?: string; runAt?: string; after?: string; channelInfo?: string }
 ): string {
   const channelInfo = options.channelInfo || '';
   switch (type) {
     case 'cron':
       return `🔄 繰り返し: \`${options.expression}\`${channelInfo}`;
+    case 'after':
+      return `🔗 \`${options.after}\` の完了後に実行${channelInfo}`;
     case 'startup':
       return `🚀 起動時に実行${channelInfo}`;
     case 'once':
@@ -119,9 +199,45 @@ export function buildSlashCommands(
       .addStringOption((option) =>
         option.setName('name').setDescription('スキル名').setRequired(true).setAutocomplete(true)
       )
-      .addStringOption((option) => option.setName('args').setDescription('引数').setRequired(false))
+      .addStringOption((option) =>
+        option.setName('args').setDescription('引数').setRequired(false).setAutocomplete(true)
+      )
       .toJSON(),
     new SlashCommandBuilder().setName('settings').setDescription('現在の設定を表示する').toJSON(),
+    new SlashCommandBuilder()
+      .setName('usage')
+      .setDescription('トークン使用量を表示する')
+      .addStringOption((option) =>
+        option
+          .setName('by')
+          .setDescription('集計単位（デフォルト: 日別）')
+          .addChoices(
+            { name: '日別', value: 'day' },
+            { name: 'backend 別', value: 'backend' },
+            { name: 'チャンネル別', value: 'channel' },
+            { name: 'セッション別', value: 'session' }
+          )
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName('days')
+          .setDescription(`集計する日数（デフォルト: ${USAGE_DEFAULT_DAYS}）`)
+          .setMinValue(1)
+          .setMaxValue(USAGE_RETENTION_DAYS)
+      )
+      .addBooleanOption((option) =>
+        option
+          .setName('all')
+          .setDescription('全チャンネルを集計する（デフォルト: このチャンネルのみ）')
+      )
+      .toJSON(),
+    new SlashCommandBuilder()
+      .setName('approvals')
+      .setDescription('このチャンネルで記憶している承認を表示・取り消す')
+      .addStringOption((option) =>
+        option.setName('revoke').setDescription('取り消す承認の ID（all で全件）')
+      )
+      .toJSON(),
     new SlashCommandBuilder()
       .setName('notify')
       .setDescription('このチャンネルの完了通知を設定する')
@@ -178,6 +294,14 @@ export function buildSlashCommands(
             opt.setName('id').setDescription('スケジュールID').setRequired(true)
           )
       )
+      .addSubcommand((sub) =>
+        sub
+          .setName('history')
+          .setDescription('スケジュールの実行履歴を表示')
+          .addStringOption((opt) =>
+            opt.setName('id').setDescription('スケジュールID').setRequired(true)
+          )
+      )
       .toJSON(),
     new SlashCommandBuilder()
       .setName('backend')
@@ -275,13 +399,12 @@ export function buildSlashCommands(
 
     if (cmdName) {
       commands.push(
-        new SlashCommandBuilder()
-          .setName(cmdName)
-          .setDescription(skill.description.slice(0, 100) || `${skill.name}スキルを実行`)
-          .addStringOption((option) =>
-            option.setName('args').setDescription('引数（任意）').setRequired(false)
-          )
-          .toJSON()
+        addSkillOptions(
+          new SlashCommandBuilder()
+            .setName(cmdName)
+            .setDescription(skill.description.slice(0, 100) || `${skill.name}スキルを実行`),
+          skill
+        ).toJSON()
       );
     }
   }
@@ -298,7 +421,16 @@ async function handleAutocomplete(
   interaction: AutocompleteInteraction,
   skills: Skill[]
 ): Promise<void> {
-  const focusedValue = interaction.options.getFocused().toLowerCase();
+  const focused = interaction.options.getFocused(true);
+
+  // /skill の args: 選択中のスキルの引数を 1 つずつ補完する
+  if (interaction.commandName === 'skill' && focused.name === 'args') {
+    const skill = findSkill(skills, interaction.options.getString('name') ?? '');
+    await interaction.respond(skill ? suggestSkillArguments(skill, focused.value) : []);
+    return;
+  }
+
+  const focusedValue = focused.value.toLowerCase();
 
   const filtered = skills
     .filter(
@@ -315,31 +447,67 @@ async function handleAutocomplete(
   await interaction.respond(filtered);
 }
 
+/**
+ * 個別スキルコマンドの引数を `name=value` の文字列にまとめる
+ * （/skill の args と同じ経路で検証するため）
+ */
+function collectSkillOptionArgs(interaction: ChatInputCommandInteraction, skill: Skill): string {
+  if (interaction.commandName === 'skill' || !hasTypedSkillOptions(skill)) {
+    return interaction.options.getString('args') || '';
+  }
+  return skill.arguments
+    .flatMap((arg) => {
+      const value = interaction.options.get(arg.name)?.value;
+      if (value === undefined || value === null) return [];
+      const text = String(value);
+      return [`${arg.name}=${/\s/.test(text) ? `"${text.replace(/"/g, '')}"` : text}`];
+    })
+    .join(' ');
+}
+
 /** スキル実行プロンプトをエージェントに投げて結果を返信する（/skill と個別スキルコマンド共通） */
 async function handleSkillCommand(
   interaction: ChatInputCommandInteraction,
   agentRunner: AgentRunner,
   config: Config,
   channelId: string,
+  skills: Skill[],
   skillName: string
 ) {
-  const args = interaction.options.getString('args') || '';
+  const skill = findSkill(skills, skillName);
+  const args = skill
+    ? collectSkillOptionArgs(interaction, skill)
+    : interaction.options.getString('args') || '';
   const skipPermissions = config.agent.config.skipPermissions ?? false;
 
+  let invocation;
+  try {
+    invocation = prepareSkillInvocation(skills, skillName, args);
+  } catch (error) {
+    if (!(error instanceof ValidationError) || !skill) throw error;
+    await interaction.reply({
+      content: `❌ ${error.message}\n使い方: \`${formatSkillUsage(skill)}\``,
+      ephemeral: true,
+    });
+    return;
+  }
+
   await interaction.deferReply();
 
   try {
-    const prompt = `スキル「${skillName}」を実行してください。${args ? `引数: ${args}` : ''}`;
-    const sessionId = getSession(channelId);
-    const appSessionId = ensureSession(channelId, { platform: 'discord' });
-    const { result, sessionId: newSessionId } = await agentRunner.run(prompt, {
+    // マニフェストで backend / model / allowed-tools を指定したスキルは会話セッションを使わない
+    const sessionId = invocation.isolated ? undefined : getSession(channelId);
+    const appSessionId = invocation.isolated
+      ? undefined
+      : ensureSession(channelId, { platform: 'discord' });
+    const { result, sessionId: newSessionId } = await runSkill(agentRunner, invocation, {
       skipPermissions,
       sessionId,
       channelId,
       appSessionId,
     });
 
-    setSession(channelId, newSessionId);
+    if (!invocation.isolated) setSession(channelId, newSessionId);
     const chunks = splitMessage(result, DISCORD_SAFE_LENGTH);
     await interaction.editReply(chunks[0] || '✅');
     for (let i = 1; i < chunks.length; i++) {
@@ -347,7 +515,9 @@ async function handleSkillCommand(
     }
   } catch (error) {
     console.error('[xangi] Error:', error);
-    await interaction.editReply('エラーが発生しました');
+    await interaction
+      .editReply(formatAgentErrorForUser(error, { timeoutMs: invocation.timeoutMs }))
+      .catch(() => {});
   }
 }
 
@@ -379,17 +549,22 @@ async function handleScheduleCommand(
       }
 
       try {
-        const targetChannel = parsed.targetChannelId || channelId;
+        const { targetChannelId, targetPlatform, ...rest } = parsed;
         const schedule = scheduler.add({
-          ...parsed,
-          channelId: targetChannel,
-          platform: 'discord' as Platform,
+          ...rest,
+          channelId: targetChannelId || channelId,
+          platform: targetPlatform || ('discord' as Platform),
         });
 
-        const channelInfo = parsed.targetChannelId ? ` → <#${parsed.targetChannelId}>` : '';
+        const channelInfo = targetPlatform
+          ? ` → ${targetPlatform}:${targetChannelId}`
+          : targetChannelId
+            ? ` → <#${targetChannelId}>`
+            : '';
         const typeLabel = getTypeLabel(schedule.type, {
           expression: schedule.expression,
           runAt: schedule.runAt,
+          after: schedule.after,
           channelInfo,
         });
 
@@ -423,10 +598,17 @@ async function handleScheduleCommand(
 
     case 'remove': {
       const id = interaction.options.getString('id', true);
-      const removed = scheduler.remove(id);
-      await interaction.reply(
-        removed ? `🗑️ スケジュール \`${id}\` を削除しました` : `❌ ID \`${id}\` が見つかりません`
-      );
+      try {
+        const removed = scheduler.remove(id);
+        await interaction.reply(
+          removed ? `🗑️ スケジュール \`${id}\` を削除しました` : `❌ ID \`${id}\` が見つかりません`
+        );
+      } catch (error) {
+        await interaction.reply({
+          content: `❌ ${error instanceof Error ? error.message : 'エラーが発生しました'}`,
+          ephemeral: true,
+        });
+      }
       return;
     }
 
@@ -441,6 +623,21 @@ async function handleScheduleCommand(
       }
       return;
     }
+
+    case 'history': {
+      const id = interaction.options.getString('id', true);
+      const runs = scheduler.history(id, SCHEDULE_HISTORY_DISPLAY_LIMIT);
+      if (runs.length === 0 && !scheduler.get(id)) {
+        await interaction.reply(`❌ ID \`${id}\` が見つかりません`);
+        return;
+      }
+      const chunks = splitMessage(formatScheduleHistory(id, runs), DISCORD_SAFE_LENGTH);
+      await interaction.reply(chunks[0]);
+      for (let i = 1; i < chunks.length; i++) {
+        await interaction.followUp(chunks[i]);
+      }
+      return;
+    }
   }
 }
 
@@ -556,16 +753,21 @@ export function createInteractionHandler(
       }
 
       // 承認ボタン
-      if (interaction.customId.startsWith('xangi_approve_')) {
-        const approvalId = interaction.customId.replace('xangi_approve_', '');
-        resolveApproval(approvalId, true);
-        await interaction.update({ content: '✅ 許可しました', components: [] }).catch(() => {});
-        return;
-      }
-      if (interaction.customId.startsWith('xangi_deny_')) {
-        const approvalId = interaction.customId.replace('xangi_deny_', '');
-        resolveApproval(approvalId, false);
-        await interaction.update({ content: '❌ 拒否しました', components: [] }).catch(() => {});
+      const approvalButton = parseApprovalCustomId(interaction.customId);
+      if (approvalButton) {
+        const { approvalId, approved, scope } = approvalButton;
+        const resolved = resolveApproval(
+          approvalId,
+          approved,
+          `discord:${interaction.user.id}`,
+          scope
+        );
+        await interaction
+          .update({
+            content: resolved ? formatApprovalResult(approved, scope) : APPROVAL_EXPIRED_TEXT,
+            components: [],
+          })
+          .catch(() => {});
         return;
       }
 
@@ -610,6 +812,48 @@ export function createInteractionHandler(
       return;
     }
 
+    if (interaction.commandName === 'usage') {
+      const dataDir = getTokenUsageDataDir();
+      if (!dataDir) {
+        await interaction.reply({ content: 'トークン使用量の記録が無効です', ephemeral: true });
+        return;
+      }
+      const all = interaction.options.getBoolean('all') ?? false;
+      const summary = loadUsageSummary(dataDir, {
+        groupBy: (interaction.options.getString('by') as UsageGroupBy | null) ?? 'day',
+        days: interaction.options.getInteger('days') ?? USAGE_DEFAULT_DAYS,
+        channelId: all ? undefined : channelId,
+      });
+      const text = formatUsageSummary(summary, all ? '全チャンネル' : `<#${channelId}>`);
+      await interaction.reply(text.slice(0, DISCORD_MAX_LENGTH));
+      return;
+    }
+
+    if (interaction.commandName === 'approvals') {
+      const dataDir = getApprovalGrantsDataDir();
+      if (!dataDir) {
+        await interaction.reply({ content: '承認の記憶が無効です', ephemeral: true });
+        return;
+      }
+      const grants = readApprovalGrants(dataDir).filter(
+        (g) => g.platform === 'discord' && g.channelId === channelId
+      );
+      const revoke = interaction.options.getString('revoke')?.trim();
+      if (!revoke) {
+        await interaction.reply(formatApprovalGrants(grants).slice(0, DISCORD_MAX_LENGTH));
+        return;
+      }
+      // 他チャンネルの記憶は取り消さない（all もこのチャンネル分のみ）
+      const targets = grants.filter((g) => revoke === 'all' || g.id === revoke);
+      const revoked = targets.reduce((n, g) => n + revokeApprovalGrants(dataDir, g.id), 0);
+      await interaction.reply(
+        revoked > 0
+          ? `🗑️ 承認の記憶を ${revoked} 件取り消しました`
+          : `承認の記憶が見つかりません: \`${revoke}\``
+      );
+      return;
+    }
+
     if (interaction.commandName === 'notify') {
       const mode = interaction.options.getString('mode', true) as
         | DiscordCompletionNotifyMode
@@ -1046,6 +1290,7 @@ export function createInteractionHandler(
           `- model: ${resolved.model ? `\`${resolved.model}\`` : '(env デフォルト)'}`,
           `- 起動時 env \`LOCAL_LLM_MODE\`: \`${envMode || '(未指定 → agent)'}\``,
           `- チャンネル override (\`localLlmMode\`): ${current?.localLlmMode ? `\`${current.localLlmMode}\`` : 'なし'}`,
+          `- exec サンドボックス: \`${resolveSandboxMode(resolved.localLlmSandbox)}\`${resolved.localLlmSandbox ? ' (チャンネル override)' : ''}`,
           ``,
           `### モード別の機能`,
           `- \`agent\`: tools / skills / xangi-commands ON、triggers OFF`,
@@ -1086,15 +1331,22 @@ export function createInteractionHandler(
     }
 
     if (interaction.commandName === 'skills') {
-      // スキルを再読み込み
-      skillsRef.current = loadSkills(workdir);
+      // スキルを再読み込み（変更があればスラッシュコマンドも登録し直される）
+      skillsRef.current = reloadSkills(workdir);
       await interaction.reply(formatSkillList(skillsRef.current));
       return;
     }
 
     if (interaction.commandName === 'skill') {
       const skillName = interaction.options.getString('name', true);
-      await handleSkillCommand(interaction, agentRunner, config, channelId, skillName);
+      await handleSkillCommand(
+        interaction,
+        agentRunner,
+        config,
+        channelId,
+        skillsRef.current,
+        skillName
+      );
       return;
     }
 
@@ -1104,7 +1356,14 @@ export function createInteractionHandler(
     );
 
     if (matchedSkill) {
-      await handleSkillCommand(interaction, agentRunner, config, channelId, matchedSkill.name);
+      await handleSkillCommand(
+        interaction,
+        agentRunner,
+        config,
+        channelId,
+        skillsRef.current,
+        matchedSkill.name
+      );
       return;
     }
   };
@@ -3,6 +3,7 @@ import type {
   AgentRunner,
   RunOptions,
   RunResult,
+  SkillRunOptions,
   StreamCallbacks,
   TimeoutState,
   ExtendTimeoutResult,
@@ -18,6 +19,22 @@ import {
   setProviderSessionId,
 } from './sessions.js';
 import type { ChatPlatform } from './prompts/index.js';
+import { recordTokenUsage } from './token-usage.js';
+import { BudgetExceededError } from './errors.js';
+
+/** 予算の警告を応答の末尾に添える（全プラットフォームで同じ見え方にするため本文に足す） */
+function withBudgetNotice(result: RunResult, notice: string | undefined): RunResult {
+  if (!notice) return result;
+  return { ...result, result: `${result.result}\n\n${notice}` };
+}
+
+/** allowed-tools を実行時に効かせられる backend */
+const TOOL_RESTRICTABLE_BACKENDS = new Set(['claude-code', 'local-llm']);
+
+/** マニフェストで backend / model / allowed-tools を指定したスキルか */
+function isManifestSkill(skill: SkillRunOptions | undefined): skill is SkillRunOptions {
+  return !!skill && (!!skill.backend || !!skill.model || !!skill.allowedTools);
+}
 
 /**
  * チャンネルごとにバックエンドを動的に切り替えるランナーマネージャー
@@ -40,6 +57,12 @@ export class DynamicRunnerManager extends EventEmitter implements AgentRunner {
   /** チャンネル別に生成したランナー（デフォルトと異なるバックエンドの場合） */
   private channelRunners = new Map<string, { runner: AgentRunner; key: string }>();
 
+  /** スキル実行用の非 persistent ランナー（backend:model:platform ごとに共有） */
+  private skillRunners = new Map<string, AgentRunner>();
+
+  /** 実行中のスキル（cancel をスキル用ランナーに届けるため。channelId → ランナー） */
+  private activeSkillRuns = new Map<string, AgentRunner>();
+
   constructor(config: Config, resolver: BackendResolver) {
     super();
     this.config = config;
@@ -152,6 +175,97 @@ export class DynamicRunnerManager extends EventEmitter implements AgentRunner {
     });
   }
 
+  /**
+   * マニフェスト付きスキルは、チャンネルの常駐ランナーとは別の非 persistent ランナーで実行する。
+   * Claude Code の --tools は起動時の引数なので、常駐プロセスのままでは切り替えられないため
+   */
+  private getSkillRunner(
+    skill: SkillRunOptions,
+    resolved: ResolvedBackend,
+    platform?: ChatPlatform
+  ): AgentRunner {
+    const allowedBackends = this.config.agent.allowedBackends;
+    if (skill.backend && allowedBackends && !allowedBackends.includes(skill.backend)) {
+      throw new Error(
+        `Skill "${skill.name}" requests backend ${skill.backend}, which is not allowed`
+      );
+    }
+    if (skill.allowedTools && !TOOL_RESTRICTABLE_BACKENDS.has(resolved.backend)) {
+      throw new Error(
+        `Skill "${skill.name}" uses allowed-tools, which ${getBackendDisplayName(resolved.backend)} does not support`
+      );
+    }
+    const runnerPlatform = platform ?? this.platform;
+    const key = `${this.makeKey(resolved)}:${runnerPlatform ?? 'all'}`;
+    let runner = this.skillRunners.get(key);
+    if (!runner) {
+      runner = createAgentRunner(
+        resolved.backend,
+        {
+          ...this.config.agent.config,
+          model: resolved.model ?? this.config.agent.config.model,
+          persistent: false,
+        },
+        { platform: runnerPlatform }
+      );
+      this.attachTimeoutBubble(runner);
+      this.skillRunners.set(key, runner);
+      console.log(`[dynamic-runner] Created skill runner: ${key}`);
+    }
+    return runner;
+  }
+
+  /** スキルの backend / model を CHANNEL_OVERRIDES の解決結果に上書きする */
+  private applySkill(
+    resolved: ResolvedBackend,
+    skill: SkillRunOptions | undefined
+  ): ResolvedBackend {
+    if (!skill?.backend && !skill?.model) return resolved;
+    const backendChanged = !!skill.backend && skill.backend !== resolved.backend;
+    return {
+      ...resolved,
+      backend: skill.backend ?? resolved.backend,
+      // backend を変えたらチャンネルの model は引き継がない（別 backend のモデル名のため）
+      model: skill.model ?? (backendChanged ? undefined : resolved.model),
+    };
+  }
+
+  /**
+   * 解決・予算確認・ランナー選択・RunOptions の組み立て（run / runStream 共通）
+   */
+  private prepareRun(options: RunOptions | undefined): {
+    runner: AgentRunner;
+    resolved: ResolvedBackend;
+    runOptions: RunOptions | undefined;
+    notice?: string;
+    release: () => void;
+  } {
+    const channelId = options?.channelId;
+    const skill = options?.skill;
+    const { resolved, notice } = this.applyBudget(
+      channelId,
+      this.applySkill(this.resolver.resolve(channelId, this.getRequestDefault(options)), skill)
+    );
+    const runner = isManifestSkill(skill)
+      ? this.getSkillRunner(skill, resolved, options?.platform)
+      : this.getRunner(channelId, resolved, options?.platform);
+
+    // effort / localLlmMode をオプションに注入（resolved 由来）
+    const runOptions = this.injectResolvedFields(
+      this.dropMismatchedProviderSession(options, resolved),
+      resolved
+    );
+
+    if (!isManifestSkill(skill) || !channelId) {
+      return { runner, resolved, runOptions, notice, release: () => {} };
+    }
+    this.activeSkillRuns.set(channelId, runner);
+    const release = () => {
+      if (this.activeSkillRuns.get(channelId) === runner) this.activeSkillRuns.delete(channelId);
+    };
+    return { runner, resolved, runOptions, notice, release };
+  }
+
   private makeKey(resolved: ResolvedBackend): string {
     return `${resolved.backend}:${resolved.model ?? 'default'}`;
   }
@@ -176,19 +290,17 @@ export class DynamicRunnerManager extends EventEmitter implements AgentRunner {
    * リクエストを実行
    */
   async run(prompt: string, options?: RunOptions): Promise<RunResult> {
-    const channelId = options?.channelId;
-    const resolved = this.resolver.resolve(channelId, this.getRequestDefault(options));
-    const runner = this.getRunner(channelId, resolved, options?.platform);
-
-    // effort / localLlmMode をオプションに注入（resolved 由来）
-    const runOptions = this.injectResolvedFields(
-      this.dropMismatchedProviderSession(options, resolved),
-      resolved
-    );
+    const { runner, resolved, runOptions, notice, release } = this.prepareRun(options);
 
-    const result = await runner.run(prompt, runOptions);
+    let result: RunResult;
+    try {
+      result = await runner.run(prompt, runOptions);
+    } finally {
+      release();
+    }
     this.recordResolvedBackend(runOptions, resolved, result);
-    return result;
+    this.recordUsage(runOptions, resolved, result);
+    return withBudgetNotice(result, notice);
   }
 
   /**
@@ -199,18 +311,39 @@ export class DynamicRunnerManager extends EventEmitter implements AgentRunner {
     callbacks: StreamCallbacks,
     options?: RunOptions
   ): Promise<RunResult> {
-    const channelId = options?.channelId;
-    const resolved = this.resolver.resolve(channelId, this.getRequestDefault(options));
-    const runner = this.getRunner(channelId, resolved, options?.platform);
-
-    const runOptions = this.injectResolvedFields(
-      this.dropMismatchedProviderSession(options, resolved),
-      resolved
-    );
+    const { runner, resolved, runOptions, notice, release } = this.prepareRun(options);
 
-    const result = await runner.runStream(prompt, callbacks, runOptions);
+    let result: RunResult;
+    try {
+      result = await runner.runStream(prompt, callbacks, runOptions);
+    } finally {
+      release();
+    }
     this.recordResolvedBackend(runOptions, resolved, result);
-    return result;
+    this.recordUsage(runOptions, resolved, result);
+    return withBudgetNotice(result, notice);
+  }
+
+  /**
+   * 日次予算を確認する。hard 到達時は振り替え先の resolved を返すか、
+   * 振り替え先が無ければ BudgetExceededError を投げてターンを実行しない
+   */
+  private applyBudget(
+    channelId: string | undefined,
+    resolved: ResolvedBackend
+  ): { resolved: ResolvedBackend; notice?: string } {
+    const decision = this.resolver.checkBudget(channelId, resolved);
+    switch (decision.action) {
+      case 'refuse':
+        console.warn(
+          `[dynamic-runner] Refusing turn for ${channelId ?? '(no channel)'}: ${decision.reason}`
+        );
+        throw new BudgetExceededError(decision.reason);
+      case 'downgrade':
+        return { resolved: decision.resolved, notice: decision.notice };
+      case 'allow':
+        return { resolved, notice: decision.notice };
+    }
   }
 
   private dropMismatchedProviderSession(
@@ -251,7 +384,26 @@ export class DynamicRunnerManager extends EventEmitter implements AgentRunner {
   }
 
   /**
-   * resolved の effort / localLlmMode を RunOptions にマージする
+   * backend が報告したトークン使用量を、解決済みの backend / model と一緒に記録する。
+   * usage を返さない backend もターン数（予算のターン上限）のために記録する
+   */
+  private recordUsage(
+    options: RunOptions | undefined,
+    resolved: ResolvedBackend,
+    result: RunResult
+  ): void {
+    recordTokenUsage({
+      ...(result.usage ?? { inputTokens: 0, outputTokens: 0, unreported: true }),
+      backend: resolved.backend,
+      model: resolved.model,
+      channelId: options?.channelId,
+      appSessionId: options?.appSessionId,
+      platform: options?.platform ?? this.platform,
+    });
+  }
+
+  /**
+   * resolved の effort / localLlmMode / localLlmSandbox を RunOptions にマージする
    * - 既存 options に明示的に指定があればそれを優先
    * - resolved.localLlmMode は Local LLM 以外のバックエンドでは無視されるが、害はない
    */
@@ -261,11 +413,14 @@ export class DynamicRunnerManager extends EventEmitter implements AgentRunner {
   ): RunOptions | undefined {
     const hasEffort = resolved.effort && (!options || options.effort === undefined);
     const hasMode = resolved.localLlmMode && (!options || options.localLlmMode === undefined);
-    if (!hasEffort && !hasMode) return options;
+    const hasSandbox =
+      resolved.localLlmSandbox && (!options || options.localLlmSandbox === undefined);
+    if (!hasEffort && !hasMode && !hasSandbox) return options;
     return {
       ...options,
       ...(hasEffort && { effort: resolved.effort }),
       ...(hasMode && { localLlmMode: resolved.localLlmMode }),
+      ...(hasSandbox && { localLlmSandbox: resolved.localLlmSandbox }),
     };
   }
 
@@ -274,6 +429,10 @@ export class DynamicRunnerManager extends EventEmitter implements AgentRunner {
    */
   cancel(channelId?: string): boolean {
     if (channelId) {
+      const skillRunner = this.activeSkillRuns.get(channelId);
+      if (skillRunner?.cancel?.(channelId)) {
+        return true;
+      }
       const channelEntry = this.channelRunners.get(channelId);
       if (channelEntry?.runner.cancel) {
         return channelEntry.runner.cancel(channelId);
@@ -387,6 +546,8 @@ export class DynamicRunnerManager extends EventEmitter implements AgentRunner {
       }
     }
     this.channelRunners.clear();
+    this.skillRunners.clear();
+    this.activeSkillRuns.clear();
 
     if (
       'shutdown' in this.defaultRunner &&
@@ -9,6 +9,32 @@ export class ValidationError extends Error {
   }
 }
 
+const BUDGET_EXCEEDED_PREFIX = 'Daily budget exceeded';
+
+/**
+ * 日次予算（BackendResolver.checkBudget）の hard limit 到達でターンを拒否したときのエラー。
+ * 振り替え先 backend が無い場合に DynamicRunnerManager が投げる。
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(`${BUDGET_EXCEEDED_PREFIX}: ${message}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const HOOK_BLOCKED_PREFIX = 'Blocked by hook';
+
+/**
+ * ワークスペース hooks（UserPromptSubmit）がプロンプトを拒否したときのエラー。
+ * ターンは backend に渡さずに終わる。
+ */
+export class HookBlockedError extends Error {
+  constructor(event: string, reason: string) {
+    super(`${HOOK_BLOCKED_PREFIX} (${event}): ${reason}`);
+    this.name = 'HookBlockedError';
+  }
+}
+
 /**
  * エージェント実行エラーの分類。
  * ランナー (CLI / Local LLM) から上がってくるエラーメッセージを種類別に判別し、
@@ -21,6 +47,8 @@ export type AgentErrorKind =
   | 'crash' // AI プロセスの予期しない終了
   | 'circuit-breaker' // 連続クラッシュによる一時停止
   | 'usage-limit' // バックエンドの利用上限到達（時間経過で回復）
+  | 'budget' // xangi 側の日次予算の上限到達（日付が変わるまで回復しない）
+  | 'hook-blocked' // ワークスペース hooks による拒否（同じ入力なら何度でも拒否される）
   | 'unknown';
 
 const CANCEL_MESSAGE = 'Request cancelled by user';
@@ -33,6 +61,8 @@ export function classifyAgentError(error: unknown): AgentErrorKind {
   if (msg.includes('Process exited unexpectedly')) return 'crash';
   if (msg.includes('Circuit breaker')) return 'circuit-breaker';
   if (/usage limit|hit your limit/i.test(msg)) return 'usage-limit';
+  if (msg.startsWith(BUDGET_EXCEEDED_PREFIX)) return 'budget';
+  if (msg.startsWith(HOOK_BLOCKED_PREFIX)) return 'hook-blocked';
   return 'unknown';
 }
 
@@ -56,6 +86,10 @@ export function formatAgentErrorForUser(error: unknown, opts?: { timeoutMs?: num
       return '🔌 AIプロセスが連続でクラッシュしたため一時停止中です。しばらくしてから再試行してください';
     case 'usage-limit':
       return `💳 バックエンドの利用上限に達しています: ${detail}`;
+    case 'budget':
+      return `🧮 本日の予算上限に達したため実行しませんでした: ${detail.replace(`${BUDGET_EXCEEDED_PREFIX}: `, '')}`;
+    case 'hook-blocked':
+      return `🪝 hook により実行しませんでした: ${detail.replace(/^Blocked by hook \([^)]*\): /, '')}`;
     case 'unknown':
     default:
       return `❌ エラーが発生しました: ${detail}`;
@@ -78,7 +112,8 @@ export function isTransientNetworkError(error: unknown): boolean {
 /**
  * エラー後にエージェントへ「途中経過の報告」フォローアップを送ってよいか。
  * - timeout / circuit-breaker: 壊れたセッションに負荷を重ねるだけなので不可
- * - usage-limit: フォローアップ自体が同じ上限に当たるので不可
+ * - usage-limit / budget: フォローアップ自体が同じ上限に当たるので不可
+ * - hook-blocked: フォローアップも同じ hook に拒否される
  * - cancelled: ユーザーが止めたものに追撃しない
  */
 export function shouldSendErrorFollowUp(error: unknown): boolean {
@@ -188,7 +188,7 @@ function cleanTerminalDelta(text: string): string {
   return cleanTerminalText(text, 0);
 }
 
-function isAuthorized(req: IncomingMessage): boolean {
+function isAuthorized(req: IncomingMessage, allowPrivateNetwork: boolean): boolean {
   const token = (
     process.env.XANGI_EVEN_TERMINAL_TOKEN ||
     process.env.XANGI_DEVICE_INBOX_TOKEN ||
@@ -196,7 +196,7 @@ function isAuthorized(req: IncomingMessage): boolean {
     ''
   ).trim();
 
-  if (!token) return isLocalOrPrivate(req.socket.remoteAddress);
+  if (!token) return allowPrivateNetwork && isLocalOrPrivate(req.socket.remoteAddress);
 
   const authHeader = (req.headers.authorization || '').trim();
   const queryToken = new URL(req.url || '/', 'http://xangi.local').searchParams.get('token') || '';
@@ -573,10 +573,15 @@ function listTerminalSessions(provider: 'claude' | 'codex', limit: number): unkn
   return all;
 }
 
+/**
+ * allowPrivateNetwork: false (Web Chat auth enabled) requires a token even from
+ * loopback / LAN / Tailscale when none of the device tokens is configured.
+ */
 export async function handleEvenTerminalRequest(
   req: IncomingMessage,
   res: ServerResponse,
-  agentRunner: AgentRunner
+  agentRunner: AgentRunner,
+  options: { allowPrivateNetwork?: boolean } = {}
 ): Promise<boolean> {
   const parsedUrl = new URL(req.url || '/', 'http://xangi.local');
   const path = parsedUrl.pathname;
@@ -613,7 +618,7 @@ export async function handleEvenTerminalRequest(
     return false;
   }
 
-  if (!isAuthorized(req)) {
+  if (!isAuthorized(req, options.allowPrivateNetwork !== false)) {
     terminalLog(`401 ${requestSummary(req, parsedUrl)}`);
     jsonResponse(res, 401, { error: 'Unauthorized' });
     return true;
@@ -8,22 +8,40 @@
  *
  * 設計方針:
  * - 操作的イベント (turn.started / message.delta / turn.complete / turn.aborted /
- *   agent.error) のみ流し、状態 (thinking/talking/idle) は consumer 側で派生させる。
+ *   agent.error、ツール実行・承認・セッションの作成とアーカイブ) のみ流し、
+ *   状態 (thinking/talking/idle) は consumer 側で派生させる。
  * - publish はベスト・エフォート: subscriber が例外を投げても他の subscriber は
  *   止めない。本業 (応答ストリーミング) を遅らせない。
  * - 設定は最初の publish 時に評価する (lazy)。.env / dotenv の読み込みより前に
  *   モジュールが import されても問題ないようにするため。
+ * - 各イベントに単調増加の `id` を振り、直近 XANGI_EVENTS_BUFFER_SIZE 件をリングバッファに
+ *   残す。consumer が再接続したとき `Last-Event-ID` から取りこぼしを再送するため。
+ *   XANGI_EVENTS_PERSIST=true なら DATA_DIR/events.jsonl にも書き、再起動後も続きの ID から振る。
+ *   書き込みは message.delta の流れを止めないよう、tick ごとにまとめて非同期で追記する。
+ *   ID は `epoch`（ID を振り直すたびに変わる世代）と組で意味を持ち、別の世代の ID や
+ *   バッファから溢れた ID からは再送できないことを getEventsSince の `reset` で知らせる。
  */
 
 import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { appendFile, mkdir, writeFile } from 'fs/promises';
 import { hostname } from 'os';
-import { join } from 'path';
+import { dirname, join } from 'path';
+import { sanitizeArgs } from './tool-trajectory/sanitize.js';
+
+/** 再送用に残すイベント数の既定値 */
+export const DEFAULT_EVENTS_BUFFER_SIZE = 1000;
+export const EVENTS_LOG_FILENAME = 'events.jsonl';
 
 interface ResolvedConfig {
   enabled: boolean;
   instanceId: string;
   hostHint: string;
   instanceIdSource: 'explicit' | 'auto';
+  /** リングバッファの件数（0 なら再送しない） */
+  bufferSize: number;
+  /** XANGI_EVENTS_PERSIST=true のときの保存先 */
+  persistPath: string | null;
 }
 
 let cachedConfig: ResolvedConfig | null = null;
@@ -42,16 +60,30 @@ export function resolveInstanceId(): { id: string; source: 'explicit' | 'auto' }
   return { id: `xangi-${hostname()}-${hash}`, source: 'auto' };
 }
 
+function parseBufferSize(raw: string | undefined): number {
+  const n = Number(raw);
+  return raw !== undefined && raw.trim() !== '' && Number.isInteger(n) && n >= 0
+    ? n
+    : DEFAULT_EVENTS_BUFFER_SIZE;
+}
+
 function resolveConfig(): ResolvedConfig {
   if (cachedConfig) return cachedConfig;
   const enabled = process.env.XANGI_EVENTS_ENABLED !== 'false';
   const { id, source } = resolveInstanceId();
+  const bufferSize = parseBufferSize(process.env.XANGI_EVENTS_BUFFER_SIZE);
   cachedConfig = {
     enabled,
     instanceId: id,
     hostHint: hostname(),
     instanceIdSource: source,
+    bufferSize,
+    persistPath:
+      enabled && bufferSize > 0 && process.env.XANGI_EVENTS_PERSIST === 'true'
+        ? join(resolveDataDir(), EVENTS_LOG_FILENAME)
+        : null,
   };
+  if (cachedConfig.persistPath) loadPersistedEvents(cachedConfig);
   return cachedConfig;
 }
 
@@ -102,6 +134,35 @@ export interface TimeoutExtendedOpts extends CommonOpts {
   remainingMs: number;
 }
 export type TimeoutClearedOpts = CommonOpts;
+export interface ToolStartedOpts extends CommonOpts {
+  toolName: string;
+  /** summarizeToolArgs() で要約した引数 */
+  argsSummary: string;
+}
+export interface ToolFinishedOpts extends ToolStartedOpts {
+  durationMs: number;
+  success: boolean;
+}
+export interface ApprovalRequestedOpts extends CommonOpts {
+  approvalId: string;
+  /** summarizeToolArgs() で要約したコマンド */
+  command: string;
+  matches: string[];
+  expiresAt: number;
+}
+export interface ApprovalResolvedOpts extends CommonOpts {
+  approvalId: string;
+  outcome: 'approved' | 'denied' | 'timeout' | 'send_failed';
+  decidedBy?: string;
+  scope?: string;
+}
+export interface SessionCreatedOpts extends CommonOpts {
+  sessionId: string;
+  title?: string;
+}
+export interface SessionArchivedOpts extends CommonOpts {
+  sessionId: string;
+}
 
 interface BaseBody {
   thread_id: string;
@@ -130,10 +191,37 @@ type EventBody =
       timeout_ms: number;
       remaining_ms: number;
     } & BaseBody)
-  | ({ type: 'timeout.cleared' } & BaseBody);
+  | ({ type: 'timeout.cleared' } & BaseBody)
+  | ({ type: 'tool.started'; tool_name: string; args_summary: string } & BaseBody)
+  | ({
+      type: 'tool.finished';
+      tool_name: string;
+      args_summary: string;
+      duration_ms: number;
+      success: boolean;
+    } & BaseBody)
+  | ({
+      type: 'approval.requested';
+      approval_id: string;
+      command: string;
+      matches: string[];
+      expires_at: number;
+    } & BaseBody)
+  | ({
+      type: 'approval.resolved';
+      approval_id: string;
+      outcome: ApprovalResolvedOpts['outcome'];
+      decided_by?: string;
+      scope?: string;
+    } & BaseBody)
+  | ({ type: 'session.created'; session_id: string; title?: string } & BaseBody)
+  | ({ type: 'session.archived'; session_id: string } & BaseBody);
 
-/** Subscriber が受け取る最終ペイロード (instance_id / host_hint 付き)。 */
+/** Subscriber が受け取る最終ペイロード (instance_id / host_hint / 単調増加の id 付き)。 */
 export type PublishedEvent = EventBody & {
+  id: number;
+  /** id の世代。永続化なしの再起動で ID が 1 から振り直しになると変わる */
+  epoch: string;
   instance_id: string;
   host_hint: string;
 };
@@ -142,6 +230,101 @@ export type EventSubscriber = (payload: PublishedEvent) => void;
 
 const subscribers = new Set<EventSubscriber>();
 
+/** 再送用のリングバッファ（古い順） */
+let buffer: PublishedEvent[] = [];
+let lastEventId = 0;
+/** 起動ごとの世代。永続化ありなら events.jsonl の世代を引き継ぐ */
+let epoch = newEpoch();
+/** 前回詰め直してから events.jsonl に追記した行数 */
+let persistedSinceCompact = 0;
+/** events.jsonl への追記待ちの行（次の tick でまとめて書く） */
+let pendingLines: string[] = [];
+let flushScheduled = false;
+/** 書き込みを直列にして、追記と詰め直しの順序を保つ */
+let persistChain: Promise<void> = Promise.resolve();
+
+function newEpoch(): string {
+  return Date.now().toString(36);
+}
+
+/**
+ * events.jsonl の末尾をバッファに読み込み、続きの ID から振れるようにする。
+ * 壊れた行は無視し、ファイルが大きくなっていたらバッファの分だけに詰め直す
+ */
+function loadPersistedEvents(cfg: ResolvedConfig): void {
+  const path = cfg.persistPath!;
+  if (!existsSync(path)) return;
+  try {
+    const loaded: PublishedEvent[] = [];
+    for (const line of readFileSync(path, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const ev = JSON.parse(line) as PublishedEvent;
+        if (Number.isInteger(ev.id) && ev.id > lastEventId) {
+          loaded.push(ev);
+          lastEventId = ev.id;
+        }
+      } catch {
+        // 壊れた行は無視
+      }
+    }
+    buffer = loaded.slice(-cfg.bufferSize);
+    // epoch が無い（古い形式の）行しか無ければ新しい世代として扱う
+    const persistedEpoch = buffer.at(-1)?.epoch;
+    if (persistedEpoch) epoch = persistedEpoch;
+    if (loaded.length > cfg.bufferSize) compactPersistedEvents(path);
+  } catch (err) {
+    console.warn('[events] Failed to load persisted events:', err);
+  }
+}
+
+function compactPersistedEvents(path: string): void {
+  writeFileSync(path, buffer.map((ev) => JSON.stringify(ev) + '\n').join(''));
+  persistedSinceCompact = 0;
+}
+
+function persistEvent(cfg: ResolvedConfig, payload: PublishedEvent): void {
+  pendingLines.push(JSON.stringify(payload) + '\n');
+  if (flushScheduled) return;
+  flushScheduled = true;
+  setImmediate(() => void writePendingEvents(cfg));
+}
+
+/**
+ * 追記待ちの行を events.jsonl に書く。追記がバッファと同じ件数たまったら
+ * 追記の代わりにバッファで詰め直す（ファイルはバッファの 2 倍までに収まる）
+ */
+function writePendingEvents(cfg: ResolvedConfig): Promise<void> {
+  flushScheduled = false;
+  const lines = pendingLines;
+  pendingLines = [];
+  if (lines.length === 0 || !cfg.persistPath) return persistChain;
+  const path = cfg.persistPath;
+  persistedSinceCompact += lines.length;
+  const snapshot =
+    persistedSinceCompact >= cfg.bufferSize
+      ? buffer.map((ev) => JSON.stringify(ev) + '\n').join('')
+      : null;
+  if (snapshot !== null) persistedSinceCompact = 0;
+  persistChain = persistChain
+    .then(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      if (snapshot !== null) await writeFile(path, snapshot);
+      else await appendFile(path, lines.join(''));
+    })
+    .catch((err) => {
+      console.warn('[events] Failed to persist events:', err);
+    });
+  return persistChain;
+}
+
+/**
+ * 追記待ちのイベントを今すぐ events.jsonl に書き、書き終わるまで待つ（シャットダウン時・テスト用）
+ */
+export function flushPersistedEvents(): Promise<void> {
+  return cachedConfig ? writePendingEvents(cachedConfig) : persistChain;
+}
+
 /**
  * 全イベントを購読する。返り値は unsubscribe 関数。
  *
@@ -160,6 +343,34 @@ export function getSubscriberCount(): number {
   return subscribers.size;
 }
 
+/** events に載せるツール引数の要約の最大文字数 */
+export const TOOL_ARGS_SUMMARY_MAX = 200;
+/** 要約に使う引数（先に見つかったもの）。無ければ引数全体の JSON */
+const SUMMARY_KEYS = [
+  'command',
+  'cmd',
+  'file_path',
+  'path',
+  'pattern',
+  'url',
+  'query',
+  'description',
+  'skill',
+];
+
+/**
+ * ツール引数を 1 行に要約する。events は外部の consumer に流れるので、tool-trajectory と
+ * 同じ sanitize（secret らしいキーの値・URL の secret・ホームディレクトリを伏せる）をかける
+ */
+export function summarizeToolArgs(input: Record<string, unknown>): string {
+  const sanitized = (sanitizeArgs(input, { salt: '' }) ?? {}) as Record<string, unknown>;
+  const primary = SUMMARY_KEYS.map((key) => sanitized[key]).find(
+    (value): value is string => typeof value === 'string' && value.trim() !== ''
+  );
+  const text = (primary ?? JSON.stringify(sanitized) ?? '').replace(/\s+/g, ' ').trim();
+  return text.length > TOOL_ARGS_SUMMARY_MAX ? `${text.slice(0, TOOL_ARGS_SUMMARY_MAX)}…` : text;
+}
+
 function nowSec(): number {
   return Math.floor(Date.now() / 1000);
 }
@@ -177,12 +388,18 @@ function baseFields(opts: CommonOpts): BaseBody {
 function publish(body: EventBody): void {
   const cfg = resolveConfig();
   if (!cfg.enabled) return;
-  if (subscribers.size === 0) return;
   const payload: PublishedEvent = {
     ...body,
+    id: ++lastEventId,
+    epoch,
     instance_id: cfg.instanceId,
     host_hint: cfg.hostHint,
   };
+  if (cfg.bufferSize > 0) {
+    buffer.push(payload);
+    if (buffer.length > cfg.bufferSize) buffer.shift();
+    if (cfg.persistPath) persistEvent(cfg, payload);
+  }
   for (const cb of subscribers) {
     try {
       cb(payload);
@@ -196,12 +413,56 @@ export function getEventsConfig(): ResolvedConfig {
   return resolveConfig();
 }
 
+/** 最後に振ったイベント ID（まだ無ければ 0） */
+export function getLastEventId(): number {
+  resolveConfig();
+  return lastEventId;
+}
+
+/** 現在の ID の世代 */
+export function getEventsEpoch(): string {
+  resolveConfig();
+  return epoch;
+}
+
+export interface EventsReplay {
+  /** 再送するイベント（古い順） */
+  events: PublishedEvent[];
+  /**
+   * 取りこぼしを埋められないときの理由。consumer は手元の状態を捨てて取り直す。
+   * - `epoch`: 別の世代の ID（永続化なしの再起動で振り直された）。バッファ全体を返す
+   * - `gap`: afterId の直後のイベントがもうバッファに無い。残っている分だけ返す
+   */
+  reset?: 'epoch' | 'gap';
+}
+
 /**
- * テスト用: キャッシュされた設定と subscribers をクリアする。
+ * afterId より後のイベントをバッファから返す。
+ * afterEpoch を省略したときは現在の世代の ID とみなすが、最新より大きい ID は別の世代として扱う
+ */
+export function getEventsSince(afterId: number, afterEpoch?: string): EventsReplay {
+  resolveConfig();
+  if ((afterEpoch !== undefined && afterEpoch !== epoch) || afterId > lastEventId) {
+    return { events: [...buffer], reset: 'epoch' };
+  }
+  const events = buffer.filter((ev) => ev.id > afterId);
+  const oldest = events[0]?.id ?? lastEventId + 1;
+  return oldest > afterId + 1 ? { events, reset: 'gap' } : { events };
+}
+
+/**
+ * テスト用: キャッシュされた設定と subscribers・再送バッファをクリアする。
  */
 export function _resetEventsConfigForTest(): void {
   cachedConfig = null;
   subscribers.clear();
+  buffer = [];
+  lastEventId = 0;
+  epoch = newEpoch();
+  persistedSinceCompact = 0;
+  pendingLines = [];
+  flushScheduled = false;
+  persistChain = Promise.resolve();
 }
 
 export const events = {
@@ -247,4 +508,53 @@ export const events = {
   timeoutCleared(opts: TimeoutClearedOpts): void {
     publish({ type: 'timeout.cleared', ...baseFields(opts) });
   },
+  toolStarted(opts: ToolStartedOpts): void {
+    publish({
+      type: 'tool.started',
+      ...baseFields(opts),
+      tool_name: opts.toolName,
+      args_summary: opts.argsSummary,
+    });
+  },
+  toolFinished(opts: ToolFinishedOpts): void {
+    publish({
+      type: 'tool.finished',
+      ...baseFields(opts),
+      tool_name: opts.toolName,
+      args_summary: opts.argsSummary,
+      duration_ms: opts.durationMs,
+      success: opts.success,
+    });
+  },
+  approvalRequested(opts: ApprovalRequestedOpts): void {
+    publish({
+      type: 'approval.requested',
+      ...baseFields(opts),
+      approval_id: opts.approvalId,
+      command: opts.command,
+      matches: opts.matches,
+      expires_at: opts.expiresAt,
+    });
+  },
+  approvalResolved(opts: ApprovalResolvedOpts): void {
+    publish({
+      type: 'approval.resolved',
+      ...baseFields(opts),
+      approval_id: opts.approvalId,
+      outcome: opts.outcome,
+      decided_by: opts.decidedBy,
+      scope: opts.scope,
+    });
+  },
+  sessionCreated(opts: SessionCreatedOpts): void {
+    publish({
+      type: 'session.created',
+      ...baseFields(opts),
+      session_id: opts.sessionId,
+      title: opts.title,
+    });
+  },
+  sessionArchived(opts: SessionArchivedOpts): void {
+    publish({ type: 'session.archived', ...baseFields(opts), session_id: opts.sessionId });
+  },
 };
@@ -7,26 +7,58 @@
  * turn.complete / turn.aborted / agent.error) を受け取る。
  *
  * 設計:
- * - サーバ側フィルタなし。全 subscriber に全イベントをブロードキャストする。
- *   instance_id 等で絞り込みたい場合は consumer 側で self-filter する。
+ * - サーバ側のフィルタは `?thread_id=` と、Web チャットのログインユーザーが読めない
+ *   Web セッションの除外だけ。instance_id 等で絞り込みたい場合は consumer 側で self-filter する。
  * - 30 秒ごとに `: keepalive` コメント行を流して中継 proxy の idle 切断を防ぐ。
  * - クライアント切断 (req close / error) を検知したら subscriber を解除して
  *   keepalive timer を止める。
  * - 接続直後に現在の instance_id / host_hint を `event: ready` の形で 1 度流す
  *   (consumer の initial UI 構築 / self-filter 設定用)。
+ * - 各イベントは `id: <epoch>-<id>` 付きで流す。再接続時の `Last-Event-ID` ヘッダ (EventSource が
+ *   自動で付ける) か `?since=` があれば、ready の直後にそれより後のイベントをバッファから再送する。
+ *   別の世代の ID やバッファから溢れた ID なら、再送の前に `event: reset` を流して取り直しを促す。
  */
 
 import type { IncomingMessage, ServerResponse } from 'http';
-import { subscribeEvents, getEventsConfig, type PublishedEvent } from './events-emitter.js';
+import {
+  subscribeEvents,
+  getEventsConfig,
+  getEventsEpoch,
+  getEventsSince,
+  getLastEventId,
+  type PublishedEvent,
+} from './events-emitter.js';
 
 const KEEPALIVE_MS = 30_000;
 
+/**
+ * Last-Event-ID ヘッダ（優先）か ?since= から再送の起点を読む。
+ * `<epoch>-<id>` か（世代を問わない）`<id>` を受け付ける。無い・不正なら null
+ */
+function parseResumeId(
+  req: IncomingMessage,
+  params: URLSearchParams
+): { id: number; epoch?: string } | null {
+  const header = req.headers['last-event-id'];
+  const raw = (Array.isArray(header) ? header[0] : header) ?? params.get('since');
+  const match = raw == null ? null : /^(?:([0-9a-z]+)-)?(\d+)$/.exec(raw.trim());
+  if (!match) return null;
+  return { id: Number(match[2]), epoch: match[1] };
+}
+
 /**
  * 戻り値:
  *   true  — このハンドラがレスポンスを返した (呼び出し元はそのまま return すべき)
  *   false — このリクエストは events-stream 担当外 (素通しする)
  */
-export function handleEventsStreamRequest(req: IncomingMessage, res: ServerResponse): boolean {
+export function handleEventsStreamRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: {
+    /** 購読者が読めるスレッドか（Web チャットのログインユーザーごとの絞り込み）。省略時は全部 */
+    canRead?: (threadId: string) => boolean;
+  } = {}
+): boolean {
   const rawUrl = req.url || '/';
   const parsedUrl = new URL(rawUrl, 'http://xangi.local');
   const url = parsedUrl.pathname;
@@ -52,6 +84,7 @@ export function handleEventsStreamRequest(req: IncomingMessage, res: ServerRespo
     return true;
   }
 
+  const resumeId = parseResumeId(req, parsedUrl.searchParams);
   res.writeHead(200, {
     'Content-Type': 'text/event-stream; charset=utf-8',
     'Cache-Control': 'no-cache',
@@ -67,18 +100,35 @@ export function handleEventsStreamRequest(req: IncomingMessage, res: ServerRespo
       instance_id: cfg.instanceId,
       host_hint: cfg.hostHint,
       thread_id: threadFilter || undefined,
+      epoch: getEventsEpoch(),
+      last_event_id: getLastEventId(),
     })}\n\n`
   );
 
   const writeEvent = (payload: PublishedEvent): void => {
     if (threadFilter && payload.thread_id !== threadFilter) return;
+    if (options.canRead && !options.canRead(payload.thread_id)) return;
     try {
-      res.write(`data: ${JSON.stringify(payload)}\n\n`);
+      res.write(`id: ${payload.epoch}-${payload.id}\ndata: ${JSON.stringify(payload)}\n\n`);
     } catch {
       // ソケットが既に閉じている場合などは無視。close ハンドラ側で掃除する。
     }
   };
 
+  // 再送と購読開始の間に publish は割り込まない（同期処理のため）ので取りこぼし・重複は出ない
+  if (resumeId !== null) {
+    const replay = getEventsSince(resumeId.id, resumeId.epoch);
+    if (replay.reset) {
+      res.write(
+        `event: reset\ndata: ${JSON.stringify({
+          reason: replay.reset,
+          epoch: getEventsEpoch(),
+          last_event_id: getLastEventId(),
+        })}\n\n`
+      );
+    }
+    for (const payload of replay.events) writeEvent(payload);
+  }
   const unsubscribe = subscribeEvents(writeEvent);
 
   const keepalive = setInterval(() => {
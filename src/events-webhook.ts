@@ -0,0 +1,322 @@
+/**
+ * events の webhook 配信（push 型・opt-in）
+ *
+ * SSE を張り続けられない consumer（サーバーレス関数など）向けに、subscribeEvents で受けた
+ * イベントを XANGI_EVENTS_WEBHOOK_URLS にまとめて POST する。
+ *
+ * - XANGI_EVENTS_WEBHOOK_TYPES / XANGI_EVENTS_WEBHOOK_THREADS で絞り込む（`tool.*` `web:*` の前方一致可）
+ * - 本文 `{ delivery_id, events: [...] }` に `X-Xangi-Signature: sha256=<HMAC-SHA256(secret, "<timestamp>.<body>")>`
+ *   と `X-Xangi-Timestamp` を付ける（XANGI_EVENTS_WEBHOOK_SECRET は必須）
+ * - 失敗（通信エラー・5xx・408・429）は指数バックオフで再送し、諦めたバッチと 4xx で拒否されたバッチは
+ *   <dataDir>/events-webhook-dead-letter.jsonl に残す。再送でも delivery_id は変えない
+ * - subscriber はキューに積むだけで、送信は URL ごとに 1 本ずつ裏で行う（publish した runner を待たせない）
+ */
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { subscribeEvents, type PublishedEvent } from './events-emitter.js';
+
+export const EVENTS_WEBHOOK_DEAD_LETTER_FILENAME = 'events-webhook-dead-letter.jsonl';
+export const DEFAULT_EVENTS_WEBHOOK_BATCH_SIZE = 20;
+export const MAX_EVENTS_WEBHOOK_BATCH_SIZE = 500;
+export const DEFAULT_EVENTS_WEBHOOK_FLUSH_MS = 1000;
+export const DEFAULT_EVENTS_WEBHOOK_MAX_RETRIES = 5;
+export const MAX_EVENTS_WEBHOOK_MAX_RETRIES = 20;
+/** URL ごとに溜めておく未送信イベントの上限（超えた古いものは dead-letter に回す） */
+export const EVENTS_WEBHOOK_QUEUE_MAX = 10_000;
+/** 署名の timestamp として受け入れる時刻のずれ（verifyWebhookSignature の既定） */
+export const WEBHOOK_SIGNATURE_TOLERANCE_SEC = 300;
+
+const RETRY_MAX_DELAY_MS = 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface EventsWebhookConfig {
+  urls: string[];
+  secret: string;
+  /** 送るイベント種別（空なら全部） */
+  types: string[];
+  /** 送る thread_id（空なら全部） */
+  threads: string[];
+  batchSize: number;
+  /** 最初のイベントからバッチを送るまで待つ時間 */
+  flushMs: number;
+  maxRetries: number;
+  /** 1 回目の再送までの待ち時間（以降 2 倍ずつ、最大 60 秒） */
+  retryBaseMs: number;
+  deadLetterPath: string;
+}
+
+export interface EventsWebhookDispatcher {
+  /** 購読をやめる。未送信・再送待ちのバッチは dead-letter に残す */
+  stop(): void;
+}
+
+function splitList(raw: string | undefined): string[] {
+  return (raw || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function parseIntInRange(raw: string | undefined, fallback: number, min: number, max: number) {
+  const n = Number(raw);
+  return raw !== undefined && raw.trim() !== '' && Number.isInteger(n) && n >= min && n <= max
+    ? n
+    : fallback;
+}
+
+/**
+ * 環境変数から webhook 配信の設定を読む。http(s) 以外の URL は警告して無視する
+ */
+export function getEventsWebhookConfig(dataDir: string, env = process.env): EventsWebhookConfig {
+  const urls = splitList(env.XANGI_EVENTS_WEBHOOK_URLS).filter((url) => {
+    try {
+      if (['http:', 'https:'].includes(new URL(url).protocol)) return true;
+    } catch {
+      // 下で警告する
+    }
+    console.warn(`[events-webhook] Ignoring invalid webhook URL: ${url}`);
+    return false;
+  });
+  return {
+    urls,
+    secret: (env.XANGI_EVENTS_WEBHOOK_SECRET || '').trim(),
+    types: splitList(env.XANGI_EVENTS_WEBHOOK_TYPES),
+    threads: splitList(env.XANGI_EVENTS_WEBHOOK_THREADS),
+    batchSize: parseIntInRange(
+      env.XANGI_EVENTS_WEBHOOK_BATCH_SIZE,
+      DEFAULT_EVENTS_WEBHOOK_BATCH_SIZE,
+      1,
+      MAX_EVENTS_WEBHOOK_BATCH_SIZE
+    ),
+    flushMs: parseIntInRange(
+      env.XANGI_EVENTS_WEBHOOK_FLUSH_MS,
+      DEFAULT_EVENTS_WEBHOOK_FLUSH_MS,
+      0,
+      Number.MAX_SAFE_INTEGER
+    ),
+    maxRetries: parseIntInRange(
+      env.XANGI_EVENTS_WEBHOOK_MAX_RETRIES,
+      DEFAULT_EVENTS_WEBHOOK_MAX_RETRIES,
+      0,
+      MAX_EVENTS_WEBHOOK_MAX_RETRIES
+    ),
+    retryBaseMs: 1000,
+    deadLetterPath: join(dataDir, EVENTS_WEBHOOK_DEAD_LETTER_FILENAME),
+  };
+}
+
+/** `*` は全部、末尾 `*` は前方一致、それ以外は完全一致 */
+function matchesAny(value: string, patterns: string[]): boolean {
+  if (patterns.length === 0) return true;
+  return patterns.some((p) => (p.endsWith('*') ? value.startsWith(p.slice(0, -1)) : value === p));
+}
+
+/**
+ * 署名を作る（`sha256=<hex>`）
+ */
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * 受け取った webhook の署名を検証する（受け手の実装・テスト用）。
+ * timestamp が tolerance 秒より古い・新しいものは再送攻撃を避けるため拒否する
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string | number,
+  body: string,
+  signature: string,
+  options: { toleranceSec?: number; now?: number } = {}
+): boolean {
+  const ts = Number(timestamp);
+  const nowSec = Math.floor((options.now ?? Date.now()) / 1000);
+  if (!Number.isInteger(ts)) return false;
+  if (Math.abs(nowSec - ts) > (options.toleranceSec ?? WEBHOOK_SIGNATURE_TOLERANCE_SEC)) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookBody(secret, ts, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** 再送しても通らない応答（4xx。ただしタイムアウトとレート制限は再送する） */
+function isPermanentFailure(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+interface Endpoint {
+  url: string;
+  queue: PublishedEvent[];
+  sending: boolean;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * 配信を始める（index.ts で XANGI_EVENTS_WEBHOOK_URLS があるときに一度）
+ */
+export function startEventsWebhook(
+  config: EventsWebhookConfig,
+  fetchImpl: typeof fetch = fetch
+): EventsWebhookDispatcher {
+  const endpoints: Endpoint[] = config.urls.map((url) => ({ url, queue: [], sending: false }));
+  const inflight = new Set<AbortController>();
+  /** 再送待ちの sleep（stop で起こす） */
+  const sleepers = new Set<() => void>();
+  let stopped = false;
+
+  const deadLetter = (
+    url: string,
+    events: PublishedEvent[],
+    error: string,
+    attempts: number,
+    deliveryId?: string
+  ) => {
+    if (events.length === 0) return;
+    console.warn(
+      `[events-webhook] Dead-lettered ${events.length} events for ${url} after ${attempts} attempts: ${error}`
+    );
+    try {
+      const dir = dirname(config.deadLetterPath);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      appendFileSync(
+        config.deadLetterPath,
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          url,
+          ...(deliveryId && { delivery_id: deliveryId }),
+          attempts,
+          error,
+          events,
+        }) + '\n'
+      );
+    } catch (err) {
+      console.error('[events-webhook] Failed to write dead-letter file:', err);
+    }
+  };
+
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        sleepers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      timer.unref();
+      sleepers.add(wake);
+    });
+
+  /** 1 回送る。成功なら null、失敗なら理由と再送してよいか */
+  const post = async (
+    url: string,
+    body: string
+  ): Promise<{ error: string; permanent: boolean } | null> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    timer.unref();
+    inflight.add(controller);
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+      const res = await fetchImpl(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Xangi-Timestamp': String(timestamp),
+          'X-Xangi-Signature': signWebhookBody(config.secret, timestamp, body),
+        },
+        body,
+        signal: controller.signal,
+      });
+      await res.body?.cancel().catch(() => undefined);
+      if (res.ok) return null;
+      return { error: `HTTP ${res.status}`, permanent: isPermanentFailure(res.status) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err), permanent: false };
+    } finally {
+      clearTimeout(timer);
+      inflight.delete(controller);
+    }
+  };
+
+  const deliver = async (ep: Endpoint, events: PublishedEvent[]): Promise<void> => {
+    const deliveryId = randomUUID();
+    const body = JSON.stringify({ delivery_id: deliveryId, events });
+    let attempts = 0;
+    let error = '';
+    while (!stopped) {
+      attempts++;
+      const failure = await post(ep.url, body);
+      if (!failure) return;
+      error = failure.error;
+      if (stopped || failure.permanent || attempts > config.maxRetries) break;
+      const delay = Math.min(config.retryBaseMs * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+      console.warn(
+        `[events-webhook] Delivery to ${ep.url} failed (${error}), retrying in ${delay}ms`
+      );
+      await sleep(delay);
+    }
+    deadLetter(ep.url, events, stopped ? 'stopped before delivery' : error, attempts, deliveryId);
+  };
+
+  const drain = (ep: Endpoint) => {
+    ep.timer = undefined;
+    if (stopped || ep.sending || ep.queue.length === 0) return;
+    ep.sending = true;
+    const batch = ep.queue.splice(0, config.batchSize);
+    void deliver(ep, batch).finally(() => {
+      ep.sending = false;
+      if (ep.queue.length > 0) schedule(ep);
+    });
+  };
+
+  const schedule = (ep: Endpoint) => {
+    if (stopped || ep.sending || ep.timer) return;
+    const delay = ep.queue.length >= config.batchSize ? 0 : config.flushMs;
+    ep.timer = setTimeout(() => drain(ep), delay);
+    ep.timer.unref();
+  };
+
+  const unsubscribe = subscribeEvents((event) => {
+    if (!matchesAny(event.type, config.types) || !matchesAny(event.thread_id, config.threads)) {
+      return;
+    }
+    for (const ep of endpoints) {
+      ep.queue.push(event);
+      if (ep.queue.length > EVENTS_WEBHOOK_QUEUE_MAX) {
+        deadLetter(
+          ep.url,
+          ep.queue.splice(0, ep.queue.length - EVENTS_WEBHOOK_QUEUE_MAX),
+          'queue overflow',
+          0
+        );
+      }
+      // バッチが埋まったら flushMs を待たずに送る
+      if (ep.queue.length >= config.batchSize && ep.timer) {
+        clearTimeout(ep.timer);
+        ep.timer = undefined;
+      }
+      schedule(ep);
+    }
+  });
+
+  console.log(
+    `[events-webhook] Delivering events to ${endpoints.length} webhook(s)${config.types.length > 0 ? ` (types: ${config.types.join(', ')})` : ''}`
+  );
+
+  return {
+    stop() {
+      if (stopped) return;
+      stopped = true;
+      unsubscribe();
+      for (const ep of endpoints) {
+        clearTimeout(ep.timer);
+        ep.timer = undefined;
+        deadLetter(ep.url, ep.queue.splice(0), 'stopped before delivery', 0);
+      }
+      for (const controller of inflight) controller.abort();
+      for (const wake of [...sleepers]) wake();
+    },
+  };
+}
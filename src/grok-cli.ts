@@ -44,6 +44,7 @@ export class GrokRunner extends CliRunnerBase {
   protected readonly command = 'grok';
   protected readonly displayName = 'Grok CLI';
   protected readonly logPrefix = 'grok';
+  protected readonly backend = 'grok' as const;
 
   private systemPrompt: string;
 
@@ -91,7 +92,7 @@ export class GrokRunner extends CliRunnerBase {
   }
 
   async run(prompt: string, options?: RunOptions): Promise<RunResult> {
-    const fullPrompt = this.buildFullPrompt(prompt);
+    const fullPrompt = this.buildFullPrompt(await this.applyPromptHooks(prompt, options));
     const args = [...this.buildBaseArgs(options), '-p', fullPrompt, '--output-format', 'json'];
 
     this.logExecution('Executing', options);
@@ -123,7 +124,7 @@ export class GrokRunner extends CliRunnerBase {
     callbacks: StreamCallbacks,
     options?: RunOptions
   ): Promise<RunResult> {
-    const fullPrompt = this.buildFullPrompt(prompt);
+    const fullPrompt = this.buildFullPrompt(await this.applyPromptHooks(prompt, options));
     const args = [
       ...this.buildBaseArgs(options),
       '-p',
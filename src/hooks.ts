@@ -1,14 +1,24 @@
 /**
  * ワークスペース hooks — エージェントループのライフサイクルに外部検証プロセスを挟む機構。
  *
- * Claude Code / Codex CLI の Stop hook と互換の契約を採用する:
+ * Claude Code の hooks と互換の契約を採用する:
  * - hook はコマンドとして spawn され、stdin に JSON ペイロードを受け取る
- * - exit 0 + stdout JSON `{"decision":"block","reason":"..."}` → block（reason 必須）
- * - exit 2 + stderr 非空 → block（stderr が reason）
- * - それ以外（exit 0 で出力なし / JSON でない / 他の exit code / timeout / spawn 失敗）→ 素通り
+ * - exit 2 + stderr 非空 → block / フィードバック（stderr が reason）
+ * - exit 0 → stdout をイベントごとに解釈する（下表）
+ * - それ以外（他の exit code / timeout / spawn 失敗）→ 素通り
+ *
+ * | イベント | 発火タイミング | exit 0 の stdout |
+ * | --- | --- | --- |
+ * | SessionStart | 新しいセッションの最初のターン | テキスト or `additionalContext` → プロンプトに文脈として注入 |
+ * | UserPromptSubmit | プロンプトを backend に渡す直前 | `{"decision":"block","reason"}` で拒否、`updatedPrompt` で書き換え、テキスト or `additionalContext` で文脈追加 |
+ * | PreToolUse | Local LLM のツール実行前 | `permissionDecision: "deny"`（or `decision: "block"`）で拒否し、理由を LLM に返す |
+ * | PostToolUse | Local LLM のツール実行後 | `{"decision":"block","reason"}` or `additionalContext` をツール結果に添えて LLM に返す |
+ * | Stop | ターン終了時（継続ラウンドの応答も `stop_hook_active: true` で再検査） | `{"decision":"block","reason"}` で継続ラウンド（1 ターン最大 `XANGI_STOP_HOOK_MAX_ROUNDS` 回） |
  *
  * 安全設計はフェイルオープン: hook 側のどんな異常でも本体の応答を止めない。
- * block は「ターン終了を 1 回差し戻してフィードバックを LLM に返す」ナッジであって強制ではない。
+ * block は「ターン終了を差し戻してフィードバックを LLM に返す」ナッジであって強制ではない。
+ * 差し戻しは 1 ターンに `XANGI_STOP_HOOK_MAX_ROUNDS` 回（デフォルト 1）までで、最後の継続ラウンドは
+ * 再検査しないので block が続いても無限ループにならない。
  *
  * 設定はワークスペースの `hooks/hooks.json`（XANGI_HOOKS_FILE で上書き可能）:
  * ```json
@@ -16,27 +26,95 @@
  *   "hooks": {
  *     "Stop": [
  *       { "command": "uv run hooks/check-run-and-forget/hook.py", "timeoutMs": 10000 }
- *     ]
+ *     ],
+ *     "PreToolUse": [{ "command": "node hooks/guard-exec.js", "matcher": "exec" }]
  *   }
  * }
  * ```
+ *
+ * 各定義は `matcher`（ツール名などへの正規表現）/ `channels`（glob）/ `platforms` / `backends`
+ * で絞り込める。条件に合わない定義は実行しない（{@link matchesHook}）。
  */
 
 import { spawn } from 'node:child_process';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { HookBlockedError } from './errors.js';
+
+/** Stop hook の block で回す継続ラウンド数のデフォルト（1 = 1 ターン 1 ナッジ） */
+export const DEFAULT_STOP_HOOK_MAX_ROUNDS = 1;
+/** XANGI_STOP_HOOK_MAX_ROUNDS の上限 */
+export const MAX_STOP_HOOK_ROUNDS = 10;
 
 export interface HookDefinition {
   /** shell で実行されるコマンド（cwd はワークスペース） */
   command: string;
   /** タイムアウト ms（既定 10000、上限 60000）。超過時は kill して素通り */
   timeoutMs?: number;
+  /**
+   * Claude Code の matcher 互換のパターン（正規表現で全体一致。`*` / 空文字は常に一致）。
+   * PreToolUse / PostToolUse は tool_name、Stop は tools_called のいずれか、
+   * SessionStart は source と照合する。UserPromptSubmit では使わない
+   */
+  matcher?: string;
+  /** チャンネル ID の glob（`*` / `?`、例: `web-chat:*`）。指定時はいずれかに一致するチャンネルだけ */
+  channels?: string[];
+  /** プラットフォーム（discord / slack / web / line）。指定時は含まれるものだけ */
+  platforms?: string[];
+  /** backend（claude-code / codex / local-llm など）。指定時は含まれるものだけ */
+  backends?: string[];
 }
 
+export const HOOK_EVENT_NAMES = [
+  'SessionStart',
+  'UserPromptSubmit',
+  'PreToolUse',
+  'PostToolUse',
+  'Stop',
+] as const;
+export type HookEventName = (typeof HOOK_EVENT_NAMES)[number];
+
 export interface HooksConfig {
-  hooks: {
-    Stop?: HookDefinition[];
-  };
+  hooks: Partial<Record<HookEventName, HookDefinition[]>>;
+}
+
+/**
+ * 全イベント共通のペイロード。フィールド名は Claude Code の hook 入力に揃える。
+ * `channel_id` / `backend` / `platform` は xangi 拡張。
+ */
+interface HookPayloadBase {
+  session_id: string;
+  cwd: string;
+  /** xangi 拡張: チャンネル ID */
+  channel_id?: string;
+  /** xangi 拡張: このターンを実行する backend（claude-code / codex / local-llm など） */
+  backend?: string;
+  /** xangi 拡張: 実行元プラットフォーム（discord / slack / web など） */
+  platform?: string;
+}
+
+export interface SessionStartPayload extends HookPayloadBase {
+  hook_event_name: 'SessionStart';
+  /** startup = 新規セッション、resume = 再起動後に履歴を復元したセッション */
+  source: 'startup' | 'resume';
+}
+
+export interface UserPromptSubmitPayload extends HookPayloadBase {
+  hook_event_name: 'UserPromptSubmit';
+  prompt: string;
+}
+
+export interface PreToolUsePayload extends HookPayloadBase {
+  hook_event_name: 'PreToolUse';
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+}
+
+export interface PostToolUsePayload extends HookPayloadBase {
+  hook_event_name: 'PostToolUse';
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  tool_response: { success: boolean; output: string; error?: string };
 }
 
 /**
@@ -45,25 +123,42 @@ export interface HooksConfig {
  * `channel_id` / `tools_called` は xangi 拡張。transcript を parse しなくても
  * 「このターンでどのツールが実行されたか」を hook 側が直接判定できる。
  */
-export interface StopHookPayload {
+export interface StopHookPayload extends HookPayloadBase {
   hook_event_name: 'Stop';
-  session_id: string;
-  cwd: string;
-  /** Stop hook の block による継続ラウンド中なら true（現状 xangi は再チェックしないため常に false） */
+  /** Stop hook の block による継続ラウンドの応答を再チェックしているなら true */
   stop_hook_active: boolean;
-  /** このターンの最終応答テキスト */
+  /** このターンの最終応答テキスト（再チェック時は直前の継続ラウンドの応答） */
   last_assistant_message: string;
-  /** xangi 拡張: チャンネル ID */
-  channel_id?: string;
-  /** xangi 拡張: このターンで実行されたツール名（実行順、重複あり） */
+  /** xangi 拡張: このターンで実行されたツール名（継続ラウンド分も含む。実行順、重複あり） */
   tools_called: string[];
 }
 
+export type HookPayload =
+  | SessionStartPayload
+  | UserPromptSubmitPayload
+  | PreToolUsePayload
+  | PostToolUsePayload
+  | StopHookPayload;
+
 export interface StopHookVerdict {
   block: boolean;
   reason?: string;
 }
 
+export interface UserPromptSubmitVerdict {
+  block: boolean;
+  reason?: string;
+  /** hook が書き換えた後のプロンプト（書き換えが無ければ入力のまま） */
+  prompt: string;
+  /** プロンプトに添える追加文脈（複数 hook 分を連結） */
+  context?: string;
+}
+
+export interface PreToolUseVerdict {
+  block: boolean;
+  reason?: string;
+}
+
 const DEFAULT_TIMEOUT_MS = 10_000;
 const MAX_TIMEOUT_MS = 60_000;
 /** hook の stdout/stderr の取り込み上限（暴走 hook がメモリを食わないように） */
@@ -101,189 +196,495 @@ export function loadHooksConfig(workspace: string, fileOverride?: string): Hooks
     return null;
   }
 
-  const stopRaw = (hooksField as Record<string, unknown>).Stop;
-  const stop: HookDefinition[] = [];
-  if (stopRaw !== undefined) {
-    if (!Array.isArray(stopRaw)) {
-      console.warn(`[hooks] hooks.Stop must be an array (${file})`);
-    } else {
-      for (const entry of stopRaw) {
-        if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
-          console.warn(`[hooks] hooks.Stop entry must be an object, skipped (${file})`);
-          continue;
-        }
-        const e = entry as Record<string, unknown>;
-        if (typeof e.command !== 'string' || !e.command.trim()) {
-          console.warn(`[hooks] hooks.Stop entry missing "command", skipped (${file})`);
-          continue;
-        }
-        const def: HookDefinition = { command: e.command };
-        if (e.timeoutMs !== undefined) {
-          if (typeof e.timeoutMs === 'number' && Number.isFinite(e.timeoutMs) && e.timeoutMs > 0) {
-            def.timeoutMs = Math.min(e.timeoutMs, MAX_TIMEOUT_MS);
-          } else {
-            console.warn(`[hooks] invalid timeoutMs for "${e.command}", using default (${file})`);
-          }
-        }
-        stop.push(def);
+  const hooks: HooksConfig['hooks'] = {};
+  for (const [event, value] of Object.entries(hooksField as Record<string, unknown>)) {
+    if (!(HOOK_EVENT_NAMES as readonly string[]).includes(event)) {
+      console.warn(
+        `[hooks] unknown hook event "${event}", ignored (${HOOK_EVENT_NAMES.join(' / ')}) (${file})`
+      );
+      continue;
+    }
+    hooks[event as HookEventName] = parseHookDefinitions(event, value, file);
+  }
+  hooks.Stop ??= [];
+
+  return { hooks };
+}
+
+function parseHookDefinitions(event: string, value: unknown, file: string): HookDefinition[] {
+  const defs: HookDefinition[] = [];
+  if (!Array.isArray(value)) {
+    console.warn(`[hooks] hooks.${event} must be an array (${file})`);
+    return defs;
+  }
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      console.warn(`[hooks] hooks.${event} entry must be an object, skipped (${file})`);
+      continue;
+    }
+    const e = entry as Record<string, unknown>;
+    if (typeof e.command !== 'string' || !e.command.trim()) {
+      console.warn(`[hooks] hooks.${event} entry missing "command", skipped (${file})`);
+      continue;
+    }
+    const def: HookDefinition = { command: e.command };
+    if (e.timeoutMs !== undefined) {
+      if (typeof e.timeoutMs === 'number' && Number.isFinite(e.timeoutMs) && e.timeoutMs > 0) {
+        def.timeoutMs = Math.min(e.timeoutMs, MAX_TIMEOUT_MS);
+      } else {
+        console.warn(`[hooks] invalid timeoutMs for "${e.command}", using default (${file})`);
       }
     }
+    // フィルタの誤りは「全部に一致」に倒すと意図しない hook が動くので、エントリごと捨てる
+    if (e.matcher !== undefined) {
+      if (typeof e.matcher !== 'string' || !compileMatcher(e.matcher)) {
+        console.warn(`[hooks] invalid matcher for "${e.command}", skipped (${file})`);
+        continue;
+      }
+      def.matcher = e.matcher;
+    }
+    let filtersValid = true;
+    for (const key of ['channels', 'platforms', 'backends'] as const) {
+      if (e[key] === undefined) continue;
+      const list = e[key];
+      if (!Array.isArray(list) || !list.every((v) => typeof v === 'string' && v.trim())) {
+        console.warn(
+          `[hooks] ${key} for "${e.command}" must be an array of strings, skipped (${file})`
+        );
+        filtersValid = false;
+        break;
+      }
+      def[key] = list as string[];
+    }
+    if (!filtersValid) continue;
+    defs.push(def);
   }
+  return defs;
+}
 
-  return { hooks: { Stop: stop } };
+/** matcher を全体一致の正規表現にする。不正な正規表現は null */
+function compileMatcher(matcher: string): RegExp | null {
+  try {
+    return new RegExp(`^(?:${matcher})$`);
+  } catch {
+    return null;
+  }
+}
+
+/** `*` / `?` だけを解釈する glob を正規表現にする（チャンネル ID 用） */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((c) => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/** hook 定義のフィルタ（channels / platforms / backends / matcher）がこのペイロードに一致するか */
+export function matchesHook(def: HookDefinition, payload: HookPayload): boolean {
+  if (def.channels) {
+    const channelId = payload.channel_id;
+    if (channelId === undefined || !def.channels.some((p) => globToRegExp(p).test(channelId))) {
+      return false;
+    }
+  }
+  if (def.platforms && !(payload.platform && def.platforms.includes(payload.platform))) {
+    return false;
+  }
+  if (def.backends && !(payload.backend && def.backends.includes(payload.backend))) {
+    return false;
+  }
+  if (def.matcher === undefined || def.matcher === '' || def.matcher === '*') return true;
+  const re = compileMatcher(def.matcher);
+  if (!re) return false;
+  switch (payload.hook_event_name) {
+    case 'PreToolUse':
+    case 'PostToolUse':
+      return re.test(payload.tool_name);
+    case 'Stop':
+      return payload.tools_called.some((name) => re.test(name));
+    case 'SessionStart':
+      return re.test(payload.source);
+    default:
+      return true;
+  }
 }
 
 /**
- * Stop hook 群を実行するランナー。
- * hook は登録順に直列実行し、最初に block を返した hook で確定する。
+ * hook 1 本の実行結果（解釈前）。
+ * - exit2: exit 2 で終了（stderr は空のこともある）
+ * - ok: exit 0 で終了
+ * - failed: 他の exit code / timeout / spawn 失敗（常に素通り扱い）
  */
-export class StopHookRunner {
-  private readonly defs: HookDefinition[];
+type HookOutcome =
+  | { kind: 'exit2'; stderr: string }
+  | { kind: 'ok'; stdout: string }
+  | { kind: 'failed' };
+
+function execHook(def: HookDefinition, payload: HookPayload, cwd: string): Promise<HookOutcome> {
+  const event = payload.hook_event_name;
+  return new Promise((resolve) => {
+    const timeoutMs = Math.min(def.timeoutMs ?? DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+
+    let child: ReturnType<typeof spawn>;
+    try {
+      child = spawn(def.command, {
+        shell: true,
+        cwd,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+    } catch (err) {
+      console.warn(`[hooks] Failed to spawn ${event} hook "${def.command}": ${String(err)}`);
+      resolve({ kind: 'failed' });
+      return;
+    }
+
+    let stdout = '';
+    let stderr = '';
+    let settled = false;
+    const settle = (outcome: HookOutcome) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(outcome);
+    };
+
+    const timer = setTimeout(() => {
+      console.warn(`[hooks] ${event} hook timed out after ${timeoutMs}ms: ${def.command}`);
+      try {
+        child.kill('SIGKILL');
+      } catch {
+        // already dead
+      }
+      settle({ kind: 'failed' });
+    }, timeoutMs);
+
+    child.stdout?.on('data', (chunk: Buffer) => {
+      if (stdout.length < MAX_CAPTURE_BYTES) stdout += chunk.toString('utf-8');
+    });
+    child.stderr?.on('data', (chunk: Buffer) => {
+      if (stderr.length < MAX_CAPTURE_BYTES) stderr += chunk.toString('utf-8');
+    });
+
+    child.on('error', (err) => {
+      console.warn(`[hooks] ${event} hook process error "${def.command}": ${String(err)}`);
+      settle({ kind: 'failed' });
+    });
+
+    child.on('close', (code) => {
+      if (code === 2) {
+        settle({ kind: 'exit2', stderr: stderr.trim() });
+        return;
+      }
+      if (code !== 0) {
+        console.warn(`[hooks] ${event} hook exited with code ${code}: ${def.command}`);
+        settle({ kind: 'failed' });
+        return;
+      }
+      settle({ kind: 'ok', stdout: stdout.trim() });
+    });
+
+    // hook が stdin を読まずに即終了すると write が非同期 EPIPE を投げる。
+    // try/catch では捕まらない (stream の 'error' イベント) ため、握りつぶして
+    // close ハンドラ側で判定を確定させる。
+    child.stdin?.on('error', () => {});
+    try {
+      child.stdin?.write(JSON.stringify(payload));
+      child.stdin?.end();
+    } catch (err) {
+      console.warn(`[hooks] Failed to write ${event} hook stdin "${def.command}": ${String(err)}`);
+    }
+  });
+}
+
+/** exit 0 の stdout を JSON として読む。空なら null、JSON オブジェクトでなければ text として返す */
+function parseHookStdout(stdout: string): { json: Record<string, unknown> | null; text: string } {
+  if (!stdout) return { json: null, text: '' };
+  try {
+    const parsed: unknown = JSON.parse(stdout);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return { json: parsed as Record<string, unknown>, text: '' };
+    }
+  } catch {
+    // JSON でなければプレーンテキスト
+  }
+  return { json: null, text: stdout };
+}
+
+/** `{"decision":"block","reason":"..."}` の reason（block でなければ undefined、reason 空は警告して undefined） */
+function blockReason(
+  json: Record<string, unknown>,
+  event: string,
+  command: string
+): string | undefined {
+  if (json.decision !== 'block') return undefined;
+  const reason = typeof json.reason === 'string' ? json.reason.trim() : '';
+  if (!reason) {
+    console.warn(`[hooks] ${event} hook returned decision:block without reason: ${command}`);
+    return undefined;
+  }
+  return reason;
+}
+
+/** Claude Code 互換の `hookSpecificOutput` から文字列フィールドを取り出す */
+function specificOutput(json: Record<string, unknown>, key: string): string | undefined {
+  const out = json.hookSpecificOutput;
+  if (!out || typeof out !== 'object' || Array.isArray(out)) return undefined;
+  const value = (out as Record<string, unknown>)[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** exit 2 で stderr が空なら警告して undefined（reason 無しの block は素通り） */
+function exit2Reason(
+  outcome: { stderr: string },
+  event: string,
+  command: string
+): string | undefined {
+  if (outcome.stderr) return outcome.stderr;
+  console.warn(`[hooks] ${event} hook exited 2 without stderr reason: ${command}`);
+  return undefined;
+}
+
+/**
+ * ワークスペース hooks の全イベントを実行するランナー。
+ * 各イベントの hook は登録順に直列実行する（block 系は最初の block で確定、文脈系は連結）。
+ * どのメソッドも reject しない（hook 側の異常は素通り）。
+ */
+export class HookRunner {
+  private readonly hooks: HooksConfig['hooks'];
   private readonly cwd: string;
+  /** Stop hook の block で回す継続ラウンドの上限 */
+  readonly stopMaxRounds: number;
 
-  constructor(defs: HookDefinition[], cwd: string) {
-    this.defs = defs;
+  constructor(hooks: HooksConfig['hooks'], cwd: string, options: { stopMaxRounds?: number } = {}) {
+    this.hooks = hooks;
     this.cwd = cwd;
+    this.stopMaxRounds = options.stopMaxRounds ?? DEFAULT_STOP_HOOK_MAX_ROUNDS;
   }
 
-  get count(): number {
-    return this.defs.length;
+  count(event: HookEventName): number {
+    return this.hooks[event]?.length ?? 0;
   }
 
-  async run(payload: StopHookPayload): Promise<StopHookVerdict> {
-    for (const def of this.defs) {
-      const verdict = await this.runOne(def, payload);
-      if (verdict.block) return verdict;
-    }
-    return { block: false };
+  /** このペイロードにフィルタが一致する hook 定義（登録順） */
+  private matching(payload: HookPayload): HookDefinition[] {
+    return (this.hooks[payload.hook_event_name] ?? []).filter((def) => matchesHook(def, payload));
   }
 
-  private runOne(def: HookDefinition, payload: StopHookPayload): Promise<StopHookVerdict> {
-    return new Promise((resolve) => {
-      const timeoutMs = Math.min(def.timeoutMs ?? DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+  /** 新しいセッションの文脈を集める（exit 2 は Claude Code と同じく block しない） */
+  async sessionStart(payload: SessionStartPayload): Promise<string | undefined> {
+    const contexts: string[] = [];
+    for (const def of this.matching(payload)) {
+      const outcome = await execHook(def, payload, this.cwd);
+      if (outcome.kind !== 'ok') continue;
+      const { json, text } = parseHookStdout(outcome.stdout);
+      const context = json ? specificOutput(json, 'additionalContext') : text;
+      if (context) contexts.push(context);
+    }
+    return contexts.length > 0 ? contexts.join('\n\n') : undefined;
+  }
 
-      let child: ReturnType<typeof spawn>;
-      try {
-        child = spawn(def.command, {
-          shell: true,
-          cwd: this.cwd,
-          stdio: ['pipe', 'pipe', 'pipe'],
-        });
-      } catch (err) {
-        console.warn(`[hooks] Failed to spawn stop hook "${def.command}": ${String(err)}`);
-        resolve({ block: false });
-        return;
+  /**
+   * プロンプトの拒否・書き換え・文脈追加。
+   * 書き換えは後続の hook に引き継がれ、最初の block で確定する。
+   */
+  async userPromptSubmit(payload: UserPromptSubmitPayload): Promise<UserPromptSubmitVerdict> {
+    let prompt = payload.prompt;
+    const contexts: string[] = [];
+    const context = () => (contexts.length > 0 ? contexts.join('\n\n') : undefined);
+    for (const def of this.matching(payload)) {
+      const outcome = await execHook(def, { ...payload, prompt }, this.cwd);
+      if (outcome.kind === 'exit2') {
+        const reason = exit2Reason(outcome, payload.hook_event_name, def.command);
+        if (reason) return { block: true, reason, prompt, context: context() };
+        continue;
       }
+      if (outcome.kind !== 'ok') continue;
+      const { json, text } = parseHookStdout(outcome.stdout);
+      if (!json) {
+        if (text) contexts.push(text);
+        continue;
+      }
+      const reason = blockReason(json, payload.hook_event_name, def.command);
+      if (reason) return { block: true, reason, prompt, context: context() };
+      prompt = specificOutput(json, 'updatedPrompt') ?? prompt;
+      const added = specificOutput(json, 'additionalContext');
+      if (added) contexts.push(added);
+    }
+    return { block: false, prompt, context: context() };
+  }
 
-      let stdout = '';
-      let stderr = '';
-      let settled = false;
-      const settle = (verdict: StopHookVerdict) => {
-        if (settled) return;
-        settled = true;
-        clearTimeout(timer);
-        resolve(verdict);
-      };
-
-      const timer = setTimeout(() => {
-        console.warn(`[hooks] Stop hook timed out after ${timeoutMs}ms: ${def.command}`);
-        try {
-          child.kill('SIGKILL');
-        } catch {
-          // already dead
-        }
-        settle({ block: false });
-      }, timeoutMs);
-
-      child.stdout?.on('data', (chunk: Buffer) => {
-        if (stdout.length < MAX_CAPTURE_BYTES) stdout += chunk.toString('utf-8');
-      });
-      child.stderr?.on('data', (chunk: Buffer) => {
-        if (stderr.length < MAX_CAPTURE_BYTES) stderr += chunk.toString('utf-8');
-      });
-
-      child.on('error', (err) => {
-        console.warn(`[hooks] Stop hook process error "${def.command}": ${String(err)}`);
-        settle({ block: false });
-      });
+  /** ツール実行の拒否判定。`permissionDecision` が allow / ask の場合は素通り */
+  async preToolUse(payload: PreToolUsePayload): Promise<PreToolUseVerdict> {
+    for (const def of this.matching(payload)) {
+      const outcome = await execHook(def, payload, this.cwd);
+      if (outcome.kind === 'exit2') {
+        const reason = exit2Reason(outcome, payload.hook_event_name, def.command);
+        if (reason) return { block: true, reason };
+        continue;
+      }
+      if (outcome.kind !== 'ok') continue;
+      const { json } = parseHookStdout(outcome.stdout);
+      if (!json) continue;
+      const out = json.hookSpecificOutput as Record<string, unknown> | undefined;
+      if (out && typeof out === 'object' && out.permissionDecision === 'deny') {
+        return {
+          block: true,
+          reason:
+            specificOutput(json, 'permissionDecisionReason') ?? `denied by hook: ${def.command}`,
+        };
+      }
+      const reason = blockReason(json, payload.hook_event_name, def.command);
+      if (reason) return { block: true, reason };
+    }
+    return { block: false };
+  }
 
-      child.on('close', (code) => {
-        if (code === 2) {
-          // Claude Code 互換: exit 2 + stderr が継続フィードバック
-          const reason = stderr.trim();
-          if (reason) {
-            settle({ block: true, reason });
-          } else {
-            console.warn(`[hooks] Stop hook exited 2 without stderr reason: ${def.command}`);
-            settle({ block: false });
-          }
-          return;
-        }
-        if (code !== 0) {
-          console.warn(`[hooks] Stop hook exited with code ${code}: ${def.command}`);
-          settle({ block: false });
-          return;
-        }
-        const out = stdout.trim();
-        if (!out) {
-          settle({ block: false });
-          return;
-        }
-        try {
-          const json = JSON.parse(out) as Record<string, unknown>;
-          if (json && json.decision === 'block') {
-            const reason = typeof json.reason === 'string' ? json.reason.trim() : '';
-            if (reason) {
-              settle({ block: true, reason });
-            } else {
-              console.warn(
-                `[hooks] Stop hook returned decision:block without reason: ${def.command}`
-              );
-              settle({ block: false });
-            }
-            return;
-          }
-          settle({ block: false });
-        } catch {
-          console.warn(
-            `[hooks] Stop hook stdout is not valid JSON, ignored: ${def.command} (head: ${out.slice(0, 120)})`
-          );
-          settle({ block: false });
-        }
-      });
+  /** ツール結果に添えて LLM に返すフィードバック（全 hook 分を連結） */
+  async postToolUse(payload: PostToolUsePayload): Promise<string | undefined> {
+    const feedback: string[] = [];
+    for (const def of this.matching(payload)) {
+      const outcome = await execHook(def, payload, this.cwd);
+      if (outcome.kind === 'exit2') {
+        const reason = exit2Reason(outcome, payload.hook_event_name, def.command);
+        if (reason) feedback.push(reason);
+        continue;
+      }
+      if (outcome.kind !== 'ok') continue;
+      const { json } = parseHookStdout(outcome.stdout);
+      if (!json) continue;
+      const reason = blockReason(json, payload.hook_event_name, def.command);
+      if (reason) feedback.push(reason);
+      const added = specificOutput(json, 'additionalContext');
+      if (added) feedback.push(added);
+    }
+    return feedback.length > 0 ? feedback.join('\n\n') : undefined;
+  }
 
-      // hook が stdin を読まずに即終了すると write が非同期 EPIPE を投げる。
-      // try/catch では捕まらない (stream の 'error' イベント) ため、握りつぶして
-      // close ハンドラ側で判定を確定させる。
-      child.stdin?.on('error', () => {});
-      try {
-        child.stdin?.write(JSON.stringify(payload));
-        child.stdin?.end();
-      } catch (err) {
-        console.warn(`[hooks] Failed to write stop hook stdin "${def.command}": ${String(err)}`);
+  /** ターン終了の差し戻し判定。最初に block を返した hook で確定する */
+  async stop(payload: StopHookPayload): Promise<StopHookVerdict> {
+    for (const def of this.matching(payload)) {
+      const outcome = await execHook(def, payload, this.cwd);
+      if (outcome.kind === 'exit2') {
+        // Claude Code 互換: exit 2 + stderr が継続フィードバック
+        const reason = exit2Reason(outcome, payload.hook_event_name, def.command);
+        if (reason) return { block: true, reason };
+        continue;
       }
-    });
+      if (outcome.kind !== 'ok' || !outcome.stdout) continue;
+      const { json } = parseHookStdout(outcome.stdout);
+      if (!json) {
+        console.warn(
+          `[hooks] Stop hook stdout is not valid JSON, ignored: ${def.command} (head: ${outcome.stdout.slice(0, 120)})`
+        );
+        continue;
+      }
+      const reason = blockReason(json, payload.hook_event_name, def.command);
+      if (reason) return { block: true, reason };
+    }
+    return { block: false };
   }
 }
 
 /**
- * env と設定ファイルから StopHookRunner を組み立てる。
+ * env と設定ファイルから HookRunner を組み立てる。
  *
  * デフォルト有効: ワークスペースに hooks 設定を「置いたら効く」（skills / triggers と
- * 同じ慣行、Claude Code の settings.json hooks とも揃える）。設定ファイルが無ければ
- * 何もしない no-op なので、有効でも既存ワークスペースへの影響はない。
+ * 同じ慣行、Claude Code の settings.json hooks とも揃える）。設定ファイルが無いか
+ * どのイベントにも hook が無ければ null なので、既存ワークスペースへの影響はない。
  * XANGI_HOOKS_ENABLED=false はキルスイッチ（hooks.json を残したまま一時停止したい時用）。
  */
-export function createStopHookRunner(workspace: string, env = process.env): StopHookRunner | null {
+export function createHookRunner(workspace: string, env = process.env): HookRunner | null {
   if (env.XANGI_HOOKS_ENABLED === 'false') return null;
   const config = loadHooksConfig(workspace, env.XANGI_HOOKS_FILE);
-  const defs = config?.hooks.Stop ?? [];
-  if (defs.length === 0) {
-    if (config) {
-      console.warn('[hooks] hooks config found but no Stop hooks configured');
-    }
+  if (!config) return null;
+  const counts = HOOK_EVENT_NAMES.filter((event) => (config.hooks[event]?.length ?? 0) > 0).map(
+    (event) => `${event}=${config.hooks[event]?.length}`
+  );
+  if (counts.length === 0) {
+    console.warn('[hooks] hooks config found but no hooks configured');
     return null;
   }
-  console.log(`[hooks] Stop hooks enabled: ${defs.length} hook(s)`);
-  return new StopHookRunner(defs, workspace);
+  console.log(`[hooks] Hooks enabled: ${counts.join(', ')}`);
+  return new HookRunner(config.hooks, workspace, {
+    stopMaxRounds: parseStopMaxRounds(env.XANGI_STOP_HOOK_MAX_ROUNDS),
+  });
+}
+
+/**
+ * XANGI_STOP_HOOK_MAX_ROUNDS を解釈する。未設定・不正値・範囲外はデフォルト
+ * （値の検証と警告は config.ts 側で行う）。
+ */
+export function parseStopMaxRounds(raw: string | undefined): number {
+  const n = raw?.trim() ? Number(raw) : NaN;
+  if (!Number.isInteger(n) || n < 1 || n > MAX_STOP_HOOK_ROUNDS) {
+    return DEFAULT_STOP_HOOK_MAX_ROUNDS;
+  }
+  return n;
+}
+
+export interface PromptHookContext {
+  /** hook に渡す session_id（xangi の appSessionId、無ければ backend のセッション ID） */
+  sessionId: string;
+  channelId?: string;
+  backend?: string;
+  platform?: string;
+  /** 新しいセッションの最初のターンなら SessionStart の source。それ以外は undefined */
+  sessionStart?: SessionStartPayload['source'];
+}
+
+/**
+ * SessionStart / UserPromptSubmit を実行し、backend に渡すプロンプトを組み立てる。
+ * hook の文脈はマーカー付きでプロンプトの前に置く。UserPromptSubmit が block したら
+ * HookBlockedError を投げる（ターンを実行しない）。hooks が null ならプロンプトをそのまま返す。
+ */
+export async function applyPromptHooks(
+  hooks: HookRunner | null,
+  prompt: string,
+  cwd: string,
+  ctx: PromptHookContext
+): Promise<string> {
+  if (!hooks) return prompt;
+  const base = {
+    session_id: ctx.sessionId,
+    cwd,
+    channel_id: ctx.channelId,
+    backend: ctx.backend,
+    platform: ctx.platform,
+  };
+  const blocks: string[] = [];
+
+  if (ctx.sessionStart && hooks.count('SessionStart') > 0) {
+    const context = await hooks.sessionStart({
+      ...base,
+      hook_event_name: 'SessionStart',
+      source: ctx.sessionStart,
+    });
+    if (context) {
+      blocks.push(`[SESSION START HOOK CONTEXT]\n${context}\n[END SESSION START HOOK CONTEXT]`);
+    }
+  }
+
+  if (hooks.count('UserPromptSubmit') > 0) {
+    const verdict = await hooks.userPromptSubmit({
+      ...base,
+      hook_event_name: 'UserPromptSubmit',
+      prompt,
+    });
+    if (verdict.block) {
+      console.log(`[hooks] UserPromptSubmit hook blocked prompt: ${verdict.reason?.slice(0, 200)}`);
+      throw new HookBlockedError('UserPromptSubmit', verdict.reason ?? '');
+    }
+    if (verdict.prompt !== prompt) {
+      console.log('[hooks] UserPromptSubmit hook rewrote prompt');
+      prompt = verdict.prompt;
+    }
+    if (verdict.context) {
+      blocks.push(
+        `[USER PROMPT SUBMIT HOOK CONTEXT]\n${verdict.context}\n[END USER PROMPT SUBMIT HOOK CONTEXT]`
+      );
+    }
+  }
+
+  return blocks.length > 0 ? `${blocks.join('\n\n')}\n\n${prompt}` : prompt;
 }
@@ -1,22 +1,25 @@
 import { Client, GatewayIntentBits, Events, Partials, REST, Routes } from 'discord.js';
 import { loadConfig } from './config.js';
-import { requestApproval, setApprovalEnabled } from './approval.js';
+import { initApprovalAudit, setApprovalEnabled } from './approval.js';
+import { initApprovalGrants } from './approval-grants.js';
 import { getBackendDisplayName } from './agent-runner.js';
 import { BackendResolver } from './backend-resolver.js';
 import { DynamicRunnerManager } from './dynamic-runner.js';
-import { loadSkills } from './skills.js';
+import { createSkillRegistry, reloadSkills, setActiveSkillRegistry } from './skill-registry.js';
 import { startSlackBot } from './slack.js';
 import { initSettings, loadSettings } from './settings.js';
 import lockfile from 'proper-lockfile';
 import { Scheduler } from './scheduler.js';
 import { initSessions } from './sessions.js';
+import { initTokenUsage } from './token-usage.js';
 import { join } from 'path';
 import { config as dotenvConfig } from 'dotenv';
 import { startWebChat } from './web-chat.js';
+import { getWebAuthConfig } from './web-auth.js';
 import { startLineBot } from './line.js';
-import { getEventsConfig } from './events-emitter.js';
+import { flushPersistedEvents, getEventsConfig } from './events-emitter.js';
+import { getEventsWebhookConfig, startEventsWebhook } from './events-webhook.js';
 import { startInterInstanceChat, getInterChatConfig } from './inter-instance-chat/index.js';
-import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
 import { registerDiscordTimeoutUi } from './discord/ui.js';
 import {
   buildSlashCommands,
@@ -26,6 +29,7 @@ import {
 import { registerDiscordMessageHandlers } from './discord/message-handler.js';
 import { finalizeActiveStreams } from './stream-finalizer.js';
 import { registerDiscordSchedulerBridge } from './discord/scheduler-bridge.js';
+import { registerDiscordApprovalSender } from './discord/approval-ui.js';
 dotenvConfig({ override: true });
 
 /**
@@ -82,6 +86,29 @@ async function main() {
     console.error('[xangi] Error: LINE_ALLOWED_USER must be set (use "*" to allow everyone)');
     process.exit(1);
   }
+  // Web チャットはパスワードログイン（WEB_CHAT_USERS）を使うときだけ許可リストが要る
+  const webAuth = getWebAuthConfig();
+  const webAllowed = webAuth.users.size > 0 ? webAuth.allowedUsers : [];
+  if (
+    process.env.WEB_CHAT_ENABLED === 'true' &&
+    webAuth.users.size > 0 &&
+    webAllowed.length === 0
+  ) {
+    console.error(
+      '[xangi] Error: WEB_CHAT_ALLOWED_USERS must be set when WEB_CHAT_USERS is used (use "*" to allow everyone)'
+    );
+    process.exit(1);
+  }
+  // webhook は署名なしでは送らない（受け手が xangi からの POST か確かめられないため）
+  if (
+    process.env.XANGI_EVENTS_WEBHOOK_URLS?.trim() &&
+    !process.env.XANGI_EVENTS_WEBHOOK_SECRET?.trim()
+  ) {
+    console.error(
+      '[xangi] Error: XANGI_EVENTS_WEBHOOK_SECRET must be set when XANGI_EVENTS_WEBHOOK_URLS is used'
+    );
+    process.exit(1);
+  }
 
   if (config.discord.enabled) {
     if (discordAllowed.includes('*')) {
@@ -100,6 +127,11 @@ async function main() {
   } else if (lineAllowed.length > 0) {
     console.log(`[xangi] LINE: Allowed users: ${lineAllowed.join(', ')}`);
   }
+  if (webAllowed.includes('*')) {
+    console.log('[xangi] Web: All users are allowed');
+  } else if (webAllowed.length > 0) {
+    console.log(`[xangi] Web: Allowed users: ${webAllowed.join(', ')}`);
+  }
 
   // バックエンドリゾルバー & 動的ランナーマネージャーを作成
   const resolver = new BackendResolver(config);
@@ -109,9 +141,16 @@ async function main() {
     `[xangi] Using ${backendName} as agent backend (platform: ${config.agent.platform ?? 'all'})`
   );
 
-  // スキルを読み込み（`/skills` 再読込と共有する可変参照）
+  // スキルを読み込み（スキルディレクトリの変更と `/skills` 再読込で更新される可変参照）
   const workdir = config.agent.config.workdir || process.cwd();
-  const skillsRef: SkillsRef = { current: loadSkills(workdir) };
+  const skillRegistry = createSkillRegistry(workdir, {
+    watch: process.env.SKILLS_WATCH !== 'false',
+  });
+  setActiveSkillRegistry(skillRegistry);
+  const skillsRef: SkillsRef = { current: skillRegistry.get() };
+  skillRegistry.subscribe((skills) => {
+    skillsRef.current = skills;
+  });
   console.log(`[xangi] Loaded ${skillsRef.current.length} skills from ${workdir}`);
 
   // dataDir（永続データの保存先）を決定
@@ -134,6 +173,15 @@ async function main() {
   // セッション永続化を初期化
   initSessions(dataDir);
 
+  // トークン使用量の記録先を初期化（<dataDir>/usage/）
+  initTokenUsage(dataDir);
+
+  // ツール承認の監査ログの記録先を初期化（<dataDir>/approval-audit.jsonl）
+  initApprovalAudit(dataDir);
+
+  // 承認の記憶（セッション / チャンネル単位の許可）の保存先を初期化（<dataDir>/approval-grants.json）
+  initApprovalGrants(dataDir);
+
   // 外部イベントストリーム (pull 型 SSE) の設定をログ出力。
   // 実際の購読 URL は web-chat 起動時に Tailscale 解決込みで `[xangi-events (SSE)]
   // Access URLs:` として表示される。
@@ -148,9 +196,19 @@ async function main() {
     );
   }
 
+  // webhook 配信（push 型）。XANGI_EVENTS_WEBHOOK_URLS があるときだけ
+  const webhookCfg = getEventsWebhookConfig(dataDir);
+  const eventsWebhook =
+    eventsCfg.enabled && webhookCfg.urls.length > 0 ? startEventsWebhook(webhookCfg) : null;
+  if (!eventsCfg.enabled && webhookCfg.urls.length > 0) {
+    console.warn(
+      '[xangi-events] XANGI_EVENTS_WEBHOOK_URLS is ignored (XANGI_EVENTS_ENABLED=false)'
+    );
+  }
+
   // WebチャットUI起動
   if (process.env.WEB_CHAT_ENABLED === 'true') {
-    startWebChat({ agentRunner });
+    startWebChat({ agentRunner, scheduler });
   }
 
   // LINE Bot 起動 (Tailscale Funnel 等で外部公開して webhook を受ける想定)
@@ -169,6 +227,7 @@ async function main() {
       idleResetEnabled: config.line.idleResetEnabled,
       idleResetHours: config.line.idleResetHours,
       resetTextPatterns: config.line.resetTextPatterns,
+      scheduler,
     });
   }
 
@@ -184,9 +243,14 @@ async function main() {
 
   // ツール承認の有効/無効（デフォルト無効）
   if (process.env.APPROVAL_ENABLED === 'true') {
-    setApprovalEnabled(true);
+    setApprovalEnabled(true, workdir);
   }
 
+  // ツール承認サーバー起動（Claude Code PreToolUseフック / Local LLM 用）。
+  // 承認メッセージは各プラットフォームが登録した送信関数で送る
+  const { startApprovalServer } = await import('./approval-server.js');
+  startApprovalServer();
+
   // Discord ボット: トークン未設定 (Web オンリーモード等) では Client を生成しない。
   // 生成だけでも discord.js の内部リソースを確保するし、login しない Client が
   // 残っているのは紛らわしいため、有効時のみ生成・配線する (issue #173)
@@ -206,48 +270,36 @@ async function main() {
     // runner の timeout-* イベントを Discord メッセージ更新に紐付け
     registerDiscordTimeoutUi(agentRunner);
 
-    // スラッシュコマンド定義（基本 + 設定で有効化されるコマンド + スキル個別コマンド）
-    const commands = buildSlashCommands(config, skillsRef.current);
+    const rest = new REST({ version: '10' }).setToken(config.discord.token);
+
+    /**
+     * スラッシュコマンド定義（基本 + 設定で有効化されるコマンド + スキル個別コマンド）を
+     * ギルドコマンドとして登録（即時反映）。スキルが変わったときにも呼び直す
+     */
+    const registerGuildCommands = async (applicationId: string) => {
+      const commands = buildSlashCommands(config, skillsRef.current);
+      for (const [guildId, guild] of client.guilds.cache) {
+        await rest.put(Routes.applicationGuildCommands(applicationId, guildId), {
+          body: commands,
+        });
+        console.log(`[xangi] ${commands.length} slash commands registered for: ${guild.name}`);
+      }
+    };
+
+    // スキルの追加・削除・マニフェスト変更を個別スキルコマンドと引数オプションに反映
+    skillRegistry.subscribe(() => {
+      if (!client.isReady()) return;
+      registerGuildCommands(client.user.id).catch((error) =>
+        console.error('[xangi] Failed to re-register slash commands:', error)
+      );
+    });
 
     // スラッシュコマンド登録
     client.once(Events.ClientReady, async (c) => {
       console.log(`[xangi] Ready! Logged in as ${c.user.tag}`);
 
-      // ツール承認サーバー起動（Claude Code PreToolUseフック用）
-      const { startApprovalServer } = await import('./approval-server.js');
-      startApprovalServer(async (toolName, toolInput, dangerDescription) => {
-        // 最初のauto-replyチャンネルに承認メッセージを送信
-        const approvalChannelId = config.discord.autoReplyChannels?.[0];
-        if (!approvalChannelId) return true; // チャンネル未設定なら許可
-        const channel = c.channels.cache.get(approvalChannelId);
-        if (!channel || !('send' in channel)) return true;
-
-        const command =
-          toolName === 'Bash'
-            ? String((toolInput as Record<string, unknown>).command || '').slice(0, 200)
-            : `${toolName}: ${String((toolInput as Record<string, unknown>).file_path || '')}`;
-
-        return requestApproval(
-          approvalChannelId,
-          { command, matches: dangerDescription },
-          (approvalId, danger) => {
-            const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
-              new ButtonBuilder()
-                .setCustomId(`xangi_approve_${approvalId}`)
-                .setLabel('許可')
-                .setStyle(ButtonStyle.Success),
-              new ButtonBuilder()
-                .setCustomId(`xangi_deny_${approvalId}`)
-                .setLabel('拒否')
-                .setStyle(ButtonStyle.Danger)
-            );
-            (channel as unknown as { send: (opts: unknown) => Promise<unknown> }).send({
-              content: `⚠️ **危険なコマンドを検知**\n\`\`\`\n${danger.command}\n\`\`\`\n${danger.matches.join(', ')}\n\n2分以内に応答がなければ自動拒否`,
-              components: [row],
-            });
-          }
-        );
-      });
+      // 承認リクエストを Discord のボタンで受けられるようにする
+      registerDiscordApprovalSender(c, config);
 
       // ツールサーバー起動（Claude Codeからcurlで叩くAPI）
       // イベントトリガー（POST /api/trigger）は scheduler の agentRunner 経路を再利用
@@ -255,13 +307,11 @@ async function main() {
       const { EventTrigger, loadTriggerConfig } = await import('./event-trigger.js');
       startToolServer({ eventTrigger: new EventTrigger(loadTriggerConfig(), scheduler) });
 
-      const rest = new REST({ version: '10' }).setToken(config.discord.token);
       try {
-        // ギルドコマンドとして登録（即時反映）
         const guilds = c.guilds.cache;
         console.log(`[xangi] Found ${guilds.size} guilds`);
 
-        for (const [guildId, guild] of guilds) {
+        for (const guild of guilds.values()) {
           // 起動時に全 channel を fetch して cache を確実に更新。
           // 起動後に作成された channel が gateway 経由の MessageCreate event を
           // 受け取れない症状 (キャッシュ不整合) を防ぐ。
@@ -271,12 +321,8 @@ async function main() {
           } catch (e) {
             console.warn(`[xangi] Failed to refresh channels for ${guild.name}:`, e);
           }
-
-          await rest.put(Routes.applicationGuildCommands(c.user.id, guildId), {
-            body: commands,
-          });
-          console.log(`[xangi] ${commands.length} slash commands registered for: ${guild.name}`);
         }
+        await registerGuildCommands(c.user.id);
 
         // グローバルコマンドをクリア（重複防止）
         await rest.put(Routes.applicationCommands(c.user.id), { body: [] });
@@ -313,11 +359,8 @@ async function main() {
     await startSlackBot({
       config,
       agentRunner,
-      skills: skillsRef.current,
-      reloadSkills: () => {
-        skillsRef.current = loadSkills(workdir);
-        return skillsRef.current;
-      },
+      getSkills: () => skillsRef.current,
+      reloadSkills: () => reloadSkills(workdir),
       scheduler,
     });
     console.log('[xangi] Slack bot started');
@@ -338,6 +381,11 @@ async function main() {
   const shutdown = async () => {
     console.log('[xangi] Shutting down scheduler...');
     scheduler.stopAll();
+    skillRegistry.stop();
+    // 未送信の webhook バッチは dead-letter に残す
+    eventsWebhook?.stop();
+    // 追記待ちのイベントを events.jsonl に書き切る
+    await flushPersistedEvents();
     // 実行中のストリーミング表示を「中断」表示で確定させる (issue #293)。
     // pm2 の kill timeout (デフォルト 1600ms) 内で完了するよう内部で打ち切る
     try {
@@ -7,13 +7,28 @@
  * - text message を Runner 経由で処理して `client.replyMessage` で返信
  * - contextKey = `line:<userId>` で per-userId セッション分離
  * - allowedUsers (LINE userId allowlist) で送受信を絞れる ("*" で全許可)
+ * - scheduler を渡すと、スケジュール (platform: 'line', channelId = userId) の
+ *   結果を Push API で配信する
+ * - ツール承認リクエストは quick reply の「許可 / 拒否」ボタンで Push し、postback で応答を受ける
  */
 import { createServer, type IncomingMessage, type ServerResponse } from 'http';
 import { LineBotClient, validateSignature, type webhook } from '@line/bot-sdk';
 import type { AgentRunner } from './agent-runner.js';
+import type { Scheduler } from './scheduler.js';
 import { ensureSession, getActiveSessionId, getSessionEntry, archiveSession } from './sessions.js';
 import { threadIdFor, turnIdFor } from './events-emitter.js';
 import { runWithBubbleEvents } from './bubble-events-runner.js';
+import { splitMessage } from './message-split.js';
+import {
+  APPROVAL_COMMAND_PREVIEW_MAX,
+  APPROVAL_EXPIRED_TEXT,
+  approvalScopeLabel,
+  formatApprovalResult,
+  getPendingApproval,
+  registerApprovalSender,
+  resolveApproval,
+} from './approval.js';
+import { APPROVAL_SCOPES, type ApprovalScope } from './approval-grants.js';
 
 const DEFAULT_PORT = 8765;
 const DEFAULT_PATH = '/webhook';
@@ -22,6 +37,9 @@ const LINE_CONTEXT_PREFIX = 'line:';
 // LINE text message は 5000 chars 制限 (公式仕様)
 const LINE_TEXT_MESSAGE_MAX = 5000;
 
+// Push API の 1 リクエストあたりの最大メッセージ数 (公式仕様)
+const LINE_PUSH_MESSAGES_MAX = 5;
+
 // Loading animation の許容値 (5の倍数、最大60)
 const LINE_LOADING_SECONDS_VALID: readonly number[] = [5, 10, 15, 20, 25, 30, 40, 50, 60];
 const LINE_LOADING_SECONDS_DEFAULT = 60;
@@ -120,6 +138,8 @@ export interface LineBotOptions {
   idleResetHours?: number;
   /** Reset コマンドのテキストパターン (default: 規定パターン)。空配列を渡すと検出無効 */
   resetTextPatterns?: readonly string[];
+  /** 渡すとスケジューラに LINE 向けの送信関数とエージェント実行関数を登録する */
+  scheduler?: Scheduler;
 }
 
 /**
@@ -150,6 +170,11 @@ export function startLineBot(options: LineBotOptions): void {
 
   const client = LineBotClient.fromChannelAccessToken({ channelAccessToken });
 
+  if (options.scheduler) {
+    registerLineSchedulerBridge(options.scheduler, client, agentRunner);
+  }
+  registerLineApprovalSender(client);
+
   const server = createServer(async (req, res) => {
     try {
       await handleRequest(req, res, {
@@ -190,6 +215,130 @@ export function startLineBot(options: LineBotOptions): void {
   });
 }
 
+/**
+ * テキストを LINE の text message 配列に分割する (5000 字 × 最大 5 通)。
+ * 5 通に収まらない分は切り捨てる。
+ */
+export function toLineTextMessages(text: string): { type: 'text'; text: string }[] {
+  return splitMessage(text, LINE_TEXT_MESSAGE_MAX)
+    .filter((chunk) => chunk.trim())
+    .slice(0, LINE_PUSH_MESSAGES_MAX)
+    .map((chunk) => ({ type: 'text' as const, text: chunk }));
+}
+
+/** Push API 送信に必要な最小限のクライアント (テストで差し替えられるよう分離) */
+type LinePushClient = Pick<LineBotClient, 'pushMessage'>;
+
+/**
+ * スケジューラに LINE 向けの送信関数とエージェント実行関数を登録する。
+ *
+ * スケジュールの channelId は LINE userId。replyToken が無いため結果は常に
+ * Push API で送る。Discord の scheduler-bridge と同じく毎回新規セッション
+ * (stateless) で実行し、ユーザとの会話セッションには混ぜない。
+ */
+export function registerLineSchedulerBridge(
+  scheduler: Scheduler,
+  client: LinePushClient,
+  agentRunner: AgentRunner
+): void {
+  scheduler.registerSender('line', async (userId, msg) => {
+    const messages = toLineTextMessages(msg);
+    if (messages.length === 0) return;
+    await client.pushMessage({ to: userId, messages });
+  });
+
+  scheduler.registerAgentRunner('line', async (prompt, userId) => {
+    const contextKey = `${LINE_CONTEXT_PREFIX}${userId}`;
+    const schedAppSessionId = ensureSession(contextKey, { platform: 'line', scope: 'scheduler' });
+    const freshAppSessionId = `${schedAppSessionId}-${Date.now()}`;
+    try {
+      const { result } = await runWithBubbleEvents(
+        agentRunner,
+        prompt,
+        {
+          threadId: threadIdFor('line', userId),
+          turnId: turnIdFor('line', `schedule-${Date.now()}`),
+          threadLabel: `LINE 1:1 (${userId.slice(0, 8)}…)`,
+          platform: 'line',
+        },
+        {},
+        { channelId: contextKey, appSessionId: freshAppSessionId }
+      );
+      const messages = toLineTextMessages(result || '');
+      if (messages.length > 0) {
+        await client.pushMessage({ to: userId, messages });
+      }
+      return result;
+    } catch (err) {
+      await client
+        .pushMessage({ to: userId, messages: [{ type: 'text', text: ERROR_FALLBACK_TEXT }] })
+        .catch(() => {});
+      throw err;
+    }
+  });
+}
+
+/** 承認ボタン (quick reply postback) の data に付けるキー */
+const APPROVAL_POSTBACK_KEY = 'xangi_approval';
+
+/**
+ * 承認リクエストを quick reply の「許可 / 拒否」ボタン付きで Push 送信する送信関数を登録する。
+ * 押されたボタンは postback イベントとして webhook に届き、handleApprovalPostback で処理する。
+ */
+export function registerLineApprovalSender(client: LinePushClient): void {
+  registerApprovalSender('line', async ({ id, target, danger }) => {
+    const userId = target.channelId.slice(LINE_CONTEXT_PREFIX.length);
+    const command = danger.command.slice(0, APPROVAL_COMMAND_PREVIEW_MAX);
+    const button = (label: string, approved: boolean, scope: ApprovalScope) => ({
+      type: 'action' as const,
+      action: {
+        type: 'postback' as const,
+        label,
+        displayText: label,
+        data: new URLSearchParams({
+          [APPROVAL_POSTBACK_KEY]: id,
+          approved: String(approved),
+          scope,
+        }).toString(),
+      },
+    });
+    await client.pushMessage({
+      to: userId,
+      messages: [
+        {
+          type: 'text',
+          text: `⚠️ 危険なコマンドを検知\n${command}\n${danger.matches.join(', ')}\n\n2分以内に応答がなければ自動拒否`,
+          quickReply: {
+            items: [
+              ...APPROVAL_SCOPES.map((scope) => button(approvalScopeLabel(scope), true, scope)),
+              button('拒否', false, 'once'),
+            ],
+          },
+        },
+      ],
+    });
+  });
+}
+
+/**
+ * 承認ボタンの postback を処理し、返信テキストを返す (承認の postback でなければ null)。
+ * 他ユーザー宛ての承認 ID は応答済み扱いにして使い回させない。
+ */
+export function handleApprovalPostback(userId: string, data: string): string | null {
+  const params = new URLSearchParams(data);
+  const approvalId = params.get(APPROVAL_POSTBACK_KEY);
+  if (!approvalId) return null;
+  const approved = params.get('approved') === 'true';
+  const scope = APPROVAL_SCOPES.find((s) => s === params.get('scope')) ?? 'once';
+  const pending = getPendingApproval(approvalId);
+  const resolved =
+    !!pending &&
+    pending.target.platform === 'line' &&
+    pending.target.channelId === `${LINE_CONTEXT_PREFIX}${userId}` &&
+    resolveApproval(approvalId, approved, `line:${userId}`, scope);
+  return resolved ? formatApprovalResult(approved, scope) : APPROVAL_EXPIRED_TEXT;
+}
+
 interface HandlerContext {
   path: string;
   channelSecret: string;
@@ -266,6 +415,10 @@ async function readRawBody(req: IncomingMessage): Promise<string> {
 }
 
 async function handleEvent(event: webhook.Event, ctx: HandlerContext): Promise<void> {
+  if (event.type === 'postback') {
+    await handlePostbackEvent(event, ctx);
+    return;
+  }
   if (event.type !== 'message') return;
   const message = event.message;
   if (!message || message.type !== 'text') return;
@@ -434,3 +587,26 @@ async function handleEvent(event: webhook.Event, ctx: HandlerContext): Promise<v
     }
   }
 }
+
+async function handlePostbackEvent(
+  event: webhook.PostbackEvent,
+  ctx: HandlerContext
+): Promise<void> {
+  const source = event.source;
+  const userId = source && 'userId' in source ? source.userId : undefined;
+  if (!userId) return;
+  if (!ctx.allowAll && !ctx.allowedUsers.includes(userId)) {
+    console.log(`[xangi-line] user ${userId} not in allowlist, ignoring postback`);
+    return;
+  }
+  const replyText = handleApprovalPostback(userId, event.postback.data);
+  if (!replyText || !event.replyToken) return;
+  try {
+    await ctx.client.replyMessage({
+      replyToken: event.replyToken,
+      messages: [{ type: 'text', text: replyText }],
+    });
+  } catch (err) {
+    console.error('[xangi-line] approval reply failed:', err);
+  }
+}
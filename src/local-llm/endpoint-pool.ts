@@ -0,0 +1,257 @@
+/**
+ * Local LLM endpoint のフォールバックチェーン
+ *
+ * 順序付きの endpoint（URL + model + provider）を持ち、接続エラー / 5xx で次の endpoint に
+ * 切り替える。失敗した endpoint は一定時間 cooldown に入れて後回しにし、
+ * cooldown 明けか他が全滅したときに再び試す。
+ *
+ * ストリーミングは最初の chunk を返す前の失敗だけフェイルオーバーする
+ * （途中まで流した応答を別モデルで継ぎ足すと文脈が壊れるため）。
+ */
+import type { LLMMessage, LLMChatOptions, LLMChatResponse } from './types.js';
+import { LLMClient } from './llm-client.js';
+import {
+  LLM_PROVIDER_NAMES,
+  type LLMProviderName,
+  type LLMProviderSetting,
+} from './providers/index.js';
+import { isTransientNetworkError } from '../errors.js';
+
+/** 失敗した endpoint を後回しにする時間のデフォルト */
+export const DEFAULT_ENDPOINT_COOLDOWN_MS = 60_000;
+
+export interface LLMEndpoint {
+  baseUrl: string;
+  model: string;
+  provider: LLMProviderSetting;
+}
+
+/** 共通の接続設定（API キー等は全 endpoint で共有） */
+export interface LLMEndpointSharedOptions {
+  apiKey: string;
+  thinking: boolean;
+  maxTokens: number;
+  numCtx?: number;
+  temperature?: number;
+}
+
+/** 実際に応答した endpoint（trajectory ログ / runtime context 用） */
+export interface ServedEndpoint {
+  baseUrl: string;
+  model: string;
+  provider: LLMProviderName;
+  /** チェーン中の位置（0 = primary） */
+  index: number;
+  /** この呼び出しで先に失敗して飛ばした endpoint */
+  failedOver: Array<{ baseUrl: string; model: string; error: string }>;
+}
+
+export interface LLMEndpointPoolOptions extends LLMEndpointSharedOptions {
+  cooldownMs?: number;
+  /** テスト用の時計 */
+  now?: () => number;
+}
+
+export interface PoolChatOptions extends LLMChatOptions {
+  /** 応答した endpoint の通知（フェイルオーバーの有無に関わらず毎回呼ぶ） */
+  onEndpoint?: (endpoint: ServedEndpoint) => void;
+}
+
+interface PoolEntry {
+  endpoint: LLMEndpoint;
+  client: LLMClient;
+  index: number;
+  cooldownUntil: number;
+}
+
+/**
+ * `LOCAL_LLM_FALLBACK_ENDPOINTS` をパースする。
+ *
+ * 書式: `<url>[|<model>[|<provider>]]` をカンマ区切り。model / provider 省略時は primary と同じ。
+ * 例: `http://gpu:8001|gemma-4-26b-a4b,http://localhost:11434|qwen3:8b|ollama`
+ */
+export function parseFallbackEndpoints(
+  raw: string | undefined,
+  primary: LLMEndpoint
+): LLMEndpoint[] {
+  if (!raw) return [];
+  const endpoints: LLMEndpoint[] = [];
+  for (const item of raw.split(',')) {
+    const [url, model, provider] = item.split('|').map((s) => s.trim());
+    if (!url) continue;
+    if (!/^https?:\/\//.test(url)) {
+      throw new Error(`Invalid endpoint URL: ${url}`);
+    }
+    const providerName = (provider || primary.provider).toLowerCase();
+    if (providerName !== 'auto' && !LLM_PROVIDER_NAMES.some((p) => p === providerName)) {
+      throw new Error(`Invalid provider for ${url}: ${provider}`);
+    }
+    endpoints.push({
+      baseUrl: url.replace(/\/$/, ''),
+      model: model || primary.model,
+      provider: providerName as LLMProviderSetting,
+    });
+  }
+  return endpoints;
+}
+
+/** 別 endpoint に切り替える価値のあるエラーか（接続できない / サーバー側 5xx） */
+export function shouldFailOver(err: unknown, signal?: AbortSignal): boolean {
+  // ユーザー中断・タイムアウトは他の endpoint でも同じなので切り替えない
+  if (signal?.aborted) return false;
+  const msg = err instanceof Error ? err.message : String(err);
+  return isTransientNetworkError(err) || /API error 5\d\d\b/.test(msg);
+}
+
+/** `model@host:port` 形式の短い表記 */
+export function describeEndpoint(endpoint: { baseUrl: string; model: string }): string {
+  let host = endpoint.baseUrl;
+  try {
+    host = new URL(endpoint.baseUrl).host;
+  } catch {
+    // URL として読めなければそのまま
+  }
+  return `${endpoint.model}@${host}`;
+}
+
+export class LLMEndpointPool {
+  private readonly entries: PoolEntry[];
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+
+  constructor(endpoints: LLMEndpoint[], options: LLMEndpointPoolOptions) {
+    if (endpoints.length === 0) throw new Error('At least one LLM endpoint is required');
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_ENDPOINT_COOLDOWN_MS;
+    this.now = options.now ?? Date.now;
+    this.entries = endpoints.map((endpoint, index) => ({
+      endpoint,
+      index,
+      cooldownUntil: 0,
+      client: new LLMClient(
+        endpoint.baseUrl,
+        endpoint.model,
+        options.apiKey,
+        options.thinking,
+        options.maxTokens,
+        options.numCtx,
+        options.temperature,
+        endpoint.provider
+      ),
+    }));
+  }
+
+  /** フォールバック先が設定されているか */
+  get hasFallbacks(): boolean {
+    return this.entries.length > 1;
+  }
+
+  /** 起動ログ用: `model@host (provider) → ...` */
+  describeChain(): string {
+    return this.entries
+      .map((e) => `${describeEndpoint(e.endpoint)} (${e.client.providerName})`)
+      .join(' → ');
+  }
+
+  /** 次の呼び出しで最初に試す endpoint（cooldown 中のものは飛ばす） */
+  get activeEndpoint(): ServedEndpoint {
+    const entry = this.order()[0];
+    return this.toServed(entry, []);
+  }
+
+  /**
+   * 試す順序: cooldown 中でないものを設定順に、その後 cooldown 中のものを明けが早い順に。
+   * 全 endpoint が cooldown 中でも呼び出し自体は諦めない。
+   */
+  private order(): PoolEntry[] {
+    const now = this.now();
+    const healthy = this.entries.filter((e) => e.cooldownUntil <= now);
+    const cooling = this.entries
+      .filter((e) => e.cooldownUntil > now)
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+    return [...healthy, ...cooling];
+  }
+
+  private toServed(entry: PoolEntry, failedOver: ServedEndpoint['failedOver']): ServedEndpoint {
+    return {
+      baseUrl: entry.endpoint.baseUrl,
+      model: entry.endpoint.model,
+      provider: entry.client.providerName,
+      index: entry.index,
+      failedOver,
+    };
+  }
+
+  /**
+   * 呼び出し失敗時: フェイルオーバー対象なら cooldown に入れて次へ進む（戻り値を failedOver に積む）。
+   * 対象外のエラーか、次の endpoint が無ければそのまま throw する。
+   */
+  private handleFailure(
+    entry: PoolEntry,
+    err: unknown,
+    next: PoolEntry | undefined,
+    signal?: AbortSignal
+  ): ServedEndpoint['failedOver'][number] {
+    // 単一 endpoint 構成では cooldown に意味が無いので従来どおり素通し
+    if (!this.hasFallbacks || !shouldFailOver(err, signal)) throw err;
+    const error = err instanceof Error ? err.message : String(err);
+    entry.cooldownUntil = this.now() + this.cooldownMs;
+    console.warn(
+      `[local-llm] endpoint ${describeEndpoint(entry.endpoint)} failed (${error}); cooling down for ${Math.round(this.cooldownMs / 1000)}s` +
+        (next ? `, failing over to ${describeEndpoint(next.endpoint)}` : '')
+    );
+    if (!next) throw err;
+    return { baseUrl: entry.endpoint.baseUrl, model: entry.endpoint.model, error };
+  }
+
+  private markServed(entry: PoolEntry): void {
+    if (entry.cooldownUntil > 0) {
+      entry.cooldownUntil = 0;
+      console.log(`[local-llm] endpoint ${describeEndpoint(entry.endpoint)} recovered`);
+    }
+  }
+
+  async chat(messages: LLMMessage[], options?: PoolChatOptions): Promise<LLMChatResponse> {
+    const order = this.order();
+    const failedOver: ServedEndpoint['failedOver'] = [];
+    for (let i = 0; i < order.length; i++) {
+      const entry = order[i];
+      try {
+        const response = await entry.client.chat(messages, options);
+        this.markServed(entry);
+        options?.onEndpoint?.(this.toServed(entry, failedOver));
+        return response;
+      } catch (err) {
+        failedOver.push(this.handleFailure(entry, err, order[i + 1], options?.signal));
+      }
+    }
+    // order は 1 件以上あるので到達しない
+    throw new Error('No LLM endpoint available');
+  }
+
+  async *chatStream(messages: LLMMessage[], options?: PoolChatOptions): AsyncGenerator<string> {
+    const order = this.order();
+    const failedOver: ServedEndpoint['failedOver'] = [];
+    for (let i = 0; i < order.length; i++) {
+      const entry = order[i];
+      let started = false;
+      try {
+        for await (const chunk of entry.client.chatStream(messages, options)) {
+          if (!started) {
+            started = true;
+            this.markServed(entry);
+            options?.onEndpoint?.(this.toServed(entry, failedOver));
+          }
+          yield chunk;
+        }
+        if (!started) {
+          this.markServed(entry);
+          options?.onEndpoint?.(this.toServed(entry, failedOver));
+        }
+        return;
+      } catch (err) {
+        if (started) throw err;
+        failedOver.push(this.handleFailure(entry, err, order[i + 1], options?.signal));
+      }
+    }
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Anthropic Messages 互換 API (`/v1/messages`) provider
+ *
+ * OpenAI 形式との主な違い:
+ * - system prompt はメッセージ配列ではなくトップレベルの `system`
+ * - tool 呼び出しは assistant の `tool_use` ブロック、結果は user の `tool_result` ブロック
+ * - user / assistant は交互である必要があるため、同じロールが続く場合はブロックを連結する
+ * - ストリーミングは `content_block_delta` イベントの `text_delta` を拾う
+ */
+import type { LLMMessage, LLMToolCall, LLMChatOptions, LLMChatResponse } from '../types.js';
+import type { LLMProvider, LLMProviderConfig } from './types.js';
+import { assertOk, postJson, readSseJson, reportUsage, resolveTemperature } from './shared.js';
+
+export const ANTHROPIC_VERSION = '2023-06-01';
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+interface AnthropicResponse {
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage?: AnthropicUsage;
+}
+
+function reportAnthropicUsage(options: LLMChatOptions | undefined, usage?: AnthropicUsage): void {
+  if (!usage) return;
+  // Anthropic の input_tokens は cache 分を含まないので、他 provider と揃えて足し込む
+  const input =
+    usage.input_tokens === undefined
+      ? undefined
+      : usage.input_tokens +
+        (usage.cache_read_input_tokens ?? 0) +
+        (usage.cache_creation_input_tokens ?? 0);
+  reportUsage(options, input, usage.output_tokens, {
+    cacheReadTokens: usage.cache_read_input_tokens,
+    cacheCreationTokens: usage.cache_creation_input_tokens,
+  });
+}
+
+type AnthropicStreamEvent =
+  | { type: 'content_block_delta'; delta: { type: string; text?: string } }
+  | { type: 'message_start'; message: { usage?: AnthropicUsage } }
+  | { type: 'message_delta'; usage?: AnthropicUsage }
+  | { type: 'error'; error: { type: string; message: string } }
+  | { type: string };
+
+/**
+ * LLMMessage[] を Messages API 形式に変換する。
+ * system ロールは `system` に寄せるので戻り値で分けて返す。
+ */
+function toAnthropicMessages(messages: LLMMessage[]): {
+  system: string[];
+  messages: AnthropicMessage[];
+} {
+  const system: string[] = [];
+  const result: AnthropicMessage[] = [];
+  const push = (role: AnthropicMessage['role'], blocks: AnthropicContentBlock[]) => {
+    if (blocks.length === 0) return;
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  };
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      if (msg.content) system.push(msg.content);
+      continue;
+    }
+    if (msg.role === 'tool') {
+      push('user', [
+        { type: 'tool_result', tool_use_id: msg.toolCallId ?? '', content: msg.content },
+      ]);
+      continue;
+    }
+
+    const blocks: AnthropicContentBlock[] = [];
+    for (const img of msg.images ?? []) {
+      blocks.push({
+        type: 'image',
+        source: { type: 'base64', media_type: img.mimeType, data: img.base64 },
+      });
+    }
+    // 空の text ブロックは API に拒否される
+    if (msg.content) blocks.push({ type: 'text', text: msg.content });
+    if (msg.role === 'assistant') {
+      for (const tc of msg.toolCalls ?? []) {
+        blocks.push({ type: 'tool_use', id: tc.id, name: tc.name, input: tc.arguments });
+      }
+    }
+    push(msg.role, blocks);
+  }
+  return { system, messages: result };
+}
+
+/**
+ * tools / tool_choice を Messages API 形式で body に注入する。
+ *
+ * toolChoice='none' でも tools 自体は渡す（履歴に tool_use / tool_result があると
+ * tools 定義が必須なため）。tool_choice: { type: 'none' } で text 応答を強制する。
+ */
+function applyAnthropicTools(body: Record<string, unknown>, options?: LLMChatOptions): void {
+  if (!options?.tools || options.tools.length === 0) return;
+  body.tools = options.tools.map((t) => ({
+    name: t.name,
+    description: t.description,
+    input_schema: t.parameters,
+  }));
+  const choice = options.toolChoice;
+  if (choice === undefined) return;
+  if (choice === 'auto') body.tool_choice = { type: 'auto' };
+  else if (choice === 'none') body.tool_choice = { type: 'none' };
+  else if (choice === 'required') body.tool_choice = { type: 'any' };
+  else body.tool_choice = { type: 'tool', name: choice.function.name };
+}
+
+/** test 用 export */
+export const __testables = { toAnthropicMessages, applyAnthropicTools };
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(private readonly config: LLMProviderConfig) {}
+
+  private headers(): Record<string, string> {
+    return {
+      'anthropic-version': ANTHROPIC_VERSION,
+      ...(this.config.apiKey && { 'x-api-key': this.config.apiKey }),
+    };
+  }
+
+  private buildBody(
+    messages: LLMMessage[],
+    options: LLMChatOptions | undefined,
+    stream: boolean
+  ): Record<string, unknown> {
+    const converted = toAnthropicMessages(messages);
+    const system = [options?.systemPrompt, ...converted.system].filter(Boolean).join('\n\n');
+
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      max_tokens: options?.maxTokens ?? this.config.defaultMaxTokens,
+      messages: converted.messages,
+      stream,
+    };
+    if (system) body.system = system;
+
+    applyAnthropicTools(body, options);
+
+    const t = resolveTemperature(this.config, options?.temperature);
+    if (t !== undefined) body.temperature = t;
+    return body;
+  }
+
+  async chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMChatResponse> {
+    const response = await postJson(
+      `${this.config.baseUrl}/v1/messages`,
+      this.buildBody(messages, options, false),
+      { headers: this.headers(), signal: options?.signal, timeoutMs: this.config.timeoutMs }
+    );
+    await assertOk(response, 'Anthropic');
+
+    const data = (await response.json()) as AnthropicResponse;
+    reportAnthropicUsage(options, data.usage);
+    const texts: string[] = [];
+    const toolCalls: LLMToolCall[] = [];
+    for (const block of data.content ?? []) {
+      if (block.type === 'text') {
+        texts.push(block.text);
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id || crypto.randomUUID(),
+          name: block.name,
+          arguments: block.input ?? {},
+        });
+      }
+    }
+
+    let finishReason: LLMChatResponse['finishReason'] = 'stop';
+    if (toolCalls.length > 0) finishReason = 'tool_calls';
+    else if (data.stop_reason === 'max_tokens') finishReason = 'length';
+
+    return {
+      content: texts.join(''),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason,
+    };
+  }
+
+  async *chatStream(messages: LLMMessage[], options?: LLMChatOptions): AsyncGenerator<string> {
+    const response = await postJson(
+      `${this.config.baseUrl}/v1/messages`,
+      this.buildBody(messages, options, true),
+      { headers: this.headers(), signal: options?.signal }
+    );
+    await assertOk(response, 'Anthropic');
+
+    // input 側は message_start、output 側の確定値は message_delta に分かれて届く
+    let usage: AnthropicUsage | undefined;
+    for await (const event of readSseJson<AnthropicStreamEvent>(response)) {
+      if (event.type === 'error' && 'error' in event) {
+        throw new Error(`Anthropic API error: ${event.error.message}`);
+      }
+      if (event.type === 'message_start' && 'message' in event) {
+        usage = { ...event.message.usage };
+        continue;
+      }
+      if (event.type === 'message_delta' && 'usage' in event) {
+        usage = { ...usage, ...event.usage };
+        continue;
+      }
+      if (
+        event.type === 'content_block_delta' &&
+        'delta' in event &&
+        event.delta.type === 'text_delta' &&
+        event.delta.text
+      ) {
+        yield event.delta.text;
+      }
+    }
+    reportAnthropicUsage(options, usage);
+  }
+}
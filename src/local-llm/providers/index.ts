@@ -0,0 +1,52 @@
+import type {
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderName,
+  LLMProviderSetting,
+} from './types.js';
+import { OpenAIProvider } from './openai.js';
+import { OllamaProvider, isOllamaUrl } from './ollama.js';
+import { LlamaCppProvider } from './llamacpp.js';
+import { AnthropicProvider } from './anthropic.js';
+
+export {
+  LLM_PROVIDER_NAMES,
+  type LLMProvider,
+  type LLMProviderConfig,
+  type LLMProviderName,
+  type LLMProviderSetting,
+} from './types.js';
+export { OpenAIProvider, applyOpenAITools } from './openai.js';
+export { OllamaProvider, applyOllamaTools, toOllamaMessages, isOllamaUrl } from './ollama.js';
+export { LlamaCppProvider } from './llamacpp.js';
+export { AnthropicProvider, ANTHROPIC_VERSION } from './anthropic.js';
+
+/**
+ * 使う provider を決める。
+ *
+ * 明示指定があればそれを使う。auto（未指定）は従来の挙動と同じで、
+ * thinking 無効かつ URL が Ollama っぽければ Ollama ネイティブ、それ以外は OpenAI 互換。
+ * （Ollama ネイティブ API は think:false で推論を切れるが、thinking を使うときは
+ *  OpenAI 互換層の方が reasoning を content と分けて返してくれる）
+ */
+export function resolveProviderName(
+  setting: LLMProviderSetting | undefined,
+  baseUrl: string,
+  thinking: boolean
+): LLMProviderName {
+  if (setting && setting !== 'auto') return setting;
+  return !thinking && isOllamaUrl(baseUrl) ? 'ollama' : 'openai';
+}
+
+export function createLLMProvider(name: LLMProviderName, config: LLMProviderConfig): LLMProvider {
+  switch (name) {
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'llamacpp':
+      return new LlamaCppProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'openai':
+      return new OpenAIProvider(config);
+  }
+}
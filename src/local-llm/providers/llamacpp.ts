@@ -0,0 +1,229 @@
+/**
+ * llama.cpp server ネイティブ API (`/completion`) provider
+ *
+ * `/completion` は生プロンプトを受け取る API なので、
+ * - チャット履歴 → プロンプトへの展開はサーバーの `/apply-template`（モデル付属の chat template）に任せる
+ * - tools は system prompt に JSON Schema を列挙し、`<tool_call>{...}</tool_call>` 形式で
+ *   呼び出させて応答テキストから取り出す（Hermes 形式。多くの GGUF モデルが学習済み）
+ * - tool の実行結果は `<tool_response>` で包んだ user メッセージとして戻す
+ *
+ * 画像入力は `/completion` の互換性が版ごとに異なるため扱わない（テキストのみ送る）。
+ */
+import type {
+  LLMMessage,
+  LLMTool,
+  LLMToolCall,
+  LLMChatOptions,
+  LLMChatResponse,
+} from '../types.js';
+import type { LLMProvider, LLMProviderConfig } from './types.js';
+import { assertOk, postJson, readSseJson, reportUsage, resolveTemperature } from './shared.js';
+
+interface TemplateMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface CompletionResponse {
+  content: string;
+  stop?: boolean;
+  /** eos / word / limit / none */
+  stop_type?: string;
+  truncated?: boolean;
+  /** prompt のトークン数（最終応答 / 最終 chunk のみ） */
+  tokens_evaluated?: number;
+  tokens_predicted?: number;
+  /** 前回リクエストから KV cache を再利用した prompt トークン数 */
+  tokens_cached?: number;
+}
+
+function reportCompletionUsage(
+  options: LLMChatOptions | undefined,
+  data: CompletionResponse
+): void {
+  reportUsage(options, data.tokens_evaluated, data.tokens_predicted, {
+    cacheReadTokens: data.tokens_cached,
+  });
+}
+
+const TOOL_CALL_PATTERN = /<tool_call>\s*([\s\S]*?)\s*<\/tool_call>/g;
+
+/** tools の説明と呼び出し書式を system prompt 用テキストにする */
+function buildToolPrompt(tools: LLMTool[], options?: LLMChatOptions): string {
+  const lines = [
+    '## 利用可能なツール',
+    '',
+    'ツールを呼ぶときは、次の形式で 1 呼び出しにつき 1 ブロック出力すること（複数可）:',
+    '<tool_call>',
+    '{"name": "<ツール名>", "arguments": {<引数 JSON>}}',
+    '</tool_call>',
+    'ツールの実行結果は <tool_response> で返される。',
+    '',
+    '<tools>',
+    ...tools.map((t) =>
+      JSON.stringify({ name: t.name, description: t.description, parameters: t.parameters })
+    ),
+    '</tools>',
+  ];
+  const choice = options?.toolChoice;
+  if (choice === 'required') {
+    lines.push('', '必ずいずれかのツールを呼び出すこと。');
+  } else if (choice && typeof choice === 'object') {
+    lines.push('', `必ず ${choice.function.name} ツールを呼び出すこと。`);
+  }
+  return lines.join('\n');
+}
+
+/** tools を system prompt に載せるか（toolChoice='none' は載せないことで text 応答を強制） */
+function toolsEnabled(options?: LLMChatOptions): options is LLMChatOptions & { tools: LLMTool[] } {
+  return !!options?.tools && options.tools.length > 0 && options.toolChoice !== 'none';
+}
+
+/**
+ * LLMMessage[] を `/apply-template` に渡す形式に変換する。
+ *
+ * - tool 呼び出しは `<tool_call>` ブロックとして assistant 本文に埋め戻す
+ * - tool 結果は `<tool_response>` で包んで user ロールにする（tool ロール非対応の template が多い）
+ * - 同じロールが続くと user/assistant 交互を要求する template で落ちるため連結する
+ */
+function toTemplateMessages(messages: LLMMessage[], systemPrompt?: string): TemplateMessage[] {
+  const result: TemplateMessage[] = [];
+  const push = (role: TemplateMessage['role'], content: string) => {
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content = last.content ? `${last.content}\n\n${content}` : content;
+    } else {
+      result.push({ role, content });
+    }
+  };
+
+  if (systemPrompt) push('system', systemPrompt);
+  for (const msg of messages) {
+    if (msg.role === 'tool') {
+      push('user', `<tool_response>\n${msg.content}\n</tool_response>`);
+    } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      const calls = msg.toolCalls.map(
+        (tc) =>
+          `<tool_call>\n${JSON.stringify({ name: tc.name, arguments: tc.arguments })}\n</tool_call>`
+      );
+      push('assistant', [msg.content, ...calls].filter(Boolean).join('\n'));
+    } else {
+      push(msg.role, msg.content);
+    }
+  }
+  return result;
+}
+
+/**
+ * 応答テキストから `<tool_call>` ブロックを取り出す。
+ * JSON として読めないブロックは tool 呼び出しとみなさず本文に残す。
+ */
+function extractToolCalls(text: string): { content: string; toolCalls: LLMToolCall[] } {
+  const toolCalls: LLMToolCall[] = [];
+  const content = text.replace(TOOL_CALL_PATTERN, (block, json: string) => {
+    try {
+      const parsed = JSON.parse(json) as { name?: unknown; arguments?: unknown };
+      if (typeof parsed.name !== 'string') return block;
+      const args =
+        parsed.arguments && typeof parsed.arguments === 'object' && !Array.isArray(parsed.arguments)
+          ? (parsed.arguments as Record<string, unknown>)
+          : {};
+      toolCalls.push({ id: crypto.randomUUID(), name: parsed.name, arguments: args });
+      return '';
+    } catch {
+      return block;
+    }
+  });
+  return { content: content.trim(), toolCalls };
+}
+
+/** test 用 export */
+export const __testables = { buildToolPrompt, toTemplateMessages, extractToolCalls };
+
+export class LlamaCppProvider implements LLMProvider {
+  readonly name = 'llamacpp' as const;
+
+  constructor(private readonly config: LLMProviderConfig) {}
+
+  private headers(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  /** サーバーの chat template でチャット履歴をプロンプト文字列に展開する */
+  private async buildPrompt(messages: LLMMessage[], options?: LLMChatOptions): Promise<string> {
+    const systemPrompt = [
+      options?.systemPrompt,
+      toolsEnabled(options) ? buildToolPrompt(options.tools, options) : undefined,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+
+    const response = await postJson(
+      `${this.config.baseUrl}/apply-template`,
+      { messages: toTemplateMessages(messages, systemPrompt || undefined) },
+      { headers: this.headers(), signal: options?.signal, timeoutMs: this.config.timeoutMs }
+    );
+    await assertOk(response, 'llama.cpp');
+    const data = (await response.json()) as { prompt?: string };
+    if (typeof data.prompt !== 'string') throw new Error('No prompt in llama.cpp apply-template');
+    return data.prompt;
+  }
+
+  private async buildBody(
+    messages: LLMMessage[],
+    options: LLMChatOptions | undefined,
+    stream: boolean
+  ): Promise<Record<string, unknown>> {
+    const body: Record<string, unknown> = {
+      prompt: await this.buildPrompt(messages, options),
+      n_predict: options?.maxTokens ?? this.config.defaultMaxTokens,
+      stream,
+      // 同じ履歴の先頭部分は KV cache を再利用させる
+      cache_prompt: true,
+    };
+    const t = resolveTemperature(this.config, options?.temperature);
+    if (t !== undefined) body.temperature = t;
+    return body;
+  }
+
+  async chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMChatResponse> {
+    const response = await postJson(
+      `${this.config.baseUrl}/completion`,
+      await this.buildBody(messages, options, false),
+      { headers: this.headers(), signal: options?.signal, timeoutMs: this.config.timeoutMs }
+    );
+    await assertOk(response, 'llama.cpp');
+
+    const data = (await response.json()) as CompletionResponse;
+    reportCompletionUsage(options, data);
+    const text = data.content ?? '';
+    const { content, toolCalls } = toolsEnabled(options)
+      ? extractToolCalls(text)
+      : { content: text, toolCalls: [] };
+
+    let finishReason: LLMChatResponse['finishReason'] = 'stop';
+    if (toolCalls.length > 0) finishReason = 'tool_calls';
+    else if (data.stop_type === 'limit') finishReason = 'length';
+
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason,
+    };
+  }
+
+  async *chatStream(messages: LLMMessage[], options?: LLMChatOptions): AsyncGenerator<string> {
+    const response = await postJson(
+      `${this.config.baseUrl}/completion`,
+      await this.buildBody(messages, options, true),
+      { headers: this.headers(), signal: options?.signal }
+    );
+    await assertOk(response, 'llama.cpp');
+
+    // SSE: data: {"content": "...", "stop": false}
+    for await (const chunk of readSseJson<CompletionResponse>(response)) {
+      if (chunk.content) yield chunk.content;
+      if (chunk.stop) reportCompletionUsage(options, chunk);
+    }
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Ollama ネイティブ API (`/api/chat`) provider
+ */
+import type { LLMMessage, LLMToolCall, LLMChatOptions, LLMChatResponse } from '../types.js';
+import type { LLMProvider, LLMProviderConfig } from './types.js';
+import { assertOk, postJson, readLines, reportUsage, resolveTemperature } from './shared.js';
+
+/** URL から Ollama サーバーかを推定する（LOCAL_LLM_PROVIDER=auto 用） */
+export function isOllamaUrl(baseUrl: string): boolean {
+  return baseUrl.includes('11434') || baseUrl.includes('ollama');
+}
+
+/**
+ * Ollama ネイティブ API (/api/chat、chat / streaming 共通) の tools を
+ * リクエスト body に注入する。chat / chatStream の両方で共通利用。
+ *
+ * 注意: Ollama ネイティブ API は OpenAI の `tool_choice` パラメータを公式サポート
+ * していない（無視される）。そのため `toolChoice='none'` は **tools 自体を渡さない**
+ * ことでエミュレートする（tools が無ければ LLM は tool 呼べないので text 応答強制と
+ * 同等の効果）。`toolChoice='required'` 等は Ollama 側では効かないため、ベスト
+ * エフォート（tools は渡すが強制はされない）。
+ */
+export function applyOllamaTools(body: Record<string, unknown>, options?: LLMChatOptions): void {
+  if (!options?.tools || options.tools.length === 0) return;
+  // tool_choice='none' は tools を渡さないことで text 応答を強制
+  if (options.toolChoice === 'none') return;
+  body.tools = options.tools.map((t) => ({
+    type: 'function',
+    function: { name: t.name, description: t.description, parameters: t.parameters },
+  }));
+}
+
+/**
+ * LLMMessage[] を Ollama ネイティブ API (/api/chat) 形式に変換する。
+ * chat / chatStream の両方で共通利用。
+ *
+ * Ollama 固有の扱い:
+ * - images は `images: string[]` (base64 のみ、data URI prefix 無し)
+ * - assistant の tool_calls は OpenAI とほぼ同じ形式 (id 不要、tool_name は function.name に)
+ * - tool ロールは `tool_name` フィールドで呼び出し元 assistant の tool_call と関連付ける
+ *   (OpenAI の `tool_call_id` ではなく tool 名で紐付け)
+ */
+export function toOllamaMessages(messages: LLMMessage[]): Array<Record<string, unknown>> {
+  const toolCallNameById = new Map<string, string>();
+
+  return messages.map((msg) => {
+    const m: Record<string, unknown> = {
+      role: msg.role,
+      content: msg.content,
+    };
+    if (msg.images && msg.images.length > 0) {
+      m.images = msg.images.map((img) => img.base64);
+    }
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      m.tool_calls = msg.toolCalls.map((tc) => {
+        toolCallNameById.set(tc.id, tc.name);
+        return {
+          type: 'function',
+          function: { name: tc.name, arguments: tc.arguments },
+        };
+      });
+    }
+    if (msg.role === 'tool' && msg.toolCallId) {
+      const toolName = toolCallNameById.get(msg.toolCallId);
+      if (toolName) {
+        m.tool_name = toolName;
+      }
+    }
+    return m;
+  });
+}
+
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama' as const;
+
+  constructor(private readonly config: LLMProviderConfig) {}
+
+  /**
+   * tools / tool_choice / tool 履歴 (tool_calls / tool_name) の扱いは chat / chatStream で
+   * 完全に同じ。streaming 経路で tools が body から欠落していると、最終応答で擬似
+   * tool_call 文字列をテキストで吐く format drift が起きるため、対称に扱う必要がある。
+   */
+  private buildBody(
+    messages: LLMMessage[],
+    options: LLMChatOptions | undefined,
+    stream: boolean
+  ): Record<string, unknown> {
+    const ollamaMessages = toOllamaMessages(messages);
+
+    if (options?.systemPrompt) {
+      ollamaMessages.unshift({ role: 'system', content: options.systemPrompt });
+    }
+
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages: ollamaMessages,
+      stream,
+      think: this.config.thinking,
+    };
+
+    applyOllamaTools(body, options);
+
+    const t = resolveTemperature(this.config, options?.temperature);
+    body.options = {
+      num_predict: options?.maxTokens ?? this.config.defaultMaxTokens,
+      ...(this.config.numCtx && { num_ctx: this.config.numCtx }),
+      ...(t !== undefined && { temperature: t }),
+    };
+    return body;
+  }
+
+  async chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMChatResponse> {
+    const response = await postJson(
+      `${this.config.baseUrl}/api/chat`,
+      this.buildBody(messages, options, false),
+      { signal: options?.signal, timeoutMs: this.config.timeoutMs }
+    );
+    await assertOk(response, 'Ollama');
+
+    const data = (await response.json()) as {
+      message: {
+        role: string;
+        content: string;
+        tool_calls?: Array<{
+          function: { name: string; arguments: Record<string, unknown> };
+        }>;
+      };
+      done_reason?: string;
+      prompt_eval_count?: number;
+      eval_count?: number;
+    };
+    reportUsage(options, data.prompt_eval_count, data.eval_count);
+
+    const toolCalls: LLMToolCall[] = [];
+    if (data.message.tool_calls) {
+      for (const tc of data.message.tool_calls) {
+        toolCalls.push({
+          id: crypto.randomUUID(),
+          name: tc.function.name,
+          arguments: tc.function.arguments ?? {},
+        });
+      }
+    }
+
+    let finishReason: LLMChatResponse['finishReason'] = 'stop';
+    if (toolCalls.length > 0) finishReason = 'tool_calls';
+    else if (data.done_reason === 'length') finishReason = 'length';
+
+    return {
+      content: data.message.content ?? '',
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason,
+    };
+  }
+
+  async *chatStream(messages: LLMMessage[], options?: LLMChatOptions): AsyncGenerator<string> {
+    const response = await postJson(
+      `${this.config.baseUrl}/api/chat`,
+      this.buildBody(messages, options, true),
+      { signal: options?.signal }
+    );
+    await assertOk(response, 'Ollama');
+
+    // NDJSON (1 行 1 chunk)
+    for await (const line of readLines(response)) {
+      try {
+        const chunk = JSON.parse(line) as {
+          message?: { content?: string };
+          done?: boolean;
+          prompt_eval_count?: number;
+          eval_count?: number;
+        };
+        if (chunk.message?.content) {
+          yield chunk.message.content;
+        }
+        // 最終 chunk (done: true) にだけ eval 数が入る
+        if (chunk.done) reportUsage(options, chunk.prompt_eval_count, chunk.eval_count);
+      } catch {
+        // skip malformed chunks
+      }
+    }
+  }
+}
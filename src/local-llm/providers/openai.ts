@@ -0,0 +1,224 @@
+/**
+ * OpenAI 互換 API (`/v1/chat/completions`) provider
+ */
+import type { LLMMessage, LLMToolCall, LLMChatOptions, LLMChatResponse } from '../types.js';
+import type { LLMProvider, LLMProviderConfig } from './types.js';
+import {
+  assertOk,
+  parseToolArguments,
+  postJson,
+  readSseJson,
+  reportUsage,
+  resolveTemperature,
+} from './shared.js';
+import { isOllamaUrl } from './ollama.js';
+
+/**
+ * OpenAI 形式 (chat completions / streaming 共通) の tools / tool_choice を
+ * リクエスト body に注入する。chat / chatStream の両方で共通利用。
+ *
+ * - tools 未指定 or 空配列 → 何もしない
+ * - tools 指定あり → body.tools にスキーマ展開
+ * - toolChoice 明示 → body.tool_choice 反映（'auto' / 'none' / 'required' / function 指定）
+ */
+export function applyOpenAITools(body: Record<string, unknown>, options?: LLMChatOptions): void {
+  if (!options?.tools || options.tools.length === 0) return;
+  body.tools = options.tools.map((t) => ({
+    type: 'function',
+    function: { name: t.name, description: t.description, parameters: t.parameters },
+  }));
+  if (options.toolChoice !== undefined) {
+    body.tool_choice = options.toolChoice;
+  }
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: string;
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: Array<{
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+  }>;
+  tool_call_id?: string;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+function reportOpenAIUsage(options: LLMChatOptions | undefined, usage?: OpenAIUsage): void {
+  if (!usage) return;
+  reportUsage(options, usage.prompt_tokens, usage.completion_tokens, {
+    cacheReadTokens: usage.prompt_tokens_details?.cached_tokens,
+  });
+}
+
+interface OpenAIChatResponse {
+  usage?: OpenAIUsage;
+  choices: Array<{
+    message: {
+      role: string;
+      content: string | null;
+      reasoning?: string | null;
+      tool_calls?: Array<{
+        id: string;
+        type: 'function';
+        function: { name: string; arguments: string };
+      }>;
+    };
+    finish_reason: string;
+  }>;
+}
+
+function toOpenAIMessages(messages: LLMMessage[], isOllama: boolean): OpenAIMessage[] {
+  return messages.map((msg) => {
+    const m: OpenAIMessage = { role: msg.role, content: msg.content };
+
+    // マルチモーダル: 画像がある場合はcontent配列形式にする（OpenAI互換API向け）
+    if (msg.images && msg.images.length > 0 && !isOllama) {
+      const parts: OpenAIContentPart[] = [];
+      if (msg.content) {
+        parts.push({ type: 'text', text: msg.content });
+      }
+      for (const img of msg.images) {
+        parts.push({
+          type: 'image_url',
+          image_url: { url: `data:${img.mimeType};base64,${img.base64}` },
+        });
+      }
+      m.content = parts;
+    }
+
+    if (msg.toolCalls && msg.toolCalls.length > 0) {
+      m.tool_calls = msg.toolCalls.map((tc) => ({
+        id: tc.id,
+        type: 'function' as const,
+        function: { name: tc.name, arguments: JSON.stringify(tc.arguments) },
+      }));
+      m.content = null;
+    }
+    if (msg.toolCallId) {
+      m.tool_call_id = msg.toolCallId;
+    }
+    return m;
+  });
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private readonly config: LLMProviderConfig) {}
+
+  private buildBody(
+    messages: LLMMessage[],
+    options: LLMChatOptions | undefined,
+    stream: boolean
+  ): Record<string, unknown> {
+    // Ollama の OpenAI 互換層は content 配列の画像を受け付けない
+    const requestMessages = toOpenAIMessages(messages, isOllamaUrl(this.config.baseUrl));
+
+    if (options?.systemPrompt) {
+      requestMessages.unshift({ role: 'system', content: options.systemPrompt });
+    }
+
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      messages: requestMessages,
+      stream,
+      max_tokens: options?.maxTokens ?? this.config.defaultMaxTokens,
+    };
+    // ストリーミングでも最終 chunk に usage を載せてもらう（非対応サーバーは無視する）
+    if (stream) body.stream_options = { include_usage: true };
+
+    // tools / tool_choice — streaming でも tool calling 機構を有効にする。
+    // tools 未指定の streaming だと、LLM が tool 呼びたい場面で擬似 tool_call 文字列を
+    // テキストで吐く format drift が発生する（Gemma 4 等の OpenAI 互換モデルで実測）。
+    // 最終応答用には toolChoice='none' を呼び出し側で指定して text 応答を強制する。
+    applyOpenAITools(body, options);
+
+    const t = resolveTemperature(this.config, options?.temperature);
+    if (t !== undefined) body.temperature = t;
+    return body;
+  }
+
+  private headers(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  async chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMChatResponse> {
+    const response = await postJson(
+      `${this.config.baseUrl}/v1/chat/completions`,
+      this.buildBody(messages, options, false),
+      { headers: this.headers(), signal: options?.signal, timeoutMs: this.config.timeoutMs }
+    );
+    await assertOk(response, 'LLM');
+
+    const data = (await response.json()) as OpenAIChatResponse;
+    const choice = data.choices[0];
+    if (!choice) throw new Error('No choices in LLM response');
+    reportOpenAIUsage(options, data.usage);
+
+    const toolCalls: LLMToolCall[] = [];
+    if (choice.message.tool_calls) {
+      for (const tc of choice.message.tool_calls) {
+        toolCalls.push({
+          id: tc.id || crypto.randomUUID(),
+          name: tc.function.name,
+          arguments: parseToolArguments(tc.function.arguments),
+        });
+      }
+    }
+
+    let finishReason: LLMChatResponse['finishReason'] = 'stop';
+    if (choice.finish_reason === 'tool_calls') finishReason = 'tool_calls';
+    else if (choice.finish_reason === 'length') finishReason = 'length';
+
+    // Thinking model: content が空で reasoning に推論が入ることがある
+    let content = choice.message.content ?? '';
+    if (!content && choice.message.reasoning) {
+      content = choice.message.reasoning;
+    }
+
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason,
+    };
+  }
+
+  async *chatStream(messages: LLMMessage[], options?: LLMChatOptions): AsyncGenerator<string> {
+    const response = await postJson(
+      `${this.config.baseUrl}/v1/chat/completions`,
+      this.buildBody(messages, options, true),
+      { headers: this.headers(), signal: options?.signal }
+    );
+    await assertOk(response, 'LLM');
+
+    let hasContent = false;
+    for await (const chunk of readSseJson<{
+      choices: Array<{ delta: { content?: string; reasoning?: string } }>;
+      usage?: OpenAIUsage | null;
+    }>(response)) {
+      // include_usage 時の最終 chunk は choices が空で usage だけが入る
+      if (chunk.usage) reportOpenAIUsage(options, chunk.usage);
+      const delta = chunk.choices?.[0]?.delta;
+      if (delta?.content) {
+        hasContent = true;
+        yield delta.content;
+      }
+    }
+
+    // Thinking model でcontentが空だった場合、non-streamingにフォールバック
+    if (!hasContent) {
+      const result = await this.chat(messages, options);
+      if (result.content) yield result.content;
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * provider 共通の HTTP ヘルパ
+ */
+import type { LLMChatOptions, LLMUsage } from '../types.js';
+import type { LLMProviderConfig } from './types.js';
+
+/** options.temperature が明示なら優先、なければ defaultTemperature を返す */
+export function resolveTemperature(
+  config: LLMProviderConfig,
+  optTemp?: number
+): number | undefined {
+  return optTemp !== undefined ? optTemp : config.defaultTemperature;
+}
+
+/**
+ * provider が読み取った usage を options.onUsage に流す。
+ * 入出力どちらも数値で取れなかった場合（usage 非対応サーバー）は通知しない。
+ */
+export function reportUsage(
+  options: LLMChatOptions | undefined,
+  input: number | undefined,
+  output: number | undefined,
+  cache?: Pick<LLMUsage, 'cacheReadTokens' | 'cacheCreationTokens'>
+): void {
+  if (!options?.onUsage) return;
+  if (typeof input !== 'number' && typeof output !== 'number') return;
+  const usage: LLMUsage = { inputTokens: input ?? 0, outputTokens: output ?? 0 };
+  if (cache?.cacheReadTokens) usage.cacheReadTokens = cache.cacheReadTokens;
+  if (cache?.cacheCreationTokens) usage.cacheCreationTokens = cache.cacheCreationTokens;
+  options.onUsage(usage);
+}
+
+/**
+ * JSON を POST する。
+ *
+ * timeoutMs 指定時はその時間で abort する（非ストリーミング用。ストリーミングは
+ * 応答時間が読めないので呼び出し側の signal のみで止める）。
+ * 外部からの AbortSignal も連携する。
+ */
+export async function postJson(
+  url: string,
+  body: unknown,
+  init: { headers?: Record<string, string>; signal?: AbortSignal; timeoutMs?: number } = {}
+): Promise<Response> {
+  const headers = { 'Content-Type': 'application/json', ...init.headers };
+  if (init.timeoutMs === undefined) {
+    return fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: init.signal,
+    });
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), init.timeoutMs);
+  if (init.signal) {
+    init.signal.addEventListener('abort', () => controller.abort());
+  }
+  try {
+    return await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/** 非 2xx 応答を `<label> API error <status>: <body>` の Error にする */
+export async function assertOk(response: Response, label: string): Promise<void> {
+  if (!response.ok) {
+    throw new Error(`${label} API error ${response.status}: ${await response.text()}`);
+  }
+}
+
+/**
+ * ストリーミング応答を行単位で読む（NDJSON / SSE 共通）。空行は飛ばす。
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) throw new Error('No response body for streaming');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed) yield trimmed;
+      }
+    }
+    const rest = buffer.trim();
+    if (rest) yield rest;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * SSE の `data:` 行を JSON として読む。`[DONE]` と壊れたチャンクは読み飛ばす。
+ */
+export async function* readSseJson<T>(response: Response): AsyncGenerator<T> {
+  for await (const line of readLines(response)) {
+    if (!line.startsWith('data:')) continue;
+    const data = line.slice('data:'.length).trim();
+    if (!data || data === '[DONE]') continue;
+    try {
+      yield JSON.parse(data) as T;
+    } catch {
+      // skip malformed chunks
+    }
+  }
+}
+
+/** tool 引数の JSON 文字列をパースする。壊れていたら `{ raw }` に包む */
+export function parseToolArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // fall through
+  }
+  return { raw };
+}
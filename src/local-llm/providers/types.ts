@@ -0,0 +1,45 @@
+import type { LLMMessage, LLMChatOptions, LLMChatResponse } from '../types.js';
+
+/**
+ * LLM サーバーのワイヤーフォーマット。
+ * - openai: `/v1/chat/completions`（vLLM / LM Studio / llama.cpp の OpenAI 互換層など）
+ * - ollama: Ollama ネイティブ `/api/chat`
+ * - llamacpp: llama.cpp server ネイティブ `/completion`
+ * - anthropic: Anthropic Messages 互換 `/v1/messages`
+ */
+export type LLMProviderName = 'openai' | 'ollama' | 'llamacpp' | 'anthropic';
+
+export const LLM_PROVIDER_NAMES: readonly LLMProviderName[] = [
+  'openai',
+  'ollama',
+  'llamacpp',
+  'anthropic',
+];
+
+/** LOCAL_LLM_PROVIDER に指定できる値（auto は URL / thinking から推定） */
+export type LLMProviderSetting = LLMProviderName | 'auto';
+
+/** 全 provider 共通の接続設定 */
+export interface LLMProviderConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  /** Thinking モデルの推論を有効にするか（Ollama は think フラグに反映） */
+  thinking: boolean;
+  defaultMaxTokens: number;
+  numCtx?: number;
+  defaultTemperature?: number;
+  /** 非ストリーミング呼び出しのタイムアウト */
+  timeoutMs: number;
+}
+
+/**
+ * 1 つのワイヤーフォーマットを担当する provider。
+ * LLMMessage / LLMChatOptions との相互変換（tool 呼び出し・ストリーミングを含む）は
+ * provider ごとに閉じており、LLMClient はどの provider かを意識しない。
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMChatResponse>;
+  chatStream(messages: LLMMessage[], options?: LLMChatOptions): AsyncGenerator<string>;
+}
@@ -5,12 +5,26 @@
  * 外部HTTPサーバー不要。
  */
 import { EventEmitter } from 'events';
-import type { AgentRunner, RunOptions, RunResult, StreamCallbacks } from '../agent-runner.js';
+import type {
+  AgentRunner,
+  RunOptions,
+  RunResult,
+  StreamCallbacks,
+  TokenUsage,
+} from '../agent-runner.js';
 import { TimeoutController } from '../timeout-controller.js';
 import type { LocalLlmMode } from '../backend-resolver.js';
 import type { AgentConfig } from '../config.js';
-import type { LLMMessage, LLMImageContent } from './types.js';
-import { LLMClient } from './llm-client.js';
+import type { LLMMessage, LLMImageContent, LLMToolCall, LLMUsage } from './types.js';
+import {
+  LLMEndpointPool,
+  DEFAULT_ENDPOINT_COOLDOWN_MS,
+  describeEndpoint,
+  parseFallbackEndpoints,
+  type LLMEndpoint,
+  type ServedEndpoint,
+} from './endpoint-pool.js';
+import { LLM_PROVIDER_NAMES } from './providers/index.js';
 import { extractAttachmentPaths, encodeImageToBase64, getMimeType } from './image-utils.js';
 import { loadWorkspaceContext } from './context.js';
 import {
@@ -21,12 +35,14 @@ import {
   loadAlwaysLoadedToolNames,
   getActiveTools,
   getDeferredToolCatalog,
+  filterAllowedTools,
+  resolveAllowedToolNames,
+  resolveAllowedToolPatterns,
 } from './tools.js';
-import { loadSkills } from '../skills.js';
+import { getSkills } from '../skill-registry.js';
 import { CHAT_SYSTEM_PROMPT_PERSISTENT, buildXangiCommands } from '../base-runner.js';
 import type { ChatPlatform } from '../prompts/index.js';
 import { TOOLS_USAGE_PROMPT } from '../prompts/index.js';
-import { checkApprovalServer } from '../approval-server.js';
 import {
   logPrompt,
   logResponse,
@@ -37,6 +53,7 @@ import {
 import { loadTriggers, triggersToToolHandlers, type Trigger } from './triggers.js';
 import { getXangiTools } from './xangi-tools.js';
 import { prependRuntimeContext } from '../runtime-context.js';
+import { addTokenUsage } from '../token-usage.js';
 import {
   containsPseudoToolCall,
   parsePseudoToolCall,
@@ -46,7 +63,8 @@ import {
   FRIENDLY_FALLBACK_MESSAGE,
 } from './pseudo-toolcall.js';
 import { stripToolCallArtifacts } from '../tool-call-sanitize.js';
-import { createStopHookRunner, type StopHookRunner } from '../hooks.js';
+import { applyPromptHooks, createHookRunner, type HookRunner } from '../hooks.js';
+import { resolveSandboxMode } from './sandbox.js';
 import {
   ToolTrajectoryLogger,
   loggerOptionsFromEnv,
@@ -222,6 +240,18 @@ export function compactOldToolResults(
   return { compactedCount, bytesReclaimed };
 }
 
+/** スキル実行時の allowed-tools（Local LLM のツール名）。スキル以外は undefined */
+function skillAllowedTools(options?: RunOptions): Set<string> | undefined {
+  const allowed = options?.skill?.allowedTools;
+  return allowed ? resolveAllowedToolNames(allowed) : undefined;
+}
+
+/** スキル実行時の allowed-tools のパターン（`Bash(git *)` 等）。スキル以外は undefined */
+function skillAllowedToolPatterns(options?: RunOptions): Map<string, string[]> | undefined {
+  const allowed = options?.skill?.allowedTools;
+  return allowed ? resolveAllowedToolPatterns(allowed) : undefined;
+}
+
 /** ツール結果を切り詰める（head/tail方式、karaagebot準拠） */
 function trimToolResult(content: string, maxChars: number = MAX_TOOL_OUTPUT_CHARS): string {
   if (content.length <= maxChars) return content;
@@ -622,7 +652,7 @@ export function formatLlmError(err: unknown): string {
 }
 
 export class LocalLlmRunner extends EventEmitter implements AgentRunner {
-  private readonly llm: LLMClient;
+  private readonly llm: LLMEndpointPool;
   private readonly workdir: string;
   private readonly sessions = new Map<string, Session>();
   private readonly sessionTtlMs = 60 * 60 * 1000; // 1時間
@@ -634,6 +664,13 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
    * activeAbortControllers と同じく per-channel 直列実行を前提に channelId でキーする。
    */
   private readonly pendingAttachments = new Map<string, Set<string>>();
+  /**
+   * per-call で実際に応答した LLM endpoint（channelId キー）。
+   * ターン終了時に tool-trajectory へ llm_endpoint として 1 件にまとめて記録する。
+   */
+  private readonly servedEndpoints = new Map<string, ServedEndpoint[]>();
+  /** per-call のトークン使用量（channelId キー）。ターン内の全 LLM 呼び出しを合算して RunResult.usage にする */
+  private readonly turnUsage = new Map<string, TokenUsage>();
   /** 個別機能フラグ */
   readonly enableTools: boolean;
   readonly enableSkills: boolean;
@@ -670,10 +707,12 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
   private readonly baseUrlForTrajectory: string;
   private readonly featuresForTrajectory: string[];
   /**
-   * Stop hook ランナー (XANGI_HOOKS_ENABLED=true + hooks/hooks.json に Stop 定義があるときのみ非 null)。
-   * ターン終了時に外部検証プロセスを挟み、block ならフィードバックを注入して 1 回だけ継続ラウンドを回す。
+   * ワークスペース hooks (hooks/hooks.json にいずれかのイベントの定義があるときのみ非 null)。
+   * SessionStart / UserPromptSubmit はプロンプト組み立て時、PreToolUse / PostToolUse は
+   * ツール実行の前後、Stop はターン終了時 (block ならフィードバックを注入して 1 回だけ継続ラウンド)。
+   * ツール無効モード (chat) ではすべて素通り。
    */
-  private readonly stopHooks: StopHookRunner | null;
+  private readonly hooks: HookRunner | null;
 
   constructor(config: AgentConfig & { platform?: ChatPlatform }) {
     super();
@@ -718,11 +757,34 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
         ? process.env.LOCAL_LLM_TRIGGERS !== 'false'
         : defaults.triggers;
 
-    this.llm = new LLMClient(baseUrl, model, apiKey, thinking, maxTokens, numCtx, temperature);
+    // LOCAL_LLM_PROVIDER: 未指定 / 不正値は auto（typo は config.ts で警告済み）
+    const providerEnv = (process.env.LOCAL_LLM_PROVIDER || '').toLowerCase();
+    const provider = LLM_PROVIDER_NAMES.find((p) => p === providerEnv) ?? 'auto';
+
+    // フォールバック先（LOCAL_LLM_FALLBACK_ENDPOINTS）。書式エラーは警告して primary のみで動かす
+    const primary: LLMEndpoint = { baseUrl, model, provider };
+    let fallbacks: LLMEndpoint[] = [];
+    try {
+      fallbacks = parseFallbackEndpoints(process.env.LOCAL_LLM_FALLBACK_ENDPOINTS, primary);
+    } catch (err) {
+      console.warn(
+        `[local-llm] Ignoring LOCAL_LLM_FALLBACK_ENDPOINTS: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+    this.llm = new LLMEndpointPool([primary, ...fallbacks], {
+      apiKey,
+      thinking,
+      maxTokens,
+      numCtx,
+      temperature,
+      cooldownMs: process.env.LOCAL_LLM_ENDPOINT_COOLDOWN_MS
+        ? parseInt(process.env.LOCAL_LLM_ENDPOINT_COOLDOWN_MS, 10)
+        : DEFAULT_ENDPOINT_COOLDOWN_MS,
+    });
     this.workdir = config.workdir || process.cwd();
 
-    // Stop hooks (ターン終了ゲート)。設定が無ければ null で、ゲートは素通り
-    this.stopHooks = createStopHookRunner(this.workdir);
+    // ワークスペース hooks。設定が無ければ null で、各ゲートは素通り
+    this.hooks = createHookRunner(this.workdir);
 
     // Context budget を env から計算（明示優先、未指定なら NUM_CTX から逆算）
     this.contextBudget = loadContextBudget(process.env);
@@ -775,8 +837,11 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
         .filter(Boolean)
         .join(', ') || 'chat-only';
     console.log(
-      `[local-llm] LLM: ${baseUrl} (model: ${model}, thinking: ${thinking}, features: ${features})`
+      `[local-llm] LLM: ${baseUrl} (provider: ${this.llm.activeEndpoint.provider}, model: ${model}, thinking: ${thinking}, features: ${features})`
     );
+    if (this.llm.hasFallbacks) {
+      console.log(`[local-llm] LLM fallback chain: ${this.llm.describeChain()}`);
+    }
 
     // 起動時 flags を保存（per-call override が無い時に使う）
     this.startupFlags = {
@@ -834,6 +899,51 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
     }
   }
 
+  /** onEndpoint コールバック: ターン内で応答した endpoint を積む */
+  private recordServedEndpoint(channelId: string, endpoint: ServedEndpoint): void {
+    const list = this.servedEndpoints.get(channelId) ?? [];
+    list.push(endpoint);
+    this.servedEndpoints.set(channelId, list);
+  }
+
+  /**
+   * ターン終了時: そのターンで応答した endpoint を trajectory に 1 件記録する。
+   * 最後に応答した endpoint と、ターン中にフェイルオーバーで飛ばした endpoint をまとめる。
+   */
+  private logServedEndpoints(appSessionId: string, channelId: string): void {
+    const served = this.servedEndpoints.get(channelId);
+    this.servedEndpoints.delete(channelId);
+    if (!served || served.length === 0) return;
+    const last = served[served.length - 1];
+    const failedOver = served.flatMap((s) => s.failedOver);
+    this.trajectoryLogger.logRunnerEvent(this.trajectoryCommon(appSessionId, channelId), {
+      event: 'llm_endpoint',
+      details: {
+        endpoint: describeEndpoint(last),
+        provider: last.provider,
+        chain_index: last.index,
+        fallback: last.index > 0,
+        calls: served.length,
+        ...(failedOver.length > 0 && {
+          failed_over: failedOver.map((f) => ({
+            endpoint: describeEndpoint(f),
+            error: f.error.slice(0, 200),
+          })),
+        }),
+      },
+    });
+  }
+
+  /** フォールバック構成時のみ、次に使う endpoint を runtime context に載せる */
+  private runtimeContextExtras(): Record<string, string> | undefined {
+    if (!this.llm.hasFallbacks) return undefined;
+    const active = this.llm.activeEndpoint;
+    return {
+      llm: describeEndpoint(active),
+      ...(active.index > 0 && { llm_fallback: 'true' }),
+    };
+  }
+
   /** trajectory 共通 fields を組み立てる helper */
   private trajectoryCommon(
     appSessionId: string,
@@ -890,11 +1000,104 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
     this.pendingAttachments.set(channelId, new Set());
   }
 
+  /** onUsage コールバック: provider が報告した usage をターン単位で合算する */
+  private recordTurnUsage(channelId: string, usage: LLMUsage): void {
+    this.turnUsage.set(channelId, addTokenUsage(this.turnUsage.get(channelId), usage));
+  }
+
+  /** ターンの合算 usage を取り出してクリアする（usage を返さないサーバーなら undefined） */
+  private drainTurnUsage(channelId: string): TokenUsage | undefined {
+    const usage = this.turnUsage.get(channelId);
+    this.turnUsage.delete(channelId);
+    return usage;
+  }
+
   /** この channel に積まれた構造化添付（realpath）を配列で返す。 */
   private drainAttachments(channelId: string): string[] {
     return [...(this.pendingAttachments.get(channelId) ?? [])];
   }
 
+  /**
+   * SessionStart / UserPromptSubmit hooks を通したプロンプトを返す。
+   * SessionStart は履歴が空のセッション (startup) か、transcript から復元した直後 (resume) だけ。
+   * ツール無効モード (chat) では hooks を通さない。
+   */
+  private async applyPromptHooks(
+    rawPrompt: string,
+    session: Session,
+    created: boolean,
+    callFlags: ModeFlags,
+    meta: { channelId: string; appSid: string; platform?: ChatPlatform }
+  ): Promise<string> {
+    if (!callFlags.tools) return rawPrompt;
+    return applyPromptHooks(this.hooks, rawPrompt, this.workdir, {
+      sessionId: meta.appSid,
+      channelId: meta.channelId,
+      backend: 'local-llm',
+      platform: meta.platform ?? this.platform,
+      sessionStart: session.messages.length === 0 ? 'startup' : created ? 'resume' : undefined,
+    });
+  }
+
+  /**
+   * PreToolUse hooks。block ならツールを実行せずに LLM へ返すエラー文を返す（素通りなら undefined）
+   */
+  private async runPreToolUseHooks(
+    toolCall: LLMToolCall,
+    common: TrajectoryCommon,
+    platform?: ChatPlatform
+  ): Promise<string | undefined> {
+    if (!this.hooks || this.hooks.count('PreToolUse') === 0) return undefined;
+    const verdict = await this.hooks.preToolUse({
+      hook_event_name: 'PreToolUse',
+      session_id: common.appSessionId,
+      cwd: this.workdir,
+      channel_id: common.channelId,
+      backend: 'local-llm',
+      platform: platform ?? this.platform,
+      tool_name: toolCall.name,
+      tool_input: toolCall.arguments,
+    });
+    if (!verdict.block || !verdict.reason) return undefined;
+    console.log(
+      `[local-llm] PreToolUse hook blocked ${toolCall.name}: ${verdict.reason.slice(0, 200)}`
+    );
+    this.trajectoryLogger.logRunnerEvent(common, {
+      event: 'pre_tool_use_hook_block',
+      details: { tool_name: toolCall.name, reason: verdict.reason.slice(0, 500) },
+    });
+    return `Tool execution blocked by PreToolUse hook: ${verdict.reason}`;
+  }
+
+  /**
+   * PostToolUse hooks。フィードバックがあればツール結果に添える文字列を返す（無ければ undefined）
+   */
+  private async runPostToolUseHooks(
+    toolCall: LLMToolCall,
+    result: { success: boolean; output: string; error?: string },
+    common: TrajectoryCommon,
+    platform?: ChatPlatform
+  ): Promise<string | undefined> {
+    if (!this.hooks || this.hooks.count('PostToolUse') === 0) return undefined;
+    const feedback = await this.hooks.postToolUse({
+      hook_event_name: 'PostToolUse',
+      session_id: common.appSessionId,
+      cwd: this.workdir,
+      channel_id: common.channelId,
+      backend: 'local-llm',
+      platform: platform ?? this.platform,
+      tool_name: toolCall.name,
+      tool_input: toolCall.arguments,
+      tool_response: { success: result.success, output: result.output, error: result.error },
+    });
+    if (!feedback) return undefined;
+    this.trajectoryLogger.logRunnerEvent(common, {
+      event: 'post_tool_use_hook_feedback',
+      details: { tool_name: toolCall.name, feedback: feedback.slice(0, 500) },
+    });
+    return `\n\n[POST TOOL USE HOOK FEEDBACK]\n${feedback}\n[END POST TOOL USE HOOK FEEDBACK]`;
+  }
+
   async run(rawPrompt: string, options?: RunOptions): Promise<RunResult> {
     const sessionId = options?.sessionId || crypto.randomUUID();
     this.cleanupSessions();
@@ -904,18 +1107,28 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
     const channelId = options?.channelId || sessionId;
     const appSid = options?.appSessionId || channelId;
 
+    const created = !this.sessions.has(sessionId);
     const session = this.getOrCreateSession(sessionId, appSid);
+    const callFlags = this.resolveCallModeFlags(options?.localLlmMode);
+    // SessionStart / UserPromptSubmit hooks（block なら HookBlockedError で、このターンは何もしない）
+    const hookedPrompt = await this.applyPromptHooks(rawPrompt, session, created, callFlags, {
+      channelId,
+      appSid,
+      platform: options?.platform,
+    });
     session.lastTurnToolNames = [];
     this.resetAttachments(channelId);
+    this.turnUsage.delete(channelId);
     this.maybeEmitSessionStart(appSid, channelId);
     this.bumpTurnIndex(appSid);
-    const callFlags = this.resolveCallModeFlags(options?.localLlmMode);
     const systemPrompt = this.buildSystemPrompt(callFlags);
-    const tools = callFlags.tools ? getAllTools() : [];
+    const tools = callFlags.tools
+      ? filterAllowedTools(getAllTools(), skillAllowedTools(options))
+      : [];
     const llmTools = callFlags.tools ? toLLMTools(tools) : [];
 
     // runtime context (cwd/repo/container) を毎ターン user prompt 先頭に prepend
-    const prompt = prependRuntimeContext(rawPrompt);
+    const prompt = prependRuntimeContext(hookedPrompt, this.runtimeContextExtras());
 
     // ユーザーメッセージ追加（画像添付があればマルチモーダルメッセージにする）
     const userMsg = this.buildUserMessage(prompt);
@@ -946,7 +1159,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
         appSid
       );
 
-      // ターン終了ゲート: Stop hook が block したら 1 回だけ継続ラウンド
+      // ターン終了ゲート: Stop hook が block したら継続ラウンド（上限 XANGI_STOP_HOOK_MAX_ROUNDS）
       // (executeAgentLoop は assistant message を内部で push するため pushRetryToHistory=false)
       // ツール無効モード (chat) では継続ラウンドでフィードバックに対処する手段
       // (schedule_add 等) が無いため、ゲート自体をスキップする
@@ -954,7 +1167,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
         result = await this.applyStopHookGate(
           session,
           result,
-          { channelId, appSid },
+          { channelId, appSid, platform: options?.platform },
           { pushRetryToHistory: false },
           () =>
             this.executeAgentLoop(
@@ -977,7 +1190,12 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
       logResponse(this.workdir, appSid, { result, sessionId });
 
       this.timeoutController.clear(channelId, 'completed');
-      return { result, sessionId, attachments: this.drainAttachments(channelId) };
+      return {
+        result,
+        sessionId,
+        attachments: this.drainAttachments(channelId),
+        usage: this.drainTurnUsage(channelId),
+      };
     } catch (err) {
       // セッション履歴に起因するエラーの場合、セッションをクリアしてリトライ
       if (session.messages.length > 1 && isSessionRelatedError(err)) {
@@ -1037,6 +1255,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
       );
       return { result: errorMsg, sessionId };
     } finally {
+      this.logServedEndpoints(appSid, channelId);
       this.activeAbortControllers.delete(channelId);
       this.pendingAttachments.delete(channelId);
       // 'completed' 経路で既に clear 済みなら no-op。エラー or タイムアウトで未 clear なら 'error'。
@@ -1057,18 +1276,28 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
     const channelId = options?.channelId || sessionId;
     const appSid = options?.appSessionId || channelId;
 
+    const created = !this.sessions.has(sessionId);
     const session = this.getOrCreateSession(sessionId, appSid);
+    const callFlags = this.resolveCallModeFlags(options?.localLlmMode);
+    // SessionStart / UserPromptSubmit hooks（block なら HookBlockedError で、このターンは何もしない）
+    const hookedPrompt = await this.applyPromptHooks(rawPrompt, session, created, callFlags, {
+      channelId,
+      appSid,
+      platform: options?.platform,
+    });
     session.lastTurnToolNames = [];
     this.resetAttachments(channelId);
+    this.turnUsage.delete(channelId);
     this.maybeEmitSessionStart(appSid, channelId);
     this.bumpTurnIndex(appSid);
-    const callFlags = this.resolveCallModeFlags(options?.localLlmMode);
     const systemPrompt = this.buildSystemPrompt(callFlags);
-    const tools = callFlags.tools ? getAllTools() : [];
+    const tools = callFlags.tools
+      ? filterAllowedTools(getAllTools(), skillAllowedTools(options))
+      : [];
     const llmTools = callFlags.tools ? toLLMTools(tools) : [];
 
     // runtime context (cwd/repo/container) を毎ターン user prompt 先頭に prepend
-    const prompt = prependRuntimeContext(rawPrompt);
+    const prompt = prependRuntimeContext(hookedPrompt, this.runtimeContextExtras());
 
     const userMsg = this.buildUserMessage(prompt);
     session.messages.push(userMsg);
@@ -1097,7 +1326,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
 
       session.messages.push({ role: 'assistant', content: fullText });
 
-      // ターン終了ゲート: Stop hook が block したら 1 回だけ継続ラウンド
+      // ターン終了ゲート: Stop hook が block したら継続ラウンド（上限 XANGI_STOP_HOOK_MAX_ROUNDS）
       // (executeStreamLoop は assistant message を push しないため pushRetryToHistory=true)
       // ツール無効モード (chat) では継続ラウンドでフィードバックに対処する手段
       // (schedule_add 等) が無いため、ゲート自体をスキップする
@@ -1105,7 +1334,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
         fullText = await this.applyStopHookGate(
           session,
           fullText,
-          { channelId, appSid },
+          { channelId, appSid, platform: options?.platform },
           { pushRetryToHistory: true },
           () =>
             this.executeStreamLoop(
@@ -1133,6 +1362,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
         result: fullText,
         sessionId,
         attachments: this.drainAttachments(channelId),
+        usage: this.drainTurnUsage(channelId),
       };
       callbacks.onComplete?.(result);
       return result;
@@ -1195,6 +1425,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
       callbacks.onError?.(error);
       return { result: errorMsg, sessionId };
     } finally {
+      this.logServedEndpoints(appSid, channelId);
       this.activeAbortControllers.delete(channelId);
       this.pendingAttachments.delete(channelId);
       this.timeoutController.clear(channelId, 'error');
@@ -1273,6 +1504,8 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
         response = await this.llm.chat(session.messages, {
           systemPrompt,
           signal: abortController.signal,
+          onEndpoint: (ep) => this.recordServedEndpoint(channelId, ep),
+          onUsage: (usage) => this.recordTurnUsage(channelId, usage),
         });
       } catch (err) {
         const errorMsg = err instanceof Error ? err.message : String(err);
@@ -1294,7 +1527,9 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
     while (toolRounds <= MAX_TOOL_ROUNDS) {
       // 各 iteration の頭で active tools を再計算（tool_search で拡張された分を反映）
       const iterTools = this.toolSearchEnabled
-        ? toLLMTools(getActiveTools(session.activeToolNames))
+        ? toLLMTools(
+            filterAllowedTools(getActiveTools(session.activeToolNames), skillAllowedTools(options))
+          )
         : llmTools;
 
       let response;
@@ -1303,6 +1538,8 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
           systemPrompt,
           tools: iterTools.length > 0 ? iterTools : undefined,
           signal: abortController.signal,
+          onEndpoint: (ep) => this.recordServedEndpoint(channelId, ep),
+          onUsage: (usage) => this.recordTurnUsage(channelId, usage),
         });
       } catch (err) {
         const errorMsg = err instanceof Error ? err.message : String(err);
@@ -1333,6 +1570,9 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
       const toolContext = {
         workspace: this.workdir,
         channelId: options?.channelId,
+        sandbox: resolveSandboxMode(options?.localLlmSandbox),
+        allowedTools: skillAllowedTools(options),
+        allowedToolPatterns: skillAllowedToolPatterns(options),
         activateTools: (names: string[]) => {
           for (const n of names) session.activeToolNames.add(n);
           console.log(
@@ -1357,14 +1597,14 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
           `[local-llm] Tool call: ${toolCall.name}(${JSON.stringify(toolCall.arguments).slice(0, 200)})`
         );
 
-        // 危険コマンド承認チェック（承認サーバー経由、Claude Codeと同じ仕組み）
-        const approvalResult = await checkApprovalServer(toolCall.name, toolCall.arguments);
-        if (approvalResult === 'deny') {
-          console.log(`[local-llm] Tool denied by approval server: ${toolCall.name}`);
-          session.messages.push({
-            role: 'tool',
-            content: 'Tool execution denied by user.',
-          });
+        // PreToolUse hook の拒否はツールエラーとして LLM に返す
+        const hookDenial = await this.runPreToolUseHooks(
+          toolCall,
+          trajCommon(toolRounds),
+          options?.platform
+        );
+        if (hookDenial) {
+          session.messages.push({ role: 'tool', content: hookDenial, toolCallId: toolCall.id });
           continue;
         }
 
@@ -1372,6 +1612,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
         const sig = toolCallSignature(toolCall.name, toolCall.arguments);
         const loopResult = recordToolCallAndDetectLoop(session, sig);
         let result;
+        let executed = false;
         const toolStart = Date.now();
         if (loopResult.kind !== 'none') {
           const repeats = loopResult.repeats ?? REPEATED_TOOL_CALL_THRESHOLD;
@@ -1411,6 +1652,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
             result = { success: true, output: cached };
           } else {
             result = await executeTool(toolCall.name, toolCall.arguments, toolContext);
+            executed = true;
             // 冪等パターンなら結果をキャッシュ (次回以降 HIT させる)
             if (result.success && isIdempotentToolCall(toolCall.name, toolCall.arguments)) {
               cacheIdempotentResult(session, sig, result.output);
@@ -1425,7 +1667,16 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
         const rawOutput = result.success
           ? result.output
           : `Error: ${result.error ?? 'Unknown error'}${result.output ? `\nOutput: ${result.output}` : ''}`;
-        const toolResultContent = trimToolResult(rawOutput);
+        // PostToolUse hook のフィードバックは切り詰めずに結果の後ろへ添える
+        const hookFeedback = executed
+          ? await this.runPostToolUseHooks(
+              toolCall,
+              result,
+              trajCommon(toolRounds),
+              options?.platform
+            )
+          : undefined;
+        const toolResultContent = trimToolResult(rawOutput) + (hookFeedback ?? '');
 
         // tool-trajectory: tool_call 1 件分を記録
         this.trajectoryLogger.logToolCall(trajCommon(toolRounds), {
@@ -1484,71 +1735,110 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
 
   /**
    * ターン終了ゲート: Stop hook 群を実行し、block されたらフィードバックを
-   * system message として注入して 1 回だけ継続ラウンドを回す。
+   * system message として注入して継続ラウンドを回す。継続ラウンドの応答は
+   * `stop_hook_active: true` で再チェックし、通るか上限（XANGI_STOP_HOOK_MAX_ROUNDS）まで繰り返す。
    *
    * 設計原則:
-   * - フェイルオープン: hook 実行の異常はすべて素通り（firstText をそのまま返す）
-   * - 1 ターン 1 ナッジ: 継続ラウンドの結果は再チェックしない（block 無限ループ防止）。
-   *   hook は「強制」ではなく「確認を 1 回挟む」装置
+   * - フェイルオープン: hook 実行の異常はすべて素通り（それまでの応答をそのまま返す）
+   * - 有界: 継続ラウンドは stopMaxRounds 回まで（block 無限ループ防止）。最後の継続ラウンドの
+   *   結果は再チェックしない。hook 側も stop_hook_active を見て打ち切りを判断できる
    * - 履歴整合: 呼び出し側が assistant(firstText) を履歴に積んだ後に呼ぶこと。
    *   gate は system(feedback) を積み、継続ラウンド後に pushRetryToHistory に応じて
    *   assistant(retryText) を積む（executeAgentLoop は内部で push するため false を渡す）
+   * - 各ラウンドの判定は tool trajectory に記録する（stop_hook_block / stop_hook_pass /
+   *   stop_hook_rounds_exhausted）
    *
-   * @returns Discord 等へ返す最終テキスト（block 時は firstText + 継続ラウンドの連結）
+   * @returns Discord 等へ返す最終テキスト（block 時は firstText + 各継続ラウンドの連結）
    */
   private async applyStopHookGate(
     session: Session,
     firstText: string,
-    meta: { channelId: string; appSid: string },
+    meta: { channelId: string; appSid: string; platform?: ChatPlatform },
     opts: { pushRetryToHistory: boolean },
     rerun: () => Promise<string>
   ): Promise<string> {
-    if (!this.stopHooks) return firstText;
+    if (!this.hooks || this.hooks.count('Stop') === 0) return firstText;
+    const maxRounds = this.hooks.stopMaxRounds;
+    const common = this.trajectoryCommon(meta.appSid, meta.channelId);
+
+    let combined = firstText;
+    let lastText = firstText;
+    for (let round = 1; ; round++) {
+      const active = round > 1;
+      let verdict;
+      try {
+        verdict = await this.hooks.stop({
+          hook_event_name: 'Stop',
+          session_id: meta.appSid,
+          cwd: this.workdir,
+          backend: 'local-llm',
+          platform: meta.platform ?? this.platform,
+          stop_hook_active: active,
+          last_assistant_message: lastText,
+          channel_id: meta.channelId,
+          tools_called: [...(session.lastTurnToolNames ?? [])],
+        });
+      } catch (err) {
+        console.warn(`[local-llm] Stop hook gate failed (fail-open): ${String(err)}`);
+        return combined;
+      }
+      if (!verdict.block || !verdict.reason) {
+        if (active) {
+          this.trajectoryLogger.logRunnerEvent(common, {
+            event: 'stop_hook_pass',
+            details: { round },
+          });
+        }
+        return combined;
+      }
 
-    let verdict;
-    try {
-      verdict = await this.stopHooks.run({
-        hook_event_name: 'Stop',
-        session_id: meta.appSid,
-        cwd: this.workdir,
-        stop_hook_active: false,
-        last_assistant_message: firstText,
-        channel_id: meta.channelId,
-        tools_called: [...(session.lastTurnToolNames ?? [])],
+      console.log(
+        `[local-llm] Stop hook blocked turn end (round ${round}/${maxRounds}): ${verdict.reason.slice(0, 200)}`
+      );
+      this.trajectoryLogger.logRunnerEvent(common, {
+        event: 'stop_hook_block',
+        details: {
+          round,
+          max_rounds: maxRounds,
+          stop_hook_active: active,
+          reason: verdict.reason.slice(0, 500),
+        },
       });
-    } catch (err) {
-      console.warn(`[local-llm] Stop hook gate failed (fail-open): ${String(err)}`);
-      return firstText;
-    }
-    if (!verdict.block || !verdict.reason) return firstText;
 
-    console.log(`[local-llm] Stop hook blocked turn end: ${verdict.reason.slice(0, 200)}`);
-    this.trajectoryLogger.logRunnerEvent(this.trajectoryCommon(meta.appSid, meta.channelId), {
-      event: 'stop_hook_block',
-      details: { reason: verdict.reason.slice(0, 500) },
-    });
+      session.messages.push({
+        role: 'system',
+        content: `[STOP HOOK FEEDBACK]\n${verdict.reason}\n[END STOP HOOK FEEDBACK]\n\nA turn-end verification hook blocked this response. Address the feedback now (call the required tool or revise your statement), then give a short follow-up reply to the user.`,
+      });
 
-    session.messages.push({
-      role: 'system',
-      content: `[STOP HOOK FEEDBACK]\n${verdict.reason}\n[END STOP HOOK FEEDBACK]\n\nA turn-end verification hook blocked this response. Address the feedback now (call the required tool or revise your statement), then give a short follow-up reply to the user.`,
-    });
+      let retryText: string;
+      try {
+        retryText = await rerun();
+      } catch (err) {
+        // 継続ラウンドの失敗でそれまでの応答まで失わない（注入済み system message は履歴に残るが実害なし）
+        console.warn(`[local-llm] Stop hook continuation round failed: ${String(err)}`);
+        return combined;
+      }
+      if (opts.pushRetryToHistory) {
+        session.messages.push({ role: 'assistant', content: retryText });
+      }
 
-    let retryText: string;
-    try {
-      retryText = await rerun();
-    } catch (err) {
-      // 継続ラウンドの失敗で元の応答まで失わない（注入済み system message は履歴に残るが実害なし）
-      console.warn(`[local-llm] Stop hook continuation round failed: ${String(err)}`);
-      return firstText;
-    }
-    if (opts.pushRetryToHistory) {
-      session.messages.push({ role: 'assistant', content: retryText });
-    }
+      const trimmedRetry = retryText.trim();
+      if (trimmedRetry) {
+        combined = combined.trim() ? `${combined}\n\n${trimmedRetry}` : retryText;
+      }
+      lastText = retryText;
 
-    const trimmedRetry = retryText.trim();
-    if (!trimmedRetry) return firstText;
-    if (!firstText.trim()) return retryText;
-    return `${firstText}\n\n${trimmedRetry}`;
+      if (round >= maxRounds) {
+        if (maxRounds > 1) {
+          console.warn(`[local-llm] Stop hook continuation rounds exhausted (${maxRounds})`);
+        }
+        this.trajectoryLogger.logRunnerEvent(common, {
+          event: 'stop_hook_rounds_exhausted',
+          details: { rounds: round },
+        });
+        return combined;
+      }
+    }
   }
 
   /**
@@ -1600,7 +1890,12 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
       while (toolRounds < MAX_TOOL_ROUNDS) {
         // 各 iteration の頭で active tools を再計算（tool_search で拡張された分を反映）
         const iterTools = this.toolSearchEnabled
-          ? toLLMTools(getActiveTools(session.activeToolNames))
+          ? toLLMTools(
+              filterAllowedTools(
+                getActiveTools(session.activeToolNames),
+                skillAllowedTools(options)
+              )
+            )
           : llmTools;
         finalIterTools = iterTools;
 
@@ -1610,6 +1905,8 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
             systemPrompt,
             tools: iterTools.length > 0 ? iterTools : undefined,
             signal: abortController.signal,
+            onEndpoint: (ep) => this.recordServedEndpoint(channelId, ep),
+            onUsage: (usage) => this.recordTurnUsage(channelId, usage),
           });
         } catch (err) {
           const errorMsg = err instanceof Error ? err.message : String(err);
@@ -1634,6 +1931,9 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
         const toolContext = {
           workspace: this.workdir,
           channelId: options?.channelId,
+          sandbox: resolveSandboxMode(options?.localLlmSandbox),
+          allowedTools: skillAllowedTools(options),
+          allowedToolPatterns: skillAllowedToolPatterns(options),
           activateTools: (names: string[]) => {
             for (const n of names) session.activeToolNames.add(n);
             console.log(
@@ -1660,14 +1960,15 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
           // Discordにツール実行中を通知
           callbacks.onToolUse?.(toolCall.name, toolCall.arguments as Record<string, unknown>);
 
-          // 危険コマンド承認チェック（承認サーバー経由、Claude Codeと同じ仕組み）
-          const approvalResult2 = await checkApprovalServer(toolCall.name, toolCall.arguments);
-          if (approvalResult2 === 'deny') {
-            console.log(`[local-llm] Tool denied by approval server: ${toolCall.name}`);
-            session.messages.push({
-              role: 'tool',
-              content: 'Tool execution denied by user.',
-            });
+          // PreToolUse hook の拒否はツールエラーとして LLM に返す
+          const hookDenial = await this.runPreToolUseHooks(
+            toolCall,
+            trajCommonStream(toolRounds),
+            options?.platform
+          );
+          if (hookDenial) {
+            session.messages.push({ role: 'tool', content: hookDenial, toolCallId: toolCall.id });
+            callbacks.onToolResult?.(toolCall.name, false);
             continue;
           }
 
@@ -1675,6 +1976,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
           const sig = toolCallSignature(toolCall.name, toolCall.arguments);
           const loopResult = recordToolCallAndDetectLoop(session, sig);
           let result;
+          let executed = false;
           const toolStart = Date.now();
           if (loopResult.kind !== 'none') {
             const repeats = loopResult.repeats ?? REPEATED_TOOL_CALL_THRESHOLD;
@@ -1714,6 +2016,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
               result = { success: true, output: cached };
             } else {
               result = await executeTool(toolCall.name, toolCall.arguments, toolContext);
+              executed = true;
               // 冪等パターンなら結果をキャッシュ (次回以降 HIT させる)
               if (result.success && isIdempotentToolCall(toolCall.name, toolCall.arguments)) {
                 cacheIdempotentResult(session, sig, result.output);
@@ -1728,7 +2031,16 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
           const rawToolOutput = result.success
             ? result.output
             : `Error: ${result.error ?? 'Unknown error'}${result.output ? `\nOutput: ${result.output}` : ''}`;
-          const toolResultContent = trimToolResult(rawToolOutput);
+          // PostToolUse hook のフィードバックは切り詰めずに結果の後ろへ添える
+          const hookFeedback = executed
+            ? await this.runPostToolUseHooks(
+                toolCall,
+                result,
+                trajCommonStream(toolRounds),
+                options?.platform
+              )
+            : undefined;
+          const toolResultContent = trimToolResult(rawToolOutput) + (hookFeedback ?? '');
 
           // tool-trajectory: tool_call 1 件分を記録
           this.trajectoryLogger.logToolCall(trajCommonStream(toolRounds), {
@@ -1747,6 +2059,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
           console.log(
             `[local-llm] Tool result: ${result.success ? 'OK' : 'FAIL'} (${toolResultContent.length} chars)`
           );
+          callbacks.onToolResult?.(toolCall.name, result.success);
           session.messages.push({
             role: 'tool',
             content: toolResultContent,
@@ -1797,6 +2110,8 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
           tools: finalIterTools.length > 0 ? finalIterTools : undefined,
           toolChoice: 'none',
           signal: abortController.signal,
+          onEndpoint: (ep) => this.recordServedEndpoint(channelId, ep),
+          onUsage: (usage) => this.recordTurnUsage(channelId, usage),
         })) {
           const { release, dropped } = driftBuffer.feed(chunk);
           if (dropped) totalDroppedDuringStream = true;
@@ -1846,6 +2161,9 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
     const rescueToolContext = {
       workspace: this.workdir,
       channelId: options?.channelId,
+      sandbox: resolveSandboxMode(options?.localLlmSandbox),
+      allowedTools: skillAllowedTools(options),
+      allowedToolPatterns: skillAllowedToolPatterns(options),
       activateTools: (names: string[]) => {
         for (const n of names) session.activeToolNames.add(n);
       },
@@ -2167,7 +2485,7 @@ export class LocalLlmRunner extends EventEmitter implements AgentRunner {
 
     // スキル一覧
     if (f.skills) {
-      const skills = loadSkills(this.workdir);
+      const skills = getSkills(this.workdir);
       if (skills.length > 0) {
         const skillLines = skills
           .map((s) => `  - **${s.name}**: ${s.description}\n    SKILL.md: ${s.path}`)
@@ -0,0 +1,143 @@
+/**
+ * Local LLM の exec ツール用サンドボックス（opt-in）
+ *
+ * - bwrap: bubblewrap で名前空間を切る（推奨。権限を落とした状態でマウントを組み立てる）
+ * - unshare: util-linux の unshare + setpriv で同等の構成を組む（bwrap が入っていない環境向け）
+ *
+ * どちらも / を読み取り専用、ワークスペースだけ書き込み可、/tmp は使い捨ての tmpfs、
+ * ネットワークなし（LOCAL_LLM_SANDBOX_NETWORK=true で許可）にし、ulimit で CPU 時間と
+ * メモリを制限する。実行時間は EXEC_TIMEOUT_MS のタイムアウトで打ち切る。
+ *
+ * LOCAL_LLM_SANDBOX が全体の既定、CHANNEL_OVERRIDES の localLlmSandbox でチャンネルごとに切り替える。
+ * サンドボックスのコマンドが無いときは素の exec にフォールバックせずエラーにする。
+ */
+
+export const SANDBOX_MODES = ['off', 'bwrap', 'unshare'] as const;
+export type SandboxMode = (typeof SANDBOX_MODES)[number];
+
+export const DEFAULT_SANDBOX_CPU_SECONDS = 60;
+export const DEFAULT_SANDBOX_MEMORY_MB = 2048;
+
+export interface SandboxLimits {
+  /** ulimit -t（CPU 秒） */
+  cpuSeconds: number;
+  /** ulimit -v（仮想メモリ MB） */
+  memoryMb: number;
+  /** ネットワーク名前空間を分けない */
+  network: boolean;
+}
+
+/**
+ * LOCAL_LLM_SANDBOX を解釈する。未設定・不正値は off
+ */
+export function parseSandboxMode(raw: string | undefined): SandboxMode {
+  const value = raw?.trim();
+  return SANDBOX_MODES.find((m) => m === value) ?? 'off';
+}
+
+/**
+ * チャンネルの指定（CHANNEL_OVERRIDES 由来）が無ければ LOCAL_LLM_SANDBOX を使う
+ */
+export function resolveSandboxMode(override?: SandboxMode, env = process.env): SandboxMode {
+  return override ?? parseSandboxMode(env.LOCAL_LLM_SANDBOX);
+}
+
+function parsePositiveInt(raw: string | undefined, fallback: number): number {
+  const n = Number(raw);
+  return raw !== undefined && Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+/** LOCAL_LLM_SANDBOX_CPU_SECONDS / LOCAL_LLM_SANDBOX_MEMORY_MB / LOCAL_LLM_SANDBOX_NETWORK */
+export function getSandboxLimits(env = process.env): SandboxLimits {
+  return {
+    cpuSeconds: parsePositiveInt(env.LOCAL_LLM_SANDBOX_CPU_SECONDS, DEFAULT_SANDBOX_CPU_SECONDS),
+    memoryMb: parsePositiveInt(env.LOCAL_LLM_SANDBOX_MEMORY_MB, DEFAULT_SANDBOX_MEMORY_MB),
+    network: env.LOCAL_LLM_SANDBOX_NETWORK === 'true',
+  };
+}
+
+/** dash の ulimit は 1 回に 1 項目しか取らないので分けて書く */
+function withLimits(command: string, limits: SandboxLimits): string {
+  return `ulimit -t ${limits.cpuSeconds}; ulimit -v ${limits.memoryMb * 1024}; ${command}`;
+}
+
+/**
+ * unshare モードで名前空間の中で実行するセットアップスクリプト。
+ * 引数: $0 = ワークスペース, $1 = cwd, $2 = 実行するコマンド
+ *
+ * 全マウントを読み取り専用にしてから、ワークスペースだけ書き込み可で bind し直す。
+ * ワークスペースが /tmp 配下だと tmpfs で隠れるので、その場合 /tmp は読み取り専用のまま。
+ * 最後に setpriv で capability を全部落とし、中のコマンドがマウントを戻せないようにする。
+ */
+const UNSHARE_SETUP_SCRIPT = [
+  'set -e',
+  'mount --make-rprivate /',
+  'awk \'{print $2}\' /proc/self/mounts | while read -r m; do case "$m" in /proc|/proc/*|/dev|/dev/*|/sys|/sys/*) continue;; esac; mount -o remount,bind,ro "$m" 2>/dev/null || true; done',
+  'case "$0/" in /tmp/*) ;; *) mount -t tmpfs tmpfs /tmp;; esac',
+  'mount --bind "$0" "$0"',
+  'mount -o remount,bind,rw "$0"',
+  'cd "$1"',
+  'exec setpriv --no-new-privs --bounding-set=-all --inh-caps=-all /bin/sh -c "$2"',
+].join('\n');
+
+/**
+ * サンドボックス内で command を実行するための execFile 引数を組み立てる
+ */
+export function buildSandboxCommand(
+  mode: Exclude<SandboxMode, 'off'>,
+  command: string,
+  opts: { workspace: string; cwd: string; limits: SandboxLimits }
+): { file: string; args: string[] } {
+  const { workspace, cwd, limits } = opts;
+  if (mode === 'bwrap') {
+    return {
+      file: 'bwrap',
+      args: [
+        '--ro-bind',
+        '/',
+        '/',
+        '--dev',
+        '/dev',
+        '--proc',
+        '/proc',
+        '--tmpfs',
+        '/tmp',
+        '--bind',
+        workspace,
+        workspace,
+        '--unshare-all',
+        ...(limits.network ? ['--share-net'] : []),
+        '--die-with-parent',
+        '--new-session',
+        '--cap-drop',
+        'ALL',
+        '--chdir',
+        cwd,
+        '/bin/sh',
+        '-c',
+        withLimits(command, limits),
+      ],
+    };
+  }
+  return {
+    file: 'unshare',
+    args: [
+      '--user',
+      '--map-root-user',
+      '--mount',
+      '--pid',
+      '--fork',
+      '--kill-child',
+      '--mount-proc',
+      '--ipc',
+      '--uts',
+      ...(limits.network ? [] : ['--net']),
+      '/bin/sh',
+      '-c',
+      UNSHARE_SETUP_SCRIPT,
+      workspace,
+      cwd,
+      withLimits(command, limits),
+    ],
+  };
+}
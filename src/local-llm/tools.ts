@@ -3,13 +3,22 @@
  */
 import { readFileSync, writeFileSync, existsSync, statSync, mkdirSync, readdirSync } from 'fs';
 import { promises as fsp } from 'fs';
-import { resolve, join, dirname, relative, sep } from 'path';
+import { resolve, join, dirname, relative, sep, isAbsolute } from 'path';
 import { promisify } from 'util';
 import type { LLMTool, ToolContext, ToolResult, ToolHandler, ToolCatalogEntry } from './types.js';
 import { getSafeEnv } from '../safe-env.js';
 import { getGitHubEnv } from '../github-auth.js';
-import { loadSkills, type Skill } from '../skills.js';
+import type { Skill } from '../skills.js';
+import { getSkills } from '../skill-registry.js';
 import { resolveAttachmentPath } from '../file-utils.js';
+import { buildSandboxCommand, getSandboxLimits, type SandboxMode } from './sandbox.js';
+import {
+  detectDangerousTool,
+  findApprovalTarget,
+  isApprovalEnabled,
+  recordPolicyDenial,
+  requestApproval,
+} from '../approval.js';
 
 // child_process を遅延ロード（テストのvi.mockとの衝突を避けるため）
 async function shellExec(
@@ -21,6 +30,16 @@ async function shellExec(
   return execAsync(command, options);
 }
 
+async function shellExecFile(
+  file: string,
+  args: string[],
+  options: { cwd?: string; timeout?: number; maxBuffer?: number; env?: NodeJS.ProcessEnv }
+): Promise<{ stdout: string; stderr: string }> {
+  const cp = await import('child_process');
+  const execFileAsync = promisify(cp.execFile);
+  return execFileAsync(file, args, options);
+}
+
 // --- Configurable limits ---
 
 const EXEC_TIMEOUT_MS = parseInt(process.env.EXEC_TIMEOUT_MS ?? '120000', 10);
@@ -57,6 +76,21 @@ const BLOCKED_PATTERNS = [
   /:\(\)\s*\{.*\|\s*:\s*&\s*\}/, // fork bomb
 ];
 
+/** サンドボックス内で command を実行する execFile の [file, args] */
+function sandboxArgs(
+  sandbox: Exclude<SandboxMode, 'off'>,
+  command: string,
+  workspace: string,
+  cwd: string
+): [string, string[]] {
+  const { file, args } = buildSandboxCommand(sandbox, command, {
+    workspace,
+    cwd,
+    limits: getSandboxLimits(),
+  });
+  return [file, args];
+}
+
 const execToolHandler: ToolHandler = {
   name: 'exec',
   description: 'Execute a shell command and return its output.',
@@ -79,16 +113,32 @@ const execToolHandler: ToolHandler = {
       return { success: false, output: '', error: `Command blocked for safety: ${command}` };
     }
 
+    const execOptions = {
+      cwd,
+      timeout: EXEC_TIMEOUT_MS,
+      maxBuffer: 1024 * 1024,
+      env: { ...getSafeEnv(), ...getGitHubEnv(getSafeEnv()) },
+    };
+    const sandbox = context.sandbox ?? 'off';
     try {
-      const { stdout, stderr } = await shellExec(command, {
-        cwd,
-        timeout: EXEC_TIMEOUT_MS,
-        maxBuffer: 1024 * 1024,
-        env: { ...getSafeEnv(), ...getGitHubEnv(getSafeEnv()) },
-      });
+      const { stdout, stderr } =
+        sandbox === 'off'
+          ? await shellExec(command, execOptions)
+          : await shellExecFile(
+              ...sandboxArgs(sandbox, command, context.workspace, cwd),
+              execOptions
+            );
       return { success: true, output: [stdout, stderr].filter(Boolean).join('\n').trim() };
     } catch (err) {
-      const e = err as { stdout?: string; stderr?: string; message?: string };
+      const e = err as { code?: unknown; stdout?: string; stderr?: string; message?: string };
+      // サンドボックスのコマンドが無い環境では素の exec に落とさずエラーにする
+      if (sandbox !== 'off' && e.code === 'ENOENT') {
+        return {
+          success: false,
+          output: '',
+          error: `Sandbox '${sandbox}' is not available on this host: ${e.message ?? String(err)}`,
+        };
+      }
       return {
         success: false,
         output: [e.stdout, e.stderr].filter(Boolean).join('\n').trim(),
@@ -648,7 +698,7 @@ const toolSearchToolHandler: ToolHandler = {
     let skillsMatched: Array<{ skill: Skill; score: number }> = [];
     if (context.workspace) {
       try {
-        const skills = loadSkills(context.workspace);
+        const skills = getSkills(context.workspace);
         skillsMatched = skills
           .map((s) => ({ skill: s, score: scoreSkillMatch(query, s) }))
           .filter((x) => x.score > 0)
@@ -656,7 +706,7 @@ const toolSearchToolHandler: ToolHandler = {
           .slice(0, limit);
       } catch (err) {
         console.warn(
-          `[local-llm] tool_search: loadSkills failed: ${err instanceof Error ? err.message : String(err)}`
+          `[local-llm] tool_search: getSkills failed: ${err instanceof Error ? err.message : String(err)}`
         );
       }
     }
@@ -825,6 +875,151 @@ export function getActiveTools(activeNames: Set<string>): ToolHandler[] {
   return getAllTools().filter((t) => activeNames.has(t.name));
 }
 
+// --- skill allowed-tools ---
+
+/** スキルの allowed-tools に書かれた Claude Code のツール名 → Local LLM のツール名 */
+const CLAUDE_TOOL_ALIASES: Record<string, string> = {
+  Bash: 'exec',
+  Read: 'read',
+  Write: 'write',
+  Edit: 'edit',
+  Glob: 'glob',
+  Grep: 'grep',
+  WebFetch: 'web_fetch',
+};
+
+/** パターン（`Bash(git *)` の `git *`）と照合する引数 */
+const TOOL_PATTERN_ARGS: Record<string, string> = {
+  exec: 'command',
+  read: 'path',
+  write: 'path',
+  edit: 'path',
+  glob: 'pattern',
+  grep: 'pattern',
+  web_fetch: 'url',
+};
+
+function parseAllowedTool(entry: string): { name: string; pattern?: string } {
+  const match = /^([^(]+)\((.*)\)$/.exec(entry.trim());
+  const base = (match ? match[1] : entry).trim();
+  return { name: CLAUDE_TOOL_ALIASES[base] ?? base, pattern: match?.[2].trim() };
+}
+
+/**
+ * allowed-tools を Local LLM のツール名の集合にする。
+ * `Bash(git *)` のようなパターンの引数の絞り込みは resolveAllowedToolPatterns で行う
+ */
+export function resolveAllowedToolNames(allowedTools: string[]): Set<string> {
+  return new Set(allowedTools.map((t) => parseAllowedTool(t).name));
+}
+
+/**
+ * allowed-tools のパターンをツール名ごとにまとめる。
+ * 同じツールをパターンなしでも許可していればそのツールは絞り込まない
+ */
+export function resolveAllowedToolPatterns(allowedTools: string[]): Map<string, string[]> {
+  const patterns = new Map<string, string[]>();
+  const unrestricted = new Set<string>();
+  for (const { name, pattern } of allowedTools.map(parseAllowedTool)) {
+    if (!pattern) unrestricted.add(name);
+    else patterns.set(name, [...(patterns.get(name) ?? []), pattern]);
+  }
+  for (const name of unrestricted) patterns.delete(name);
+  return patterns;
+}
+
+/** Claude Code と同じく `git diff:*` は前方一致、`*` は任意の文字列 */
+function matchesToolPattern(value: string, pattern: string): boolean {
+  const glob = pattern.endsWith(':*') ? `${pattern.slice(0, -2)}*` : pattern;
+  const source = glob
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 's').test(value.trim());
+}
+
+/** パスでパターンと照合するツール（glob は cwd からの相対パターン） */
+const PATH_PATTERN_TOOLS = new Set(['read', 'write', 'edit', 'glob']);
+
+/**
+ * パスをワークスペース相対（`/` 区切り）にする。`..` や絶対パスでワークスペースの外に出るなら null
+ */
+function toWorkspaceRelative(value: string, workspace: string, cwd: unknown): string | null {
+  const base = typeof cwd === 'string' && cwd ? resolve(workspace, cwd) : workspace;
+  const rel = relative(workspace, resolve(base, value));
+  if (rel === '..' || rel.startsWith('..' + sep) || isAbsolute(rel)) return null;
+  return rel.split(sep).join('/');
+}
+
+/**
+ * 呼び出しが allowed-tools のパターンに収まるか。
+ * read / write / edit / glob はワークスペース基準で解決した相対パスと照合し、外に出るパスは拒否する。
+ * exec は `;` `&&` `|` 等で区切った各コマンドがすべて一致する必要があり、
+ * コマンド置換・変数展開・リダイレクト・複数行は判定できないので拒否する
+ */
+function isToolCallAllowed(
+  name: string,
+  args: Record<string, unknown>,
+  patterns: string[],
+  workspace: string
+) {
+  const value = args[TOOL_PATTERN_ARGS[name] ?? ''];
+  if (typeof value !== 'string') return false;
+  if (PATH_PATTERN_TOOLS.has(name)) {
+    const rel = toWorkspaceRelative(value, workspace, name === 'glob' ? args.cwd : undefined);
+    return rel !== null && patterns.some((p) => matchesToolPattern(rel, p.replace(/^\.\//, '')));
+  }
+  if (name !== 'exec') return patterns.some((p) => matchesToolPattern(value, p));
+  if (/[`\n<>$]/.test(value)) return false;
+  const commands = value
+    .split(/&&|\|\||[;|&]/)
+    .map((c) => c.trim())
+    .filter(Boolean);
+  return (
+    commands.length > 0 && commands.every((c) => patterns.some((p) => matchesToolPattern(c, p)))
+  );
+}
+
+/** allowed（スキル実行時のみ）に含まれるツールだけに絞る */
+export function filterAllowedTools(
+  handlers: ToolHandler[],
+  allowed: Set<string> | undefined
+): ToolHandler[] {
+  return allowed ? handlers.filter((h) => allowed.has(h.name)) : handlers;
+}
+
+// --- approval ---
+
+/** 危険コマンドの承認フロー（approval.ts）を通すツール。Claude Code の Bash / Write / Edit に相当 */
+const APPROVAL_GATED_TOOLS = new Set(['exec', 'write', 'edit']);
+
+/**
+ * 危険なツール呼び出しなら会話中のチャットで承認を待つ。拒否ならツールエラーの文言を返す。
+ * 承認待ちの間はこの await でツールラウンドが止まる（2 分で自動拒否）。
+ */
+async function authorizeToolCall(
+  name: string,
+  args: Record<string, unknown>,
+  context: ToolContext
+): Promise<string | null> {
+  if (!APPROVAL_GATED_TOOLS.has(name) || !isApprovalEnabled()) return null;
+  const target = findApprovalTarget({ channelId: context.channelId });
+  const danger = detectDangerousTool(name, args, target);
+  if (!danger) return null;
+
+  const matches = danger.matches.join(', ');
+  if (danger.decision === 'deny') {
+    console.log(`[local-llm] Tool denied by policy: ${name} (${matches})`);
+    recordPolicyDenial(target, danger);
+    return `Denied by policy: ${matches}`;
+  }
+  console.log(`[local-llm] Waiting for approval: ${name} (${matches})`);
+  const approved = await requestApproval(target, danger);
+  if (approved) return null;
+  console.log(`[local-llm] Tool denied by user: ${name}`);
+  return `Tool execution denied by user: ${matches}`;
+}
+
 export async function executeTool(
   name: string,
   args: Record<string, unknown>,
@@ -833,6 +1028,20 @@ export async function executeTool(
   const allTools = getAllTools();
   const handler = allTools.find((t) => t.name === name);
   if (!handler) return { success: false, output: '', error: `Unknown tool: ${name}` };
+  if (context.allowedTools && !context.allowedTools.has(name)) {
+    return { success: false, output: '', error: `Tool not allowed for this skill: ${name}` };
+  }
+  const patterns = context.allowedToolPatterns?.get(name);
+  if (patterns && !isToolCallAllowed(name, args, patterns, context.workspace)) {
+    return {
+      success: false,
+      output: '',
+      error: `Tool call not allowed for this skill: ${name} is limited to ${patterns.join(', ')}`,
+    };
+  }
+
+  const denial = await authorizeToolCall(name, args, context);
+  if (denial) return { success: false, output: '', error: denial };
 
   try {
     return await handler.execute(args, context);
@@ -1,3 +1,5 @@
+import type { SandboxMode } from './sandbox.js';
+
 export interface LLMImageContent {
   /** base64-encoded image data (without data URI prefix) */
   base64: string;
@@ -50,6 +52,22 @@ export interface LLMChatOptions {
   maxTokens?: number;
   systemPrompt?: string;
   signal?: AbortSignal;
+  /**
+   * サーバーが返したトークン使用量の通知（chat / chatStream 共通）。
+   * usage を返さないサーバーでは呼ばれない。
+   */
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+/** 1 回の LLM 呼び出しで消費したトークン数（provider ごとの usage 表現を正規化したもの） */
+export interface LLMUsage {
+  /** 入力トークン総数（cache から読んだ / 書いた分も含む） */
+  inputTokens: number;
+  outputTokens: number;
+  /** prompt cache から読んだ分（対応 provider のみ） */
+  cacheReadTokens?: number;
+  /** prompt cache に書き込んだ分（Anthropic のみ） */
+  cacheCreationTokens?: number;
 }
 
 export interface LLMChatResponse {
@@ -62,6 +80,12 @@ export interface ToolContext {
   workspace: string;
   userId?: string;
   channelId?: string;
+  /** exec ツールのサンドボックス（sandbox.ts）。未指定なら off */
+  sandbox?: SandboxMode;
+  /** スキルの allowed-tools（Local LLM のツール名）。指定時はこれ以外のツールを拒否する */
+  allowedTools?: Set<string>;
+  /** allowed-tools のパターン（ツール名 → `git *` 等）。ここにあるツールは引数が一致する呼び出しだけ通す */
+  allowedToolPatterns?: Map<string, string[]>;
   /**
    * tool_search 経由で deferred tool をアクティブ化するためのコールバック。
    * 呼ぶと指定 tool の schema が次ターン以降の LLM リクエストに含まれる。
@@ -16,6 +16,7 @@ import type { ChatPlatform } from './prompts/index.js';
 import { logPrompt, logResponse, logError } from './transcript-logger.js';
 import { buildCliEnv } from './cli-process.js';
 import { appendJsonlChunk } from './jsonl-buffer.js';
+import { parseClaudeUsage, type ClaudeResultUsage } from './token-usage.js';
 
 /**
  * リクエストキューのアイテム
@@ -41,6 +42,8 @@ export class PersistentRunner extends EventEmitter implements AgentRunner {
   private buffer = '';
   private sessionId = '';
   private fullText = '';
+  /** 結果待ちの tool_use（id → ツール名）。onToolResult で名前を渡すため */
+  private pendingToolNames = new Map<string, string>();
   private shuttingDown = false;
   private cancelling = false;
 
@@ -291,8 +294,11 @@ export class PersistentRunner extends EventEmitter implements AgentRunner {
       content?: Array<{
         type: string;
         text?: string;
+        id?: string;
         name?: string;
         input?: Record<string, unknown>;
+        tool_use_id?: string;
+        is_error?: boolean;
       }>;
     };
     result?: string;
@@ -313,12 +319,25 @@ export class PersistentRunner extends EventEmitter implements AgentRunner {
           }
         }
         if (block.type === 'tool_use' && block.name) {
+          if (block.id) this.pendingToolNames.set(block.id, block.name);
           this.currentItem?.callbacks?.onToolUse?.(block.name, block.input ?? {});
         }
       }
     }
 
+    // ツールの結果は user メッセージの tool_result ブロックで返ってくる
+    if (json.type === 'user' && Array.isArray(json.message?.content)) {
+      for (const block of json.message.content) {
+        if (block.type !== 'tool_result' || !block.tool_use_id) continue;
+        const name = this.pendingToolNames.get(block.tool_use_id);
+        if (!name) continue;
+        this.pendingToolNames.delete(block.tool_use_id);
+        this.currentItem?.callbacks?.onToolResult?.(name, block.is_error !== true);
+      }
+    }
+
     if (json.type === 'result') {
+      this.pendingToolNames.clear();
       if (json.session_id) {
         this.sessionId = json.session_id;
       }
@@ -391,6 +410,7 @@ export class PersistentRunner extends EventEmitter implements AgentRunner {
           // 誤解を招く `✅` ではなく正直な fallback を返す
           result: finalizeDisplayText(this.fullText),
           sessionId: this.sessionId,
+          usage: parseClaudeUsage(json as ClaudeResultUsage),
         };
 
         this.currentItem?.callbacks?.onComplete?.(result);
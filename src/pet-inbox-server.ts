@@ -23,6 +23,8 @@
  *   リクエストのみ許可。グローバル IP からは 403。
  *   → 自宅 LAN / Tailscale で運用してれば設定ゼロで pet からテキスト送れる。
  *   → xangi をグローバル IP で公開する人だけ token 設定が必要。
+ * - Web チャットの認証（WEB_CHAT_AUTH_TOKEN / WEB_CHAT_USERS）が有効なときは
+ *   プライベートネットワークでも token 必須（web-chat が allowPrivateNetwork: false で呼ぶ）。
  */
 
 import type { IncomingMessage, ServerResponse } from 'http';
@@ -168,11 +170,14 @@ function webContextKey(appSessionId: string): string {
  * 戻り値:
  *   true  — このハンドラがレスポンスを返した
  *   false — このリクエストは pet-inbox 担当外 (素通しする)
+ *
+ * allowPrivateNetwork: false なら token 未設定時のプライベートネットワーク許可を使わない
  */
 export async function handlePetInboxRequest(
   req: IncomingMessage,
   res: ServerResponse,
-  agentRunner: AgentRunner
+  agentRunner: AgentRunner,
+  options: { allowPrivateNetwork?: boolean } = {}
 ): Promise<boolean> {
   const url = (req.url || '/').split('?')[0];
   if (req.method !== 'POST' || !isInboxPath(url)) return false;
@@ -188,7 +193,7 @@ export async function handlePetInboxRequest(
     return true;
   }
 
-  // 認証ガード: token 設定時は Bearer 必須、未設定時は loopback のみ許可
+  // 認証ガード: token 設定時は Bearer 必須、未設定時はプライベートネットワークのみ許可
   const { token, envName } = getToken(url);
   if (token) {
     const authHeader = (req.headers.authorization || '').trim();
@@ -199,6 +204,12 @@ export async function handlePetInboxRequest(
       });
       return true;
     }
+  } else if (options.allowPrivateNetwork === false) {
+    jsonResponse(res, 401, {
+      error: 'Unauthorized',
+      hint: `Set ${envName} and provide Authorization: Bearer <${envName}> (required while Web Chat authentication is enabled)`,
+    });
+    return true;
   } else if (!isLocalOrPrivate(req.socket.remoteAddress)) {
     jsonResponse(res, 403, {
       error: 'Forbidden',
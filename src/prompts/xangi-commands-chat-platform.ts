@@ -45,8 +45,12 @@ xangi-cmd schedule_add --input "30分後 ミーティング" --channel <チャ
 xangi-cmd schedule_add --input "15:00 レビュー" --channel <チャンネルID>
 xangi-cmd schedule_add --input "毎週月曜 10:00 週次MTG" --channel <チャンネルID>
 xangi-cmd schedule_add --input "cron 0 9 * * * おはよう" --channel <チャンネルID>
+xangi-cmd schedule_add --input "after <スケジュールID> --with-result 結果を要約して"  # 上流ジョブの成功後に実行
+xangi-cmd schedule_add --input "毎日 9:00 日報" --catch-up run-once  # xangi 停止中に過ぎた回を起動時に 1 回実行
+xangi-cmd schedule_add --input "毎日 3:00 ビルド集計" --max-retries 3  # 失敗時にリトライし、最終失敗を通知
 xangi-cmd schedule_remove --id <スケジュールID>
 xangi-cmd schedule_toggle --id <スケジュールID>
+xangi-cmd schedule_history --id <スケジュールID>  # 実行履歴（成否・所要時間・応答）
 \`\`\`
 
 ## システムコマンド
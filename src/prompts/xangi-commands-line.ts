@@ -37,6 +37,10 @@ LINEのトーク画面ではMarkdown記法はレンダリングされません
 - LINE経由ではファイル送信（MEDIA:形式）は非対応です。応答はテキストのみで完結させてください
 - 画像や動画を案内する必要がある場合はURLで示す（ユーザがブラウザで開けます）
 
+### リマインダー・定期実行
+- 「毎朝7時に天気を教えて」のような依頼は \`xangi-cmd schedule_add --input "毎日 7:00 今日の天気を教えて"\` で登録する（送信先は現在の LINE ユーザーになり、Push で届く）
+- 一覧は \`xangi-cmd schedule_list\`、削除は \`xangi-cmd schedule_remove --id <スケジュールID>\`
+
 ### 例
 誤: \`**ねぇ、聞いて！**\` → 画面に「**ねぇ、聞いて！**」とそのまま表示されます
 正: \`ねぇ、聞いて！✨\` → 絵文字で柔らかく強調
@@ -20,4 +20,15 @@ xangi-cmd web_history --count 10
 - 別ペインの履歴を見たい場合: \`--session <appSessionId>\`
 - **AI バックエンド (Claude Code / Codex / Cursor / Grok / local-llm) のセッションが切れると過去会話を忘れるので、返答前に必ずやること**
 - **「タイムアウト」「さっきの」など前提のあるメッセージが来たら、自己流で「何の話？」と聞き返さず、まず履歴を取得する**
-- 注意: セッション起動直後（メッセージ受信前）にはペイン文脈がないので履歴取得しない`;
+- 注意: セッション起動直後（メッセージ受信前）にはペイン文脈がないので履歴取得しない
+
+## スケジュール・リマインダー
+
+\`--channel\` を省略すると現在の Web セッション宛てに登録される（実行結果はこのセッションの履歴に追記される）：
+
+\`\`\`bash
+xangi-cmd schedule_list
+xangi-cmd schedule_add --input "毎日 9:00 おはよう"
+xangi-cmd schedule_add --input "30分後 ミーティング"
+xangi-cmd schedule_remove --id <スケジュールID>
+\`\`\``;
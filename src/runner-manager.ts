@@ -11,6 +11,7 @@ import type {
 import type { AgentConfig } from './config.js';
 import type { ChatPlatform } from './prompts/index.js';
 import { deleteSession } from './sessions.js';
+import { applyPromptHooks, createHookRunner, type HookRunner } from './hooks.js';
 
 /**
  * プール内のランナー情報
@@ -34,6 +35,8 @@ export class RunnerManager extends EventEmitter implements AgentRunner {
   private agentConfig: AgentConfig;
   private platform?: ChatPlatform;
   private effort?: string;
+  /** ワークスペース hooks（常駐プロセスへ渡す前のプロンプトに SessionStart / UserPromptSubmit を適用） */
+  private hooks: HookRunner | null;
 
   /** デフォルトのチャンネルID（channelIdが未指定の場合に使用） */
   private static readonly DEFAULT_CHANNEL = '__default__';
@@ -55,6 +58,7 @@ export class RunnerManager extends EventEmitter implements AgentRunner {
     this.effort = options?.effort;
     this.maxProcesses = options?.maxProcesses ?? 10;
     this.idleTimeoutMs = options?.idleTimeoutMs ?? 30 * 60 * 1000; // 30分
+    this.hooks = createHookRunner(agentConfig.workdir || process.cwd());
 
     // 定期クリーンアップ開始
     this.cleanupInterval = setInterval(() => this.cleanupIdle(), RunnerManager.CLEANUP_INTERVAL_MS);
@@ -191,6 +195,25 @@ export class RunnerManager extends EventEmitter implements AgentRunner {
     }
   }
 
+  /**
+   * SessionStart / UserPromptSubmit hooks を通したプロンプトを返す（block なら HookBlockedError）。
+   * SessionStart は常駐プロセスがまだセッションを持っていないターンだけ。
+   */
+  private applyPromptHooks(
+    runner: PersistentRunner,
+    prompt: string,
+    options?: RunOptions
+  ): Promise<string> {
+    if (!this.hooks) return Promise.resolve(prompt);
+    return applyPromptHooks(this.hooks, prompt, this.agentConfig.workdir || process.cwd(), {
+      sessionId: options?.appSessionId || runner.getSessionId(),
+      channelId: options?.channelId,
+      backend: 'claude-code',
+      platform: options?.platform,
+      sessionStart: runner.getSessionId() ? undefined : 'startup',
+    });
+  }
+
   /**
    * リクエストを実行
    */
@@ -201,7 +224,7 @@ export class RunnerManager extends EventEmitter implements AgentRunner {
     if (options?.sessionId) {
       runner.setSessionId(options.sessionId);
     }
-    return runner.run(prompt, options);
+    return runner.run(await this.applyPromptHooks(runner, prompt, options), options);
   }
 
   /**
@@ -218,7 +241,11 @@ export class RunnerManager extends EventEmitter implements AgentRunner {
     if (options?.sessionId) {
       runner.setSessionId(options.sessionId);
     }
-    return runner.runStream(prompt, callbacks, options);
+    return runner.runStream(
+      await this.applyPromptHooks(runner, prompt, options),
+      callbacks,
+      options
+    );
   }
 
   /**
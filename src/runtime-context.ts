@@ -12,6 +12,9 @@
  * 出力フォーマット (1 行):
  *   `[runtime] cwd=/path/to/dir repo=name@branch`
  *
+ * 呼び出し側は追加の key=value を渡せる（例: Local LLM のフォールバック構成時の
+ * `llm=model@host`）。
+ *
  * 環境変数:
  * - `XANGI_RUNTIME_CONTEXT_ENABLED` (default: true)
  *   `false` / `0` / `no` / `off` (case-insensitive) で注入をオフにできる。
@@ -58,7 +61,7 @@ function isEnabled(): boolean {
  * プロンプト先頭に prepend する 1 行ブロックを返す。
  * 環境変数で無効化されている場合や、context 取得に失敗した場合は空文字列を返す。
  */
-export function buildRuntimeContextBlock(): string {
+export function buildRuntimeContextBlock(extras?: Record<string, string>): string {
   if (!isEnabled()) return '';
 
   let ctx: RuntimeContext;
@@ -73,13 +76,16 @@ export function buildRuntimeContextBlock(): string {
   if (ctx.repo) {
     parts.push(`repo=${ctx.repo.name}@${ctx.repo.branch}`);
   }
+  for (const [key, value] of Object.entries(extras ?? {})) {
+    parts.push(`${key}=${value}`);
+  }
 
   return `[runtime] ${parts.join(' ')}\n\n`;
 }
 
 /** prompt 先頭に runtime context ブロックを差し込む。空文字列なら何もしない。 */
-export function prependRuntimeContext(prompt: string): string {
-  const block = buildRuntimeContextBlock();
+export function prependRuntimeContext(prompt: string, extras?: Record<string, string>): string {
+  const block = buildRuntimeContextBlock(extras);
   if (!block) return prompt;
   return block + prompt;
 }
@@ -0,0 +1,168 @@
+/**
+ * 停止中に取りこぼしたスケジュール実行の検出（catch-up）
+ *
+ * node-cron は「現在時刻以降の次回実行」しか計算できないため、
+ * 前回実行時刻〜起動時刻の間に発火するはずだった時刻を分単位で逆向きに走査して求める。
+ * 判定は node-cron と同じく全フィールドの AND（日と曜日も AND）。
+ */
+
+export type CatchUpPolicy = 'skip' | 'run-once' | 'run-all';
+
+export const CATCH_UP_POLICIES: readonly CatchUpPolicy[] = ['skip', 'run-once', 'run-all'];
+
+/** catchUp='run-all' の取り戻し回数上限のデフォルト */
+export const DEFAULT_CATCH_UP_LIMIT = 5;
+
+/** 取りこぼし検出で遡る最大期間（これより古い分は無視する） */
+export const CATCH_UP_MAX_WINDOW_MS = 31 * 24 * 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  min: number;
+  max: number;
+  /** 名前 → 値（月: jan=1、曜日: sun=0） */
+  names?: string[];
+  namesOffset?: number;
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  { min: 0, max: 7, names: WEEKDAY_NAMES, namesOffset: 0 },
+];
+
+function parseValue(token: string, spec: FieldSpec): number {
+  const lower = token.toLowerCase();
+  if (spec.names) {
+    const idx = spec.names.findIndex((n) => lower.startsWith(n));
+    if (idx !== -1) return idx + (spec.namesOffset ?? 0);
+  }
+  const n = parseInt(token, 10);
+  if (Number.isNaN(n)) throw new Error(`Invalid cron value: ${token}`);
+  return n;
+}
+
+/**
+ * cron の 1 フィールドを許可値の集合に展開する（`*` / `a-b` / `*\/n` / `a-b/n` / リスト）
+ */
+function expandField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart ? parseInt(stepPart, 10) : 1;
+    let from: number;
+    let to: number;
+    if (rangePart === '*') {
+      from = spec.min;
+      to = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      from = parseValue(a, spec);
+      to = parseValue(b, spec);
+    } else {
+      from = parseValue(rangePart, spec);
+      // `5/15` は 5 から最大値まで 15 刻み
+      to = stepPart ? spec.max : from;
+    }
+    for (let v = from; v <= to; v += step) {
+      values.add(v);
+    }
+  }
+  return values;
+}
+
+interface CronMatcher {
+  minute: Set<number>;
+  hour: Set<number>;
+  day: Set<number>;
+  month: Set<number>;
+  weekday: Set<number>;
+}
+
+function compileCron(expression: string): CronMatcher {
+  let fields = expression.trim().split(/\s+/);
+  // 秒付き（6 フィールド）は分単位で走査するので秒を捨てる
+  if (fields.length === 6) fields = fields.slice(1);
+  if (fields.length !== 5) throw new Error(`Unsupported cron expression: ${expression}`);
+  const [minute, hour, day, month, weekday] = fields.map((f, i) => expandField(f, FIELD_SPECS[i]));
+  // 曜日の 7 は日曜
+  if (weekday.has(7)) weekday.add(0);
+  return { minute, hour, day, month, weekday };
+}
+
+function createPartsReader(timezone: string): (date: Date) => Record<string, number> {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  });
+  return (date) => {
+    const parts: Record<string, number> = {};
+    for (const p of formatter.formatToParts(date)) {
+      if (p.type === 'weekday') {
+        parts.weekday = WEEKDAY_NAMES.indexOf(p.value.toLowerCase());
+      } else if (p.type !== 'literal') {
+        parts[p.type] = parseInt(p.value, 10);
+      }
+    }
+    return parts;
+  };
+}
+
+/**
+ * `since` より後 `until` 以前に発火するはずだった cron の時刻を新しい順で返す。
+ * `limit` 件見つかった時点で走査を打ち切る。
+ */
+export function findMissedCronRuns(
+  expression: string,
+  since: Date,
+  until: Date,
+  options: { timezone: string; limit: number }
+): Date[] {
+  const matcher = compileCron(expression);
+  const readParts = createPartsReader(options.timezone);
+  const floor = Math.max(since.getTime(), until.getTime() - CATCH_UP_MAX_WINDOW_MS);
+  const missed: Date[] = [];
+  // until を含む分は起動後の cron が受け持つので、その前の（終わった）分から 1 分ずつ遡る
+  for (
+    let t = Math.floor(until.getTime() / MINUTE_MS) * MINUTE_MS - MINUTE_MS;
+    t > floor && missed.length < options.limit;
+    t -= MINUTE_MS
+  ) {
+    const date = new Date(t);
+    const p = readParts(date);
+    if (
+      matcher.minute.has(p.minute) &&
+      matcher.hour.has(p.hour) &&
+      matcher.day.has(p.day) &&
+      matcher.month.has(p.month) &&
+      matcher.weekday.has(p.weekday)
+    ) {
+      missed.push(date);
+    }
+  }
+  return missed;
+}
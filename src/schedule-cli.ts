@@ -3,9 +3,9 @@
  * スケジューラCLI - Agent（Claude Code / Codex）から呼び出す用
  *
  * Usage:
- *   schedule-cli add --channel <id> --platform <discord|slack> "30分後 メッセージ"
- *   schedule-cli add --channel <id> --platform <discord|slack> --cron "0 9 * * *" --message "おはよう"
- *   schedule-cli list [--channel <id>] [--platform <discord|slack>]
+ *   schedule-cli add --channel <id> --platform <discord|slack|line|web> "30分後 メッセージ"
+ *   schedule-cli add --channel <id> --platform <discord|slack|line|web> --cron "0 9 * * *" --message "おはよう"
+ *   schedule-cli list [--channel <id>] [--platform <discord|slack|line|web>]
  *   schedule-cli remove <id>
  *   schedule-cli toggle <id>
  */
@@ -16,6 +16,7 @@ import {
   parseScheduleInput,
   formatScheduleList,
   SCHEDULE_SEPARATOR,
+  SCHEDULE_PLATFORMS,
   type Platform,
 } from './scheduler.js';
 
@@ -31,10 +32,10 @@ function usage(): void {
   console.log(`スケジューラCLI
 
 Usage:
-  schedule-cli add --channel <id> --platform <discord|slack> "<入力>"
-  schedule-cli add --channel <id> --platform <discord|slack> --cron "<cron式>" --message "<メッセージ>"
-  schedule-cli add --channel <id> --platform <discord|slack> --at "<ISO日時>" --message "<メッセージ>"
-  schedule-cli list [--channel <id>] [--platform <discord|slack>]
+  schedule-cli add --channel <id> --platform <discord|slack|line|web> "<入力>"
+  schedule-cli add --channel <id> --platform <discord|slack|line|web> --cron "<cron式>" --message "<メッセージ>"
+  schedule-cli add --channel <id> --platform <discord|slack|line|web> --at "<ISO日時>" --message "<メッセージ>"
+  schedule-cli list [--channel <id>] [--platform <discord|slack|line|web>]
   schedule-cli remove <id>
   schedule-cli toggle <id>
 
@@ -90,6 +91,15 @@ function main(): void {
         console.error('Error: --channel is required');
         process.exit(1);
       }
+      if (!SCHEDULE_PLATFORMS.includes(platform)) {
+        console.error(
+          JSON.stringify({
+            ok: false,
+            error: `--platform must be one of: ${SCHEDULE_PLATFORMS.join(', ')}`,
+          })
+        );
+        process.exit(1);
+      }
 
       // cron式直接指定
       if (args['cron'] && args['message']) {
@@ -160,10 +170,12 @@ function main(): void {
       }
 
       try {
+        // 入力中の送信先指定（-c line:<userId> 等）があればそちらを優先
+        const { targetChannelId, targetPlatform, ...rest } = parsed;
         const schedule = scheduler.add({
-          ...parsed,
-          channelId: channel,
-          platform,
+          ...rest,
+          channelId: targetChannelId || channel,
+          platform: targetPlatform || platform,
           label: args['label'],
         });
         console.log(JSON.stringify({ ok: true, schedule }, null, 2));
@@ -227,10 +239,14 @@ function main(): void {
         .sort((a, b) => b.index - a.index);
 
       for (const target of targets) {
-        if (scheduler.remove(target.id)) {
-          deletedIds.push(target.id);
-        } else {
-          errors.push(`ID ${target.id} が見つからない`);
+        try {
+          if (scheduler.remove(target.id)) {
+            deletedIds.push(target.id);
+          } else {
+            errors.push(`ID ${target.id} が見つからない`);
+          }
+        } catch (error) {
+          errors.push(error instanceof Error ? error.message : String(error));
         }
       }
 
@@ -0,0 +1,170 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * スケジュール実行履歴（run log）
+ *
+ * スケジュールごとに 1 ファイルの JSONL で保存する:
+ *   <dataDir>/schedule-runs/<scheduleId>.jsonl
+ *
+ * Scheduler クラスを経由しない xangi-cmd からも読めるよう、
+ * 関数はすべて dataDir を引数に取る。書き込み失敗でジョブ実行を落とさない。
+ */
+
+/** 1 スケジュールあたり保持する履歴件数（超えたら古いものから捨てる） */
+export const SCHEDULE_RUN_HISTORY_LIMIT = 50;
+/** 履歴に残すエージェント出力の最大文字数 */
+export const SCHEDULE_RUN_OUTPUT_MAX = 500;
+
+export type ScheduleRunOutcome = 'success' | 'failure' | 'skipped';
+
+export interface ScheduleRun {
+  scheduleId: string;
+  /** 開始日時 ISO8601 */
+  startedAt: string;
+  /** 終了日時 ISO8601 */
+  finishedAt: string;
+  durationMs: number;
+  outcome: ScheduleRunOutcome;
+  /** agent: エージェント実行 / sender: agentRunner 未登録時の固定メッセージ送信 */
+  mode?: 'agent' | 'sender';
+  /** 試行回数（リトライ込み） */
+  attempts?: number;
+  /** エージェントの応答（SCHEDULE_RUN_OUTPUT_MAX で切り詰め） */
+  output?: string;
+  /** 失敗・スキップ理由 */
+  error?: string;
+}
+
+/** schedules.json に保存する直近実行のサマリ（出力本文は持たない） */
+export type ScheduleLastRun = Pick<
+  ScheduleRun,
+  'startedAt' | 'finishedAt' | 'durationMs' | 'outcome' | 'attempts' | 'error'
+>;
+
+function getRunLogPath(dataDir: string, scheduleId: string): string {
+  return join(dataDir, 'schedule-runs', `${scheduleId}.jsonl`);
+}
+
+/**
+ * 出力を履歴用に切り詰める
+ */
+export function truncateRunOutput(text: string, max = SCHEDULE_RUN_OUTPUT_MAX): string {
+  if (text.length <= max) return text;
+  return text.slice(0, max) + `…（${text.length - max}文字省略）`;
+}
+
+/**
+ * 実行結果を履歴に追記し、上限を超えた古い履歴を捨てる
+ */
+export function appendScheduleRun(dataDir: string, run: ScheduleRun): void {
+  try {
+    const dir = join(dataDir, 'schedule-runs');
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    const filePath = getRunLogPath(dataDir, run.scheduleId);
+    const entry: ScheduleRun =
+      run.output !== undefined ? { ...run, output: truncateRunOutput(run.output) } : run;
+    appendFileSync(filePath, JSON.stringify(entry) + '\n');
+
+    const lines = readFileSync(filePath, 'utf-8').split('\n').filter(Boolean);
+    if (lines.length > SCHEDULE_RUN_HISTORY_LIMIT) {
+      writeFileSync(filePath, lines.slice(-SCHEDULE_RUN_HISTORY_LIMIT).join('\n') + '\n');
+    }
+  } catch (err) {
+    console.warn('[scheduler] Failed to write run history:', err);
+  }
+}
+
+/**
+ * 実行履歴を新しい順で取得
+ */
+export function readScheduleRuns(
+  dataDir: string,
+  scheduleId: string,
+  limit?: number
+): ScheduleRun[] {
+  const filePath = getRunLogPath(dataDir, scheduleId);
+  if (!existsSync(filePath)) return [];
+  const runs: ScheduleRun[] = [];
+  for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      runs.push(JSON.parse(line) as ScheduleRun);
+    } catch {
+      // 壊れた行は無視
+    }
+  }
+  runs.reverse();
+  return limit !== undefined ? runs.slice(0, limit) : runs;
+}
+
+/**
+ * 履歴 1 件から schedules.json 用のサマリを作る
+ */
+export function toLastRun(run: ScheduleRun): ScheduleLastRun {
+  const { startedAt, finishedAt, durationMs, outcome, attempts, error } = run;
+  return {
+    startedAt,
+    finishedAt,
+    durationMs,
+    outcome,
+    ...(attempts !== undefined && { attempts }),
+    ...(error && { error }),
+  };
+}
+
+// ─── Formatter ───────────────────────────────────────────────────────
+
+const OUTCOME_ICONS: Record<ScheduleRunOutcome, string> = {
+  success: '✅',
+  failure: '❌',
+  skipped: '⏭️',
+};
+
+/**
+ * 所要時間を人間が読める形式に変換（例: 850ms / 12.3秒 / 4分05秒）
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}秒`;
+  const totalSec = Math.round(ms / 1000);
+  return `${Math.floor(totalSec / 60)}分${String(totalSec % 60).padStart(2, '0')}秒`;
+}
+
+function formatRunTime(iso: string): string {
+  return new Date(iso).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' });
+}
+
+/** 所要時間と、リトライした場合は試行回数 */
+function formatRunStats(run: ScheduleLastRun): string {
+  const attempts = run.attempts && run.attempts > 1 ? `, ${run.attempts}回試行` : '';
+  return `${formatDuration(run.durationMs)}${attempts}`;
+}
+
+/**
+ * 直近実行の 1 行サマリ（formatScheduleList 用）
+ */
+export function formatLastRun(lastRun: ScheduleLastRun): string {
+  const error = lastRun.error ? ` — ${lastRun.error}` : '';
+  return `${OUTCOME_ICONS[lastRun.outcome]} ${formatRunTime(lastRun.startedAt)} (${formatRunStats(lastRun)})${error}`;
+}
+
+/**
+ * 実行履歴をフォーマット（新しい順で渡す）
+ */
+export function formatScheduleHistory(scheduleId: string, runs: ScheduleRun[]): string {
+  if (runs.length === 0) {
+    return `📜 \`${scheduleId}\` の実行履歴はありません`;
+  }
+  const items = runs.map((run) => {
+    const lines = [
+      `${OUTCOME_ICONS[run.outcome]} ${formatRunTime(run.startedAt)} (${formatRunStats(run)})`,
+    ];
+    if (run.error) lines.push(`└ ⚠️ ${run.error}`);
+    if (run.output) lines.push(`└ 💬 ${run.output.replace(/\s+/g, ' ')}`);
+    return lines.join('\n');
+  });
+  return `📜 **実行履歴** \`${scheduleId}\` (${runs.length}件)\n\n${items.join('\n')}`;
+}
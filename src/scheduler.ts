@@ -10,16 +10,37 @@ import {
 } from 'fs';
 import { dirname, join } from 'path';
 import cron from 'node-cron';
-import { isTransientNetworkError } from './errors.js';
+import { classifyAgentError, formatAgentErrorForUser, isTransientNetworkError } from './errors.js';
+import {
+  appendScheduleRun,
+  formatLastRun,
+  readScheduleRuns,
+  toLastRun,
+  type ScheduleLastRun,
+  type ScheduleRun,
+} from './schedule-history.js';
+import {
+  CATCH_UP_POLICIES,
+  DEFAULT_CATCH_UP_LIMIT,
+  findMissedCronRuns,
+  type CatchUpPolicy,
+} from './schedule-catch-up.js';
 /** 一時的なネットワークエラー時のリトライ待機時間 (ms)。テストから上書き可能 */
 export const TRANSIENT_RETRY_DELAY_MS = process.env.VITEST ? 50 : 15_000;
+/** maxRetries のバックオフ上限 (ms)。待機は TRANSIENT_RETRY_DELAY_MS × 2^(試行回数-1) */
+export const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+/** timezone 未指定のスケジュールで使うタイムゾーン */
+export const DEFAULT_SCHEDULE_TIMEZONE = 'Asia/Tokyo';
 
 /** スケジュール一覧の項目間区切り（splitMessage用） */
 export const SCHEDULE_SEPARATOR = '{{SPLIT}}';
 
 // ─── Types ───────────────────────────────────────────────────────────
-export type ScheduleType = 'cron' | 'once' | 'startup';
-export type Platform = 'discord' | 'slack';
+export type ScheduleType = 'cron' | 'once' | 'startup' | 'after';
+export type Platform = 'discord' | 'slack' | 'line' | 'web';
+/** スケジュール送信先として受け付けるプラットフォーム（CLI 引数の検証用） */
+export const SCHEDULE_PLATFORMS: readonly Platform[] = ['discord', 'slack', 'line', 'web'];
 export interface Schedule {
   id: string;
   type: ScheduleType;
@@ -27,9 +48,16 @@ export interface Schedule {
   expression?: string;
   /** 実行時刻 ISO8601（type='once'の場合）*/
   runAt?: string;
+  /** 上流スケジュールID（type='after'の場合）。上流の実行が成功したら続けて実行する */
+  after?: string;
+  /** type='after' で上流ジョブの出力をプロンプトに埋め込む */
+  injectUpstreamResult?: boolean;
   /** 送信メッセージ or エージェントへのプロンプト */
   message: string;
-  /** 送信先チャンネルID */
+  /**
+   * 送信先ID。Discord/Slack はチャンネルID、LINE は userId、
+   * Web は appSessionId（web セッション）
+   */
   channelId: string;
   /** プラットフォーム */
   platform: Platform;
@@ -39,6 +67,24 @@ export interface Schedule {
   enabled: boolean;
   /** ラベル（任意） */
   label?: string;
+  /** IANA タイムゾーン（例: "America/New_York"）。未指定なら DEFAULT_SCHEDULE_TIMEZONE */
+  timezone?: string;
+  /** 直近の実行結果（詳細は schedule-runs/<id>.jsonl） */
+  lastRun?: ScheduleLastRun;
+  /** 最後に発火した日時 ISO8601（起動時の取りこぼし判定に使う） */
+  lastRunAt?: string;
+  /**
+   * xangi 停止中に取りこぼした実行の扱い。
+   * 未指定時は cron='skip'、once='run-once'（従来どおり期限切れなら即実行）
+   */
+  catchUp?: CatchUpPolicy;
+  /** catchUp='run-all' で取り戻す最大回数（デフォルト DEFAULT_CATCH_UP_LIMIT） */
+  catchUpLimit?: number;
+  /**
+   * 失敗時のリトライ回数（指数バックオフ）。指定したスケジュールは最終的に失敗すると
+   * 送信先に失敗通知を送る。未指定なら一時的なネットワークエラーのみ 1 回リトライ
+   */
+  maxRetries?: number;
 }
 export interface SendMessageFn {
   (channelId: string, message: string): Promise<void>;
@@ -52,6 +98,7 @@ export class Scheduler {
   private cronJobs = new Map<string, cron.ScheduledTask>();
   private timers = new Map<string, ReturnType<typeof setTimeout>>();
   private filePath: string;
+  private dataDir: string;
   private senders = new Map<Platform, SendMessageFn>();
   private agentRunners = new Map<Platform, AgentRunFn>();
   private watching = false;
@@ -67,6 +114,7 @@ export class Scheduler {
     if (!existsSync(dir)) {
       mkdirSync(dir, { recursive: true });
     }
+    this.dataDir = dir;
     this.filePath = join(dir, 'schedules.json');
     this.load();
   }
@@ -126,15 +174,48 @@ export class Scheduler {
       }
     } else if (schedule.type === 'startup') {
       // startup type needs no additional validation
+    } else if (schedule.type === 'after') {
+      if (!schedule.after) {
+        throw new Error('after is required for dependent schedule');
+      }
+      if (!this.schedules.some((s) => s.id === schedule.after)) {
+        throw new Error(`Upstream schedule not found: ${schedule.after}`);
+      }
     } else {
       throw new Error(`Unknown schedule type: ${schedule.type}`);
     }
+    if (schedule.timezone !== undefined && !isValidTimeZone(schedule.timezone)) {
+      throw new Error(
+        `Invalid timezone: ${schedule.timezone}\n例: "Asia/Tokyo", "UTC", "America/New_York"`
+      );
+    }
+    if (schedule.catchUp !== undefined && !CATCH_UP_POLICIES.includes(schedule.catchUp)) {
+      throw new Error(
+        `Invalid catchUp: ${schedule.catchUp} (must be one of: ${CATCH_UP_POLICIES.join(', ')})`
+      );
+    }
+    if (
+      schedule.catchUpLimit !== undefined &&
+      (!Number.isInteger(schedule.catchUpLimit) || schedule.catchUpLimit <= 0)
+    ) {
+      throw new Error('catchUpLimit must be a positive integer');
+    }
+    if (
+      schedule.maxRetries !== undefined &&
+      (!Number.isInteger(schedule.maxRetries) || schedule.maxRetries < 0)
+    ) {
+      throw new Error('maxRetries must be a non-negative integer');
+    }
     const newSchedule: Schedule = {
       ...schedule,
       id: this.generateId(),
       createdAt: new Date().toISOString(),
       enabled: true,
     };
+    const cycle = findScheduleCycle([...this.schedules, newSchedule], newSchedule.id);
+    if (cycle) {
+      throw new Error(`Dependency cycle detected: ${cycle.join(' → ')}`);
+    }
     this.schedules.push(newSchedule);
     this.save();
     if (!this.disabled) {
@@ -143,9 +224,23 @@ export class Scheduler {
     return newSchedule;
   }
   /**
-   * スケジュールを削除
+   * スケジュールを削除。after で依存している下流ジョブが残っていれば削除せずエラーにする
+   * （上流が消えた下流は二度と起動しなくなるため、先に下流を消してもらう）
    */
   remove(id: string): boolean {
+    const dependents = findScheduleDependents(this.schedules, id);
+    if (dependents.length > 0) {
+      throw new Error(
+        `Cannot remove ${id}: dependent schedules run after it: ${dependents.map((s) => s.id).join(', ')} (remove them first)`
+      );
+    }
+    return this.removeEntry(id);
+  }
+  /**
+   * 依存を確かめずに削除する。実行済みの単発ジョブの後始末用
+   * （下流ジョブはその 1 回の実行が成功したときに起動済み）
+   */
+  private removeEntry(id: string): boolean {
     const index = this.schedules.findIndex((s) => s.id === id);
     if (index === -1) return false;
     this.stopJob(id);
@@ -189,6 +284,12 @@ export class Scheduler {
     }
     return schedule;
   }
+  /**
+   * 実行履歴を新しい順で取得
+   */
+  history(id: string, limit?: number): ScheduleRun[] {
+    return readScheduleRuns(this.dataDir, id, limit);
+  }
   // ─── Job Management ───────────────────────────────────────────────
   /**
    * 全スケジュールのジョブを開始（起動時に呼ぶ）
@@ -211,6 +312,9 @@ export class Scheduler {
           startupTasks.push(schedule);
         } else {
           this.startJob(schedule);
+          if (schedule.type === 'cron') {
+            this.catchUpMissedRuns(schedule);
+          }
         }
       }
     }
@@ -298,33 +402,89 @@ export class Scheduler {
         () => {
           this.executeJob(schedule);
         },
-        { timezone: 'Asia/Tokyo' }
+        { timezone: scheduleTimeZone(schedule) }
       );
       this.cronJobs.set(schedule.id, task);
       this.log(
-        `[scheduler] Cron job started: ${schedule.id} (${schedule.expression}) → ${schedule.channelId}`
+        `[scheduler] Cron job started: ${schedule.id} (${schedule.expression} ${scheduleTimeZone(schedule)}) → ${schedule.channelId}`
       );
     } else if (schedule.type === 'once' && schedule.runAt) {
       const delay = new Date(schedule.runAt).getTime() - Date.now();
       if (delay <= 0) {
-        // 既に過ぎている → 即実行して削除
-        this.log(`[scheduler] One-time job ${schedule.id} is past due, executing now`);
-        this.executeJob(schedule);
-        this.remove(schedule.id);
+        // 既に過ぎている → catchUp='skip' なら実行せず、それ以外は即実行して削除
+        if (schedule.catchUp === 'skip') {
+          this.log(`[scheduler] One-time job ${schedule.id} is past due, skipping (catchUp=skip)`);
+          this.recordRun(schedule.id, new Date(), {
+            outcome: 'skipped',
+            error: `missed run at ${schedule.runAt} (catchUp=skip)`,
+          });
+        } else {
+          this.log(`[scheduler] One-time job ${schedule.id} is past due, executing now`);
+          this.executeJob(schedule);
+        }
+        this.removeEntry(schedule.id);
         return;
       }
       const timer = setTimeout(() => {
         this.executeJob(schedule);
         // 単発は実行後に削除
-        this.remove(schedule.id);
+        this.removeEntry(schedule.id);
       }, delay);
       this.timers.set(schedule.id, timer);
       const runDate = new Date(schedule.runAt);
       this.log(
-        `[scheduler] Timer set: ${schedule.id} → ${runDate.toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })} (${Math.round(delay / 1000)}s)`
+        `[scheduler] Timer set: ${schedule.id} → ${runDate.toLocaleString('ja-JP', { timeZone: scheduleTimeZone(schedule) })} (${Math.round(delay / 1000)}s)`
       );
     }
   }
+  /**
+   * 停止中に取りこぼした cron 実行を catchUp ポリシーに従って取り戻す。
+   * 基準は lastRunAt（無ければ直近の実行結果）。
+   * run-all は重複発火ガードに掛からないよう 1 回ずつ順番に実行する。
+   */
+  private catchUpMissedRuns(schedule: Schedule): void {
+    if (!schedule.expression) return;
+    const policy = schedule.catchUp ?? 'skip';
+    const marker = schedule.lastRunAt ?? schedule.lastRun?.startedAt;
+    if (!marker) {
+      // 実行記録の無いスケジュール（lastRunAt 導入前からあるもの等）は取りこぼしが分からない。
+      // 作成日時から数えると実際には発火した回まで取りこぼし扱いになるので、今を基準にする
+      this.markRunAt(schedule.id, new Date());
+      return;
+    }
+    const since = new Date(marker);
+    if (isNaN(since.getTime())) return;
+    const limit = policy === 'run-all' ? (schedule.catchUpLimit ?? DEFAULT_CATCH_UP_LIMIT) : 1;
+    // 上限を超えて取りこぼしているかを知るために 1 件多く探す
+    const missed = findMissedCronRuns(schedule.expression, since, new Date(), {
+      timezone: scheduleTimeZone(schedule),
+      limit: limit + 1,
+    });
+    if (missed.length === 0) return;
+
+    const runCount = policy === 'skip' ? 0 : Math.min(missed.length, limit);
+    const more = missed.length > limit ? '+' : '';
+    this.log(
+      `[scheduler] ${schedule.id} missed ${missed.length}${more} run(s) since ${since.toISOString()}, catchUp=${policy} → running ${runCount}`
+    );
+    if (runCount < missed.length) {
+      this.recordRun(schedule.id, new Date(), {
+        outcome: 'skipped',
+        error: `missed ${missed.length - runCount}${more} run(s) while xangi was down (catchUp=${policy})`,
+      });
+    }
+    if (runCount === 0) return;
+
+    const id = schedule.id;
+    void (async () => {
+      for (let i = 0; i < runCount; i++) {
+        // reload() で差し替え・削除・無効化されていたら打ち切る
+        const current = this.schedules.find((s) => s.id === id);
+        if (!current || !current.enabled) return;
+        await this.executeJob(current);
+      }
+    })();
+  }
   private stopJob(id: string): void {
     const cronJob = this.cronJobs.get(id);
     if (cronJob) {
@@ -337,63 +497,193 @@ export class Scheduler {
       this.timers.delete(id);
     }
   }
-  private async executeJob(schedule: Schedule): Promise<void> {
+  private async executeJob(schedule: Schedule, upstream?: UpstreamResult): Promise<void> {
+    const startedAt = new Date();
     // 再発火ガード: 前回の実行がまだ走っている間に同じスケジュールの
     // cron が発火した場合はスキップする（長時間ジョブの重複実行・多重投稿防止）
     if (this.runningJobs.has(schedule.id)) {
       console.warn(
         `[scheduler] Skipping ${schedule.id}: previous execution is still running (duplicate fire guard)`
       );
+      this.recordRun(schedule.id, startedAt, {
+        outcome: 'skipped',
+        error: 'previous execution is still running',
+      });
       return;
     }
     this.runningJobs.add(schedule.id);
+    this.markRunAt(schedule.id, startedAt);
+    const prompt = buildJobPrompt(schedule, upstream);
+    let result: Pick<ScheduleRun, 'mode' | 'output'>;
+    let attempts = 0;
     try {
-      await this.executeJobInner(schedule);
+      for (;;) {
+        attempts++;
+        try {
+          result = await this.executeJobInner(schedule, prompt);
+          break;
+        } catch (error) {
+          if (!this.shouldRetry(schedule, error, attempts)) throw error;
+          const delay = retryDelayMs(attempts);
+          console.warn(
+            `[scheduler] Attempt ${attempts} failed for ${schedule.id}, retrying in ${delay / 1000}s:`,
+            error instanceof Error ? error.message : error
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+      if (attempts > 1) {
+        this.log(`[scheduler] Completed on retry: ${schedule.id} (attempt ${attempts})`);
+      }
+      this.recordRun(schedule.id, startedAt, { outcome: 'success', attempts, ...result });
+    } catch (error) {
+      console.error(
+        `[scheduler] Failed to execute ${schedule.id} after ${attempts} attempt(s):`,
+        error
+      );
+      this.recordRun(schedule.id, startedAt, {
+        outcome: 'failure',
+        mode: this.agentRunners.has(schedule.platform) ? 'agent' : 'sender',
+        attempts,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await this.notifyFailure(schedule, attempts, error);
+      return;
     } finally {
       this.runningJobs.delete(schedule.id);
     }
+    this.triggerDependents(schedule, result.output);
+  }
+
+  /**
+   * 失敗した試行をリトライするか。maxRetries 未指定でも一時的なネットワークエラー
+   * (DNS 一時失敗・接続タイムアウト等) は 1 回だけリトライする。
+   * 停止操作と利用上限・日次予算は待っても回復しないのでリトライしない
+   */
+  private shouldRetry(schedule: Schedule, error: unknown, attempts: number): boolean {
+    const kind = classifyAgentError(error);
+    if (
+      kind === 'cancelled' ||
+      kind === 'usage-limit' ||
+      kind === 'budget' ||
+      kind === 'hook-blocked'
+    ) {
+      return false;
+    }
+    const retries = Math.max(schedule.maxRetries ?? 0, isTransientNetworkError(error) ? 1 : 0);
+    if (attempts > retries) return false;
+    // バックオフ中に無効化されたら諦める（単発ジョブは実行直後に削除済みなので対象外）
+    const current = this.schedules.find((s) => s.id === schedule.id);
+    return !current || current.enabled;
+  }
+
+  /**
+   * maxRetries を指定したスケジュールが最終的に失敗したら送信先に通知する
+   */
+  private async notifyFailure(schedule: Schedule, attempts: number, error: unknown): Promise<void> {
+    if (schedule.maxRetries === undefined) return;
+    const sender = this.senders.get(schedule.platform);
+    if (!sender) {
+      console.warn(`[scheduler] No sender for failure notice: ${schedule.platform}`);
+      return;
+    }
+    const name = schedule.label ? `「${schedule.label}」` : ` \`${schedule.id}\` `;
+    const message =
+      `⚠️ スケジュール${name}の実行に失敗しました（${attempts}回試行）\n` +
+      formatAgentErrorForUser(error);
+    try {
+      await sender(schedule.channelId, message);
+    } catch (err) {
+      console.error(`[scheduler] Failed to send failure notice for ${schedule.id}:`, err);
+    }
+  }
+
+  /**
+   * 成功したジョブを after に指定している下流ジョブを起動する。
+   * 循環に含まれるジョブは無限連鎖になるので起動しない（schedules.json を
+   * 直接編集された場合に備えて実行時にも確認する）
+   */
+  private triggerDependents(upstream: Schedule, output: string | undefined): void {
+    const dependents = this.schedules.filter(
+      (s) => s.type === 'after' && s.after === upstream.id && s.enabled
+    );
+    for (const dependent of dependents) {
+      const cycle = findScheduleCycle(this.schedules, dependent.id);
+      if (cycle) {
+        console.error(
+          `[scheduler] Not triggering ${dependent.id}: dependency cycle ${cycle.join(' → ')}`
+        );
+        continue;
+      }
+      this.log(`[scheduler] Triggering ${dependent.id} after ${upstream.id}`);
+      void this.executeJob(dependent, { schedule: upstream, output });
+    }
+  }
+
+  /**
+   * 発火時刻を lastRunAt として保存する。完了前に落ちても次回起動時に
+   * 同じ回を取り戻して二重投稿しないよう、実行開始時点で記録する
+   */
+  private markRunAt(scheduleId: string, startedAt: Date): void {
+    const current = this.schedules.find((s) => s.id === scheduleId);
+    if (!current) return;
+    current.lastRunAt = startedAt.toISOString();
+    this.save();
+  }
+
+  /**
+   * 実行結果を履歴に追記し、schedules.json の lastRun を更新する。
+   * reload() でオブジェクトが差し替わっている可能性があるため ID で引き直す。
+   * 単発ジョブは実行直後に削除されるので履歴ファイルだけが残る。
+   */
+  private recordRun(
+    scheduleId: string,
+    startedAt: Date,
+    result: Pick<ScheduleRun, 'outcome' | 'mode' | 'attempts' | 'output' | 'error'>
+  ): void {
+    const finishedAt = new Date();
+    const run: ScheduleRun = {
+      scheduleId,
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      ...result,
+    };
+    appendScheduleRun(this.dataDir, run);
+    // スキップは履歴にだけ残し、直近の実行結果は上書きしない
+    if (run.outcome === 'skipped') return;
+    const current = this.schedules.find((s) => s.id === scheduleId);
+    if (!current) return;
+    current.lastRun = toLastRun(run);
+    this.save();
   }
 
-  private async executeJobInner(schedule: Schedule): Promise<void> {
+  /**
+   * ジョブ本体（1 回分の試行）。成功時は実行モードと出力を返し、失敗したら throw する。
+   * リトライは executeJob 側で行う
+   */
+  private async executeJobInner(
+    schedule: Schedule,
+    prompt: string
+  ): Promise<Pick<ScheduleRun, 'mode' | 'output'>> {
     // 常にagentモードで実行
     const agentRunner = this.agentRunners.get(schedule.platform);
     if (!agentRunner) {
       // agentRunnerがない場合はフォールバック
       const sender = this.senders.get(schedule.platform);
-      if (sender) {
-        const prefix = schedule.label ? `⏰ **${schedule.label}**\n` : '⏰ ';
-        await sender(schedule.channelId, `${prefix}${schedule.message}`);
-        this.log(`[scheduler] Executed (fallback): ${schedule.id} → ${schedule.channelId}`);
-      } else {
+      if (!sender) {
         console.error(`[scheduler] No runner/sender for platform: ${schedule.platform}`);
+        throw new Error(`No runner/sender for platform: ${schedule.platform}`);
       }
-      return;
-    }
-    try {
-      this.log(`[scheduler] Running agent for: ${schedule.id}`);
-      const result = await agentRunner(schedule.message, schedule.channelId);
-      this.log(`[scheduler] Agent completed: ${schedule.id} (${result.length} chars)`);
-    } catch (error) {
-      // 一時的なネットワークエラー (DNS 一時失敗・接続タイムアウト等) は
-      // バックオフ後に 1 回だけリトライする。エージェント側のタイムアウトや
-      // 利用上限はリトライしない (isTransientNetworkError で判別)
-      if (isTransientNetworkError(error)) {
-        console.warn(
-          `[scheduler] Transient network error for ${schedule.id}, retrying in ${TRANSIENT_RETRY_DELAY_MS / 1000}s:`,
-          error instanceof Error ? error.message : error
-        );
-        await new Promise((resolve) => setTimeout(resolve, TRANSIENT_RETRY_DELAY_MS));
-        try {
-          const result = await agentRunner(schedule.message, schedule.channelId);
-          this.log(`[scheduler] Agent completed on retry: ${schedule.id} (${result.length} chars)`);
-          return;
-        } catch (retryError) {
-          console.error(`[scheduler] Retry also failed for ${schedule.id}:`, retryError);
-          return;
-        }
-      }
-      console.error(`[scheduler] Failed to execute ${schedule.id}:`, error);
+      const prefix = schedule.label ? `⏰ **${schedule.label}**\n` : '⏰ ';
+      await sender(schedule.channelId, `${prefix}${prompt}`);
+      this.log(`[scheduler] Executed (fallback): ${schedule.id} → ${schedule.channelId}`);
+      return { mode: 'sender' };
     }
+    this.log(`[scheduler] Running agent for: ${schedule.id}`);
+    const result = await agentRunner(prompt, schedule.channelId);
+    this.log(`[scheduler] Agent completed: ${schedule.id} (${result.length} chars)`);
+    return { mode: 'agent', output: result };
   }
   // ─── Persistence ──────────────────────────────────────────────────
   private load(): void {
@@ -436,6 +726,53 @@ export class Scheduler {
     return `sch_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
   }
 }
+/**
+ * n 回目の試行が失敗した後の待機時間（指数バックオフ、上限 MAX_RETRY_DELAY_MS）
+ */
+function retryDelayMs(attempts: number): number {
+  return Math.min(TRANSIENT_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+// ─── Dependencies ────────────────────────────────────────────────────
+/** type='after' のジョブに渡す上流ジョブの実行結果 */
+interface UpstreamResult {
+  schedule: Schedule;
+  output?: string;
+}
+/**
+ * ジョブに渡すプロンプトを組み立てる。injectUpstreamResult なら上流の出力を末尾に付ける
+ */
+function buildJobPrompt(schedule: Schedule, upstream?: UpstreamResult): string {
+  if (!upstream || !schedule.injectUpstreamResult || !upstream.output) {
+    return schedule.message;
+  }
+  const name = upstream.schedule.label || upstream.schedule.id;
+  return `${schedule.message}\n\n[上流ジョブ「${name}」の結果]\n${upstream.output}`;
+}
+/**
+ * startId から after を辿って循環していればその経路（startId で始まり startId で終わる）を返す
+ */
+export function findScheduleCycle(schedules: Schedule[], startId: string): string[] | null {
+  const byId = new Map(schedules.map((s) => [s.id, s]));
+  const path = [startId];
+  let current = byId.get(startId);
+  while (current?.type === 'after' && current.after) {
+    path.push(current.after);
+    if (current.after === startId) return path;
+    // startId を含まない循環（上流側だけで閉じている）はそちらの ID で検出される
+    if (path.indexOf(current.after) !== path.length - 1) return null;
+    current = byId.get(current.after);
+  }
+  return null;
+}
+/**
+ * id を after に指定している（直接の）下流ジョブを返す
+ */
+export function findScheduleDependents<T extends Pick<Schedule, 'type' | 'after'>>(
+  schedules: T[],
+  id: string
+): T[] {
+  return schedules.filter((s) => s.type === 'after' && s.after === id);
+}
 // ─── Formatter ───────────────────────────────────────────────────────
 /**
  * スケジュール一覧をフォーマット
@@ -467,7 +804,10 @@ export function formatScheduleList(
   const formatItem = (s: Schedule, i: number): string => {
     const status = s.enabled ? '✅' : '⏸️';
     const label = s.label ? ` [${s.label}]` : '';
-    const channelMention = `<#${s.channelId}>`;
+    const channelMention = formatTarget(s);
+    const lastRun = s.lastRun ? `\n└ 🕒 前回: ${formatLastRun(s.lastRun)}` : '';
+    const catchUp = s.catchUp ? `\n└ ⏪ 取りこぼし時: ${formatCatchUp(s)}` : '';
+    const timezone = s.timezone ? ` (${s.timezone})` : '';
 
     if (s.type === 'cron' && s.expression) {
       const humanReadable = cronToHuman(s.expression);
@@ -475,23 +815,39 @@ export function formatScheduleList(
         `**${i + 1}.** ${status} 📅 ${humanReadable}${label}\n` +
         `└ 📝 ${s.message}\n` +
         `└ 📢 ${channelMention}\n` +
-        `└ 🔄 \`${s.expression}\`\n` +
-        `└ 🆔 \`${s.id}\``
+        `└ 🔄 \`${s.expression}\`${timezone}\n` +
+        `└ 🆔 \`${s.id}\`` +
+        catchUp +
+        lastRun
+      );
+    } else if (s.type === 'after') {
+      const inject = s.injectUpstreamResult ? '\n└ 📥 上流の結果をプロンプトに埋め込む' : '';
+      return (
+        `**${i + 1}.** ${status} 🔗 \`${s.after}\` の完了後${label}\n` +
+        `└ 📝 ${s.message}\n` +
+        `└ 📢 ${channelMention}\n` +
+        `└ 🆔 \`${s.id}\`` +
+        inject +
+        lastRun
       );
     } else if (s.type === 'startup') {
       return (
         `**${i + 1}.** ${status} 🚀 起動時に実行${label}\n` +
         `└ 📝 ${s.message}\n` +
         `└ 📢 ${channelMention}\n` +
-        `└ 🆔 \`${s.id}\``
+        `└ 🆔 \`${s.id}\`` +
+        catchUp +
+        lastRun
       );
     } else {
       // once (単発)
       return (
-        `**${i + 1}.** ${status} ⏰ ${formatTime(s.runAt!)}${label}\n` +
+        `**${i + 1}.** ${status} ⏰ ${formatTime(s.runAt!, scheduleTimeZone(s))}${timezone}${label}\n` +
         `└ 📝 ${s.message}\n` +
         `└ 📢 ${channelMention}\n` +
-        `└ 🆔 \`${s.id}\``
+        `└ 🆔 \`${s.id}\`` +
+        catchUp +
+        lastRun
       );
     }
   };
@@ -515,9 +871,37 @@ export function formatScheduleList(
   const header = statusHeader.length > 0 ? statusHeader.join('\n') + '\n\n' : '';
   return header + sections.join('\n' + SCHEDULE_SEPARATOR + '\n') + '\n';
 }
-function formatTime(iso: string): string {
+/**
+ * catchUp ポリシーの表示
+ */
+function formatCatchUp(s: Schedule): string {
+  switch (s.catchUp) {
+    case 'skip':
+      return 'スキップ';
+    case 'run-once':
+      return '1回だけ実行';
+    case 'run-all':
+      return `すべて実行（最大${s.catchUpLimit ?? DEFAULT_CATCH_UP_LIMIT}回）`;
+    default:
+      return '';
+  }
+}
+/**
+ * 送信先の表示。Discord/Slack はチャンネルメンション、LINE/Web は ID をそのまま出す
+ */
+function formatTarget(s: Schedule): string {
+  switch (s.platform) {
+    case 'line':
+      return `LINE \`${s.channelId}\``;
+    case 'web':
+      return `Web \`${s.channelId}\``;
+    default:
+      return `<#${s.channelId}>`;
+  }
+}
+function formatTime(iso: string, timeZone: string = DEFAULT_SCHEDULE_TIMEZONE): string {
   const d = new Date(iso);
-  return d.toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' });
+  return d.toLocaleString('ja-JP', { timeZone });
 }
 /**
  * cron式を人間が読める形式に変換
@@ -591,6 +975,70 @@ function cronToHuman(expression: string): string {
   // その他: そのまま返す
   return expression;
 }
+// ─── Timezone ────────────────────────────────────────────────────────
+/**
+ * IANA タイムゾーン名として解釈できるか
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+function scheduleTimeZone(s: Pick<Schedule, 'timezone'>): string {
+  return s.timezone || DEFAULT_SCHEDULE_TIMEZONE;
+}
+/**
+ * 指定タイムゾーンでの壁時計の日時（年月日・時分）を取得
+ */
+function getZonedParts(
+  date: Date,
+  timeZone: string
+): { year: number; month: number; day: number; hour: number; minute: number } {
+  const parts: Record<string, number> = {};
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  });
+  for (const p of formatter.formatToParts(date)) {
+    if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+}
+/**
+ * 指定タイムゾーンの壁時計の日時を UTC の Date に変換する。
+ * オフセットは変換後の時刻で取り直して DST の境界をまたいでもずれないようにする
+ */
+function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (t: number): number => {
+    const p = getZonedParts(new Date(t), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - Math.floor(t / 60000) * 60000;
+  };
+  let utc = wall - offsetAt(wall);
+  utc = wall - offsetAt(utc);
+  return new Date(utc);
+}
 // ─── Parser ──────────────────────────────────────────────────────────
 /**
  * 自然言語風の入力をパースしてスケジュールパラメータに変換
@@ -602,28 +1050,81 @@ function cronToHuman(expression: string): string {
  * - "毎日 9:00 おはよう" → cron, 0 9 * * *
  * - "毎時 チェック" → cron, 0 * * * *
  * - "cron 0 9 * * * おはよう" → cron, 直接指定
+ * - "after sch_xxx まとめて" → after, sch_xxx の成功後に実行
+ * - "after sch_xxx --with-result まとめて" → after, 上流の出力をプロンプトに埋め込む
+ *
+ * タイムゾーンの指定（末尾、IANA 名）:
+ * - "毎日 9:00 おはよう tz=America/New_York" / "... --tz UTC"
+ *   時刻はそのタイムゾーンで解釈する（未指定なら DEFAULT_SCHEDULE_TIMEZONE）。
+ *   IANA 名として解釈できなければ解析失敗（null）
+ *
+ * 送信先の指定:
+ * - "-c <#channelId>" / "<#channelId>" → Discord/Slack チャンネル
+ * - "-c line:<userId>" / "line:<userId>" → LINE ユーザー（Push API で配信）
+ * - "-c web:<appSessionId>" / "web:<appSessionId>" → Web Chat セッション
  */
 export function parseScheduleInput(input: string): {
   type: ScheduleType;
   expression?: string;
   runAt?: string;
+  after?: string;
+  injectUpstreamResult?: boolean;
   message: string;
   targetChannelId?: string;
+  targetPlatform?: Platform;
+  timezone?: string;
 } | null {
   let trimmed = input.trim();
+  // 末尾の tz=<IANA> / --tz <IANA> / --timezone <IANA> を抽出。
+  // HH:MM 等はこの場でタイムゾーンを使って時刻を計算するので、使う前に検証する
+  let timezone: string | undefined;
+  const tzMatch = trimmed.match(/\s+(?:tz=|TZ=|--tz\s+|--timezone\s+)(\S+)$/);
+  if (tzMatch) {
+    timezone = tzMatch[1];
+    if (!isValidTimeZone(timezone)) return null;
+    trimmed = trimmed.slice(0, tzMatch.index).trim();
+  }
+  const timeZone = timezone || DEFAULT_SCHEDULE_TIMEZONE;
   // -c <#channelId> または --channel <#channelId> オプションを抽出
   let targetChannelId: string | undefined;
+  let targetPlatform: Platform | undefined;
   const channelOptMatch = trimmed.match(/(?:^|\s)(?:-c|--channel)\s+<#(\d+)>(?:\s|$)/);
   if (channelOptMatch) {
     targetChannelId = channelOptMatch[1];
     trimmed = trimmed.replace(channelOptMatch[0], ' ').trim();
   }
+  // -c line:<userId> / -c web:<appSessionId>（LINE / Web Chat 宛て）
+  const platformOptMatch = trimmed.match(/(?:^|\s)(?:-c|--channel)\s+(line|web):(\S+)(?:\s|$)/);
+  if (!targetChannelId && platformOptMatch) {
+    targetPlatform = platformOptMatch[1] as Platform;
+    targetChannelId = platformOptMatch[2];
+    trimmed = trimmed.replace(platformOptMatch[0], ' ').trim();
+  }
+  const platformPrefixMatch = trimmed.match(/^(line|web):(\S+)\s+/);
+  if (!targetChannelId && platformPrefixMatch) {
+    targetPlatform = platformPrefixMatch[1] as Platform;
+    targetChannelId = platformPrefixMatch[2];
+    trimmed = trimmed.replace(platformPrefixMatch[0], '').trim();
+  }
   // <#channelId> が先頭にある場合も対応
   const channelPrefixMatch = trimmed.match(/^<#(\d+)>\s+/);
   if (!targetChannelId && channelPrefixMatch) {
     targetChannelId = channelPrefixMatch[1];
     trimmed = trimmed.replace(channelPrefixMatch[0], '').trim();
   }
+  // 上流ジョブの後に実行: "after <scheduleId> [--with-result] メッセージ"
+  const afterMatch = trimmed.match(/^after\s+(\S+)\s+(?:(--with-result)\s+)?(.+)$/i);
+  if (afterMatch) {
+    return {
+      type: 'after',
+      after: afterMatch[1],
+      ...(afterMatch[2] && { injectUpstreamResult: true }),
+      message: afterMatch[3].trim(),
+      targetChannelId,
+      targetPlatform,
+      timezone,
+    };
+  }
   // cron式の直接指定: "cron 0 9 * * * メッセージ"
   const cronMatch = trimmed.match(/^cron\s+((?:\S+\s+){4}\S+)\s+(.+)$/i);
   if (cronMatch) {
@@ -632,6 +1133,8 @@ export function parseScheduleInput(input: string): {
       expression: cronMatch[1].trim(),
       message: cronMatch[2].trim(),
       targetChannelId,
+      targetPlatform,
+      timezone,
     };
   }
   // "毎日 HH:MM メッセージ"
@@ -644,6 +1147,8 @@ export function parseScheduleInput(input: string): {
       expression: `${min} ${hour} * * *`,
       message: dailyMatch[3].trim(),
       targetChannelId,
+      targetPlatform,
+      timezone,
     };
   }
   // "毎時 メッセージ" or "毎時 MM分 メッセージ"
@@ -655,6 +1160,8 @@ export function parseScheduleInput(input: string): {
       expression: `${min} * * * *`,
       message: hourlyMatch[2].trim(),
       targetChannelId,
+      targetPlatform,
+      timezone,
     };
   }
   // "毎週月曜 HH:MM メッセージ" (曜日対応)
@@ -677,6 +1184,8 @@ export function parseScheduleInput(input: string): {
       expression: `${min} ${hour} * * ${day}`,
       message: weeklyMatch[4].trim(),
       targetChannelId,
+      targetPlatform,
+      timezone,
     };
   }
   // "N分後 メッセージ" or "N時間後 メッセージ"
@@ -703,6 +1212,8 @@ export function parseScheduleInput(input: string): {
       runAt: new Date(Date.now() + ms).toISOString(),
       message: relativeMatch[3].trim(),
       targetChannelId,
+      targetPlatform,
+      timezone,
     };
   }
   // "HH:MM メッセージ" → 今日のその時刻（過ぎていたら明日）
@@ -711,23 +1222,19 @@ export function parseScheduleInput(input: string): {
     const hour = parseInt(timeMatch[1], 10);
     const min = parseInt(timeMatch[2], 10);
     const now = new Date();
-    // Asia/Tokyo で設定
-    const jstOffset = 9 * 60; // JST = UTC+9
-    const utcMinutes = now.getUTCHours() * 60 + now.getUTCMinutes();
-    const jstMinutes = utcMinutes + jstOffset;
-    const targetMinutes = hour * 60 + min;
-    // JSTベースで今日か明日かを判定
-    const currentJstMinutes = jstMinutes % (24 * 60);
-    let diffMinutes = targetMinutes - currentJstMinutes;
-    if (diffMinutes <= 0) {
-      diffMinutes += 24 * 60; // 明日
-    }
-    const runAt = new Date(now.getTime() + diffMinutes * 60 * 1000);
+    // 指定タイムゾーンの今日の日付で組み立て、過ぎていたら明日にする
+    const today = getZonedParts(now, timeZone);
+    let runAt = zonedTimeToDate(today.year, today.month, today.day, hour, min, timeZone);
+    if (runAt.getTime() <= now.getTime()) {
+      runAt = zonedTimeToDate(today.year, today.month, today.day + 1, hour, min, timeZone);
+    }
     return {
       type: 'once',
       runAt: runAt.toISOString(),
       message: timeMatch[3].trim(),
       targetChannelId,
+      targetPlatform,
+      timezone,
     };
   }
   // "YYYY-MM-DD HH:MM メッセージ"
@@ -736,15 +1243,16 @@ export function parseScheduleInput(input: string): {
     const dateStr = dateTimeMatch[1];
     const hour = parseInt(dateTimeMatch[2], 10);
     const min = parseInt(dateTimeMatch[3], 10);
-    // JST として解釈
-    const runAt = new Date(
-      `${dateStr}T${String(hour).padStart(2, '0')}:${String(min).padStart(2, '0')}:00+09:00`
-    );
+    // 指定タイムゾーン（デフォルト JST）の時刻として解釈
+    const [year, month, day] = dateStr.split('-').map((v) => parseInt(v, 10));
+    const runAt = zonedTimeToDate(year, month, day, hour, min, timeZone);
     return {
       type: 'once',
       runAt: runAt.toISOString(),
       message: dateTimeMatch[4].trim(),
       targetChannelId,
+      targetPlatform,
+      timezone,
     };
   }
   // "起動時 メッセージ" or "startup メッセージ"
@@ -754,6 +1262,8 @@ export function parseScheduleInput(input: string): {
       type: 'startup',
       message: startupMatch[1].trim(),
       targetChannelId,
+      targetPlatform,
+      timezone,
     };
   }
   return null;
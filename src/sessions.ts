@@ -1,6 +1,7 @@
 import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { randomUUID } from 'crypto';
+import { events, threadIdFor, turnIdFor, type Platform } from './events-emitter.js';
 
 /**
  * セッション管理（appSessionId方式）
@@ -15,10 +16,18 @@ import { randomUUID } from 'crypto';
  * }
  *
  * ログファイル: logs/sessions/<appSessionId>.jsonl
+ *
+ * セッションの作成とアーカイブは events（session.created / session.archived）にも流す。
  */
 
 export type SessionScope = 'interactive' | 'scheduler';
 
+/** Web セッションを他のユーザーと共有するときの権限 */
+export const WEB_SESSION_SHARE_ACCESS = ['read', 'write'] as const;
+export type WebSessionShareAccess = (typeof WEB_SESSION_SHARE_ACCESS)[number];
+/** Web チャットのログインユーザーから見たセッションの権限（強い順に owner > write > read > none） */
+export type WebSessionAccess = 'none' | WebSessionShareAccess | 'owner';
+
 export interface AgentInfo {
   backend: string; // 'claude-code' | 'codex' | 'cursor' | 'grok' | 'local-llm'
   providerSessionId?: string;
@@ -38,6 +47,10 @@ export interface SessionEntry {
   archived: boolean;
   /** 自走モード（auto-talk）。true のとき、agent がランダム間隔で発話を続ける */
   autoTalk?: boolean;
+  /** Web セッションを作ったログインユーザー。未設定（認証なし・他プラットフォーム）は全員で共有 */
+  owner?: string;
+  /** owner 以外に共有しているユーザーと権限 */
+  sharedWith?: Record<string, WebSessionShareAccess>;
 }
 
 interface SessionsFile {
@@ -246,6 +259,15 @@ export function getProviderSessionId(contextKey: string): string | undefined {
   return data.sessions[appId]?.agent?.providerSessionId;
 }
 
+/**
+ * providerSessionIdから元のセッションを逆引き（承認リクエストの送り先解決用）
+ */
+export function findSessionByProviderSessionId(
+  providerSessionId: string
+): SessionEntry | undefined {
+  return Object.values(data.sessions).find((s) => s.agent?.providerSessionId === providerSessionId);
+}
+
 /**
  * 後方互換: getSession(channelId) → providerSessionId
  */
@@ -261,11 +283,37 @@ export function getSession(channelId: string): string | undefined {
  */
 export const WEB_CHAT_CONTEXT_PREFIX = 'web-chat:';
 
+const EVENT_PLATFORMS: Platform[] = ['discord', 'slack', 'web', 'line'];
+
+/**
+ * contextKey を events の thread_id にする。
+ * Web は `web:<appSessionId>`、LINE のように contextKey が `<platform>:` で始まるものはそのまま
+ */
+export function threadIdForContext(platform: string, contextKey: string): string {
+  if (contextKey.startsWith(WEB_CHAT_CONTEXT_PREFIX)) {
+    return threadIdFor('web', contextKey.slice(WEB_CHAT_CONTEXT_PREFIX.length));
+  }
+  return contextKey.startsWith(`${platform}:`) ? contextKey : `${platform}:${contextKey}`;
+}
+
+function sessionEventBase(entry: SessionEntry) {
+  const platform = EVENT_PLATFORMS.find((p) => p === entry.platform);
+  return {
+    threadId: threadIdForContext(entry.platform, entry.contextKey),
+    turnId: turnIdFor(platform ?? 'web', `session-${entry.id}`),
+    threadLabel: entry.title || undefined,
+    platform,
+    sessionId: entry.id,
+  };
+}
+
 /**
  * Web 用のセッションを作成する。contextKey は `web-chat:<appSessionId>` で自動生成。
  * 同時に複数の Web セッションを保持・操作できる。
  */
-export function createWebSession(opts: { title?: string; backend?: string } = {}): string {
+export function createWebSession(
+  opts: { title?: string; backend?: string; owner?: string } = {}
+): string {
   const appId = generateAppSessionId();
   const ctxKey = `${WEB_CHAT_CONTEXT_PREFIX}${appId}`;
   const now = new Date().toISOString();
@@ -282,9 +330,11 @@ export function createWebSession(opts: { title?: string; backend?: string } = {}
     messageCount: 0,
     agent: opts.backend ? { backend: opts.backend } : undefined,
     archived: false,
+    ...(opts.owner && { owner: opts.owner }),
   };
   data.activeByContext[ctxKey] = appId;
   saveSessionsToFile();
+  events.sessionCreated({ ...sessionEventBase(data.sessions[appId]), title: opts.title });
   return appId;
 }
 
@@ -318,6 +368,7 @@ export function createSession(
   };
   data.activeByContext[contextKey] = appId;
   saveSessionsToFile();
+  events.sessionCreated({ ...sessionEventBase(data.sessions[appId]), title: opts.title });
   return appId;
 }
 
@@ -383,6 +434,7 @@ export function incrementMessageCount(appSessionId: string): void {
 export function archiveSession(appSessionId: string): void {
   const entry = data.sessions[appSessionId];
   if (!entry) return;
+  const wasArchived = entry.archived;
   entry.archived = true;
   // activeByContextから外す
   for (const [ctx, id] of Object.entries(data.activeByContext)) {
@@ -391,6 +443,7 @@ export function archiveSession(appSessionId: string): void {
     }
   }
   saveSessionsToFile();
+  if (!wasArchived) events.sessionArchived(sessionEventBase(entry));
 }
 
 /**
@@ -418,6 +471,57 @@ export function setAutoTalk(appSessionId: string, enabled: boolean): boolean {
   return true;
 }
 
+/**
+ * Web セッションの共有先を設定する。access が null なら共有をやめる。
+ * owner の無いセッション（もともと全員で共有）は対象外で false
+ */
+export function setSessionShare(
+  appSessionId: string,
+  user: string,
+  access: WebSessionShareAccess | null
+): boolean {
+  const entry = data.sessions[appSessionId];
+  if (!entry?.owner || user === entry.owner) return false;
+  const sharedWith = { ...entry.sharedWith };
+  if (access) sharedWith[user] = access;
+  else delete sharedWith[user];
+  entry.sharedWith = Object.keys(sharedWith).length > 0 ? sharedWith : undefined;
+  entry.updatedAt = new Date().toISOString();
+  saveSessionsToFile();
+  return true;
+}
+
+/**
+ * ログインユーザーから見たセッションの権限。
+ * user が undefined（認証なし・固定トークン）はすべて owner 扱い。
+ * owner の無いセッション（所有者の導入前の Web セッション・Discord / Slack / LINE）と
+ * sessions.json に無いセッション（ログだけ残ったもの）は持ち主が分からないので none
+ */
+export function getWebSessionAccess(
+  entry: SessionEntry | undefined,
+  user: string | undefined
+): WebSessionAccess {
+  if (user === undefined) return 'owner';
+  if (!entry?.owner) return 'none';
+  if (entry.owner === user) return 'owner';
+  return entry.sharedWith?.[user] ?? 'none';
+}
+
+const WEB_SESSION_ACCESS_RANK: Record<WebSessionAccess, number> = {
+  none: 0,
+  read: 1,
+  write: 2,
+  owner: 3,
+};
+
+/** access が required 以上か */
+export function hasWebSessionAccess(
+  access: WebSessionAccess,
+  required: Exclude<WebSessionAccess, 'none'>
+): boolean {
+  return WEB_SESSION_ACCESS_RANK[access] >= WEB_SESSION_ACCESS_RANK[required];
+}
+
 /**
  * autoTalk=true の全セッション一覧
  */
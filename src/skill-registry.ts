@@ -0,0 +1,168 @@
+import { existsSync, watch, type FSWatcher } from 'fs';
+import { basename, dirname } from 'path';
+import { getSkillDirs, loadSkills, scanSkills, type Skill, type SkillScan } from './skills.js';
+
+/**
+ * スキルのキャッシュ付きレジストリ
+ *
+ * .claude/skills / .codex/skills / skills/ を fs.watch で監視し、変更があれば読み直して
+ * 購読者（Discord のスラッシュコマンド再登録など）に通知する。Local LLM の
+ * システムプロンプトと tool_search は毎回ディレクトリを走査せずにこのキャッシュを使う。
+ *
+ * 不正な SKILL.md と同名スキルの衝突は読み直すたびに警告ログに出す
+ * （一覧は xangi-cmd skills_doctor で確認できる）。
+ */
+
+/** 連続した変更（エディタの保存・git checkout 等）をまとめる待ち時間 */
+export const SKILLS_RELOAD_DEBOUNCE_MS = 300;
+
+export interface SkillRegistry {
+  readonly workdir: string;
+  /** キャッシュ済みのスキル一覧 */
+  get(): Skill[];
+  /** 直近の走査結果（不正な SKILL.md・衝突を含む） */
+  getScan(): SkillScan;
+  /** 今すぐ読み直す（/skills 用）。変更があれば購読者に通知する */
+  reload(): Skill[];
+  /** 読み直しで一覧が変わったときに呼ばれる。戻り値で解除 */
+  subscribe(listener: (skills: Skill[]) => void): () => void;
+  stop(): void;
+}
+
+function reportScan(scan: SkillScan): void {
+  for (const issue of scan.issues) {
+    console.warn(`[skills] Invalid SKILL.md ${issue.path}: ${issue.message}`);
+  }
+  for (const conflict of scan.conflicts) {
+    console.warn(
+      `[skills] Duplicate skill "${conflict.name}": using ${conflict.used}, shadowed ${conflict.shadowed.join(', ')}`
+    );
+  }
+}
+
+/** 通知が要る変化か（パスとマニフェストの内容で比較する） */
+function fingerprint(skills: Skill[]): string {
+  return JSON.stringify(skills);
+}
+
+/**
+ * レジストリを作る。watch: false なら監視せず reload() でだけ読み直す
+ */
+export function createSkillRegistry(
+  workdir: string,
+  options: { watch?: boolean; debounceMs?: number } = {}
+): SkillRegistry {
+  const debounceMs = options.debounceMs ?? SKILLS_RELOAD_DEBOUNCE_MS;
+  const listeners = new Set<(skills: Skill[]) => void>();
+  let watchers: FSWatcher[] = [];
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  let scan = scanSkills(workdir);
+  reportScan(scan);
+
+  /**
+   * スキルディレクトリを監視し直す。まだ無いディレクトリは、存在する一番近い親を
+   * 監視して作成を拾う（作成されたら次の読み直しでそのディレクトリの監視に切り替わる）
+   */
+  const arm = () => {
+    for (const w of watchers) w.close();
+    watchers = [];
+    if (stopped || options.watch === false) return;
+    // 監視先 → 反応する子の名前（null はスキルディレクトリ自体なので配下の変更すべてに反応）
+    const targets = new Map<string, Set<string> | null>();
+    for (const dir of getSkillDirs(workdir)) {
+      let target = dir;
+      let child = '';
+      while (!existsSync(target) && dirname(target) !== target) {
+        child = basename(target);
+        target = dirname(target);
+      }
+      const names = targets.get(target);
+      if (target === dir) targets.set(target, null);
+      else if (names !== null) targets.set(target, new Set([...(names ?? []), child]));
+    }
+    for (const [target, names] of targets) {
+      try {
+        const w = watch(
+          target,
+          { recursive: names === null, persistent: false },
+          (_event, filename) => {
+            if (names === null || (filename && names.has(filename.toString()))) schedule();
+          }
+        );
+        w.on('error', (err) => console.warn(`[skills] Watcher error on ${target}:`, err));
+        watchers.push(w);
+      } catch (err) {
+        console.warn(`[skills] Failed to watch ${target}:`, err);
+      }
+    }
+  };
+
+  const reload = (): Skill[] => {
+    const previous = fingerprint(scan.skills);
+    scan = scanSkills(workdir);
+    reportScan(scan);
+    arm();
+    if (fingerprint(scan.skills) !== previous) {
+      console.log(`[skills] Reloaded ${scan.skills.length} skills from ${workdir}`);
+      for (const listener of listeners) {
+        try {
+          listener(scan.skills);
+        } catch (err) {
+          console.error('[skills] Skill listener failed:', err);
+        }
+      }
+    }
+    return scan.skills;
+  };
+
+  const schedule = () => {
+    if (stopped) return;
+    clearTimeout(timer);
+    timer = setTimeout(reload, debounceMs);
+  };
+
+  arm();
+
+  return {
+    workdir,
+    get: () => scan.skills,
+    getScan: () => scan,
+    reload,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    stop() {
+      stopped = true;
+      clearTimeout(timer);
+      for (const w of watchers) w.close();
+      watchers = [];
+      listeners.clear();
+    },
+  };
+}
+
+let activeRegistry: SkillRegistry | null = null;
+
+/**
+ * プロセス全体で使うレジストリを設定する（index.ts で起動時に一度）
+ */
+export function setActiveSkillRegistry(registry: SkillRegistry | null): void {
+  activeRegistry = registry;
+}
+
+/**
+ * スキル一覧を返す。workdir のレジストリがあればそのキャッシュ、無ければ走査する
+ */
+export function getSkills(workdir: string): Skill[] {
+  return activeRegistry?.workdir === workdir ? activeRegistry.get() : loadSkills(workdir);
+}
+
+/**
+ * 今すぐ読み直す（/skills 用）。レジストリがあれば購読者にも通知される
+ */
+export function reloadSkills(workdir: string): Skill[] {
+  return activeRegistry?.workdir === workdir ? activeRegistry.reload() : loadSkills(workdir);
+}
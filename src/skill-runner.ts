@@ -0,0 +1,148 @@
+import type { AgentRunner, RunOptions, RunResult, SkillRunOptions } from './agent-runner.js';
+import {
+  parseSkillArguments,
+  tokenizeSkillArgs,
+  type Skill,
+  type SkillArgumentValue,
+} from './skills.js';
+
+/**
+ * スキルの実行（Discord の /skill・個別スキルコマンド、Slack の /skill 共通）
+ *
+ * SKILL.md フロントマターの arguments で引数を検証し、allowed-tools / backend / model /
+ * timeout を実行に反映する。allowed-tools・backend・model のどれかを指定したスキルは
+ * チャンネルの会話セッションを使わず単発で実行する（ツールやモデルを変えた実行を
+ * 会話の続きに混ぜないため）。
+ */
+
+export interface SkillInvocation {
+  name: string;
+  prompt: string;
+  /** true なら会話セッションを使わない（呼び出し側は sessionId を渡さず、保存もしない） */
+  isolated: boolean;
+  skill?: SkillRunOptions;
+  timeoutMs?: number;
+}
+
+/** Discord のオートコンプリート候補の上限 */
+const MAX_SUGGESTIONS = 25;
+/** Discord のオートコンプリート候補の name / value の上限 */
+const MAX_SUGGESTION_LENGTH = 100;
+
+export function findSkill(skills: Skill[], name: string): Skill | undefined {
+  return skills.find((s) => s.name === name);
+}
+
+function formatArgumentValues(values: Record<string, SkillArgumentValue>): string {
+  return Object.entries(values)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+}
+
+/**
+ * 実行内容を組み立てる。引数が不正なら ValidationError。
+ * スキル一覧に無い名前や arguments 未宣言のスキルは、引数を文字列のままエージェントに渡す
+ */
+export function prepareSkillInvocation(
+  skills: Skill[],
+  name: string,
+  rawArgs: string
+): SkillInvocation {
+  const skill = findSkill(skills, name);
+  const args = skill?.arguments
+    ? formatArgumentValues(parseSkillArguments(skill, rawArgs))
+    : rawArgs.trim();
+  const prompt = `スキル「${name}」を実行してください。${args ? `引数: ${args}` : ''}`;
+
+  if (!skill || (!skill.backend && !skill.model && !skill.allowedTools)) {
+    return { name, prompt, isolated: false, timeoutMs: skill?.timeoutMs };
+  }
+  return {
+    name,
+    prompt,
+    isolated: true,
+    skill: {
+      name,
+      ...(skill.backend && { backend: skill.backend }),
+      ...(skill.model && { model: skill.model }),
+      ...(skill.allowedTools && { allowedTools: skill.allowedTools }),
+    },
+    timeoutMs: skill.timeoutMs,
+  };
+}
+
+/**
+ * スキルを実行する。timeout を過ぎたらチャンネルの実行をキャンセルして
+ * "timed out" のエラーにする（formatAgentErrorForUser でタイムアウト表示になる）
+ */
+export async function runSkill(
+  agentRunner: AgentRunner,
+  invocation: SkillInvocation,
+  options: RunOptions
+): Promise<RunResult> {
+  const runOptions: RunOptions = {
+    ...options,
+    ...(invocation.skill && { skill: invocation.skill }),
+    ...(invocation.isolated && { sessionId: undefined, appSessionId: undefined }),
+  };
+  const timeoutMs = invocation.timeoutMs;
+  if (!timeoutMs) return agentRunner.run(invocation.prompt, runOptions);
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      if (options.channelId) agentRunner.cancel?.(options.channelId);
+      reject(
+        new Error(`Skill "${invocation.name}" timed out after ${Math.round(timeoutMs / 1000)}s`)
+      );
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([agentRunner.run(invocation.prompt, runOptions), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 引数入力中のオートコンプリート候補（Discord の /skill の args）。
+ * 入力中の語が `name=` まで来ていれば値の候補（choices / true・false）、
+ * そうでなければまだ指定していない引数の `name=` を出す
+ */
+export function suggestSkillArguments(
+  skill: Skill,
+  input: string
+): Array<{ name: string; value: string }> {
+  const defs = skill.arguments ?? [];
+  const endsWithSpace = input === '' || /\s$/.test(input);
+  const tokens = tokenizeSkillArgs(input);
+  const current = endsWithSpace ? '' : (tokens.pop() ?? '');
+  const prefix = input.slice(0, input.length - current.length);
+  const used = new Set(tokens.map((t) => t.split('=')[0]));
+
+  const eq = current.indexOf('=');
+  const def = eq > 0 ? defs.find((d) => d.name === current.slice(0, eq)) : undefined;
+  let suggestions: Array<{ name: string; value: string }>;
+  if (def) {
+    const typed = current.slice(eq + 1);
+    const values = def.choices ?? (def.type === 'boolean' ? ['true', 'false'] : [typed]);
+    suggestions = values
+      .filter((v) => v.startsWith(typed))
+      .map((v) => ({ name: `${def.name}=${v}`, value: `${prefix}${def.name}=${v}` }));
+  } else {
+    suggestions = defs
+      .filter((d) => !used.has(d.name) && d.name.startsWith(current))
+      .map((d) => {
+        const label = `${d.name}=${d.required ? '（必須）' : ''}${d.description ? ` ${d.description}` : ''}`;
+        return { name: label, value: `${prefix}${d.name}=` };
+      });
+    if (input.trim() && suggestions.length === 0) {
+      suggestions = [{ name: input, value: input }];
+    }
+  }
+
+  return suggestions
+    .filter((s) => s.value.length <= MAX_SUGGESTION_LENGTH)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((s) => ({ ...s, name: s.name.slice(0, MAX_SUGGESTION_LENGTH) }));
+}
@@ -1,44 +1,113 @@
 import { readdirSync, existsSync, readFileSync, statSync } from 'fs';
 import { join, basename } from 'path';
+import { parse as parseYaml } from 'yaml';
 import { DISCORD_SAFE_LENGTH } from './constants.js';
+import { ALL_AGENT_BACKENDS, type AgentBackend } from './config.js';
+import { ValidationError } from './errors.js';
+
+export const SKILL_ARGUMENT_TYPES = ['string', 'number', 'boolean'] as const;
+export type SkillArgumentType = (typeof SKILL_ARGUMENT_TYPES)[number];
+export type SkillArgumentValue = string | number | boolean;
+
+/** フロントマター `arguments` の 1 項目 */
+export interface SkillArgument {
+  name: string;
+  type: SkillArgumentType;
+  description?: string;
+  required: boolean;
+  /** 指定できる値（string のみ） */
+  choices?: string[];
+  default?: SkillArgumentValue;
+}
 
 export interface Skill {
   name: string;
   description: string;
   path: string;
+  /** 型付き引数。未宣言なら引数は自由入力の文字列のまま渡す */
+  arguments?: SkillArgument[];
+  /** 使えるツール（Claude Code のツール名。`Bash(git *)` のようなパターンも可） */
+  allowedTools?: string[];
+  /** 実行する backend（CHANNEL_OVERRIDES より優先） */
+  backend?: AgentBackend;
+  model?: string;
+  /** 実行時間の上限（フロントマターでは秒で書く） */
+  timeoutMs?: number;
+}
+
+/** 読み込めなかった / 一部を無視した SKILL.md */
+export interface SkillIssue {
+  path: string;
+  message: string;
+}
+
+/** 同名スキルの衝突（優先順位の高い 1 つだけが使われ、残りは隠れる） */
+export interface SkillConflict {
+  name: string;
+  /** 使われる SKILL.md */
+  used: string;
+  /** 隠れている SKILL.md */
+  shadowed: string[];
+}
+
+export interface SkillScan {
+  skills: Skill[];
+  issues: SkillIssue[];
+  conflicts: SkillConflict[];
 }
 
 /**
- * ワークスペースのスキルディレクトリからスキル一覧を読み込む
- * .claude/skills/, .codex/skills/, skills/ を探し、重複は除外
+ * スキルディレクトリ（優先順位順）
  */
-export function loadSkills(workdir: string): Skill[] {
-  const skillMap = new Map<string, Skill>();
-
-  // 複数のスキルディレクトリを探す（優先順位順）
-  const skillsDirs = [
+export function getSkillDirs(workdir: string): string[] {
+  return [
     join(workdir, '.claude', 'skills'), // Claude Code形式
     join(workdir, '.codex', 'skills'), // Codex形式
     join(workdir, 'skills'), // 標準形式
   ];
+}
 
-  for (const skillsDir of skillsDirs) {
-    const loaded = loadSkillsFromDir(skillsDir);
+/**
+ * ワークスペースのスキルディレクトリからスキル一覧を読み込む
+ * .claude/skills/, .codex/skills/, skills/ を探し、重複は除外
+ */
+export function loadSkills(workdir: string): Skill[] {
+  return scanSkills(workdir).skills;
+}
+
+/**
+ * loadSkills と同じ走査をして、不正な SKILL.md と同名スキルの衝突も返す
+ * （skill-registry.ts の再読込と xangi-cmd skills_doctor 用）
+ */
+export function scanSkills(workdir: string): SkillScan {
+  const skillMap = new Map<string, Skill>();
+  const shadowed = new Map<string, string[]>();
+  const issues: SkillIssue[] = [];
+
+  for (const skillsDir of getSkillDirs(workdir)) {
+    const loaded = loadSkillsFromDir(skillsDir, issues);
     for (const skill of loaded) {
       // 同名スキルは最初に見つかったものを優先（重複排除）
       if (!skillMap.has(skill.name)) {
         skillMap.set(skill.name, skill);
+      } else {
+        shadowed.set(skill.name, [...(shadowed.get(skill.name) ?? []), skill.path]);
       }
     }
   }
 
-  return Array.from(skillMap.values());
+  const conflicts = Array.from(shadowed, ([name, paths]) => ({
+    name,
+    used: skillMap.get(name)!.path,
+    shadowed: paths,
+  }));
+  return { skills: Array.from(skillMap.values()), issues, conflicts };
 }
 
 /**
  * 指定ディレクトリからスキルを読み込む
  */
-function loadSkillsFromDir(skillsDir: string): Skill[] {
+function loadSkillsFromDir(skillsDir: string, issues: SkillIssue[]): Skill[] {
   const skills: Skill[] = [];
 
   if (!existsSync(skillsDir)) {
@@ -46,7 +115,7 @@ function loadSkillsFromDir(skillsDir: string): Skill[] {
   }
 
   try {
-    const entries = readdirSync(skillsDir);
+    const entries = readdirSync(skillsDir).sort();
 
     for (const entry of entries) {
       const entryPath = join(skillsDir, entry);
@@ -56,7 +125,7 @@ function loadSkillsFromDir(skillsDir: string): Skill[] {
         // skills/skill-name/SKILL.md 形式
         const skillFile = join(entryPath, 'SKILL.md');
         if (existsSync(skillFile)) {
-          const skill = parseSkillFile(skillFile, entry);
+          const skill = parseSkillFile(skillFile, entry, issues);
           if (skill) {
             skills.push(skill);
           }
@@ -64,7 +133,7 @@ function loadSkillsFromDir(skillsDir: string): Skill[] {
       } else if (entry.endsWith('.md') && entry !== 'README.md') {
         // skills/skill-name.md 形式
         const skillName = basename(entry, '.md');
-        const skill = parseSkillFile(entryPath, skillName);
+        const skill = parseSkillFile(entryPath, skillName, issues);
         if (skill) {
           skills.push(skill);
         }
@@ -72,6 +141,7 @@ function loadSkillsFromDir(skillsDir: string): Skill[] {
     }
   } catch (err) {
     console.error('[skills] Failed to load skills:', err);
+    issues.push({ path: skillsDir, message: `failed to read directory: ${String(err)}` });
   }
 
   return skills;
@@ -80,17 +150,53 @@ function loadSkillsFromDir(skillsDir: string): Skill[] {
 /**
  * SKILL.mdファイルをパースしてスキル情報を抽出
  */
-function parseSkillFile(filePath: string, defaultName: string): Skill | null {
+function parseSkillFile(filePath: string, defaultName: string, issues: SkillIssue[]): Skill | null {
   try {
-    const content = readFileSync(filePath, 'utf-8');
+    const messages: string[] = [];
+    const skill = parseSkillContent(
+      readFileSync(filePath, 'utf-8'),
+      filePath,
+      defaultName,
+      messages
+    );
+    issues.push(...messages.map((message) => ({ path: filePath, message })));
+    return skill;
+  } catch (err) {
+    issues.push({ path: filePath, message: `failed to read: ${String(err)}` });
+    return null;
+  }
+}
 
-    // フロントマターからdescriptionを抽出
-    const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-    let description = '';
-    let name = defaultName;
+/**
+ * SKILL.md の内容をパースする。
+ * フロントマターは YAML として読み、YAML として壊れていれば name / description だけを
+ * 行単位で拾う（従来の書き方の SKILL.md を読めなくしないため）。
+ * 問題は issues に積む（省略時は警告ログに出す）
+ */
+export function parseSkillContent(
+  content: string,
+  filePath: string,
+  defaultName: string,
+  issues?: string[]
+): Skill {
+  const report = (message: string) => {
+    if (issues) issues.push(message);
+    else console.warn(`[skills] ${filePath}: ${message}`);
+  };
+  const frontmatterMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  let description = '';
+  let name = defaultName;
+  let manifest: Omit<Skill, 'name' | 'description' | 'path'> = {};
 
-    if (frontmatterMatch) {
-      const frontmatter = frontmatterMatch[1];
+  if (frontmatterMatch) {
+    const frontmatter = frontmatterMatch[1];
+    const data = parseFrontmatter(frontmatter);
+    if (data) {
+      if (typeof data.name === 'string' && data.name.trim()) name = data.name.trim();
+      if (typeof data.description === 'string') description = data.description.trim();
+      manifest = parseManifest(data, report);
+    } else {
+      report('frontmatter is not valid YAML; only name / description were read');
       const descMatch = frontmatter.match(/description:\s*["']?([^"'\n]+)["']?/);
       const nameMatch = frontmatter.match(/name:\s*["']?([^"'\n]+)["']?/);
 
@@ -101,27 +207,249 @@ function parseSkillFile(filePath: string, defaultName: string): Skill | null {
         name = nameMatch[1].trim();
       }
     }
+  }
 
-    // フロントマターがない場合、最初の見出しや段落から説明を取得
-    if (!description) {
-      const lines = content
-        .split('\n')
-        .filter((l) => l.trim() && !l.startsWith('#') && !l.startsWith('---'));
-      if (lines.length > 0) {
-        description = lines[0].slice(0, 100);
-      }
+  // フロントマターがない場合、最初の見出しや段落から説明を取得
+  if (!description) {
+    const lines = content
+      .split('\n')
+      .filter((l) => l.trim() && !l.startsWith('#') && !l.startsWith('---'));
+    if (lines.length > 0) {
+      description = lines[0].slice(0, 100);
     }
+  }
 
-    return {
-      name,
-      description: description || '(説明なし)',
-      path: filePath,
-    };
+  return {
+    name,
+    description: description || '(説明なし)',
+    path: filePath,
+    ...manifest,
+  };
+}
+
+function parseFrontmatter(frontmatter: string): Record<string, unknown> | null {
+  try {
+    const data: unknown = parseYaml(frontmatter);
+    return data && typeof data === 'object' && !Array.isArray(data)
+      ? (data as Record<string, unknown>)
+      : null;
   } catch {
     return null;
   }
 }
 
+/**
+ * arguments / allowed-tools / backend / model / timeout を読む。
+ * 不正な項目は報告してその項目だけ無視する（スキル自体は使えるようにしておく）
+ */
+function parseManifest(
+  data: Record<string, unknown>,
+  warn: (message: string) => void
+): Omit<Skill, 'name' | 'description' | 'path'> {
+  const manifest: Omit<Skill, 'name' | 'description' | 'path'> = {};
+
+  if (data.arguments !== undefined) {
+    if (Array.isArray(data.arguments)) {
+      const args: SkillArgument[] = [];
+      for (const raw of data.arguments) {
+        const arg = parseArgumentDef(raw);
+        if (typeof arg === 'string') warn(arg);
+        else if (args.some((a) => a.name === arg.name)) warn(`duplicate argument "${arg.name}"`);
+        else args.push(arg);
+      }
+      manifest.arguments = args;
+    } else {
+      warn('arguments must be a list');
+    }
+  }
+
+  const tools = data['allowed-tools'];
+  if (tools !== undefined) {
+    const list = typeof tools === 'string' ? splitToolList(tools) : tools;
+    if (Array.isArray(list) && list.every((t) => typeof t === 'string')) {
+      manifest.allowedTools = list.map((t) => t.trim()).filter(Boolean);
+    } else {
+      warn('allowed-tools must be a string or a list of strings');
+    }
+  }
+
+  if (data.backend !== undefined) {
+    const backend = ALL_AGENT_BACKENDS.find((b) => b === data.backend);
+    if (backend) manifest.backend = backend;
+    else warn(`unknown backend "${String(data.backend)}"`);
+  }
+
+  if (data.model !== undefined) {
+    if (typeof data.model === 'string' && data.model.trim()) manifest.model = data.model.trim();
+    else warn('model must be a string');
+  }
+
+  if (data.timeout !== undefined) {
+    const seconds = Number(data.timeout);
+    if (Number.isFinite(seconds) && seconds > 0) manifest.timeoutMs = Math.round(seconds * 1000);
+    else warn('timeout must be a positive number of seconds');
+  }
+
+  return manifest;
+}
+
+/** `Bash(git *), Read` のようなカンマ区切り（括弧内のカンマでは切らない） */
+function splitToolList(raw: string): string[] {
+  const tools: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of raw) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth = Math.max(0, depth - 1);
+    if ((ch === ',' || /\s/.test(ch)) && depth === 0) {
+      if (current.trim()) tools.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) tools.push(current.trim());
+  return tools;
+}
+
+/** 引数定義を検証する。不正ならエラー文言を返す */
+function parseArgumentDef(raw: unknown): SkillArgument | string {
+  if (!raw || typeof raw !== 'object') return 'argument must be a mapping';
+  const def = raw as Record<string, unknown>;
+  if (typeof def.name !== 'string' || !/^[a-zA-Z0-9_-]+$/.test(def.name)) {
+    return `invalid argument name "${String(def.name)}" (use letters, digits, _ and -)`;
+  }
+  const type = def.type === undefined ? 'string' : def.type;
+  if (!SKILL_ARGUMENT_TYPES.includes(type as SkillArgumentType)) {
+    return `argument "${def.name}" has unknown type "${String(type)}"`;
+  }
+  const arg: SkillArgument = {
+    name: def.name,
+    type: type as SkillArgumentType,
+    required: def.required === true,
+  };
+  if (typeof def.description === 'string') arg.description = def.description;
+  if (def.choices !== undefined) {
+    if (arg.type !== 'string' || !Array.isArray(def.choices) || def.choices.length === 0) {
+      return `argument "${def.name}": choices must be a non-empty list on a string argument`;
+    }
+    arg.choices = def.choices.map(String);
+  }
+  if (def.default !== undefined) {
+    try {
+      arg.default = coerceArgument(arg, String(def.default));
+    } catch (err) {
+      return `argument "${def.name}": invalid default (${(err as Error).message})`;
+    }
+  }
+  return arg;
+}
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  on: true,
+  '1': true,
+  false: false,
+  no: false,
+  off: false,
+  '0': false,
+};
+
+function coerceArgument(arg: SkillArgument, raw: string): SkillArgumentValue {
+  switch (arg.type) {
+    case 'number': {
+      const n = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(n)) {
+        throw new ValidationError(`${arg.name} は数値で指定してください: ${raw}`);
+      }
+      return n;
+    }
+    case 'boolean': {
+      const value = BOOLEAN_VALUES[raw.trim().toLowerCase()];
+      if (value === undefined) {
+        throw new ValidationError(`${arg.name} は true / false で指定してください: ${raw}`);
+      }
+      return value;
+    }
+    case 'string':
+      if (arg.choices && !arg.choices.includes(raw)) {
+        throw new ValidationError(
+          `${arg.name} は ${arg.choices.join(' / ')} のいずれかで指定してください: ${raw}`
+        );
+      }
+      return raw;
+  }
+}
+
+/**
+ * 引数文字列を空白で区切る（"..." / '...' で空白を含められる）
+ */
+export function tokenizeSkillArgs(raw: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /(?:[^\s"']+|"[^"]*"?|'[^']*'?)+/g;
+  for (const match of raw.matchAll(pattern)) {
+    tokens.push(match[0].replace(/"([^"]*)"?|'([^']*)'?/g, (_, dq, sq) => dq ?? sq ?? ''));
+  }
+  return tokens;
+}
+
+/**
+ * 宣言された arguments に従って引数文字列を検証・型変換する。
+ * `name=value` で名前指定、それ以外は宣言順に位置引数として割り当てる。
+ * 不正な入力は ValidationError（メッセージはそのままユーザーに見せる）
+ */
+export function parseSkillArguments(skill: Skill, raw: string): Record<string, SkillArgumentValue> {
+  const defs = skill.arguments ?? [];
+  const values: Record<string, SkillArgumentValue> = {};
+  const positional: string[] = [];
+
+  for (const token of tokenizeSkillArgs(raw)) {
+    const eq = token.indexOf('=');
+    const def = eq > 0 ? defs.find((d) => d.name === token.slice(0, eq)) : undefined;
+    if (!def) {
+      if (eq > 0 && /^[a-zA-Z0-9_-]+$/.test(token.slice(0, eq))) {
+        throw new ValidationError(`不明な引数です: ${token.slice(0, eq)}`);
+      }
+      positional.push(token);
+      continue;
+    }
+    if (def.name in values) throw new ValidationError(`引数が重複しています: ${def.name}`);
+    values[def.name] = coerceArgument(def, token.slice(eq + 1));
+  }
+
+  const remaining = defs.filter((d) => !(d.name in values));
+  if (positional.length > remaining.length) {
+    throw new ValidationError(`引数が多すぎます: ${positional.slice(remaining.length).join(' ')}`);
+  }
+  positional.forEach((value, i) => {
+    values[remaining[i].name] = coerceArgument(remaining[i], value);
+  });
+
+  for (const def of defs) {
+    if (def.name in values) continue;
+    if (def.default !== undefined) values[def.name] = def.default;
+    else if (def.required) throw new ValidationError(`必須の引数がありません: ${def.name}`);
+  }
+  return values;
+}
+
+/**
+ * 引数の書式（エラー時やヘルプに出す）。例: `env=<staging|production> [dry-run=<true|false>]`
+ */
+export function formatSkillUsage(skill: Skill): string {
+  const args = (skill.arguments ?? []).map((arg) => {
+    const value = arg.choices
+      ? arg.choices.join('|')
+      : arg.type === 'boolean'
+        ? 'true|false'
+        : arg.type;
+    const usage = `${arg.name}=<${value}>`;
+    return arg.required ? usage : `[${usage}]`;
+  });
+  return `/skill ${skill.name}${args.length > 0 ? ` ${args.join(' ')}` : ' [引数]'}`;
+}
+
 /**
  * スキル一覧をフォーマット（Discord 2000文字制限対応）
  */
@@ -4,7 +4,8 @@ import type { Config } from './config.js';
 import type { AgentRunner, RunResult } from './agent-runner.js';
 import { processManager } from './process-manager.js';
 import type { Skill } from './skills.js';
-import { formatSkillList } from './skills.js';
+import { formatSkillList, formatSkillUsage } from './skills.js';
+import { findSkill, prepareSkillInvocation, runSkill } from './skill-runner.js';
 import { downloadFile, buildAttachmentResult, buildPromptWithAttachments } from './file-utils.js';
 import { loadSettings, formatSettings } from './settings.js';
 import { TIMEOUT_EXTEND_ENABLED } from './constants.js';
@@ -12,7 +13,7 @@ import { threadIdFor, turnIdFor } from './events-emitter.js';
 import { runWithBubbleEvents } from './bubble-events-runner.js';
 import { StreamSession } from './stream-session.js';
 import { registerStreamFinalizer } from './stream-finalizer.js';
-import { formatAgentErrorForUser } from './errors.js';
+import { ValidationError, formatAgentErrorForUser } from './errors.js';
 import { ensureSession, getActiveSessionId } from './sessions.js';
 import {
   attachPlatformMessageIdToLast,
@@ -21,6 +22,17 @@ import {
   deleteMessage as deleteTranscriptMessage,
 } from './transcript-logger.js';
 import type { KnownBlock } from '@slack/types';
+import {
+  APPROVAL_COMMAND_PREVIEW_MAX,
+  APPROVAL_EXPIRED_TEXT,
+  approvalScopeLabel,
+  formatApprovalResult,
+  getPendingApproval,
+  registerApprovalSender,
+  resolveApproval,
+  type ApprovalRequest,
+} from './approval.js';
+import { APPROVAL_SCOPES, type ApprovalScope } from './approval-grants.js';
 
 /** 残り時間を mm:ss でフォーマット */
 function formatRemaining(remainingMs: number): string {
@@ -74,6 +86,47 @@ function createSlackProcessingBlocks(timeout?: {
   return [{ type: 'actions', elements }];
 }
 
+/**
+ * Slack Block Kit: 承認リクエスト (コマンド表示 + 許可 / 拒否ボタン)
+ *
+ * ボタンの value に承認 ID を入れ、`xangi_approve[_session|_channel]` / `xangi_deny` アクションで受ける。
+ */
+function createSlackApprovalBlocks(request: ApprovalRequest): KnownBlock[] {
+  const command = request.danger.command.slice(0, APPROVAL_COMMAND_PREVIEW_MAX);
+  return [
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `⚠️ *危険なコマンドを検知*\n\`\`\`${command}\`\`\`\n${request.danger.matches.join(', ')}\n\n2分以内に応答がなければ自動拒否`,
+      },
+    },
+    {
+      type: 'actions',
+      elements: [
+        ...APPROVAL_SCOPES.map((scope) => ({
+          type: 'button' as const,
+          text: { type: 'plain_text' as const, text: approvalScopeLabel(scope) },
+          action_id: slackApprovalActionId(scope),
+          value: request.id,
+          ...(scope === 'once' && { style: 'primary' as const }),
+        })),
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: '拒否' },
+          action_id: 'xangi_deny',
+          value: request.id,
+          style: 'danger',
+        },
+      ],
+    },
+  ];
+}
+
+function slackApprovalActionId(scope: ApprovalScope): string {
+  return scope === 'once' ? 'xangi_approve' : `xangi_approve_${scope}`;
+}
+
 /** チャンネルの現在のタイムアウト状態から UI 用に整形 (top-level 版) */
 function getSlackTimeoutInfoFor(
   agentRunner: AgentRunner,
@@ -284,14 +337,14 @@ import type { Scheduler } from './scheduler.js';
 export interface SlackChannelOptions {
   config: Config;
   agentRunner: AgentRunner;
-  skills: Skill[];
+  /** 現在のスキル一覧（スキルディレクトリの変更で更新される） */
+  getSkills: () => Skill[];
   reloadSkills: () => Skill[];
   scheduler?: Scheduler;
 }
 
 export async function startSlackBot(options: SlackChannelOptions): Promise<void> {
-  const { config, agentRunner, reloadSkills } = options;
-  let { skills } = options;
+  const { config, agentRunner, getSkills, reloadSkills } = options;
 
   if (!config.slack.botToken || !config.slack.appToken) {
     throw new Error('Slack tokens not configured');
@@ -360,6 +413,48 @@ export async function startSlackBot(options: SlackChannelOptions): Promise<void>
     await ack();
   });
 
+  // ボタンアクション: ツール承認 (許可 / 拒否)
+  const approvalActions: [string, boolean, ApprovalScope][] = [
+    ...APPROVAL_SCOPES.map((scope): [string, boolean, ApprovalScope] => [
+      slackApprovalActionId(scope),
+      true,
+      scope,
+    ]),
+    ['xangi_deny', false, 'once'],
+  ];
+  for (const [actionId, approved, scope] of approvalActions) {
+    app.action(actionId, async ({ ack, body, action, client: actionClient }) => {
+      await ack();
+      const channelId = body.channel?.id;
+      const userId = body.user?.id;
+      if (!channelId || !userId) return;
+      if (
+        !config.slack.allowedUsers?.includes('*') &&
+        !config.slack.allowedUsers?.includes(userId)
+      ) {
+        return;
+      }
+      const approvalId = 'value' in action ? action.value : undefined;
+      const pending = approvalId ? getPendingApproval(approvalId) : undefined;
+      // 他チャンネル宛ての承認 ID を使い回させない
+      const resolved =
+        !!pending &&
+        pending.target.platform === 'slack' &&
+        pending.target.channelId === channelId &&
+        resolveApproval(pending.id, approved, `slack:${userId}`, scope);
+      if ('message' in body && body.message) {
+        await actionClient.chat
+          .update({
+            channel: channelId,
+            ts: (body.message as { ts: string }).ts,
+            text: resolved ? formatApprovalResult(approved, scope) : APPROVAL_EXPIRED_TEXT,
+            blocks: [],
+          })
+          .catch(() => {});
+      }
+    });
+  }
+
   // ボタンアクション: New Session
   app.action('xangi_new', async ({ ack, body, client: actionClient }) => {
     await ack();
@@ -660,8 +755,7 @@ export async function startSlackBot(options: SlackChannelOptions): Promise<void>
       return;
     }
 
-    skills = reloadSkills();
-    await respond({ text: formatSkillList(skills) });
+    await respond({ text: formatSkillList(reloadSkills()) });
   });
 
   // /delete コマンド（Botメッセージを削除）
@@ -694,32 +788,46 @@ export async function startSlackBot(options: SlackChannelOptions): Promise<void>
       return;
     }
 
-    const args = command.text.trim().split(/\s+/);
-    const skillName = args[0];
-    const skillArgs = args.slice(1).join(' ');
+    const text = command.text.trim();
+    const skillName = text.split(/\s+/)[0];
+    const skillArgs = text.slice(skillName.length).trim();
 
     if (!skillName) {
       await respond({ text: '使い方: `/skill <スキル名> [引数]`' });
       return;
     }
 
+    // Slack のスラッシュコマンドには補完が無いので、引数の誤りは書式を添えて返す
+    let invocation;
+    try {
+      invocation = prepareSkillInvocation(getSkills(), skillName, skillArgs);
+    } catch (error) {
+      const skill = findSkill(getSkills(), skillName);
+      if (!(error instanceof ValidationError) || !skill) throw error;
+      await respond({
+        text: `❌ ${error.message}\n使い方: \`${formatSkillUsage(skill)}\``,
+        response_type: 'ephemeral',
+      });
+      return;
+    }
+
     const channelId = command.channel_id;
     const skipPermissions = config.agent.config.skipPermissions ?? false;
 
     try {
-      const prompt = `スキル「${skillName}」を実行してください。${skillArgs ? `引数: ${skillArgs}` : ''}`;
-      const sessionId = sessions.get(channelId);
-      const { result, sessionId: newSessionId } = await agentRunner.run(prompt, {
+      // マニフェストで backend / model / allowed-tools を指定したスキルは会話セッションを使わない
+      const sessionId = invocation.isolated ? undefined : sessions.get(channelId);
+      const { result, sessionId: newSessionId } = await runSkill(agentRunner, invocation, {
         skipPermissions,
         sessionId,
         channelId,
       });
 
-      sessions.set(channelId, newSessionId);
+      if (!invocation.isolated) sessions.set(channelId, newSessionId);
       await respond({ text: sliceByBytes(result, SLACK_MAX_TEXT_BYTES) });
     } catch (error) {
       console.error('[slack] Error:', error);
-      await respond({ text: 'エラーが発生しました' });
+      await respond({ text: formatAgentErrorForUser(error, { timeoutMs: invocation.timeoutMs }) });
     }
   });
 
@@ -835,6 +943,15 @@ export async function startSlackBot(options: SlackChannelOptions): Promise<void>
     });
   }
 
+  // 承認リクエストをボタン付きメッセージで送る
+  registerApprovalSender('slack', async (request) => {
+    await app.client.chat.postMessage({
+      channel: request.target.channelId,
+      text: `⚠️ 危険なコマンドを検知: ${request.danger.matches.join(', ')}`,
+      blocks: createSlackApprovalBlocks(request),
+    });
+  });
+
   // スケジューラにSlack送信関数を登録
   if (options.scheduler) {
     options.scheduler.registerSender('slack', async (channelId, msg) => {
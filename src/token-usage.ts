@@ -0,0 +1,378 @@
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import type { TokenUsage } from './agent-runner.js';
+
+/**
+ * トークン使用量の記録と集計
+ *
+ * backend が報告した実測値（Claude Code の result イベント、Codex の turn.completed、
+ * Local LLM の各 provider の usage）を 1 ターン 1 行で日別 JSONL に追記する:
+ *   <dataDir>/usage/<YYYY-MM-DD>.jsonl
+ *
+ * 書き込みは DynamicRunnerManager が backend 解決後にまとめて行う（initTokenUsage 済みの時だけ）。
+ * 集計関数は dataDir を引数に取るので、xangi 本体を経由しない xangi-cmd からも読める。
+ */
+
+/** 日別ファイルを残す日数（起動時にこれより古いファイルを消す） */
+export const USAGE_RETENTION_DAYS = 180;
+/** 集計期間の指定が無いときの日数 */
+export const USAGE_DEFAULT_DAYS = 7;
+
+export const USAGE_GROUP_BY = ['day', 'backend', 'channel', 'session'] as const;
+export type UsageGroupBy = (typeof USAGE_GROUP_BY)[number];
+
+export interface UsageRecord extends TokenUsage {
+  /** 記録日時 ISO8601 */
+  ts: string;
+  backend: string;
+  model?: string;
+  channelId?: string;
+  appSessionId?: string;
+  platform?: string;
+  /** backend が usage を返さなかったターン（トークンは 0 として、ターン数だけ数える） */
+  unreported?: boolean;
+}
+
+export interface UsageTotals {
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummaryRow extends UsageTotals {
+  key: string;
+}
+
+export interface UsageSummary {
+  groupBy: UsageGroupBy;
+  days: number;
+  total: UsageTotals;
+  rows: UsageSummaryRow[];
+}
+
+export interface UsageQuery {
+  groupBy?: UsageGroupBy;
+  /** 今日を含む直近何日分を集計するか（default: USAGE_DEFAULT_DAYS） */
+  days?: number;
+  channelId?: string;
+  appSessionId?: string;
+  backend?: string;
+  /** 集計に含める記録（Web チャットでログインユーザーが読めるセッションだけに絞る） */
+  include?: (record: UsageRecord) => boolean;
+  /** テスト用の現在時刻 */
+  now?: Date;
+}
+
+let usageDataDir: string | null = null;
+
+/** 今日の使用量（予算判定用）。日付が変わるか初期化し直したら記録ファイルから数え直す */
+interface TodayCounter {
+  day: string;
+  total: UsageTotals;
+  channels: Map<string, UsageTotals>;
+}
+let todayCounter: TodayCounter | null = null;
+
+function getUsageDir(dataDir: string): string {
+  return join(dataDir, 'usage');
+}
+
+/** ローカルタイムゾーンの YYYY-MM-DD（日別集計とファイル名に使う） */
+export function formatUsageDay(date: Date): string {
+  const pad = (n: number): string => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** 直近 days 日分の日付（古い順） */
+function recentDays(days: number, now: Date): string[] {
+  const result: string[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const d = new Date(now.getFullYear(), now.getMonth(), now.getDate() - i);
+    result.push(formatUsageDay(d));
+  }
+  return result;
+}
+
+/**
+ * 記録先を設定し、保持期間を過ぎた日別ファイルを掃除する
+ */
+export function initTokenUsage(dataDir: string, now = new Date()): void {
+  usageDataDir = dataDir;
+  todayCounter = null;
+  const dir = getUsageDir(dataDir);
+  if (!existsSync(dir)) return;
+  const oldest = recentDays(USAGE_RETENTION_DAYS, now)[0];
+  try {
+    for (const file of readdirSync(dir)) {
+      const match = /^(\d{4}-\d{2}-\d{2})\.jsonl$/.exec(file);
+      if (match && match[1] < oldest) unlinkSync(join(dir, file));
+    }
+  } catch (err) {
+    console.warn('[usage] Failed to prune old usage files:', err);
+  }
+}
+
+/** initTokenUsage で設定された dataDir（未初期化なら null） */
+export function getTokenUsageDataDir(): string | null {
+  return usageDataDir;
+}
+
+/** Claude Code の result イベント（json / stream-json 共通）のうち使用量に関わる部分 */
+export interface ClaudeResultUsage {
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_read_input_tokens?: number;
+    cache_creation_input_tokens?: number;
+  };
+  total_cost_usd?: number;
+}
+
+/** Claude Code の result イベントから使用量を取り出す */
+export function parseClaudeUsage(json: ClaudeResultUsage): TokenUsage | undefined {
+  const u = json.usage;
+  if (!u || (typeof u.input_tokens !== 'number' && typeof u.output_tokens !== 'number')) {
+    return undefined;
+  }
+  const cacheRead = u.cache_read_input_tokens ?? 0;
+  const cacheCreation = u.cache_creation_input_tokens ?? 0;
+  return {
+    // Claude の input_tokens は cache 分を含まないので足し込んで総数に揃える
+    inputTokens: (u.input_tokens ?? 0) + cacheRead + cacheCreation,
+    outputTokens: u.output_tokens ?? 0,
+    ...(cacheRead > 0 && { cacheReadTokens: cacheRead }),
+    ...(cacheCreation > 0 && { cacheCreationTokens: cacheCreation }),
+    ...(typeof json.total_cost_usd === 'number' && { costUsd: json.total_cost_usd }),
+  };
+}
+
+/** Codex の turn.completed イベントの usage を変換する（input_tokens は cache 分込み） */
+export function parseCodexUsage(usage?: {
+  input_tokens?: number;
+  cached_input_tokens?: number;
+  output_tokens?: number;
+}): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    ...(usage.cached_input_tokens && { cacheReadTokens: usage.cached_input_tokens }),
+  };
+}
+
+/** 使用量を足し合わせる（1 ターン内で複数回 LLM を呼ぶ runner 用） */
+export function addTokenUsage(base: TokenUsage | undefined, add: TokenUsage): TokenUsage {
+  if (!base) return { ...add };
+  const sum = (a?: number, b?: number): number | undefined =>
+    a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+  const result: TokenUsage = {
+    inputTokens: base.inputTokens + add.inputTokens,
+    outputTokens: base.outputTokens + add.outputTokens,
+  };
+  const cacheRead = sum(base.cacheReadTokens, add.cacheReadTokens);
+  const cacheCreation = sum(base.cacheCreationTokens, add.cacheCreationTokens);
+  const cost = sum(base.costUsd, add.costUsd);
+  if (cacheRead !== undefined) result.cacheReadTokens = cacheRead;
+  if (cacheCreation !== undefined) result.cacheCreationTokens = cacheCreation;
+  if (cost !== undefined) result.costUsd = cost;
+  return result;
+}
+
+/**
+ * 1 ターン分の使用量を追記する。書き込み失敗でターンを落とさない。
+ */
+export function appendUsageRecord(dataDir: string, record: UsageRecord): void {
+  try {
+    const dir = getUsageDir(dataDir);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    const day = formatUsageDay(new Date(record.ts));
+    appendFileSync(join(dir, `${day}.jsonl`), JSON.stringify(record) + '\n');
+  } catch (err) {
+    console.warn('[usage] Failed to write usage record:', err);
+  }
+}
+
+/** initTokenUsage 済みなら記録する（未初期化 = テストや xangi-cmd からの実行では何もしない） */
+export function recordTokenUsage(entry: Omit<UsageRecord, 'ts'>, now = new Date()): void {
+  if (!usageDataDir) return;
+  const record: UsageRecord = { ts: now.toISOString(), ...entry };
+  appendUsageRecord(usageDataDir, record);
+  // 未集計ならファイルから数え直すときに今の 1 件も含まれる
+  if (todayCounter?.day === formatUsageDay(now)) countToday(todayCounter, record);
+}
+
+/**
+ * 直近 days 日分の記録を読む（壊れた行は飛ばす）
+ */
+export function readUsageRecords(dataDir: string, days: number, now = new Date()): UsageRecord[] {
+  const records: UsageRecord[] = [];
+  for (const day of recentDays(days, now)) {
+    const filePath = join(getUsageDir(dataDir), `${day}.jsonl`);
+    if (!existsSync(filePath)) continue;
+    try {
+      for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          records.push(JSON.parse(line) as UsageRecord);
+        } catch {
+          // skip malformed line
+        }
+      }
+    } catch {
+      // 読めないファイルは無視
+    }
+  }
+  return records;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    turns: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    costUsd: 0,
+  };
+}
+
+function accumulate(totals: UsageTotals, record: UsageRecord): void {
+  totals.turns += 1;
+  totals.inputTokens += record.inputTokens ?? 0;
+  totals.outputTokens += record.outputTokens ?? 0;
+  totals.cacheReadTokens += record.cacheReadTokens ?? 0;
+  totals.cacheCreationTokens += record.cacheCreationTokens ?? 0;
+  totals.costUsd += record.costUsd ?? 0;
+}
+
+function countToday(counter: TodayCounter, record: UsageRecord): void {
+  accumulate(counter.total, record);
+  if (!record.channelId) return;
+  let channel = counter.channels.get(record.channelId);
+  if (!channel) {
+    channel = emptyTotals();
+    counter.channels.set(record.channelId, channel);
+  }
+  accumulate(channel, record);
+}
+
+/**
+ * 今日（ローカル時刻）の使用量。channelId 指定でそのチャンネル分、省略で全体。
+ * initTokenUsage 前は常に 0。
+ */
+export function getTodayUsage(channelId?: string, now = new Date()): UsageTotals {
+  const day = formatUsageDay(now);
+  if (todayCounter?.day !== day) {
+    todayCounter = { day, total: emptyTotals(), channels: new Map() };
+    if (usageDataDir) {
+      for (const record of readUsageRecords(usageDataDir, 1, now)) {
+        countToday(todayCounter, record);
+      }
+    }
+  }
+  const totals = channelId ? todayCounter.channels.get(channelId) : todayCounter.total;
+  return { ...(totals ?? emptyTotals()) };
+}
+
+function groupKey(record: UsageRecord, groupBy: UsageGroupBy): string {
+  switch (groupBy) {
+    case 'day':
+      return formatUsageDay(new Date(record.ts));
+    case 'backend':
+      return record.model ? `${record.backend} (${record.model})` : record.backend;
+    case 'channel':
+      return record.channelId ?? '(unknown)';
+    case 'session':
+      return record.appSessionId ?? '(no session)';
+  }
+}
+
+/**
+ * 記録を絞り込み、groupBy ごとに合計する。
+ * 行の並びは day なら日付の新しい順、それ以外はトークン総数の多い順。
+ */
+export function summarizeUsage(records: UsageRecord[], query: UsageQuery = {}): UsageSummary {
+  const groupBy = query.groupBy ?? 'day';
+  const total = emptyTotals();
+  const groups = new Map<string, UsageTotals>();
+
+  for (const record of records) {
+    if (query.channelId && record.channelId !== query.channelId) continue;
+    if (query.appSessionId && record.appSessionId !== query.appSessionId) continue;
+    if (query.backend && record.backend !== query.backend) continue;
+    if (query.include && !query.include(record)) continue;
+    accumulate(total, record);
+    const key = groupKey(record, groupBy);
+    let group = groups.get(key);
+    if (!group) {
+      group = emptyTotals();
+      groups.set(key, group);
+    }
+    accumulate(group, record);
+  }
+
+  const rows = [...groups.entries()].map(([key, totals]) => ({ key, ...totals }));
+  if (groupBy === 'day') {
+    rows.sort((a, b) => b.key.localeCompare(a.key));
+  } else {
+    rows.sort((a, b) => b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens));
+  }
+  return { groupBy, days: query.days ?? USAGE_DEFAULT_DAYS, total, rows };
+}
+
+/**
+ * dataDir の記録を読んで集計する（Discord / Web / xangi-cmd 共通の入口）
+ */
+export function loadUsageSummary(dataDir: string, query: UsageQuery = {}): UsageSummary {
+  const days = query.days ?? USAGE_DEFAULT_DAYS;
+  return summarizeUsage(readUsageRecords(dataDir, days, query.now), { ...query, days });
+}
+
+const GROUP_LABELS: Record<UsageGroupBy, string> = {
+  day: '日別',
+  backend: 'backend 別',
+  channel: 'チャンネル別',
+  session: 'セッション別',
+};
+
+/** 1,234,567 → 1.23M のような短い表記 */
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
+  if (n >= 10_000) return `${(n / 1_000).toFixed(1)}k`;
+  return n.toLocaleString('en-US');
+}
+
+function formatTotals(totals: UsageTotals): string {
+  const parts = [
+    `${totals.turns}ターン`,
+    `入力 ${formatTokens(totals.inputTokens)}`,
+    `出力 ${formatTokens(totals.outputTokens)}`,
+  ];
+  if (totals.cacheReadTokens > 0) parts.push(`cache ${formatTokens(totals.cacheReadTokens)}`);
+  if (totals.costUsd > 0) parts.push(`$${totals.costUsd.toFixed(2)}`);
+  return parts.join(' / ');
+}
+
+/** 表示する行数の上限（Discord のメッセージ長に収めるため） */
+const MAX_SUMMARY_ROWS = 20;
+
+/**
+ * 集計結果をチャット / CLI 向けのテキストにする
+ */
+export function formatUsageSummary(summary: UsageSummary, scope?: string): string {
+  const header = `📊 **トークン使用量** 直近${summary.days}日・${GROUP_LABELS[summary.groupBy]}${scope ? ` (${scope})` : ''}`;
+  if (summary.total.turns === 0) {
+    return `${header}\n\n記録はありません`;
+  }
+  const shown = summary.rows.slice(0, MAX_SUMMARY_ROWS);
+  const lines = shown.map((row) => `• \`${row.key}\` ${formatTotals(row)}`);
+  if (summary.rows.length > shown.length) {
+    lines.push(`…ほか ${summary.rows.length - shown.length} 件`);
+  }
+  return `${header}\n\n${lines.join('\n')}\n\n**合計** ${formatTotals(summary.total)}`;
+}
@@ -116,7 +116,12 @@ export interface RunnerEventPayload {
     | 'context_prune'
     | 'session_retry'
     | 'idempotent_cache_store'
-    | 'stop_hook_block';
+    | 'stop_hook_block'
+    | 'stop_hook_pass'
+    | 'stop_hook_rounds_exhausted'
+    | 'pre_tool_use_hook_block'
+    | 'post_tool_use_hook_feedback'
+    | 'llm_endpoint';
   details?: Record<string, unknown>;
 }
 
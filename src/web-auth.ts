@@ -0,0 +1,348 @@
+/**
+ * Web チャットの認証と CORS
+ *
+ * - WEB_CHAT_AUTH_TOKEN: `Authorization: Bearer <token>` で通す固定トークン（CLI・外部ツール向け）
+ * - WEB_CHAT_USERS: `ユーザー名:scrypt.<salt>.<hash>` のカンマ区切り。ブラウザは
+ *   /api/auth/login でログインし、HttpOnly の Cookie でセッションを持つ
+ *   （ハッシュは `xangi-cmd web_hash_password` で作る）
+ * - WEB_CHAT_ALLOWED_USERS: ログインを許可するユーザー名（"*" で全員）。
+ *   DISCORD_ALLOWED_USER 等と同じく WEB_CHAT_USERS を使うなら必須
+ * - WEB_CHAT_ALLOWED_ORIGINS: クロスオリジンで許可する Origin（"*" で全許可）。
+ *   未設定なら同一オリジンのみ
+ *
+ * WEB_CHAT_AUTH_TOKEN も WEB_CHAT_USERS も無ければ認証なし（従来どおり）。
+ * ログインセッションはメモリにだけ持つので、再起動すると再ログインになる。
+ *
+ * ログインの失敗は接続元 IP とユーザー名ごとに数え、続けて失敗すると
+ * 倍々に延びる時間だけログインを受け付けない（総当たり対策）。
+ */
+import { createHash, randomBytes, scrypt, scryptSync, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+export const WEB_AUTH_COOKIE = 'xangi_session';
+/** 固定トークンで認証したときのユーザー名（許可リストの対象外） */
+export const WEB_AUTH_TOKEN_USER = 'token';
+export const DEFAULT_WEB_SESSION_HOURS = 168;
+export const MAX_WEB_SESSION_HOURS = 24 * 90;
+
+const HASH_PREFIX = 'scrypt';
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+/** この回数までの失敗はロックしない */
+export const LOGIN_FREE_ATTEMPTS = 5;
+/** 最初のロック時間。以降は失敗のたびに倍にする */
+export const LOGIN_BACKOFF_BASE_MS = 30 * 1000;
+export const LOGIN_BACKOFF_MAX_MS = 15 * 60 * 1000;
+/** 最後の失敗からこれだけ経てば失敗回数を忘れる */
+const LOGIN_FAILURE_RESET_MS = 60 * 60 * 1000;
+
+export interface WebAuthConfig {
+  token: string;
+  /** ユーザー名 → パスワードハッシュ */
+  users: Map<string, string>;
+  allowedUsers: string[];
+  allowedOrigins: string[];
+  sessionHours: number;
+}
+
+export interface WebAuthUser {
+  name: string;
+  method: 'token' | 'password';
+}
+
+export interface WebAuth {
+  /** 固定トークンかユーザーのどちらかが設定されている */
+  readonly enabled: boolean;
+  /** パスワードログインが使える */
+  readonly passwordLogin: boolean;
+  /** WEB_CHAT_USERS に登録されたユーザーか（セッションの共有先の検証用） */
+  hasUser(name: string): boolean;
+  /** Bearer トークンかセッション Cookie で認証する。認証できなければ null */
+  authenticate(req: IncomingMessage): WebAuthUser | null;
+  /**
+   * 接続元 IP かユーザー名がロック中なら、解除までのミリ秒を返す（ロックされていなければ 0）
+   */
+  loginRetryAfter(req: IncomingMessage, username: string): number;
+  /**
+   * 成功したらセッションを作り Set-Cookie の値を返す。
+   * 失敗（許可リスト外・ロック中を含む）は null
+   */
+  login(
+    req: IncomingMessage,
+    username: string,
+    password: string
+  ): Promise<{ user: WebAuthUser; cookie: string } | null>;
+  /** セッションを破棄し、Cookie を消す Set-Cookie の値を返す */
+  logout(req: IncomingMessage): string;
+  /**
+   * CORS ヘッダを付ける。許可されていないクロスオリジンのリクエストなら false
+   * （Origin なし・同一オリジンは常に true）
+   */
+  applyCors(req: IncomingMessage, res: ServerResponse): boolean;
+}
+
+function splitList(raw: string | undefined): string[] {
+  return (raw || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * パスワードのハッシュを作る（`scrypt.<salt hex>.<hash hex>`）
+ */
+export function hashPassword(password: string, salt: Buffer = randomBytes(SALT_BYTES)): string {
+  const key = scryptSync(password, salt, KEY_BYTES);
+  return `${HASH_PREFIX}.${salt.toString('hex')}.${key.toString('hex')}`;
+}
+
+function parseHash(stored: string): { salt: Buffer; key: Buffer } | null {
+  const [prefix, salt, key, ...rest] = stored.split('.');
+  if (prefix !== HASH_PREFIX || !salt || !key || rest.length > 0) return null;
+  if (!/^[0-9a-f]+$/i.test(salt) || !/^[0-9a-f]+$/i.test(key) || key.length !== KEY_BYTES * 2) {
+    return null;
+  }
+  return { salt: Buffer.from(salt, 'hex'), key: Buffer.from(key, 'hex') };
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return parseHash(stored) !== null;
+}
+
+/**
+ * パスワードを照合する。ハッシュの形式が不正なら false
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const parsed = parseHash(stored);
+  if (!parsed) return false;
+  const key = await scryptAsync(password, parsed.salt, KEY_BYTES);
+  return timingSafeEqual(key, parsed.key);
+}
+
+/** 長さの違いを漏らさずに文字列を比べる */
+function safeEqual(a: string, b: string): boolean {
+  const da = createHash('sha256').update(a).digest();
+  const db = createHash('sha256').update(b).digest();
+  return timingSafeEqual(da, db);
+}
+
+/**
+ * 環境変数から認証設定を読む。形式が不正な WEB_CHAT_USERS のエントリは警告して無視する
+ */
+export function getWebAuthConfig(env = process.env): WebAuthConfig {
+  const users = new Map<string, string>();
+  for (const entry of splitList(env.WEB_CHAT_USERS)) {
+    const sep = entry.indexOf(':');
+    const name = sep > 0 ? entry.slice(0, sep).trim() : '';
+    const hash = sep > 0 ? entry.slice(sep + 1).trim() : '';
+    if (!name || !isPasswordHash(hash)) {
+      console.warn(
+        `[web-auth] Ignoring invalid WEB_CHAT_USERS entry "${name || entry.slice(0, 20)}" (expected <user>:scrypt.<salt>.<hash>)`
+      );
+      continue;
+    }
+    users.set(name, hash);
+  }
+  const hours = Number(env.WEB_CHAT_SESSION_HOURS);
+  return {
+    token: (env.WEB_CHAT_AUTH_TOKEN || '').trim(),
+    users,
+    allowedUsers: splitList(env.WEB_CHAT_ALLOWED_USERS),
+    allowedOrigins: splitList(env.WEB_CHAT_ALLOWED_ORIGINS).map((o) => o.replace(/\/+$/, '')),
+    sessionHours:
+      Number.isInteger(hours) && hours >= 1 && hours <= MAX_WEB_SESSION_HOURS
+        ? hours
+        : DEFAULT_WEB_SESSION_HOURS,
+  };
+}
+
+function parseCookies(header: string | undefined): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const part of (header || '').split(';')) {
+    const eq = part.indexOf('=');
+    if (eq <= 0) continue;
+    const value = part.slice(eq + 1).trim();
+    try {
+      cookies.set(part.slice(0, eq).trim(), decodeURIComponent(value));
+    } catch {
+      cookies.set(part.slice(0, eq).trim(), value);
+    }
+  }
+  return cookies;
+}
+
+/** TLS 終端の proxy 越しでも https なら Secure を付ける */
+function isHttps(req: IncomingMessage): boolean {
+  const proto = req.headers['x-forwarded-proto'];
+  const first = (Array.isArray(proto) ? proto[0] : proto)?.split(',')[0].trim();
+  return first === 'https' || (req.socket as { encrypted?: boolean }).encrypted === true;
+}
+
+function buildCookie(req: IncomingMessage, value: string, maxAgeSeconds: number): string {
+  return [
+    `${WEB_AUTH_COOKIE}=${value}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Strict',
+    `Max-Age=${maxAgeSeconds}`,
+    ...(isHttps(req) ? ['Secure'] : []),
+  ].join('; ');
+}
+
+function isSameOrigin(req: IncomingMessage, origin: string): boolean {
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 認証を作る（startWebChat で一度）
+ */
+export function createWebAuth(config: WebAuthConfig, now: () => number = Date.now): WebAuth {
+  const sessions = new Map<string, { user: string; expiresAt: number }>();
+  const sessionMs = config.sessionHours * 60 * 60 * 1000;
+  // 存在しないユーザーでも照合と同じだけ時間をかける（ユーザー名の有無を漏らさない）
+  const dummyHash = hashPassword(randomBytes(16).toString('hex'));
+
+  const isAllowedUser = (name: string) =>
+    config.allowedUsers.includes('*') || config.allowedUsers.includes(name);
+
+  const pruneSessions = () => {
+    const t = now();
+    for (const [id, s] of sessions) {
+      if (s.expiresAt <= t) sessions.delete(id);
+    }
+  };
+
+  const sessionIdOf = (req: IncomingMessage) =>
+    parseCookies(req.headers.cookie).get(WEB_AUTH_COOKIE);
+
+  // ログイン失敗の記録（キーは `ip:<接続元>` と `user:<ユーザー名>`）
+  const failures = new Map<string, { count: number; lastAt: number; lockedUntil: number }>();
+  const failureKeys = (req: IncomingMessage, username: string) => [
+    `ip:${req.socket.remoteAddress ?? 'unknown'}`,
+    `user:${username}`,
+  ];
+
+  const pruneFailures = () => {
+    const t = now();
+    for (const [key, f] of failures) {
+      if (t - f.lastAt >= LOGIN_FAILURE_RESET_MS) failures.delete(key);
+    }
+  };
+
+  const retryAfter = (req: IncomingMessage, username: string) => {
+    pruneFailures();
+    const t = now();
+    return Math.max(
+      0,
+      ...failureKeys(req, username).map((key) => (failures.get(key)?.lockedUntil ?? 0) - t)
+    );
+  };
+
+  const recordFailure = (req: IncomingMessage, username: string) => {
+    const t = now();
+    for (const key of failureKeys(req, username)) {
+      const f = failures.get(key) ?? { count: 0, lastAt: t, lockedUntil: 0 };
+      f.count += 1;
+      f.lastAt = t;
+      if (f.count >= LOGIN_FREE_ATTEMPTS) {
+        const backoff = LOGIN_BACKOFF_BASE_MS * 2 ** (f.count - LOGIN_FREE_ATTEMPTS);
+        f.lockedUntil = t + Math.min(backoff, LOGIN_BACKOFF_MAX_MS);
+      }
+      failures.set(key, f);
+    }
+  };
+
+  return {
+    enabled: !!config.token || config.users.size > 0,
+    passwordLogin: config.users.size > 0,
+
+    hasUser: (name) => config.users.has(name),
+
+    authenticate(req) {
+      if (config.token) {
+        const header = (req.headers.authorization || '').trim();
+        if (header.startsWith('Bearer ') && safeEqual(header.slice(7).trim(), config.token)) {
+          return { name: WEB_AUTH_TOKEN_USER, method: 'token' };
+        }
+      }
+      const id = sessionIdOf(req);
+      const session = id ? sessions.get(id) : undefined;
+      if (!id || !session) return null;
+      if (session.expiresAt <= now() || !config.users.has(session.user)) {
+        sessions.delete(id);
+        return null;
+      }
+      if (!isAllowedUser(session.user)) return null;
+      return { name: session.user, method: 'password' };
+    },
+
+    loginRetryAfter: retryAfter,
+
+    async login(req, username, password) {
+      const wait = retryAfter(req, username);
+      if (wait > 0) {
+        console.warn(
+          `[web-auth] Login locked for "${username}" from ${req.socket.remoteAddress ?? 'unknown'} (${Math.ceil(wait / 1000)}s left)`
+        );
+        return null;
+      }
+      const hash = config.users.get(username);
+      const ok = await verifyPassword(password, hash ?? dummyHash);
+      if (!hash || !ok) {
+        recordFailure(req, username);
+        console.warn(`[web-auth] Login failed for "${username}"`);
+        return null;
+      }
+      // 接続元 IP の記録は残す（有効なアカウントを 1 つ持っていても他人の総当たりを続けられないように）
+      failures.delete(`user:${username}`);
+      if (!isAllowedUser(username)) {
+        console.warn(`[web-auth] Login rejected for "${username}" (not in WEB_CHAT_ALLOWED_USERS)`);
+        return null;
+      }
+      pruneSessions();
+      const id = randomBytes(32).toString('hex');
+      sessions.set(id, { user: username, expiresAt: now() + sessionMs });
+      console.log(`[web-auth] Logged in: ${username}`);
+      return {
+        user: { name: username, method: 'password' },
+        cookie: buildCookie(req, id, Math.floor(sessionMs / 1000)),
+      };
+    },
+
+    logout(req) {
+      const id = sessionIdOf(req);
+      if (id) sessions.delete(id);
+      return buildCookie(req, '', 0);
+    },
+
+    applyCors(req, res) {
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      res.setHeader('Vary', 'Origin');
+      const origin = req.headers.origin;
+      if (!origin || isSameOrigin(req, origin)) return true;
+      if (config.allowedOrigins.includes('*')) {
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        return true;
+      }
+      if (config.allowedOrigins.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Access-Control-Allow-Credentials', 'true');
+        return true;
+      }
+      return false;
+    },
+  };
+}
@@ -9,6 +9,7 @@ import { readFileSync, writeFileSync, existsSync, readdirSync, statSync, mkdirSy
 import { join, dirname, extname, basename } from 'path';
 import { fileURLToPath } from 'url';
 import type { AgentRunner } from './agent-runner.js';
+import type { Scheduler } from './scheduler.js';
 import {
   getSession,
   setSession,
@@ -22,15 +23,31 @@ import {
   setProviderSessionId,
   removeSession,
   setAutoTalk,
+  setSessionShare,
+  getWebSessionAccess,
+  hasWebSessionAccess,
   WEB_CHAT_CONTEXT_PREFIX,
+  WEB_SESSION_SHARE_ACCESS,
+  type WebSessionAccess,
 } from './sessions.js';
 import {
+  logResponse,
   readSessionMessages,
   updateMessageContent,
   deleteMessage as deleteTranscriptMessage,
 } from './transcript-logger.js';
 import { threadIdFor, turnIdFor, events } from './events-emitter.js';
 import { TIMEOUT_EXTEND_ENABLED } from './constants.js';
+import {
+  USAGE_DEFAULT_DAYS,
+  USAGE_GROUP_BY,
+  USAGE_RETENTION_DAYS,
+  getTokenUsageDataDir,
+  loadUsageSummary,
+  summarizeUsage,
+  type UsageGroupBy,
+  type UsageRecord,
+} from './token-usage.js';
 import { runWithBubbleEvents } from './bubble-events-runner.js';
 import { deriveTitleFromFirstMessage, stripPromptMetadata } from './session-title.js';
 import { handleInterChatRequest } from './inter-instance-chat/web-server.js';
@@ -40,6 +57,16 @@ import { resolveAccessUrls, formatAccessUrls } from './access-urls.js';
 import { handleEventsStreamRequest } from './events-stream-server.js';
 import { handlePetInboxRequest, isInboxPath } from './pet-inbox-server.js';
 import { handleEvenTerminalRequest } from './even-terminal-server.js';
+import {
+  APPROVAL_COMMAND_PREVIEW_MAX,
+  approvalScopeLabel,
+  getPendingApproval,
+  registerApprovalSender,
+  resolveApproval,
+  type ApprovalRequest,
+} from './approval.js';
+import { APPROVAL_SCOPES } from './approval-grants.js';
+import { createWebAuth, getWebAuthConfig } from './web-auth.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -63,9 +90,103 @@ const pendingHistoryInjections = new Set<string>();
 /** 同一 appSessionId への並行送信を抑止するためのビジー集合 */
 const busySessions = new Set<string>();
 
+/**
+ * 承認リクエストを流す先（contextKey → 実行中の /api/chat SSE）。
+ * /api/chat のストリーム中だけ登録され、ストリームが無いセッション宛ての承認は送れない。
+ */
+const approvalStreams = new Map<string, (request: ApprovalRequest) => void>();
+
+/**
+ * 承認リクエストを該当セッションの chat SSE に `approval` イベントとして送る。
+ * 応答は POST /api/approvals/:id で受ける。
+ */
+function sendWebApproval(request: ApprovalRequest): void {
+  const send = approvalStreams.get(request.target.channelId);
+  if (!send) {
+    throw new Error(`No active chat stream for ${request.target.channelId}`);
+  }
+  send(request);
+}
+
 interface WebChatOptions {
   agentRunner: AgentRunner;
   port?: number;
+  /** 渡すとスケジューラに Web 向けの送信関数とエージェント実行関数を登録する */
+  scheduler?: Scheduler;
+}
+
+/**
+ * スケジューラに Web 向けの送信関数とエージェント実行関数を登録する。
+ *
+ * スケジュールの channelId は web セッションの appSessionId。結果はその
+ * セッションの transcript に追記され (runner が transcript-logger 経由で書く)、
+ * events バス (turn.started / message.delta / turn.complete) にも流れるので、
+ * ブラウザや SSE consumer はセッションを開き直すか events を購読すれば拾える。
+ */
+export function registerWebSchedulerBridge(
+  scheduler: Scheduler,
+  agentRunner: AgentRunner,
+  workdir: string
+): void {
+  const resolveWebEntry = (appSessionId: string) => {
+    const entry = getSessionEntry(appSessionId);
+    if (!entry || entry.platform !== 'web' || entry.archived) {
+      throw new Error(`Web session not found: ${appSessionId}`);
+    }
+    return entry;
+  };
+
+  // エージェントを介さない送信: assistant メッセージとして transcript に追記し turn.complete を流す
+  scheduler.registerSender('web', async (appSessionId, msg) => {
+    const entry = resolveWebEntry(appSessionId);
+    logResponse(workdir, appSessionId, { result: msg });
+    incrementMessageCount(appSessionId);
+    events.turnComplete({
+      threadId: threadIdFor('web', appSessionId),
+      turnId: turnIdFor('web', `schedule-${Date.now()}`),
+      threadLabel: entry.title || 'Browser session',
+      platform: 'web',
+      text: msg,
+    });
+  });
+
+  scheduler.registerAgentRunner('web', async (prompt, appSessionId) => {
+    const entry = resolveWebEntry(appSessionId);
+    // ブラウザからの送信と同じ並行送信ロックに乗る
+    if (busySessions.has(appSessionId)) {
+      throw new Error(`Session is busy: ${appSessionId}`);
+    }
+    busySessions.add(appSessionId);
+    try {
+      const ctxKey = webContextKey(appSessionId);
+      const result = await runWithBubbleEvents(
+        agentRunner,
+        `[プラットフォーム: Web]\n${prompt}`,
+        {
+          threadId: threadIdFor('web', appSessionId),
+          turnId: turnIdFor('web', `schedule-${Date.now()}`),
+          threadLabel: entry.title || 'Browser session',
+          platform: 'web',
+          userText: prompt,
+        },
+        {
+          onComplete: (completedResult) => {
+            setProviderSessionId(appSessionId, completedResult.sessionId);
+            setSession(ctxKey, completedResult.sessionId);
+            incrementMessageCount(appSessionId);
+          },
+        },
+        {
+          sessionId: getSession(ctxKey),
+          channelId: ctxKey,
+          appSessionId,
+        }
+      );
+      return result.result;
+    } finally {
+      busySessions.delete(appSessionId);
+    }
+  });
 }
 
 export function startWebChat(options: WebChatOptions): void {
@@ -96,6 +217,19 @@ export function startWebChat(options: WebChatOptions): void {
         .filter((s) => s.startsWith('.'))
     : [];
 
+  if (options.scheduler) {
+    registerWebSchedulerBridge(options.scheduler, agentRunner, workdir);
+  }
+
+  registerApprovalSender('web', sendWebApproval);
+
+  const auth = createWebAuth(getWebAuthConfig());
+  if (!auth.enabled) {
+    console.warn(
+      '[web-chat] Authentication is disabled. Set WEB_CHAT_AUTH_TOKEN or WEB_CHAT_USERS before exposing the port'
+    );
+  }
+
   // 自走モード（auto-talk）の準備。inter-chat 有効時のみ実体起動。
   const autoTalkHandle = getInterChatConfig().enabled ? setupAutoTalk({ agentRunner }) : null;
 
@@ -103,9 +237,12 @@ export function startWebChat(options: WebChatOptions): void {
     const rawUrl = req.url || '/';
     const url = rawUrl.split('?')[0];
 
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    // WEB_CHAT_ALLOWED_ORIGINS 外のクロスオリジンは弾く（ヘルスチェックは除く）
+    if (!auth.applyCors(req, res) && url !== '/health') {
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Origin not allowed' }));
+      return;
+    }
 
     if (req.method === 'OPTIONS') {
       res.writeHead(200);
@@ -113,38 +250,71 @@ export function startWebChat(options: WebChatOptions): void {
       return;
     }
 
-    // inter-instance-chat の HTML / API は専用ハンドラに委譲
-    if (url === '/inter-chat' || url === '/inter-chat/' || url.startsWith('/api/inter-chat')) {
-      try {
-        const handled = await handleInterChatRequest(req, res);
-        if (handled) return;
-      } catch (err) {
-        if (!res.headersSent) {
-          res.writeHead(500, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
-        }
+    const authUser = auth.authenticate(req);
+
+    // POST /api/auth/login — パスワードでログインし、セッション Cookie を発行
+    if (url === '/api/auth/login' && req.method === 'POST') {
+      if (!auth.passwordLogin) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Password login is not configured' }));
         return;
       }
-    }
-
-    // events SSE pull (consumer がここに繋ぎに来る)
-    if (url === '/api/events/stream') {
-      try {
-        const handled = handleEventsStreamRequest(req, res);
-        if (handled) return;
-      } catch (err) {
-        if (!res.headersSent) {
-          res.writeHead(500, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
-        }
+      const body = await readBody(req);
+      const username = typeof body.username === 'string' ? body.username : '';
+      const password = typeof body.password === 'string' ? body.password : '';
+      const retryAfterMs = username ? auth.loginRetryAfter(req, username) : 0;
+      if (retryAfterMs > 0) {
+        res.writeHead(429, {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(retryAfterMs / 1000)),
+        });
+        res.end(
+          JSON.stringify({
+            error: 'Too many failed login attempts. Try again later.',
+            retryAfterMs,
+          })
+        );
+        return;
+      }
+      const result = username && password ? await auth.login(req, username, password) : null;
+      if (!result) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid username or password' }));
         return;
       }
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Set-Cookie': result.cookie });
+      res.end(JSON.stringify({ user: result.user.name }));
+      return;
+    }
+
+    // POST /api/auth/logout
+    if (url === '/api/auth/logout' && req.method === 'POST') {
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Set-Cookie': auth.logout(req) });
+      res.end(JSON.stringify({ ok: true }));
+      return;
     }
 
-    // Even Terminal compatibility API (`@evenrealities/even-terminal`)
-    if (url.startsWith('/api/')) {
+    // GET /api/auth/me — フロントがログイン画面を出すかの判定に使う（未ログインでも 200）
+    if (url === '/api/auth/me' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          enabled: auth.enabled,
+          passwordLogin: auth.passwordLogin,
+          user: authUser?.name ?? null,
+        })
+      );
+      return;
+    }
+
+    // Even Terminal / 外部 device の API は専用トークン（XANGI_EVEN_TERMINAL_TOKEN 等）で認証する。
+    // Even Terminal は Authorization 付きの /api/sessions も引き取るので、Web チャットの認証が
+    // 通ったリクエストは渡さない。Web チャットの認証が有効なら、専用トークン未設定時の
+    // プライベートネットワーク許可は使わない（LAN から認証を素通りさせない）。
+    const deviceAuth = { allowPrivateNetwork: !auth.enabled };
+    if (url.startsWith('/api/') && !authUser) {
       try {
-        const handled = await handleEvenTerminalRequest(req, res, agentRunner);
+        const handled = await handleEvenTerminalRequest(req, res, agentRunner, deviceAuth);
         if (handled) return;
       } catch (err) {
         if (!res.headersSent) {
@@ -158,7 +328,7 @@ export function startWebChat(options: WebChatOptions): void {
     // 外部 device からのテキスト送信 (xangi-pet / Even G2 等の consumer 側 UI から POST される)
     if (isInboxPath(url)) {
       try {
-        const handled = await handlePetInboxRequest(req, res, agentRunner);
+        const handled = await handlePetInboxRequest(req, res, agentRunner, deviceAuth);
         if (handled) return;
       } catch (err) {
         if (!res.headersSent) {
@@ -193,6 +363,70 @@ export function startWebChat(options: WebChatOptions): void {
       return;
     }
 
+    // ここから先は認証必須（画面の HTML はログインフォームを出すために素通し）
+    if (auth.enabled && !authUser) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Unauthorized' }));
+      return;
+    }
+
+    // セッションの持ち主で絞り込む対象。パスワードでログインしたユーザーだけで、
+    // 認証なし・固定トークン（CLI・外部ツール）は従来どおり全セッションを扱える
+    const viewer = authUser?.method === 'password' ? authUser.name : undefined;
+    const accessOf = (appSessionId: string) =>
+      getWebSessionAccess(getSessionEntry(appSessionId), viewer);
+    /** 権限が足りなければ 404（見えないセッション）か 403（権限不足）を返して false */
+    const checkAccess = (
+      appSessionId: string,
+      required: Exclude<WebSessionAccess, 'none'>
+    ): boolean => {
+      const access = accessOf(appSessionId);
+      if (hasWebSessionAccess(access, required)) return true;
+      res.writeHead(access === 'none' ? 404 : 403, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          error: access === 'none' ? 'session not found' : `${required} access required`,
+        })
+      );
+      return false;
+    };
+
+    // inter-instance-chat の HTML / API は専用ハンドラに委譲
+    if (url === '/inter-chat' || url === '/inter-chat/' || url.startsWith('/api/inter-chat')) {
+      try {
+        const handled = await handleInterChatRequest(req, res);
+        if (handled) return;
+      } catch (err) {
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
+        }
+        return;
+      }
+    }
+
+    // events SSE pull (consumer がここに繋ぎに来る)
+    if (url === '/api/events/stream') {
+      try {
+        const handled = handleEventsStreamRequest(req, res, {
+          // ログインユーザーには読める Web セッションのイベントだけ流す
+          // （Discord / Slack 等のスレッドは持ち主がいないので流さない）
+          canRead: viewer
+            ? (threadId) =>
+                threadId.startsWith('web:') &&
+                hasWebSessionAccess(accessOf(threadId.slice('web:'.length)), 'read')
+            : undefined,
+        });
+        if (handled) return;
+      } catch (err) {
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
+        }
+        return;
+      }
+    }
+
     // GET /api/config — フロント向け実行時設定
     if (url === '/api/config' && req.method === 'GET') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -205,12 +439,50 @@ export function startWebChat(options: WebChatOptions): void {
       return;
     }
 
+    // GET /api/usage?by=day|backend|channel|session&days=7&channel=&session=&backend=
+    // — トークン使用量の集計
+    if (url === '/api/usage' && req.method === 'GET') {
+      const params = new URL(rawUrl, `http://${req.headers.host}`).searchParams;
+      const by = params.get('by') || 'day';
+      const days = Number(params.get('days') || USAGE_DEFAULT_DAYS);
+      if (!USAGE_GROUP_BY.some((g) => g === by)) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `by must be one of: ${USAGE_GROUP_BY.join(', ')}` }));
+        return;
+      }
+      if (!Number.isInteger(days) || days < 1 || days > USAGE_RETENTION_DAYS) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `days must be 1-${USAGE_RETENTION_DAYS}` }));
+        return;
+      }
+      const dataDir = getTokenUsageDataDir();
+      const query = {
+        groupBy: by as UsageGroupBy,
+        days,
+        channelId: params.get('channel') || undefined,
+        appSessionId: params.get('session') || undefined,
+        backend: params.get('backend') || undefined,
+        // ログインユーザーには読めるセッションの分だけ見せる（他人のセッション ID と使用量を出さない）
+        include: viewer
+          ? (record: UsageRecord) =>
+              !!record.appSessionId && hasWebSessionAccess(accessOf(record.appSessionId), 'read')
+          : undefined,
+      };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify(dataDir ? loadUsageSummary(dataDir, query) : summarizeUsage([], query))
+      );
+      return;
+    }
+
     // GET /api/sessions — セッション一覧
     if (url === '/api/sessions' && req.method === 'GET') {
       // managed: sessions.json に登録された非アーカイブセッション。
       // タイトルが空なら最初のユーザーメッセージから導出し、それも無ければ
       // contextKey をそのまま見せる（Discord/Slack はチャンネル ID、Web は web-chat:<id>）。
-      const managed = listAllSessions().map((s) => {
+      const managed = listAllSessions().flatMap((s) => {
+        const access = getWebSessionAccess(s, viewer);
+        if (access === 'none') return [];
         const isActive =
           Boolean(s.contextKey && agentRunner.hasRunner?.(s.contextKey)) &&
           (s.platform === 'web' || getActiveSessionId(s.contextKey) === s.id);
@@ -224,6 +496,10 @@ export function startWebChat(options: WebChatOptions): void {
           title: s.title || deriveTitleFromFirstMessage(workdir, s.id) || s.contextKey,
           platform: s.platform,
           contextKey: s.contextKey,
+          owner: s.owner,
+          access,
+          // 共有先は owner にだけ見せる
+          sharedWith: access === 'owner' ? s.sharedWith : undefined,
           createdAt: s.createdAt,
           updatedAt: s.updatedAt,
           messageCount: s.messageCount,
@@ -239,9 +515,10 @@ export function startWebChat(options: WebChatOptions): void {
 
       // logs/sessions/ ディレクトリにしか痕跡が無いセッション（移行・剪定済み）も拾う。
       // managed に同じ id があれば既に出してるのでスキップ。
+      // 持ち主が分からないので、ログインユーザーごとに絞り込むときは出さない。
       const sessionsDir = join(workdir, 'logs', 'sessions');
       const unmanaged: typeof managed = [];
-      if (existsSync(sessionsDir)) {
+      if (existsSync(sessionsDir) && viewer === undefined) {
         for (const file of readdirSync(sessionsDir)) {
           if (!file.endsWith('.jsonl')) continue;
           const id = file.replace('.jsonl', '');
@@ -255,6 +532,9 @@ export function startWebChat(options: WebChatOptions): void {
             title,
             platform: 'discord',
             contextKey: '',
+            owner: undefined,
+            access: 'owner',
+            sharedWith: undefined,
             createdAt: stat.birthtime.toISOString(),
             updatedAt: stat.mtime.toISOString(),
             messageCount: 0,
@@ -284,6 +564,7 @@ export function startWebChat(options: WebChatOptions): void {
       req.method === 'GET'
     ) {
       const appSessionId = decodeURIComponent(url.replace('/api/sessions/', ''));
+      if (!checkAccess(appSessionId, 'read')) return;
       const entry = getSessionEntry(appSessionId);
       const messages = readSessionMessages(workdir, appSessionId).map((m) => {
         const isObj = typeof m.content === 'object' && m.content !== null;
@@ -316,6 +597,8 @@ export function startWebChat(options: WebChatOptions): void {
               .slice(0, 50) ||
             appSessionId,
           platform: entry?.platform,
+          owner: entry?.owner,
+          access: accessOf(appSessionId),
           messages,
         })
       );
@@ -327,6 +610,7 @@ export function startWebChat(options: WebChatOptions): void {
     if (editMsgMatch && req.method === 'PATCH') {
       const appSessionId = decodeURIComponent(editMsgMatch[1]);
       const messageId = decodeURIComponent(editMsgMatch[2]);
+      if (!checkAccess(appSessionId, 'write')) return;
       const body = await readBody(req);
       if (typeof body.content !== 'string') {
         res.writeHead(400, { 'Content-Type': 'application/json' });
@@ -348,6 +632,7 @@ export function startWebChat(options: WebChatOptions): void {
     if (editMsgMatch && req.method === 'DELETE') {
       const appSessionId = decodeURIComponent(editMsgMatch[1]);
       const messageId = decodeURIComponent(editMsgMatch[2]);
+      if (!checkAccess(appSessionId, 'write')) return;
       const ok = deleteTranscriptMessage(workdir, appSessionId, messageId);
       if (!ok) {
         res.writeHead(404, { 'Content-Type': 'application/json' });
@@ -362,6 +647,7 @@ export function startWebChat(options: WebChatOptions): void {
     // PATCH /api/sessions/:id — タイトル変更
     if (url.startsWith('/api/sessions/') && !url.includes('/messages/') && req.method === 'PATCH') {
       const appSessionId = decodeURIComponent(url.replace('/api/sessions/', ''));
+      if (!checkAccess(appSessionId, 'write')) return;
       const body = await readBody(req);
       if (body.title) {
         updateSessionTitle(appSessionId, body.title);
@@ -373,7 +659,7 @@ export function startWebChat(options: WebChatOptions): void {
 
     // POST /api/sessions — 新規 Web セッション（既存セッションはそのまま並存）
     if (url === '/api/sessions' && req.method === 'POST') {
-      const newAppId = createWebSession({});
+      const newAppId = createWebSession({ owner: viewer });
       console.log(`[web-chat] Created new web session ${newAppId}`);
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ ok: true, sessionId: newAppId }));
@@ -383,11 +669,14 @@ export function startWebChat(options: WebChatOptions): void {
     // POST /api/sessions/:id/resume — 既存セッションの内容を引き継いだ新 Web セッションを作る
     if (url.match(/^\/api\/sessions\/[^/]+\/resume$/) && req.method === 'POST') {
       const sourceId = decodeURIComponent(url.replace('/api/sessions/', '').replace('/resume', ''));
+      // 読み取り共有でも resume できる（引き継いだ新セッションは自分のもの）
+      if (!checkAccess(sourceId, 'read')) return;
       const sourceEntry = getSessionEntry(sourceId);
       const providerSid = sourceEntry?.agent?.providerSessionId;
 
       const newAppId = createWebSession({
         title: sourceEntry?.title ? `${sourceEntry.title} (resumed)` : '',
+        owner: viewer,
       });
       if (providerSid) {
         setSession(webContextKey(newAppId), providerSid);
@@ -410,6 +699,7 @@ export function startWebChat(options: WebChatOptions): void {
       const targetId = decodeURIComponent(
         url.replace('/api/sessions/', '').replace('/timeout', '')
       );
+      if (!checkAccess(targetId, 'read')) return;
       const entry = getSessionEntry(targetId);
       if (!entry?.contextKey || !agentRunner.getTimeoutState) {
         res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -431,6 +721,7 @@ export function startWebChat(options: WebChatOptions): void {
       const targetId = decodeURIComponent(
         url.replace('/api/sessions/', '').replace('/timeout/extend', '')
       );
+      if (!checkAccess(targetId, 'write')) return;
       const entry = getSessionEntry(targetId);
       if (!entry?.contextKey) {
         res.writeHead(404, { 'Content-Type': 'application/json' });
@@ -497,10 +788,47 @@ export function startWebChat(options: WebChatOptions): void {
       return;
     }
 
+    // POST /api/approvals/:id — ツール承認リクエストへの応答
+    // (body: { approved: boolean, scope?: 'once' | 'session' | 'channel' })
+    if (url.match(/^\/api\/approvals\/[^/]+$/) && req.method === 'POST') {
+      const approvalId = decodeURIComponent(url.replace('/api/approvals/', ''));
+      const body = await readBody(req);
+      const pending = getPendingApproval(approvalId);
+      // Web セッション宛て以外（Discord / Slack / LINE の承認）はここから応答させない
+      const scope =
+        body.scope === undefined ? 'once' : APPROVAL_SCOPES.find((s) => s === body.scope);
+      // 承認できるのはそのセッションに書き込めるユーザーだけ
+      const approvalSessionId = pending?.target.channelId.startsWith(WEB_CHAT_CONTEXT_PREFIX)
+        ? pending.target.channelId.slice(WEB_CHAT_CONTEXT_PREFIX.length)
+        : undefined;
+      if (
+        !pending ||
+        pending.target.platform !== 'web' ||
+        typeof body.approved !== 'boolean' ||
+        !scope ||
+        (viewer !== undefined &&
+          !(approvalSessionId && hasWebSessionAccess(accessOf(approvalSessionId), 'write')))
+      ) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'approval not found' }));
+        return;
+      }
+      const resolved = resolveApproval(
+        pending.id,
+        body.approved,
+        `web:${authUser?.name ?? req.socket.remoteAddress ?? 'unknown'}`,
+        scope
+      );
+      res.writeHead(resolved ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(resolved ? { ok: true } : { error: 'approval not found' }));
+      return;
+    }
+
     // POST /api/sessions/:id/stop — ランナーだけ停止（セッションは残す）
     // Web/Discord/Slack 共通。entry.contextKey をそのまま runner pool のキーとして使う。
     if (url.match(/^\/api\/sessions\/[^/]+\/stop$/) && req.method === 'POST') {
       const targetId = decodeURIComponent(url.replace('/api/sessions/', '').replace('/stop', ''));
+      if (!checkAccess(targetId, 'write')) return;
       const entry = getSessionEntry(targetId);
       let stopped = false;
       if (entry?.contextKey) {
@@ -524,6 +852,7 @@ export function startWebChat(options: WebChatOptions): void {
       const targetId = decodeURIComponent(
         url.replace('/api/sessions/', '').replace('/autotalk', '')
       );
+      if (!checkAccess(targetId, 'write')) return;
       const body = await readBody(req);
       const enabled = body.enabled === true;
       const entry = getSessionEntry(targetId);
@@ -566,7 +895,39 @@ export function startWebChat(options: WebChatOptions): void {
       return;
     }
 
-    // DELETE /api/sessions/:id — セッション削除
+    // POST /api/sessions/:id/share — 他のユーザーと共有（owner のみ）
+    // body: { user: string, access: 'read' | 'write' | 'none' }（none で共有をやめる）
+    if (url.match(/^\/api\/sessions\/[^/]+\/share$/) && req.method === 'POST') {
+      const targetId = decodeURIComponent(url.replace('/api/sessions/', '').replace('/share', ''));
+      if (!checkAccess(targetId, 'owner')) return;
+      const body = await readBody(req);
+      const user = typeof body.user === 'string' ? body.user.trim() : '';
+      const access =
+        body.access === 'none' ? null : WEB_SESSION_SHARE_ACCESS.find((a) => a === body.access);
+      if (!user || access === undefined) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'user and access (read | write | none) are required' }));
+        return;
+      }
+      if (access && !auth.hasUser(user)) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `Unknown user: ${user}` }));
+        return;
+      }
+      if (!setSessionShare(targetId, user, access)) {
+        res.writeHead(409, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'only sessions owned by a logged-in user can be shared' }));
+        return;
+      }
+      console.log(`[web-chat] Shared session ${targetId} with ${user} (${access ?? 'none'})`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({ ok: true, sharedWith: getSessionEntry(targetId)?.sharedWith ?? {} })
+      );
+      return;
+    }
+
+    // DELETE /api/sessions/:id — セッション削除（owner のみ）
     if (
       url.startsWith('/api/sessions/') &&
       !url.includes('/resume') &&
@@ -576,6 +937,7 @@ export function startWebChat(options: WebChatOptions): void {
       req.method === 'DELETE'
     ) {
       const targetId = decodeURIComponent(url.replace('/api/sessions/', ''));
+      if (!checkAccess(targetId, 'owner')) return;
       const entry = getSessionEntry(targetId);
       // ランナーも破棄（web セッションの場合のみ）
       if (entry?.platform === 'web') {
@@ -805,9 +1167,13 @@ export function startWebChat(options: WebChatOptions): void {
         let appSessionId: string = (body.appSessionId || '').toString().trim();
         if (!appSessionId) {
           // 後方互換: 最後に更新された web セッションを使う、なければ新規作成
-          const latestWeb = listAllSessions().find((s) => s.platform === 'web');
-          appSessionId = latestWeb?.id || createWebSession({});
+          const latestWeb = listAllSessions().find(
+            (s) =>
+              s.platform === 'web' && hasWebSessionAccess(getWebSessionAccess(s, viewer), 'write')
+          );
+          appSessionId = latestWeb?.id || createWebSession({ owner: viewer });
         }
+        if (!checkAccess(appSessionId, 'write')) return;
 
         // entry 確認 / web 以外への送信は弾く
         const entry = getSessionEntry(appSessionId);
@@ -884,13 +1250,25 @@ export function startWebChat(options: WebChatOptions): void {
             'Content-Type': 'text/event-stream',
             'Cache-Control': 'no-cache',
             Connection: 'keep-alive',
-            'Access-Control-Allow-Origin': '*',
           });
 
           const sendSSE = (event: string, data: unknown) => {
             res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
           };
 
+          // このターン中に来た承認リクエストを chat SSE に流す
+          approvalStreams.set(ctxKey, (request) => {
+            sendSSE('approval', {
+              id: request.id,
+              sessionId: appSessionId,
+              command: request.danger.command.slice(0, APPROVAL_COMMAND_PREVIEW_MAX),
+              matches: request.danger.matches,
+              expiresAt: request.expiresAt,
+              // 承認ボタン（once / session / channel）のラベル
+              scopes: APPROVAL_SCOPES.map((scope) => ({ scope, label: approvalScopeLabel(scope) })),
+            });
+          });
+
           // ランナーから timeout 状態を chat SSE に流す。
           // PersistentRunner / RunnerManager は EventEmitter で
           // timeout-started / timeout-extended / timeout-cleared を emit するので、
@@ -1004,6 +1382,7 @@ export function startWebChat(options: WebChatOptions): void {
             const errorMsg = err instanceof Error ? err.message : String(err);
             sendSSE('error', { message: errorMsg });
           } finally {
+            approvalStreams.delete(ctxKey);
             // timeout listener を必ず解除 (res.end 前のリーク防止)
             if (runnerEmitter) {
               for (const l of timeoutListeners) {
@@ -1051,6 +1430,8 @@ export const __test__ = {
   busySessions,
   webContextKey,
   isWebSession,
+  approvalStreams,
+  sendWebApproval,
 };
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  APPROVAL_GRANTS_FILENAME,
+  DEFAULT_APPROVAL_GRANT_HOURS,
+  addApprovalGrant,
+  findApprovalGrant,
+  formatApprovalGrants,
+  parseApprovalGrantHours,
+  readApprovalGrants,
+  revokeApprovalGrants,
+} from '../src/approval-grants.js';
+
+describe('approval grants', () => {
+  let dataDir: string;
+  const now = new Date('2026-10-19T00:00:00Z');
+  const context = { platform: 'discord' as const, channelId: 'C1', appSessionId: 's1' };
+  const push = { command: 'git push origin main', matches: ['Git push'] };
+  const rmDist = { command: 'rm -rf dist', matches: ['再帰削除'] };
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'approval-grants-'));
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('channel スコープは同じチャンネルなら有効期限までセッションをまたいで効く', () => {
+    const grant = addApprovalGrant(
+      dataDir,
+      { scope: 'channel', platform: 'discord', channelId: 'C1', ...push },
+      4,
+      now
+    );
+    expect(grant.expiresAt).toBe('2026-10-19T04:00:00.000Z');
+
+    const grants = readApprovalGrants(dataDir, now);
+    expect(findApprovalGrant(grants, { ...context, appSessionId: 's2' }, push)?.id).toBe(
+      grant.id
+    );
+    expect(
+      findApprovalGrant(grants, { ...context, channelId: 'C2' }, push)
+    ).toBeUndefined();
+    expect(
+      findApprovalGrant(grants, { ...context, platform: 'slack' }, push)
+    ).toBeUndefined();
+
+    expect(readApprovalGrants(dataDir, new Date('2026-10-19T04:00:00Z'))).toEqual([]);
+  });
+
+  it('session スコープは承認時のセッションだけに効き、有効期限を持たない', () => {
+    const grant = addApprovalGrant(
+      dataDir,
+      {
+        scope: 'session',
+        platform: 'discord',
+        channelId: 'C1',
+        appSessionId: 's1',
+        ...push,
+      },
+      4,
+      now
+    );
+    expect(grant.expiresAt).toBeUndefined();
+
+    const grants = readApprovalGrants(dataDir, now);
+    expect(findApprovalGrant(grants, context, push)?.id).toBe(grant.id);
+    expect(findApprovalGrant(grants, { ...context, appSessionId: 's2' }, push)).toBe(
+      undefined
+    );
+  });
+
+  it('同じルールにマッチしても、承認したのと違うコマンドには効かない', () => {
+    addApprovalGrant(
+      dataDir,
+      { scope: 'channel', platform: 'discord', channelId: 'C1', ...rmDist },
+      4,
+      now
+    );
+    const grants = readApprovalGrants(dataDir, now);
+    expect(
+      findApprovalGrant(grants, context, { ...rmDist, command: '  rm  -rf dist ' })
+    ).toBeDefined();
+    expect(findApprovalGrant(grants, context, { ...rmDist, command: 'rm -rf ~' })).toBeUndefined();
+    expect(findApprovalGrant(grants, context, { ...rmDist, matches: [] })).toBeUndefined();
+  });
+
+  it('コマンドを持たない古い記憶には一致しない', () => {
+    writeFileSync(
+      join(dataDir, APPROVAL_GRANTS_FILENAME),
+      JSON.stringify({
+        grants: [
+          {
+            id: 'old',
+            scope: 'channel',
+            platform: 'discord',
+            channelId: 'C1',
+            matches: ['再帰削除'],
+          },
+        ],
+      })
+    );
+    const grants = readApprovalGrants(dataDir, now);
+    expect(findApprovalGrant(grants, context, rmDist)).toBeUndefined();
+  });
+
+  it('ID 指定または all で取り消す', () => {
+    const a = addApprovalGrant(
+      dataDir,
+      { scope: 'channel', platform: 'discord', channelId: 'C1', ...push },
+      4,
+      now
+    );
+    addApprovalGrant(
+      dataDir,
+      { scope: 'channel', platform: 'web', channelId: 'web-chat:s1', ...rmDist },
+      4,
+      now
+    );
+    expect(revokeApprovalGrants(dataDir, 'unknown', now)).toBe(0);
+    expect(revokeApprovalGrants(dataDir, a.id, now)).toBe(1);
+    expect(readApprovalGrants(dataDir, now).map((g) => g.matches)).toEqual([['再帰削除']]);
+    expect(revokeApprovalGrants(dataDir, 'all', now)).toBe(1);
+    expect(formatApprovalGrants(readApprovalGrants(dataDir, now))).toBe(
+      '記憶している承認はありません'
+    );
+  });
+
+  it('壊れたファイルは空扱い', () => {
+    writeFileSync(join(dataDir, APPROVAL_GRANTS_FILENAME), '{not json');
+    expect(readApprovalGrants(dataDir, now)).toEqual([]);
+  });
+
+  it('APPROVAL_GRANT_HOURS は 1〜168 の整数以外を既定値にする', () => {
+    expect(parseApprovalGrantHours(undefined)).toBe(DEFAULT_APPROVAL_GRANT_HOURS);
+    expect(parseApprovalGrantHours('24')).toBe(24);
+    expect(parseApprovalGrantHours('0')).toBe(DEFAULT_APPROVAL_GRANT_HOURS);
+    expect(parseApprovalGrantHours('1.5')).toBe(DEFAULT_APPROVAL_GRANT_HOURS);
+    expect(parseApprovalGrantHours('169')).toBe(DEFAULT_APPROVAL_GRANT_HOURS);
+  });
+});
@@ -1,9 +1,36 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
 import {
+  APPROVAL_AUDIT_FILENAME,
   detectDangerousCommand,
   detectDangerousTool,
+  findApprovalTarget,
+  getApprovalRules,
+  getPendingApproval,
+  initApprovalAudit,
+  recordPolicyDenial,
+  registerApprovalSender,
+  requestApproval,
+  resolveApproval,
   setApprovalEnabled,
+  setDefaultApprovalTarget,
+  type ApprovalAuditRecord,
+  type ApprovalRequest,
 } from '../src/approval.js';
+import { initApprovalGrants, readApprovalGrants } from '../src/approval-grants.js';
+import {
+  clearSessions,
+  ensureSession,
+  initSessions,
+  setProviderSessionId,
+} from '../src/sessions.js';
+import {
+  subscribeEvents,
+  _resetEventsConfigForTest,
+  type PublishedEvent,
+} from '../src/events-emitter.js';
 
 beforeAll(() => {
   setApprovalEnabled(true);
@@ -60,6 +87,18 @@ describe('approval', () => {
       expect(detectDangerousCommand('git status')).toBeNull();
       expect(detectDangerousCommand('git diff')).toBeNull();
     });
+
+    it('should not flag dangerous words inside arguments', () => {
+      expect(detectDangerousCommand('echo "rm -r"')).toBeNull();
+      expect(detectDangerousCommand('git log --oneline -- README.md')).toBeNull();
+    });
+
+    it('should detect variants that substring matching missed', () => {
+      expect(detectDangerousCommand('rm  -r build')!.matches).toContain('再帰的ファイル削除');
+      expect(detectDangerousCommand('/bin/rm -R build')!.matches).toContain('再帰的ファイル削除');
+      expect(detectDangerousCommand(`sh -c 'git push'`)!.matches).toContain('Git push');
+      expect(detectDangerousCommand('sudo kill -9 1234')!.matches).toContain('プロセス強制終了');
+    });
   });
 
   describe('detectDangerousTool', () => {
@@ -95,3 +134,253 @@ describe('approval', () => {
     });
   });
 });
+
+describe('approval workspace policy', () => {
+  let workdir: string;
+
+  beforeAll(() => {
+    workdir = mkdtempSync(join(tmpdir(), 'approval-workspace-'));
+    writeFileSync(
+      join(workdir, 'approval-policy.json'),
+      JSON.stringify({
+        rules: [
+          {
+            program: 'git',
+            args: ['push'],
+            flags: ['-f', '--force'],
+            decision: 'deny',
+            description: 'force push 禁止',
+          },
+          { program: 'rm', paths: ['dist/'], decision: 'allow', description: 'ビルド成果物' },
+        ],
+      })
+    );
+    setApprovalEnabled(true, workdir);
+  });
+
+  afterAll(() => {
+    setApprovalEnabled(true);
+    rmSync(workdir, { recursive: true, force: true });
+  });
+
+  it('ワークスペースのルールを既定ルールに加える', () => {
+    expect(getApprovalRules()[0].description).toBe('force push 禁止');
+    expect(detectDangerousCommand('git push --force origin main')).toEqual({
+      command: 'git push --force origin main',
+      matches: ['force push 禁止'],
+      decision: 'deny',
+    });
+    expect(detectDangerousCommand('git push origin main')?.decision).toBe('ask');
+  });
+
+  it('allow ルールは既定の ask を打ち消す', () => {
+    expect(detectDangerousCommand('rm -rf dist/')).toBeNull();
+    expect(detectDangerousCommand('rm -rf src/')?.decision).toBe('ask');
+  });
+});
+
+describe('approval queue and audit log', () => {
+  let dataDir: string;
+  const sent: ApprovalRequest[] = [];
+  const danger = { command: 'git push origin main', matches: ['Git push'] };
+  const webTarget = { platform: 'web' as const, channelId: 'web-chat:s1' };
+
+  const readAudit = (): ApprovalAuditRecord[] =>
+    readFileSync(join(dataDir, APPROVAL_AUDIT_FILENAME), 'utf-8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'approval-audit-'));
+    initApprovalAudit(dataDir);
+    initApprovalGrants(dataDir);
+    initSessions(dataDir);
+    sent.length = 0;
+    registerApprovalSender('web', (request) => {
+      sent.push(request);
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    initApprovalAudit(null);
+    initApprovalGrants(null);
+    setDefaultApprovalTarget(undefined);
+    clearSessions();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('送り先の送信関数に渡し、応答と応答者を監査ログに残す', async () => {
+    const promise = requestApproval(webTarget, danger);
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+    expect(sent[0]).toMatchObject({ target: webTarget, danger });
+    expect(getPendingApproval(sent[0].id)?.target).toEqual(webTarget);
+
+    expect(resolveApproval(sent[0].id, true, 'web:127.0.0.1')).toBe(true);
+    await expect(promise).resolves.toBe(true);
+    expect(resolveApproval(sent[0].id, false)).toBe(false);
+
+    expect(readAudit()).toEqual([
+      expect.objectContaining({
+        event: 'requested',
+        id: sent[0].id,
+        platform: 'web',
+        channelId: 'web-chat:s1',
+        command: 'git push origin main',
+        matches: ['Git push'],
+      }),
+      expect.objectContaining({ event: 'approved', id: sent[0].id, decidedBy: 'web:127.0.0.1' }),
+    ]);
+  });
+
+  it('リクエストと結果を approval.requested / approval.resolved で流す', async () => {
+    const received: PublishedEvent[] = [];
+    subscribeEvents((ev) => received.push(ev));
+    try {
+      const approved = requestApproval(webTarget, danger);
+      await vi.waitFor(() => expect(sent).toHaveLength(1));
+      resolveApproval(sent[0].id, true, 'web:127.0.0.1', 'session');
+      await approved;
+
+      vi.useFakeTimers();
+      const timedOut = requestApproval(webTarget, danger);
+      await vi.advanceTimersByTimeAsync(120_000);
+      await timedOut;
+
+      expect(received).toEqual([
+        expect.objectContaining({
+          type: 'approval.requested',
+          thread_id: 'web:s1',
+          platform: 'web',
+          approval_id: sent[0].id,
+          command: 'git push origin main',
+          matches: ['Git push'],
+        }),
+        expect.objectContaining({
+          type: 'approval.resolved',
+          approval_id: sent[0].id,
+          outcome: 'approved',
+          decided_by: 'web:127.0.0.1',
+          scope: 'session',
+        }),
+        expect.objectContaining({ type: 'approval.requested', approval_id: sent[1].id }),
+        expect.objectContaining({
+          type: 'approval.resolved',
+          approval_id: sent[1].id,
+          outcome: 'timeout',
+        }),
+      ]);
+    } finally {
+      _resetEventsConfigForTest();
+    }
+  });
+
+  it('応答が無ければ 2 分で自動拒否して timeout を記録する', async () => {
+    vi.useFakeTimers();
+    const promise = requestApproval(webTarget, danger);
+    await vi.advanceTimersByTimeAsync(120_000);
+    await expect(promise).resolves.toBe(false);
+    expect(readAudit().map((r) => r.event)).toEqual(['requested', 'timeout']);
+  });
+
+  it('送信に失敗したら拒否し、送信関数が無いプラットフォームも確認できないので拒否する', async () => {
+    registerApprovalSender('slack', () => {
+      throw new Error('channel_not_found');
+    });
+    await expect(requestApproval({ platform: 'slack', channelId: 'C1' }, danger)).resolves.toBe(
+      false
+    );
+    expect(readAudit().map((r) => r.event)).toEqual(['requested', 'send_failed']);
+
+    await expect(requestApproval({ platform: 'line', channelId: 'line:U1' }, danger)).resolves.toBe(
+      false
+    );
+    await expect(requestApproval(undefined, danger)).resolves.toBe(false);
+    expect(readAudit().map((r) => r.event)).toEqual([
+      'requested',
+      'send_failed',
+      'no_approver',
+      'no_approver',
+    ]);
+  });
+
+  it('ポリシーによる拒否も記録する', () => {
+    recordPolicyDenial(webTarget, { ...danger, decision: 'deny' });
+    expect(readAudit()).toEqual([
+      expect.objectContaining({ event: 'policy_denied', platform: 'web', command: danger.command }),
+    ]);
+    expect(readAudit()[0].id).toBeUndefined();
+  });
+
+  it('contextKey / providerSessionId から送り先を逆引きし、解決できなければ既定の送り先', () => {
+    const appId = ensureSession('web-chat:s2', { platform: 'web' });
+    setProviderSessionId(appId, 'claude-session-1');
+    expect(findApprovalTarget({ channelId: 'web-chat:s2' })).toEqual({
+      platform: 'web',
+      channelId: 'web-chat:s2',
+    });
+    expect(findApprovalTarget({ sessionId: 'claude-session-1' })).toEqual({
+      platform: 'web',
+      channelId: 'web-chat:s2',
+    });
+
+    expect(findApprovalTarget({ sessionId: 'unknown' })).toBeUndefined();
+    setDefaultApprovalTarget({ platform: 'discord', channelId: '123' });
+    expect(findApprovalTarget({ sessionId: 'unknown' })).toEqual({
+      platform: 'discord',
+      channelId: '123',
+    });
+  });
+
+  it('session / channel スコープで承認すると記憶し、以降は確認せずに許可する', async () => {
+    const appId = ensureSession('web-chat:s1', { platform: 'web' });
+    const input = { command: 'git push origin main' };
+    expect(detectDangerousTool('Bash', input, webTarget)).not.toBeNull();
+
+    const promise = requestApproval(webTarget, danger);
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+    resolveApproval(sent[0].id, true, 'web:127.0.0.1', 'session');
+    await expect(promise).resolves.toBe(true);
+
+    const [grant] = readApprovalGrants(dataDir);
+    expect(grant).toMatchObject({
+      scope: 'session',
+      platform: 'web',
+      channelId: 'web-chat:s1',
+      appSessionId: appId,
+      command: 'git push origin main',
+      matches: ['Git push'],
+      grantedBy: 'web:127.0.0.1',
+    });
+
+    expect(detectDangerousTool('Bash', input, webTarget)).toBeNull();
+    // 同じルールでも別のコマンドには効かない
+    expect(
+      detectDangerousTool('Bash', { command: 'git push --force origin main' }, webTarget)
+    ).not.toBeNull();
+    // 送り先が分からない・別チャンネルでは効かない
+    expect(detectDangerousTool('Bash', input)).not.toBeNull();
+    expect(
+      detectDangerousTool('Bash', input, { platform: 'web', channelId: 'web-chat:other' })
+    ).not.toBeNull();
+
+    expect(readAudit().map((r) => r.event)).toEqual(['requested', 'approved', 'granted']);
+    expect(readAudit()[1]).toMatchObject({ scope: 'session', grantId: grant.id });
+    expect(readAudit()[2]).toMatchObject({ grantId: grant.id, decidedBy: 'web:127.0.0.1' });
+  });
+
+  it('拒否や once の承認は記憶しない', async () => {
+    const first = requestApproval(webTarget, danger);
+    await vi.waitFor(() => expect(sent).toHaveLength(1));
+    resolveApproval(sent[0].id, false, 'web:127.0.0.1', 'channel');
+    await expect(first).resolves.toBe(false);
+
+    const second = requestApproval(webTarget, danger);
+    await vi.waitFor(() => expect(sent).toHaveLength(2));
+    resolveApproval(sent[1].id, true, 'web:127.0.0.1');
+    await expect(second).resolves.toBe(true);
+
+    expect(readApprovalGrants(dataDir)).toEqual([]);
+  });
+});
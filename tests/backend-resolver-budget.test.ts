@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BackendResolver } from '../src/backend-resolver.js';
+import { initTokenUsage, recordTokenUsage } from '../src/token-usage.js';
+import type { Config } from '../src/config.js';
+
+function makeConfig(): Config {
+  return {
+    discord: {
+      enabled: false,
+      autoReplyChannels: [],
+      replyInThread: false,
+      streaming: false,
+      showThinking: false,
+      tagOnlyAutoReply: false,
+      autoReplyOverrides: new Map(),
+      bridge: { enabled: false },
+      respondToBots: [],
+      respondToBotsEnabled: false,
+      respondToBotsMaxConsecutive: 3,
+      allowRespondToBotsCommand: true,
+      allowLlmModeCommand: true,
+    },
+    slack: {
+      enabled: false,
+      autoReplyChannels: [],
+      replyInThread: false,
+      streaming: false,
+      showThinking: false,
+      tagOnlyAutoReply: false,
+      autoReplyOverrides: new Map(),
+    },
+    web: { enabled: false, port: 0 },
+    persistent: false,
+    transcriptDir: '/tmp',
+    sessionsPath: '/tmp/sessions.json',
+    schedulerPath: '/tmp/schedules.json',
+    scheduler: { enabled: false, intervalMs: 60_000 },
+    workdir: '/tmp',
+    skipPermissions: false,
+    agent: {
+      backend: 'claude-code',
+      config: {},
+      allowedBackends: ['local-llm', 'claude-code'],
+    },
+  } as unknown as Config;
+}
+
+describe('BackendResolver checkBudget', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+  const now = new Date(2026, 9, 19, 12, 0, 0);
+  const claude = { backend: 'claude-code' as const };
+
+  /** ch1 で claude-code のターンを n 回記録する */
+  const spend = (n: number, inputTokens = 1000, channelId = 'ch1') => {
+    for (let i = 0; i < n; i++) {
+      recordTokenUsage({ backend: 'claude-code', channelId, inputTokens, outputTokens: 100 }, now);
+    }
+  };
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'br-budget-'));
+    writeFileSync(join(tmpDir, '.env'), '# test env\n');
+    originalCwd = process.cwd();
+    process.chdir(tmpDir);
+    initTokenUsage(tmpDir, now);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    rmSync(tmpDir, { recursive: true, force: true });
+    delete process.env.CHANNEL_OVERRIDES;
+    delete process.env.DAILY_BUDGET;
+    vi.restoreAllMocks();
+  });
+
+  it('予算が無ければ常に allow', () => {
+    spend(3);
+    expect(new BackendResolver(makeConfig()).checkBudget('ch1', claude, now)).toEqual({
+      action: 'allow',
+    });
+  });
+
+  it('soft 到達は 1 日 1 回だけ警告する', () => {
+    process.env.CHANNEL_OVERRIDES = JSON.stringify({ ch1: { budget: { softTurns: 2 } } });
+    const resolver = new BackendResolver(makeConfig());
+    spend(1);
+    expect(resolver.checkBudget('ch1', claude, now).action).toBe('allow');
+    expect(resolver.checkBudget('ch1', claude, now)).toEqual({ action: 'allow' });
+
+    spend(1);
+    const first = resolver.checkBudget('ch1', claude, now);
+    expect(first).toEqual({
+      action: 'allow',
+      notice: '⚠️ チャンネルの日次予算の警告ライン (ターン 2/2) を超えました',
+    });
+    expect(resolver.checkBudget('ch1', claude, now)).toEqual({ action: 'allow' });
+
+    // 翌日は数え直し
+    const tomorrow = new Date(2026, 9, 20, 9, 0, 0);
+    expect(resolver.checkBudget('ch1', claude, tomorrow)).toEqual({ action: 'allow' });
+  });
+
+  it('hard 到達で fallback があれば振り替え、振り替え先では通す', () => {
+    process.env.CHANNEL_OVERRIDES = JSON.stringify({
+      ch1: {
+        backend: 'claude-code',
+        budget: { hardTokens: 2000, fallback: { backend: 'local-llm', model: 'qwen3:8b' } },
+      },
+    });
+    const resolver = new BackendResolver(makeConfig());
+    spend(2);
+    const decision = resolver.checkBudget('ch1', claude, now);
+    expect(decision).toMatchObject({
+      action: 'downgrade',
+      resolved: { backend: 'local-llm', model: 'qwen3:8b' },
+    });
+    expect(decision.action === 'downgrade' && decision.notice).toContain('トークン 2,200/2,000');
+
+    // 2 回目以降は notice なしで振り替え
+    expect(resolver.checkBudget('ch1', claude, now)).toMatchObject({
+      action: 'downgrade',
+      notice: undefined,
+    });
+    expect(resolver.checkBudget('ch1', { backend: 'local-llm' }, now)).toEqual({
+      action: 'allow',
+    });
+  });
+
+  it('cache 読み込み分はトークンに数えない', () => {
+    process.env.CHANNEL_OVERRIDES = JSON.stringify({ ch1: { budget: { hardTokens: 2000 } } });
+    const resolver = new BackendResolver(makeConfig());
+    recordTokenUsage(
+      {
+        backend: 'claude-code',
+        channelId: 'ch1',
+        inputTokens: 10_000,
+        cacheReadTokens: 9_500,
+        outputTokens: 100,
+      },
+      now
+    );
+    expect(resolver.checkBudget('ch1', claude, now).action).toBe('allow');
+  });
+
+  it('DAILY_BUDGET の hard 到達は fallback が無ければ全チャンネルで拒否する', () => {
+    process.env.DAILY_BUDGET = JSON.stringify({ hardTurns: 3 });
+    const resolver = new BackendResolver(makeConfig());
+    spend(2, 10, 'ch1');
+    spend(1, 10, 'ch2');
+    expect(resolver.checkBudget('ch3', claude, now)).toEqual({
+      action: 'refuse',
+      reason: '全体の日次予算 (ターン 3/3)',
+    });
+  });
+
+  it('/backend reset でもチャンネル予算は残る', () => {
+    process.env.CHANNEL_OVERRIDES = JSON.stringify({
+      ch1: { backend: 'codex', budget: { hardTurns: 1 } },
+    });
+    const resolver = new BackendResolver(makeConfig());
+    resolver.deleteChannelOverride('ch1');
+    expect(resolver.getChannelOverride('ch1')).toEqual({ budget: { hardTurns: 1 } });
+    resolver.setChannelOverride('ch1', { backend: 'codex' });
+    expect(resolver.getChannelOverride('ch1')?.budget).toEqual({ hardTurns: 1 });
+  });
+});
@@ -155,4 +155,73 @@ describe('runWithBubbleEvents', () => {
     ).rejects.toThrow('boom');
     expect(collected.filter((e) => e.type === 'agent.error')).toHaveLength(1);
   });
+
+  it('publishes tool.started / tool.finished from onToolUse / onToolResult', async () => {
+    const { runWithBubbleEvents } = await import('../src/bubble-events-runner.js');
+    const results: Array<[string, boolean]> = [];
+    const runner = new FakeRunner(async (_p, cb) => {
+      cb.onToolUse?.('Bash', { command: 'curl https://x.test/?token=abc', timeout: 10 });
+      cb.onToolUse?.('Read', { file_path: '/tmp/a.txt' });
+      cb.onToolResult?.('Read', true);
+      cb.onToolResult?.('Bash', false);
+      const result = { result: 'done', sessionId: 's' };
+      cb.onComplete?.(result);
+      return result;
+    });
+    await runWithBubbleEvents(
+      runner,
+      'hi',
+      { threadId: 'web:s1', turnId: 'u1', platform: 'web' },
+      { onToolResult: (name, success) => results.push([name, success]) }
+    );
+    expect(collected.map((e) => e.type)).toEqual([
+      'turn.started',
+      'tool.started',
+      'tool.started',
+      'tool.finished',
+      'tool.finished',
+      'turn.complete',
+    ]);
+    const started = collected.find((e) => e.type === 'tool.started');
+    expect(started?.tool_name).toBe('Bash');
+    expect(started?.args_summary).toBe('curl https://x.test/?token=[REDACTED_SECRET]');
+    expect(started?.turn_id).toBe('u1');
+    const finished = collected.filter((e) => e.type === 'tool.finished');
+    expect(finished.map((e) => [e.tool_name, e.success])).toEqual([
+      ['Read', true],
+      ['Bash', false],
+    ]);
+    expect(typeof finished[0].duration_ms).toBe('number');
+    expect(results).toEqual([
+      ['Read', true],
+      ['Bash', false],
+    ]);
+  });
+
+  it('finishes tools without a result at the end of the turn with the turn outcome', async () => {
+    const { runWithBubbleEvents } = await import('../src/bubble-events-runner.js');
+    const ok = new FakeRunner(async (_p, cb) => {
+      cb.onToolUse?.('Grep', { pattern: 'foo' });
+      const result = { result: 'done', sessionId: 's' };
+      cb.onComplete?.(result);
+      return result;
+    });
+    await runWithBubbleEvents(ok, 'hi', { threadId: 't', turnId: 'u1', platform: 'web' }, {});
+    const failing = new FakeRunner(async (_p, cb) => {
+      cb.onToolUse?.('Grep', { pattern: 'bar' });
+      throw new Error('boom');
+    });
+    await expect(
+      runWithBubbleEvents(failing, 'hi', { threadId: 't', turnId: 'u2', platform: 'web' }, {})
+    ).rejects.toThrow('boom');
+
+    const finished = collected.filter((e) => e.type === 'tool.finished');
+    expect(finished.map((e) => [e.turn_id, e.args_summary, e.success])).toEqual([
+      ['u1', 'foo', true],
+      ['u2', 'bar', false],
+    ]);
+    // turn.complete より前に閉じる
+    const types = collected.map((e) => e.type);
+    expect(types.indexOf('tool.finished')).toBeLessThan(types.indexOf('turn.complete'));
+  });
 });
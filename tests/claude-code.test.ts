@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ClaudeCodeRunner } from '../src/claude-code.js';
+import type { RunOptions } from '../src/agent-runner.js';
 
 // child_process をモック
 vi.mock('child_process', () => {
@@ -50,11 +51,7 @@ describe('ClaudeCodeRunner args', () => {
   /**
    * spawn に渡された引数を取得するヘルパー
    */
-  async function getSpawnArgs(
-    runner: ClaudeCodeRunner,
-    prompt: string,
-    options?: { sessionId?: string; skipPermissions?: boolean }
-  ) {
+  async function getSpawnArgs(runner: ClaudeCodeRunner, prompt: string, options?: RunOptions) {
     const { spawn, getMockProcess } = await import('child_process');
 
     const runPromise = runner.run(prompt, options);
@@ -130,6 +127,35 @@ describe('ClaudeCodeRunner args', () => {
     expect(args[modelIndex + 1]).toBe('claude-sonnet-4-5-20250929');
   });
 
+  it('should restrict tools with --tools and pass patterns to --allowedTools for skills', async () => {
+    const runner = new ClaudeCodeRunner({ skipPermissions: true });
+    const { args } = await getSpawnArgs(runner, 'hello', {
+      skill: { name: 'deploy', allowedTools: ['Bash(git *)', 'Bash(npm test)', 'Read'] },
+    });
+
+    expect(args[args.indexOf('--tools') + 1]).toBe('Bash,Read');
+    expect(args[args.indexOf('--allowedTools') + 1]).toBe('Bash(git *),Bash(npm test),Read');
+    // パターンは権限確認を飛ばすと効かない
+    expect(args).not.toContain('--dangerously-skip-permissions');
+  });
+
+  it('should keep skipping permissions for skills without tool patterns', async () => {
+    const runner = new ClaudeCodeRunner({ skipPermissions: true });
+    const { args } = await getSpawnArgs(runner, 'hello', {
+      skill: { name: 'review', allowedTools: ['Read', 'Grep'] },
+    });
+
+    expect(args).toContain('--dangerously-skip-permissions');
+    expect(args).not.toContain('--allowedTools');
+  });
+
+  it('should not include --tools without a skill', async () => {
+    const runner = new ClaudeCodeRunner({});
+    const { args } = await getSpawnArgs(runner, 'hello');
+
+    expect(args).not.toContain('--tools');
+  });
+
   it('should include --append-system-prompt', async () => {
     const runner = new ClaudeCodeRunner({});
     const { args } = await getSpawnArgs(runner, 'hello');
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import { EnvValidator, validateChannelOverrides } from '../src/config-validate.js';
+import { parseBudgetEnv, validateBudget } from '../src/config-validate.js';
 
 describe('EnvValidator', () => {
   afterEach(() => {
@@ -166,6 +167,16 @@ describe('validateChannelOverrides', () => {
     expect(issues).toHaveLength(2);
   });
 
+  it('localLlmSandbox は off / bwrap / unshare のみ受け付ける', () => {
+    const raw = JSON.stringify({
+      '111': { backend: 'local-llm', localLlmSandbox: 'bwrap' },
+      '222': { backend: 'local-llm', localLlmSandbox: 'docker' },
+    });
+    const { overrides, issues } = validateChannelOverrides(raw);
+    expect(overrides).toEqual({ '111': { backend: 'local-llm', localLlmSandbox: 'bwrap' } });
+    expect(issues[0].message).toContain('localLlmSandbox');
+  });
+
   it('チャンネル ID が数値でない場合は警告するが読み込む', () => {
     const raw = JSON.stringify({ 'not-a-channel': { backend: 'codex' } });
     const { overrides, issues } = validateChannelOverrides(raw);
@@ -180,4 +191,52 @@ describe('validateChannelOverrides', () => {
     expect(overrides).toEqual({ '222': { backend: 'codex' } });
     expect(issues).toHaveLength(1);
   });
+
+  it('budget 付きのエントリを読み込み、不正な budget はエントリごと除外', () => {
+    const raw = JSON.stringify({
+      '111': { backend: 'claude-code', budget: { softTokens: 100, hardTokens: 200 } },
+      '222': { backend: 'codex', budget: { hardTurns: 0 } },
+    });
+    const { overrides, issues } = validateChannelOverrides(raw);
+    expect(overrides).toEqual({
+      '111': { backend: 'claude-code', budget: { softTokens: 100, hardTokens: 200 } },
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain('budget.hardTurns');
+  });
+});
+
+describe('validateBudget', () => {
+  it('上限と振り替え先を読み込む', () => {
+    expect(
+      validateBudget({
+        softTurns: 50,
+        hardTurns: 100,
+        fallback: { backend: 'local-llm', model: 'qwen3:8b' },
+      })
+    ).toEqual({
+      budget: {
+        softTurns: 50,
+        hardTurns: 100,
+        fallback: { backend: 'local-llm', model: 'qwen3:8b' },
+      },
+    });
+  });
+
+  it.each([
+    [{}, 'いずれかが必要'],
+    [{ hardTokens: 1.5 }, '1 以上の整数'],
+    [{ softTokens: 300, hardTokens: 200 }, 'hardTokens 以下'],
+    [{ hardToken: 100 }, "キー 'hardToken' は不明"],
+    [{ hardTokens: 100, fallback: { backend: 'gpt' } }, 'budget.fallback'],
+  ])('%j は拒否する', (value, message) => {
+    const { budget, error } = validateBudget(value);
+    expect(budget).toBeNull();
+    expect(error).toContain(message);
+  });
+
+  it('parseBudgetEnv は壊れた JSON をエラーにする', () => {
+    expect(parseBudgetEnv('{"hardTokens": 1000}').budget).toEqual({ hardTokens: 1000 });
+    expect(parseBudgetEnv('{oops').budget).toBeNull();
+  });
 });
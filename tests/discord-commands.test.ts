@@ -164,6 +164,42 @@ describe('Discord Commands', () => {
     });
   });
 
+  describe('skill commands', () => {
+    it('registers one typed option per declared argument, required first', () => {
+      const skills: Skill[] = [
+        {
+          name: 'deploy',
+          description: 'Deploy',
+          path: '/tmp/deploy',
+          arguments: [
+            { name: 'dry-run', type: 'boolean', required: false },
+            { name: 'env', type: 'string', required: true, choices: ['staging', 'production'] },
+            { name: 'retries', type: 'number', required: false },
+          ],
+        },
+        { name: 'notes', description: 'Notes', path: '/tmp/notes' },
+      ];
+
+      const commands = buildSlashCommands({ discord: {} } as Config, skills);
+      const deploy = commands.find((cmd) => cmd.name === 'deploy') as {
+        options: Array<{ name: string; type: number; required?: boolean; choices?: unknown[] }>;
+      };
+      const notes = commands.find((cmd) => cmd.name === 'notes') as { options: { name: string }[] };
+      const skill = commands.find((cmd) => cmd.name === 'skill') as {
+        options: Array<{ name: string; autocomplete?: boolean }>;
+      };
+
+      expect(deploy.options.map((o) => [o.name, o.type, o.required])).toEqual([
+        ['env', 3, true],
+        ['dry-run', 5, false],
+        ['retries', 10, false],
+      ]);
+      expect(deploy.options[0].choices).toHaveLength(2);
+      expect(notes.options.map((o) => o.name)).toEqual(['args']);
+      expect(skill.options.find((o) => o.name === 'args')?.autocomplete).toBe(true);
+    });
+  });
+
   describe('/backend command choices', () => {
     it('registers only allowed backend choices', () => {
       const config = {
@@ -37,3 +37,27 @@ describe('DynamicRunnerManager platform routing', () => {
     expect((runner as { platform?: string }).platform).toBe('web');
   });
 });
+
+describe('DynamicRunnerManager skill runs', () => {
+  it('refuses allowed-tools on backends that cannot restrict tools', async () => {
+    const config = makeConfig('discord');
+    const manager = new DynamicRunnerManager(config, new BackendResolver(config));
+
+    await expect(
+      manager.run('hi', {
+        channelId: 'C1',
+        skill: { name: 'deploy', backend: 'codex', allowedTools: ['Read'] },
+      })
+    ).rejects.toThrow(/allowed-tools/);
+  });
+
+  it('refuses a skill backend outside ALLOWED_BACKENDS', async () => {
+    const config = makeConfig('discord');
+    config.agent.allowedBackends = ['local-llm'];
+    const manager = new DynamicRunnerManager(config, new BackendResolver(config));
+
+    await expect(
+      manager.run('hi', { channelId: 'C1', skill: { name: 'deploy', backend: 'claude-code' } })
+    ).rejects.toThrow(/not allowed/);
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import {
+  BudgetExceededError,
+  HookBlockedError,
   classifyAgentError,
   formatAgentErrorForUser,
   shouldSendErrorFollowUp,
@@ -15,6 +17,8 @@ describe('classifyAgentError', () => {
     ['Circuit breaker OPEN. Rejecting all queued requests.', 'circuit-breaker'],
     ["Codex CLI exited with code 1: You've hit your usage limit. Upgrade to Pro", 'usage-limit'],
     ["Error: You've hit your limit · resets 1pm (Asia/Tokyo)", 'usage-limit'],
+    ['Daily budget exceeded: チャンネルの日次予算 (ターン 10/10)', 'budget'],
+    ['Blocked by hook (UserPromptSubmit): 営業時間外です', 'hook-blocked'],
     ['Something completely different', 'unknown'],
   ])('%s → %s', (message, expected) => {
     expect(classifyAgentError(new Error(message))).toBe(expected);
@@ -43,6 +47,18 @@ describe('formatAgentErrorForUser', () => {
     expect(msg).toContain('利用上限');
   });
 
+  it('日次予算の拒否は理由付きで表示', () => {
+    const msg = formatAgentErrorForUser(new BudgetExceededError('全体の日次予算 (ターン 5/5)'));
+    expect(msg).toBe(
+      '🧮 本日の予算上限に達したため実行しませんでした: 全体の日次予算 (ターン 5/5)'
+    );
+  });
+
+  it('hook による拒否は理由だけを表示', () => {
+    const msg = formatAgentErrorForUser(new HookBlockedError('UserPromptSubmit', '営業時間外です'));
+    expect(msg).toBe('🪝 hook により実行しませんでした: 営業時間外です');
+  });
+
   it('不明なエラーは 200 字に切り詰めて表示', () => {
     const long = 'x'.repeat(500);
     const msg = formatAgentErrorForUser(new Error(long));
@@ -56,6 +72,7 @@ describe('shouldSendErrorFollowUp', () => {
     ['timed out after 300000ms', false],
     ['Circuit breaker OPEN', false],
     ["You've hit your usage limit", false],
+    ['Daily budget exceeded: 全体の日次予算 (ターン 5/5)', false],
     ['Request cancelled by user', false],
     ['Process exited unexpectedly with code 143', true],
     ['Some random error', true],
@@ -1,4 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 interface ReceivedEvent {
   type: string;
@@ -9,6 +12,8 @@ interface ReceivedEvent {
   thread_label?: string;
   platform?: string;
   ts: number;
+  id: number;
+  epoch: string;
   [key: string]: unknown;
 }
 
@@ -21,6 +26,8 @@ describe('events-emitter (pull-mode subscribers)', () => {
     delete process.env.XANGI_EVENTS_ENABLED;
     delete process.env.XANGI_INSTANCE_ID;
     delete process.env.DATA_DIR;
+    delete process.env.XANGI_EVENTS_BUFFER_SIZE;
+    delete process.env.XANGI_EVENTS_PERSIST;
   });
 
   it('publishes a turn.started event with correct shape to subscribers', async () => {
@@ -232,6 +239,111 @@ describe('events-emitter (pull-mode subscribers)', () => {
     ).not.toThrow();
   });
 
+  it('assigns monotonic ids and keeps the latest XANGI_EVENTS_BUFFER_SIZE events for replay', async () => {
+    process.env.XANGI_EVENTS_BUFFER_SIZE = '3';
+    const { events, subscribeEvents, getEventsSince, getLastEventId } =
+      await import('../src/events-emitter.js');
+    const received: ReceivedEvent[] = [];
+    subscribeEvents((ev) => received.push(ev as ReceivedEvent));
+    for (const turnId of ['t1', 't2', 't3', 't4']) {
+      events.turnStarted({ threadId: 'discord:1', turnId });
+    }
+    expect(received.map((ev) => ev.id)).toEqual([1, 2, 3, 4]);
+    expect(getLastEventId()).toBe(4);
+    expect(getEventsSince(1).events.map((ev) => ev.turn_id)).toEqual(['t2', 't3', 't4']);
+    expect(getEventsSince(1).reset).toBeUndefined();
+    expect(getEventsSince(3).events.map((ev) => ev.turn_id)).toEqual(['t4']);
+    expect(getEventsSince(4)).toEqual({ events: [] });
+    // 最新より大きい ID は振り直し後とみなしてバッファ全体
+    expect(getEventsSince(99).reset).toBe('epoch');
+    expect(getEventsSince(99).events).toHaveLength(3);
+  });
+
+  it('signals a gap when the events right after afterId fell out of the buffer', async () => {
+    process.env.XANGI_EVENTS_BUFFER_SIZE = '2';
+    const { events, getEventsSince } = await import('../src/events-emitter.js');
+    for (const turnId of ['t1', 't2', 't3', 't4']) {
+      events.turnStarted({ threadId: 'discord:1', turnId });
+    }
+    const replay = getEventsSince(1);
+    expect(replay.reset).toBe('gap');
+    expect(replay.events.map((ev) => ev.turn_id)).toEqual(['t3', 't4']);
+    expect(getEventsSince(2).reset).toBeUndefined();
+  });
+
+  it('changes the epoch when ids restart without persistence', async () => {
+    const first = await import('../src/events-emitter.js');
+    first.events.turnStarted({ threadId: 'discord:1', turnId: 'before' });
+    first.events.turnStarted({ threadId: 'discord:1', turnId: 'before-2' });
+    const oldEpoch = first.getEventsEpoch();
+
+    vi.resetModules();
+    await new Promise((r) => setTimeout(r, 5));
+    const second = await import('../src/events-emitter.js');
+    for (const turnId of ['after-1', 'after-2', 'after-3']) {
+      second.events.turnStarted({ threadId: 'discord:1', turnId });
+    }
+    expect(second.getEventsEpoch()).not.toBe(oldEpoch);
+    // ID 2 は今の世代にもあるが、別の世代の ID なのでバッファ全体を返す
+    const replay = second.getEventsSince(2, oldEpoch);
+    expect(replay.reset).toBe('epoch');
+    expect(replay.events.map((ev) => ev.turn_id)).toEqual(['after-1', 'after-2', 'after-3']);
+    expect(second.getEventsSince(2, second.getEventsEpoch())).toMatchObject({
+      events: [{ turn_id: 'after-3' }],
+    });
+  });
+
+  it('buffers events even with zero subscribers', async () => {
+    const { events, getEventsSince } = await import('../src/events-emitter.js');
+    events.turnStarted({ threadId: 'discord:1', turnId: 'missed' });
+    expect(getEventsSince(0).events.map((ev) => ev.turn_id)).toEqual(['missed']);
+  });
+
+  it('persists events to DATA_DIR/events.jsonl and continues ids after a restart', async () => {
+    const dataDir = mkdtempSync(join(tmpdir(), 'events-persist-'));
+    try {
+      process.env.DATA_DIR = dataDir;
+      process.env.XANGI_EVENTS_PERSIST = 'true';
+      process.env.XANGI_EVENTS_BUFFER_SIZE = '2';
+      const first = await import('../src/events-emitter.js');
+      for (const turnId of ['t1', 't2', 't3']) {
+        first.events.turnStarted({ threadId: 'discord:1', turnId });
+      }
+      // 追記は publish を止めないよう後回しになる
+      expect(existsSync(join(dataDir, 'events.jsonl'))).toBe(false);
+      await first.flushPersistedEvents();
+      const lines = readFileSync(join(dataDir, 'events.jsonl'), 'utf-8').trim().split('\n');
+      expect(lines.length).toBeLessThanOrEqual(4);
+
+      vi.resetModules();
+      const second = await import('../src/events-emitter.js');
+      expect(second.getLastEventId()).toBe(3);
+      expect(second.getEventsEpoch()).toBe(first.getEventsEpoch());
+      expect(second.getEventsSince(1).events.map((ev) => ev.turn_id)).toEqual(['t2', 't3']);
+      second.events.turnStarted({ threadId: 'discord:1', turnId: 't4' });
+      expect(second.getEventsSince(3, first.getEventsEpoch()).events.map((ev) => ev.id)).toEqual([
+        4,
+      ]);
+      await second.flushPersistedEvents();
+      expect(readFileSync(join(dataDir, 'events.jsonl'), 'utf-8')).toContain('"turn_id":"t4"');
+    } finally {
+      rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  it('summarizeToolArgs picks the main argument and hides secrets', async () => {
+    const { summarizeToolArgs, TOOL_ARGS_SUMMARY_MAX } = await import('../src/events-emitter.js');
+    expect(summarizeToolArgs({ command: 'git status\n  --short' })).toBe('git status --short');
+    expect(summarizeToolArgs({ file_path: '/tmp/a.txt', content: 'x' })).toBe('/tmp/a.txt');
+    expect(summarizeToolArgs({ api_key: 'sk-123', name: 'x' })).toBe(
+      '{"api_key":"[REDACTED_SECRET]","name":"x"}'
+    );
+    expect(summarizeToolArgs({ url: 'https://x.test/?access_token=abc&q=1' })).toBe(
+      'https://x.test/?access_token=[REDACTED_SECRET]&q=1'
+    );
+    expect(summarizeToolArgs({ command: 'a'.repeat(500) })).toHaveLength(TOOL_ARGS_SUMMARY_MAX + 1);
+  });
+
   it('threadIdFor / turnIdFor helpers', async () => {
     const mod = await import('../src/events-emitter.js');
     expect(mod.threadIdFor('discord', '123')).toBe('discord:123');
@@ -4,6 +4,8 @@
  * - 接続直後に `event: ready` が流れること
  * - 以後 events.turnStarted などを呼ぶと SSE で `data: ...` が届くこと
  * - クライアント切断で subscriber が解除されること (subscriber count = 0)
+ * - Last-Event-ID / ?since= で取りこぼしたイベントが再送されること
+ * - 別の世代の ID / バッファから溢れた ID では `event: reset` が流れること
  * - XANGI_EVENTS_ENABLED=false で 503 が返ること
  * - パス / メソッド違いは false を返してハンドラが素通しすること
  */
@@ -12,6 +14,7 @@ import { createServer, request, type Server } from 'http';
 import type { AddressInfo } from 'net';
 
 interface SseFrame {
+  id?: string;
   event?: string;
   data?: string;
 }
@@ -27,7 +30,8 @@ function parseFrames(buf: string): { frames: SseFrame[]; rest: string } {
     if (block.startsWith(':')) continue; // コメント行 (keepalive 等)
     const frame: SseFrame = {};
     for (const line of block.split('\n')) {
-      if (line.startsWith('event: ')) frame.event = line.slice(7);
+      if (line.startsWith('id: ')) frame.id = line.slice(4);
+      else if (line.startsWith('event: ')) frame.event = line.slice(7);
       else if (line.startsWith('data: ')) frame.data = line.slice(6);
     }
     frames.push(frame);
@@ -44,7 +48,7 @@ interface SseClient {
   closed: Promise<void>;
 }
 
-async function connectSse(url: string): Promise<SseClient> {
+async function connectSse(url: string, headers: Record<string, string> = {}): Promise<SseClient> {
   const u = new URL(url);
   return new Promise<SseClient>((resolve, reject) => {
     const req = request(
@@ -53,6 +57,7 @@ async function connectSse(url: string): Promise<SseClient> {
         port: parseInt(u.port, 10),
         path: u.pathname + u.search,
         method: 'GET',
+        headers,
       },
       (res) => {
         if (res.statusCode !== 200) {
@@ -217,6 +222,82 @@ describe('events-stream-server', () => {
     }
   });
 
+  it('replays buffered events after Last-Event-ID (or ?since=) before live ones', async () => {
+    const { events, getEventsEpoch } = await import('../src/events-emitter.js');
+    for (const turnId of ['r1', 'r2', 'r3']) {
+      events.turnStarted({ threadId: 'web:s1', turnId, platform: 'web' });
+    }
+    const epoch = getEventsEpoch();
+
+    const client = await connectSse(`${testServer.url}/api/events/stream`, {
+      'Last-Event-ID': `${epoch}-1`,
+    });
+    const bySince = await connectSse(`${testServer.url}/api/events/stream?since=2`);
+    try {
+      await client.waitForFrames((f) => f.some((x) => x.event === 'ready'));
+      const ready = JSON.parse(client.frames.find((f) => f.event === 'ready')!.data!);
+      expect(ready).toMatchObject({ epoch, last_event_id: 3 });
+      events.turnStarted({ threadId: 'web:s1', turnId: 'r4', platform: 'web' });
+
+      await client.waitForFrames((f) => f.filter((x) => x.id).length >= 3);
+      const replayed = client.frames.filter((f) => f.id);
+      expect(replayed.map((f) => f.id)).toEqual([`${epoch}-2`, `${epoch}-3`, `${epoch}-4`]);
+      expect(replayed.map((f) => JSON.parse(f.data!).turn_id)).toEqual(['r2', 'r3', 'r4']);
+      expect(client.frames.some((f) => f.event === 'reset')).toBe(false);
+
+      await bySince.waitForFrames((f) => f.filter((x) => x.id).length >= 2);
+      expect(bySince.frames.filter((f) => f.id).map((f) => f.id)).toEqual([
+        `${epoch}-3`,
+        `${epoch}-4`,
+      ]);
+    } finally {
+      client.close();
+      bySince.close();
+      await Promise.all([client.closed, bySince.closed]);
+    }
+  });
+
+  it('sends a reset before replaying when Last-Event-ID is from another epoch', async () => {
+    const { events, getEventsEpoch } = await import('../src/events-emitter.js');
+    for (const turnId of ['n1', 'n2']) {
+      events.turnStarted({ threadId: 'web:s1', turnId, platform: 'web' });
+    }
+
+    const client = await connectSse(`${testServer.url}/api/events/stream`, {
+      'Last-Event-ID': 'oldboot-1',
+    });
+    try {
+      await client.waitForFrames((f) => f.filter((x) => x.id).length >= 2);
+      const [ready, reset, ...replayed] = client.frames;
+      expect(ready.event).toBe('ready');
+      expect(reset.event).toBe('reset');
+      expect(JSON.parse(reset.data!)).toEqual({
+        reason: 'epoch',
+        epoch: getEventsEpoch(),
+        last_event_id: 2,
+      });
+      expect(replayed.map((f) => JSON.parse(f.data!).turn_id)).toEqual(['n1', 'n2']);
+    } finally {
+      client.close();
+      await client.closed;
+    }
+  });
+
+  it('does not replay anything without Last-Event-ID / since', async () => {
+    const { events } = await import('../src/events-emitter.js');
+    events.turnStarted({ threadId: 'web:s1', turnId: 'old', platform: 'web' });
+    const client = await connectSse(`${testServer.url}/api/events/stream`);
+    try {
+      await client.waitForFrames((f) => f.some((x) => x.event === 'ready'));
+      events.turnStarted({ threadId: 'web:s1', turnId: 'new', platform: 'web' });
+      await client.waitForFrames((f) => f.some((x) => x.data?.includes('"new"')));
+      expect(client.frames.some((x) => x.data?.includes('"old"'))).toBe(false);
+    } finally {
+      client.close();
+      await client.closed;
+    }
+  });
+
   it('broadcasts events to multiple connected clients (fan-out)', async () => {
     const a = await connectSse(`${testServer.url}/api/events/stream`);
     const b = await connectSse(`${testServer.url}/api/events/stream`);
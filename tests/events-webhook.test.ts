@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { _resetEventsConfigForTest, events } from '../src/events-emitter.js';
+import {
+  getEventsWebhookConfig,
+  signWebhookBody,
+  startEventsWebhook,
+  verifyWebhookSignature,
+  type EventsWebhookConfig,
+  type EventsWebhookDispatcher,
+} from '../src/events-webhook.js';
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/** 受け取った POST を記録し、statuses を順に返す（尽きたら 200）webhook の受け手 */
+async function startReceiver(statuses: number[] = []) {
+  const received: Received[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(statuses.shift() ?? 200);
+      res.end();
+    });
+  });
+  await new Promise<void>((r) => server.listen(0, '127.0.0.1', () => r()));
+  const { port } = server.address() as { port: number };
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    close: () => new Promise<void>((r) => server.close(() => r())),
+  };
+}
+
+async function waitFor(cond: () => boolean, timeoutMs = 3000): Promise<void> {
+  const start = Date.now();
+  while (!cond()) {
+    if (Date.now() - start > timeoutMs) throw new Error('timed out waiting for condition');
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+function turnStarted(threadId: string, turnId: string) {
+  events.turnStarted({ threadId, turnId, platform: 'discord', userText: 'hi' });
+}
+
+describe('events-webhook', () => {
+  let dataDir: string;
+  let dispatcher: EventsWebhookDispatcher | null;
+  let receiver: Awaited<ReturnType<typeof startReceiver>> | null;
+
+  const configFor = (overrides: Partial<EventsWebhookConfig> = {}): EventsWebhookConfig => ({
+    urls: receiver ? [receiver.url] : [],
+    secret: 'test-secret',
+    types: [],
+    threads: [],
+    batchSize: 20,
+    flushMs: 20,
+    maxRetries: 3,
+    retryBaseMs: 10,
+    deadLetterPath: join(dataDir, 'events-webhook-dead-letter.jsonl'),
+    ...overrides,
+  });
+
+  const deadLetters = () =>
+    existsSync(join(dataDir, 'events-webhook-dead-letter.jsonl'))
+      ? readFileSync(join(dataDir, 'events-webhook-dead-letter.jsonl'), 'utf-8')
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line))
+      : [];
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'xangi-webhook-'));
+    process.env.XANGI_INSTANCE_ID = 'xangi-test';
+    dispatcher = null;
+    receiver = null;
+  });
+
+  afterEach(async () => {
+    dispatcher?.stop();
+    await receiver?.close();
+    delete process.env.XANGI_INSTANCE_ID;
+    _resetEventsConfigForTest();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('reads the config from the environment', () => {
+    const cfg = getEventsWebhookConfig(dataDir, {
+      XANGI_EVENTS_WEBHOOK_URLS: 'https://a.example/hook, ftp://bad, not a url',
+      XANGI_EVENTS_WEBHOOK_SECRET: ' s3cret ',
+      XANGI_EVENTS_WEBHOOK_TYPES: 'turn.*,tool.finished',
+      XANGI_EVENTS_WEBHOOK_THREADS: 'web:*',
+      XANGI_EVENTS_WEBHOOK_BATCH_SIZE: '0',
+      XANGI_EVENTS_WEBHOOK_MAX_RETRIES: '2',
+    });
+    expect(cfg.urls).toEqual(['https://a.example/hook']);
+    expect(cfg.secret).toBe('s3cret');
+    expect(cfg.types).toEqual(['turn.*', 'tool.finished']);
+    expect(cfg.threads).toEqual(['web:*']);
+    expect(cfg.batchSize).toBe(20);
+    expect(cfg.maxRetries).toBe(2);
+    expect(cfg.deadLetterPath).toBe(join(dataDir, 'events-webhook-dead-letter.jsonl'));
+  });
+
+  it('POSTs matching events as a signed batch', async () => {
+    receiver = await startReceiver();
+    dispatcher = startEventsWebhook(configFor({ types: ['turn.*'], threads: ['discord:1'] }));
+
+    turnStarted('discord:1', 'turn-1');
+    turnStarted('discord:2', 'turn-2');
+    events.turnAborted({ threadId: 'discord:1', turnId: 'turn-1' });
+    events.toolStarted({
+      threadId: 'discord:1',
+      turnId: 'turn-1',
+      toolName: 'Bash',
+      argsSummary: 'ls',
+    });
+
+    await waitFor(() => receiver!.received.length === 1);
+    const { headers, body } = receiver!.received[0];
+    const payload = JSON.parse(body);
+    expect(payload.events.map((e: { type: string }) => e.type)).toEqual([
+      'turn.started',
+      'turn.aborted',
+    ]);
+    expect(payload.events[0].thread_id).toBe('discord:1');
+    expect(typeof payload.delivery_id).toBe('string');
+    expect(headers['content-type']).toBe('application/json');
+    expect(
+      verifyWebhookSignature(
+        'test-secret',
+        headers['x-xangi-timestamp'] as string,
+        body,
+        headers['x-xangi-signature'] as string
+      )
+    ).toBe(true);
+  });
+
+  it('sends a full batch without waiting for the flush interval', async () => {
+    receiver = await startReceiver();
+    dispatcher = startEventsWebhook(configFor({ batchSize: 2, flushMs: 60_000 }));
+
+    turnStarted('discord:1', 'turn-1');
+    turnStarted('discord:1', 'turn-2');
+    turnStarted('discord:1', 'turn-3');
+
+    await waitFor(() => receiver!.received.length === 1);
+    expect(JSON.parse(receiver!.received[0].body).events).toHaveLength(2);
+  });
+
+  it('retries failed deliveries with the same delivery id', async () => {
+    receiver = await startReceiver([503, 429]);
+    dispatcher = startEventsWebhook(configFor());
+
+    turnStarted('discord:1', 'turn-1');
+
+    await waitFor(() => receiver!.received.length === 3);
+    const ids = receiver!.received.map((r) => JSON.parse(r.body).delivery_id);
+    expect(new Set(ids).size).toBe(1);
+    expect(deadLetters()).toEqual([]);
+  });
+
+  it('dead-letters a batch after the retries run out', async () => {
+    receiver = await startReceiver([500, 500, 500]);
+    dispatcher = startEventsWebhook(configFor({ maxRetries: 2 }));
+
+    turnStarted('discord:1', 'turn-1');
+
+    await waitFor(() => deadLetters().length === 1);
+    expect(receiver!.received).toHaveLength(3);
+    const [entry] = deadLetters();
+    expect(entry.url).toBe(receiver!.url);
+    expect(entry.attempts).toBe(3);
+    expect(entry.error).toBe('HTTP 500');
+    expect(entry.events[0].turn_id).toBe('turn-1');
+  });
+
+  it('does not retry requests rejected with 4xx', async () => {
+    receiver = await startReceiver([401]);
+    dispatcher = startEventsWebhook(configFor());
+
+    turnStarted('discord:1', 'turn-1');
+
+    await waitFor(() => deadLetters().length === 1);
+    expect(receiver!.received).toHaveLength(1);
+    expect(deadLetters()[0]).toMatchObject({ attempts: 1, error: 'HTTP 401' });
+  });
+
+  it('never blocks the publisher and dead-letters pending events on stop', async () => {
+    // 応答しない受け手
+    const hanging = createServer(() => undefined);
+    await new Promise<void>((r) => hanging.listen(0, '127.0.0.1', () => r()));
+    const { port } = hanging.address() as { port: number };
+    try {
+      dispatcher = startEventsWebhook(
+        configFor({ urls: [`http://127.0.0.1:${port}/hook`], flushMs: 0, batchSize: 1 })
+      );
+      const start = Date.now();
+      for (let i = 0; i < 50; i++) turnStarted('discord:1', `turn-${i}`);
+      expect(Date.now() - start).toBeLessThan(500);
+
+      await new Promise((r) => setTimeout(r, 50));
+      dispatcher.stop();
+      await waitFor(() => deadLetters().flatMap((d) => d.events).length === 50);
+      expect(deadLetters().every((d) => d.error === 'stopped before delivery')).toBe(true);
+    } finally {
+      hanging.closeAllConnections();
+      await new Promise<void>((r) => hanging.close(() => r()));
+    }
+  });
+
+  it('rejects tampered bodies and stale timestamps', () => {
+    const now = Date.now();
+    const ts = Math.floor(now / 1000);
+    const body = '{"events":[]}';
+    const signature = signWebhookBody('secret', ts, body);
+    expect(verifyWebhookSignature('secret', ts, body, signature, { now })).toBe(true);
+    expect(verifyWebhookSignature('secret', ts, '{"events":[1]}', signature, { now })).toBe(false);
+    expect(verifyWebhookSignature('other', ts, body, signature, { now })).toBe(false);
+    expect(
+      verifyWebhookSignature('secret', ts, body, signature, { now: now + 10 * 60 * 1000 })
+    ).toBe(false);
+  });
+});
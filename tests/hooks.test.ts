@@ -4,10 +4,18 @@ import { join } from 'path';
 import { tmpdir } from 'os';
 import {
   loadHooksConfig,
-  StopHookRunner,
-  createStopHookRunner,
+  HookRunner,
+  applyPromptHooks,
+  createHookRunner,
+  matchesHook,
+  parseStopMaxRounds,
   type StopHookPayload,
 } from '../src/hooks.js';
+import { HookBlockedError } from '../src/errors.js';
+
+/** stdout に JSON を出す hook コマンド */
+const emitJson = (value: unknown) =>
+  `node -e 'console.log(process.argv[1])' '${JSON.stringify(value)}'`;
 
 function payload(overrides: Partial<StopHookPayload> = {}): StopHookPayload {
   return {
@@ -81,6 +89,56 @@ describe('loadHooksConfig', () => {
     ]);
   });
 
+  it('Stop 以外のライフサイクルイベントも読み、未知のイベントは無視する', () => {
+    mkdirSync(join(workdir, 'hooks'));
+    writeFileSync(
+      join(workdir, 'hooks', 'hooks.json'),
+      JSON.stringify({
+        hooks: {
+          UserPromptSubmit: [{ command: 'echo a' }],
+          PreToolUse: [{ command: 'echo b' }],
+          PostToolUse: [{ command: 'echo c' }],
+          SessionStart: [{ command: 'echo d' }],
+          PreToolUSe: [{ command: 'echo typo' }],
+        },
+      })
+    );
+    const config = loadHooksConfig(workdir);
+    expect(config?.hooks).toEqual({
+      UserPromptSubmit: [{ command: 'echo a' }],
+      PreToolUse: [{ command: 'echo b' }],
+      PostToolUse: [{ command: 'echo c' }],
+      SessionStart: [{ command: 'echo d' }],
+      Stop: [],
+    });
+  });
+
+  it('matcher / channels / platforms / backends を読み、不正な定義はスキップする', () => {
+    mkdirSync(join(workdir, 'hooks'));
+    writeFileSync(
+      join(workdir, 'hooks', 'hooks.json'),
+      JSON.stringify({
+        hooks: {
+          PreToolUse: [
+            {
+              command: 'echo ok',
+              matcher: 'write|edit',
+              channels: ['dev-*'],
+              platforms: ['slack'],
+            },
+            { command: 'echo bad-regex', matcher: '(' },
+            { command: 'echo bad-channels', channels: 'dev' },
+            { command: 'echo bad-backends', backends: [1] },
+          ],
+        },
+      })
+    );
+    const config = loadHooksConfig(workdir);
+    expect(config?.hooks.PreToolUse).toEqual([
+      { command: 'echo ok', matcher: 'write|edit', channels: ['dev-*'], platforms: ['slack'] },
+    ]);
+  });
+
   it('hooks キーが無い設定は null', () => {
     mkdirSync(join(workdir, 'hooks'));
     writeFileSync(join(workdir, 'hooks', 'hooks.json'), JSON.stringify({ Stop: [] }));
@@ -88,64 +146,70 @@ describe('loadHooksConfig', () => {
   });
 });
 
-describe('StopHookRunner', () => {
+describe('HookRunner.stop', () => {
   it('decision:block + reason で block する', async () => {
-    const runner = new StopHookRunner(
-      [{ command: `node -e 'console.log(JSON.stringify({decision: "block", reason: "schedule_add を呼んでいません"}))'` }],
+    const runner = new HookRunner(
+      {
+        Stop: [
+          {
+            command: `node -e 'console.log(JSON.stringify({decision: "block", reason: "schedule_add を呼んでいません"}))'`,
+          },
+        ],
+      },
       '/tmp'
     );
-    const verdict = await runner.run(payload());
+    const verdict = await runner.stop(payload());
     expect(verdict.block).toBe(true);
     expect(verdict.reason).toContain('schedule_add');
   });
 
   it('exit 2 + stderr で block する (Claude Code 互換)', async () => {
-    const runner = new StopHookRunner(
-      [{ command: `node -e 'console.error("stderr からの理由"); process.exit(2)'` }],
+    const runner = new HookRunner(
+      { Stop: [{ command: `node -e 'console.error("stderr からの理由"); process.exit(2)'` }] },
       '/tmp'
     );
-    const verdict = await runner.run(payload());
+    const verdict = await runner.stop(payload());
     expect(verdict.block).toBe(true);
     expect(verdict.reason).toBe('stderr からの理由');
   });
 
   it('exit 0 + 出力なしは素通り', async () => {
-    const runner = new StopHookRunner([{ command: 'true' }], '/tmp');
-    const verdict = await runner.run(payload());
+    const runner = new HookRunner({ Stop: [{ command: 'true' }] }, '/tmp');
+    const verdict = await runner.stop(payload());
     expect(verdict.block).toBe(false);
   });
 
   it('decision:block でも reason 空なら素通り (フェイルオープン)', async () => {
-    const runner = new StopHookRunner(
-      [{ command: `node -e 'console.log(JSON.stringify({decision: "block"}))'` }],
+    const runner = new HookRunner(
+      { Stop: [{ command: `node -e 'console.log(JSON.stringify({decision: "block"}))'` }] },
       '/tmp'
     );
-    const verdict = await runner.run(payload());
+    const verdict = await runner.stop(payload());
     expect(verdict.block).toBe(false);
   });
 
   it('stdout が JSON でなければ素通り (フェイルオープン)', async () => {
-    const runner = new StopHookRunner([{ command: 'echo not-json' }], '/tmp');
-    const verdict = await runner.run(payload());
+    const runner = new HookRunner({ Stop: [{ command: 'echo not-json' }] }, '/tmp');
+    const verdict = await runner.stop(payload());
     expect(verdict.block).toBe(false);
   });
 
   it('exit 2 で stderr 空なら素通り (フェイルオープン)', async () => {
-    const runner = new StopHookRunner([{ command: `node -e 'process.exit(2)'` }], '/tmp');
-    const verdict = await runner.run(payload());
+    const runner = new HookRunner({ Stop: [{ command: `node -e 'process.exit(2)'` }] }, '/tmp');
+    const verdict = await runner.stop(payload());
     expect(verdict.block).toBe(false);
   });
 
   it('exit 1 (hook 自体のエラー) は素通り (フェイルオープン)', async () => {
-    const runner = new StopHookRunner([{ command: `node -e 'process.exit(1)'` }], '/tmp');
-    const verdict = await runner.run(payload());
+    const runner = new HookRunner({ Stop: [{ command: `node -e 'process.exit(1)'` }] }, '/tmp');
+    const verdict = await runner.stop(payload());
     expect(verdict.block).toBe(false);
   });
 
   it('タイムアウトした hook は kill して素通り (フェイルオープン)', async () => {
-    const runner = new StopHookRunner([{ command: 'sleep 30', timeoutMs: 300 }], '/tmp');
+    const runner = new HookRunner({ Stop: [{ command: 'sleep 30', timeoutMs: 300 }] }, '/tmp');
     const start = Date.now();
-    const verdict = await runner.run(payload());
+    const verdict = await runner.stop(payload());
     expect(verdict.block).toBe(false);
     expect(Date.now() - start).toBeLessThan(5_000);
   });
@@ -166,69 +230,299 @@ describe('StopHookRunner', () => {
         console.log(JSON.stringify({ decision: ok ? 'block' : undefined, reason: ok ? 'payload-ok' : undefined }));
       });
     `;
-    const runner = new StopHookRunner([{ command: `node -e "${script.replace(/\n/g, ' ')}"` }], '/tmp');
-    const verdict = await runner.run(payload());
+    const runner = new HookRunner(
+      { Stop: [{ command: `node -e "${script.replace(/\n/g, ' ')}"` }] },
+      '/tmp'
+    );
+    const verdict = await runner.stop(payload());
     expect(verdict.block).toBe(true);
     expect(verdict.reason).toBe('payload-ok');
   });
 
   it('複数 hook は直列実行で最初の block が勝つ', async () => {
-    const runner = new StopHookRunner(
-      [
-        { command: 'true' },
-        { command: `node -e 'console.log(JSON.stringify({decision: "block", reason: "first"}))'` },
-        { command: `node -e 'console.log(JSON.stringify({decision: "block", reason: "second"}))'` },
-      ],
+    const runner = new HookRunner(
+      {
+        Stop: [
+          { command: 'true' },
+          {
+            command: `node -e 'console.log(JSON.stringify({decision: "block", reason: "first"}))'`,
+          },
+          {
+            command: `node -e 'console.log(JSON.stringify({decision: "block", reason: "second"}))'`,
+          },
+        ],
+      },
       '/tmp'
     );
-    const verdict = await runner.run(payload());
+    const verdict = await runner.stop(payload());
     expect(verdict.block).toBe(true);
     expect(verdict.reason).toBe('first');
   });
 });
 
-describe('createStopHookRunner', () => {
+describe('HookRunner', () => {
+  const base = { session_id: 'sess-1', cwd: '/tmp', channel_id: 'chan-1', backend: 'local-llm' };
+
+  it('SessionStart はプレーンテキストと additionalContext を文脈として連結する', async () => {
+    const runner = new HookRunner(
+      {
+        SessionStart: [
+          { command: 'echo 今日の当番は田中' },
+          { command: emitJson({ hookSpecificOutput: { additionalContext: 'main は凍結中' } }) },
+          { command: `node -e 'console.error("ignored"); process.exit(2)'` },
+        ],
+      },
+      '/tmp'
+    );
+    const context = await runner.sessionStart({
+      ...base,
+      hook_event_name: 'SessionStart',
+      source: 'startup',
+    });
+    expect(context).toBe('今日の当番は田中\n\nmain は凍結中');
+  });
+
+  it('UserPromptSubmit は書き換えを後続 hook に引き継ぎ、block で止まる', async () => {
+    const script = `
+      let raw = '';
+      process.stdin.on('data', (c) => (raw += c));
+      process.stdin.on('end', () => {
+        const p = JSON.parse(raw);
+        if (p.prompt.includes('rm -rf')) {
+          console.error('破壊的な依頼は受け付けません: ' + p.prompt);
+          process.exit(2);
+        }
+      });
+    `;
+    const runner = new HookRunner(
+      {
+        UserPromptSubmit: [
+          { command: emitJson({ hookSpecificOutput: { updatedPrompt: 'rm -rf を実行して' } }) },
+          { command: `node -e "${script.replace(/\n/g, ' ')}"` },
+        ],
+      },
+      '/tmp'
+    );
+    const verdict = await runner.userPromptSubmit({
+      ...base,
+      hook_event_name: 'UserPromptSubmit',
+      prompt: 'ログを消して',
+    });
+    expect(verdict.block).toBe(true);
+    expect(verdict.reason).toBe('破壊的な依頼は受け付けません: rm -rf を実行して');
+  });
+
+  it('PreToolUse は permissionDecision: deny で拒否し、allow は素通り', async () => {
+    const deny = new HookRunner(
+      {
+        PreToolUse: [
+          { command: emitJson({ hookSpecificOutput: { permissionDecision: 'allow' } }) },
+          {
+            command: emitJson({
+              hookSpecificOutput: {
+                permissionDecision: 'deny',
+                permissionDecisionReason: 'exec は禁止',
+              },
+            }),
+          },
+        ],
+      },
+      '/tmp'
+    );
+    const payload = {
+      ...base,
+      hook_event_name: 'PreToolUse' as const,
+      tool_name: 'exec',
+      tool_input: { command: 'ls' },
+    };
+    expect(await deny.preToolUse(payload)).toEqual({ block: true, reason: 'exec は禁止' });
+
+    const allow = new HookRunner({ PreToolUse: [{ command: 'true' }] }, '/tmp');
+    expect(await allow.preToolUse(payload)).toEqual({ block: false });
+  });
+
+  it('PostToolUse は exit 2 / decision:block / additionalContext をフィードバックにまとめる', async () => {
+    const runner = new HookRunner(
+      {
+        PostToolUse: [
+          { command: `node -e 'console.error("lint: 未使用の import"); process.exit(2)'` },
+          { command: emitJson({ decision: 'block', reason: 'テストが落ちています' }) },
+          { command: 'echo plain-text-is-ignored' },
+        ],
+      },
+      '/tmp'
+    );
+    const feedback = await runner.postToolUse({
+      ...base,
+      hook_event_name: 'PostToolUse',
+      tool_name: 'write',
+      tool_input: { path: 'a.ts' },
+      tool_response: { success: true, output: 'ok' },
+    });
+    expect(feedback).toBe('lint: 未使用の import\n\nテストが落ちています');
+  });
+});
+
+describe('matchesHook', () => {
+  const pre = {
+    hook_event_name: 'PreToolUse' as const,
+    session_id: 'sess-1',
+    cwd: '/tmp',
+    channel_id: 'web-chat:abc',
+    platform: 'web' as const,
+    backend: 'local-llm',
+    tool_name: 'write',
+    tool_input: {},
+  };
+
+  it('フィルタが無ければ常にマッチする', () => {
+    expect(matchesHook({ command: 'x' }, pre)).toBe(true);
+    expect(matchesHook({ command: 'x', matcher: '*' }, pre)).toBe(true);
+  });
+
+  it('matcher はツール名全体に対する正規表現', () => {
+    expect(matchesHook({ command: 'x', matcher: 'write|edit' }, pre)).toBe(true);
+    expect(matchesHook({ command: 'x', matcher: 'exec' }, pre)).toBe(false);
+    expect(matchesHook({ command: 'x', matcher: 'writ' }, pre)).toBe(false);
+  });
+
+  it('channels は glob、platforms / backends は完全一致', () => {
+    expect(matchesHook({ command: 'x', channels: ['web-chat:*'] }, pre)).toBe(true);
+    expect(matchesHook({ command: 'x', channels: ['123456'] }, pre)).toBe(false);
+    expect(matchesHook({ command: 'x', channels: ['*'] }, { ...pre, channel_id: undefined })).toBe(
+      false
+    );
+    expect(matchesHook({ command: 'x', platforms: ['discord', 'web'] }, pre)).toBe(true);
+    expect(matchesHook({ command: 'x', platforms: ['slack'] }, pre)).toBe(false);
+    expect(matchesHook({ command: 'x', backends: ['claude-code'] }, pre)).toBe(false);
+  });
+
+  it('Stop は tools_called のどれか、SessionStart は source に matcher を当てる', () => {
+    const def = { command: 'x', matcher: 'write|edit', channels: ['dev'] };
+    expect(matchesHook(def, payload({ channel_id: 'dev', tools_called: ['read', 'edit'] }))).toBe(
+      true
+    );
+    expect(matchesHook(def, payload({ channel_id: 'dev', tools_called: ['read'] }))).toBe(false);
+    expect(matchesHook(def, payload({ channel_id: 'general', tools_called: ['edit'] }))).toBe(
+      false
+    );
+
+    const start = { ...pre, hook_event_name: 'SessionStart' as const, source: 'resume' as const };
+    expect(matchesHook({ command: 'x', matcher: 'startup' }, start)).toBe(false);
+    expect(matchesHook({ command: 'x', matcher: 'resume' }, start)).toBe(true);
+  });
+
+  it('HookRunner はマッチしない定義を実行しない', async () => {
+    const runner = new HookRunner(
+      {
+        PreToolUse: [
+          {
+            command: emitJson({ decision: 'block', reason: 'exec だけ止める' }),
+            matcher: 'exec',
+          },
+        ],
+      },
+      '/tmp'
+    );
+    expect(await runner.preToolUse(pre)).toEqual({ block: false });
+    expect(await runner.preToolUse({ ...pre, tool_name: 'exec' })).toEqual({
+      block: true,
+      reason: 'exec だけ止める',
+    });
+  });
+});
+
+describe('applyPromptHooks', () => {
+  const ctx = { sessionId: 'sess-1', channelId: 'chan-1', backend: 'codex' };
+
+  it('hooks が無ければプロンプトをそのまま返す', async () => {
+    expect(await applyPromptHooks(null, 'hello', '/tmp', ctx)).toBe('hello');
+  });
+
+  it('SessionStart は新しいセッションのときだけ文脈を前置する', async () => {
+    const hooks = new HookRunner(
+      {
+        SessionStart: [{ command: 'echo session-context' }],
+        UserPromptSubmit: [{ command: 'echo prompt-context' }],
+      },
+      '/tmp'
+    );
+    const first = await applyPromptHooks(hooks, 'hello', '/tmp', {
+      ...ctx,
+      sessionStart: 'startup',
+    });
+    expect(first).toBe(
+      '[SESSION START HOOK CONTEXT]\nsession-context\n[END SESSION START HOOK CONTEXT]\n\n' +
+        '[USER PROMPT SUBMIT HOOK CONTEXT]\nprompt-context\n[END USER PROMPT SUBMIT HOOK CONTEXT]\n\nhello'
+    );
+    const next = await applyPromptHooks(hooks, 'hello', '/tmp', ctx);
+    expect(next).not.toContain('session-context');
+  });
+
+  it('UserPromptSubmit の block は HookBlockedError', async () => {
+    const hooks = new HookRunner(
+      {
+        UserPromptSubmit: [{ command: emitJson({ decision: 'block', reason: '営業時間外です' }) }],
+      },
+      '/tmp'
+    );
+    const run = applyPromptHooks(hooks, 'hello', '/tmp', ctx);
+    await expect(run).rejects.toBeInstanceOf(HookBlockedError);
+    await expect(run).rejects.toThrow('Blocked by hook (UserPromptSubmit): 営業時間外です');
+  });
+});
+
+describe('createHookRunner', () => {
   let workdir: string;
 
   beforeEach(() => {
-    workdir = mkdtempSync(join(tmpdir(), 'hooks-create-test-'));
+    workdir = mkdtempSync(join(tmpdir(), 'hooks-create-all-test-'));
+    mkdirSync(join(workdir, 'hooks'));
   });
 
   afterEach(() => {
     rmSync(workdir, { recursive: true, force: true });
   });
 
-  it('設定ファイルが無ければ null (デフォルト有効でも no-op)', () => {
-    expect(createStopHookRunner(workdir, {})).toBeNull();
-  });
-
-  it('env 未設定 + Stop 定義ありで runner を返す (デフォルト有効)', () => {
-    mkdirSync(join(workdir, 'hooks'));
+  it('Stop 以外だけの設定でも runner を返す', () => {
     writeFileSync(
       join(workdir, 'hooks', 'hooks.json'),
-      JSON.stringify({ hooks: { Stop: [{ command: 'echo hi' }] } })
+      JSON.stringify({ hooks: { PreToolUse: [{ command: 'true' }] } })
     );
-    const runner = createStopHookRunner(workdir, {});
-    expect(runner).not.toBeNull();
-    expect(runner?.count).toBe(1);
+    const runner = createHookRunner(workdir, {});
+    expect(runner?.count('PreToolUse')).toBe(1);
+    expect(runner?.count('Stop')).toBe(0);
   });
 
   it('XANGI_HOOKS_ENABLED=false はキルスイッチ (設定があっても null)', () => {
-    mkdirSync(join(workdir, 'hooks'));
     writeFileSync(
       join(workdir, 'hooks', 'hooks.json'),
       JSON.stringify({ hooks: { Stop: [{ command: 'echo hi' }] } })
     );
-    expect(createStopHookRunner(workdir, { XANGI_HOOKS_ENABLED: 'false' })).toBeNull();
+    expect(createHookRunner(workdir, { XANGI_HOOKS_ENABLED: 'false' })).toBeNull();
   });
 
   it('XANGI_HOOKS_FILE で設定ファイルを上書きできる', () => {
     const file = join(workdir, 'my-hooks.json');
     writeFileSync(file, JSON.stringify({ hooks: { Stop: [{ command: 'echo hi' }] } }));
-    const runner = createStopHookRunner(workdir, {
-      XANGI_HOOKS_ENABLED: 'true',
-      XANGI_HOOKS_FILE: file,
-    });
-    expect(runner?.count).toBe(1);
+    const runner = createHookRunner(workdir, { XANGI_HOOKS_FILE: file });
+    expect(runner?.count('Stop')).toBe(1);
+  });
+
+  it('どのイベントにも hook が無ければ null', () => {
+    writeFileSync(join(workdir, 'hooks', 'hooks.json'), JSON.stringify({ hooks: {} }));
+    expect(createHookRunner(workdir, {})).toBeNull();
+  });
+
+  it('XANGI_STOP_HOOK_MAX_ROUNDS で継続ラウンドの上限を変えられる (不正値はデフォルト)', () => {
+    writeFileSync(
+      join(workdir, 'hooks', 'hooks.json'),
+      JSON.stringify({ hooks: { Stop: [{ command: 'true' }] } })
+    );
+    expect(createHookRunner(workdir, {})?.stopMaxRounds).toBe(1);
+    expect(createHookRunner(workdir, { XANGI_STOP_HOOK_MAX_ROUNDS: '3' })?.stopMaxRounds).toBe(3);
+    expect(parseStopMaxRounds('0')).toBe(1);
+    expect(parseStopMaxRounds('11')).toBe(1);
+    expect(parseStopMaxRounds('two')).toBe(1);
   });
 });
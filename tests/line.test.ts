@@ -1,5 +1,20 @@
-import { describe, it, expect } from 'vitest';
-import { snapLoadingSeconds, isResetCommand, hasSessionGoneIdle } from '../src/line.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  snapLoadingSeconds,
+  isResetCommand,
+  hasSessionGoneIdle,
+  toLineTextMessages,
+  registerLineSchedulerBridge,
+  registerLineApprovalSender,
+  handleApprovalPostback,
+} from '../src/line.js';
+import { Scheduler } from '../src/scheduler.js';
+import { requestApproval } from '../src/approval.js';
+import { initSessions, clearSessions } from '../src/sessions.js';
+import type { AgentRunner, RunOptions, RunResult } from '../src/agent-runner.js';
 
 describe('snapLoadingSeconds', () => {
   it('returns default (60) when undefined', () => {
@@ -157,3 +172,136 @@ describe('hasSessionGoneIdle', () => {
     expect(hasSessionGoneIdle(exactly, FOUR_HOURS_MS, now)).toBe(true);
   });
 });
+
+describe('toLineTextMessages', () => {
+  it('splits long text into at most 5 messages of 5000 chars', () => {
+    const text = Array.from({ length: 8 }, (_, i) => `${i}`.repeat(4000)).join('\n');
+    const messages = toLineTextMessages(text);
+    expect(messages).toHaveLength(5);
+    for (const m of messages) {
+      expect(m.type).toBe('text');
+      expect(m.text.length).toBeLessThanOrEqual(5000);
+    }
+  });
+
+  it('returns an empty array for blank text', () => {
+    expect(toLineTextMessages('   ')).toEqual([]);
+  });
+});
+
+describe('registerLineSchedulerBridge', () => {
+  let tmpDir: string;
+  let scheduler: Scheduler;
+  const pushed: { to: string; messages: { type: string; text: string }[] }[] = [];
+  const client = {
+    pushMessage: async (req: { to: string; messages: { type: string; text: string }[] }) => {
+      pushed.push(req);
+      return {};
+    },
+  };
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'line-sched-test-'));
+    initSessions(tmpDir);
+    scheduler = new Scheduler(tmpDir, { quiet: true });
+    pushed.length = 0;
+  });
+
+  afterEach(() => {
+    scheduler.stopAll();
+    clearSessions();
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function makeRunner(impl: (options?: RunOptions) => Promise<RunResult>): AgentRunner {
+    return {
+      run: async () => ({ result: '', sessionId: '' }),
+      runStream: async (_prompt, callbacks, options) => {
+        const result = await impl(options);
+        callbacks.onComplete?.(result);
+        return result;
+      },
+    };
+  }
+
+  it('pushes the agent result to the LINE user', async () => {
+    let seen: RunOptions | undefined;
+    const runner = makeRunner(async (options) => {
+      seen = options;
+      return { result: 'おはよう！', sessionId: 's1' };
+    });
+    registerLineSchedulerBridge(scheduler, client as never, runner);
+
+    const result = await scheduler.getAgentRunner('line')!('天気を教えて', 'U1234abcd');
+    expect(result).toBe('おはよう！');
+    expect(seen?.channelId).toBe('line:U1234abcd');
+    expect(seen?.platform).toBe('line');
+    expect(pushed).toEqual([{ to: 'U1234abcd', messages: [{ type: 'text', text: 'おはよう！' }] }]);
+  });
+
+  it('pushes a fallback text and rethrows when the agent fails', async () => {
+    const runner = makeRunner(async () => {
+      throw new Error('boom');
+    });
+    registerLineSchedulerBridge(scheduler, client as never, runner);
+
+    await expect(scheduler.getAgentRunner('line')!('x', 'U1234abcd')).rejects.toThrow('boom');
+    expect(pushed).toHaveLength(1);
+    expect(pushed[0].to).toBe('U1234abcd');
+  });
+
+  it('registers a plain sender that pushes the message', async () => {
+    registerLineSchedulerBridge(
+      scheduler,
+      client as never,
+      makeRunner(async () => ({ result: '', sessionId: '' }))
+    );
+    await scheduler.getSender('line')!('U1234abcd', '⏰ リマインド');
+    expect(pushed[0].messages[0].text).toBe('⏰ リマインド');
+  });
+});
+
+describe('LINE approval buttons', () => {
+  let tmpDir: string;
+  const pushed: { to: string; messages: Record<string, unknown>[] }[] = [];
+  const client = {
+    pushMessage: async (req: { to: string; messages: Record<string, unknown>[] }) => {
+      pushed.push(req);
+      return {};
+    },
+  };
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'line-approval-test-'));
+    initSessions(tmpDir);
+    pushed.length = 0;
+    registerLineApprovalSender(client as never);
+  });
+
+  afterEach(() => {
+    clearSessions();
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('quick reply の postback ボタン付きで push し、本人の postback で応答する', async () => {
+    const promise = requestApproval(
+      { platform: 'line', channelId: 'line:U1234abcd' },
+      { command: 'rm -rf build', matches: ['再帰的ファイル削除'] }
+    );
+    await vi.waitFor(() => expect(pushed).toHaveLength(1));
+    expect(pushed[0].to).toBe('U1234abcd');
+    const items = (pushed[0].messages[0].quickReply as { items: { action: { data: string } }[] })
+      .items;
+    const [approveData, , channelData, denyData] = items.map((item) => item.action.data);
+    expect(items).toHaveLength(4);
+    expect(new URLSearchParams(channelData).get('scope')).toBe('channel');
+
+    // 他ユーザーの postback では応答できない
+    expect(handleApprovalPostback('Uother', approveData)).toContain('期限切れ');
+    expect(handleApprovalPostback('U1234abcd', 'action=other')).toBeNull();
+
+    expect(handleApprovalPostback('U1234abcd', denyData)).toBe('❌ 拒否しました');
+    await expect(promise).resolves.toBe(false);
+    expect(handleApprovalPostback('U1234abcd', approveData)).toContain('期限切れ');
+  });
+});
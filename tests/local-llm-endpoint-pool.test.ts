@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  LLMEndpointPool,
+  parseFallbackEndpoints,
+  shouldFailOver,
+  type LLMEndpoint,
+  type ServedEndpoint,
+} from '../src/local-llm/endpoint-pool.js';
+
+/**
+ * 1 つのスタブサーバーでパス prefix（/primary, /backup）ごとに別 endpoint として振る舞わせ、
+ * フェイルオーバー・cooldown・ストリーミング時の挙動を確認する。
+ */
+
+let server: Server;
+let origin: string;
+let refusedUrl: string;
+const hits: string[] = [];
+const status: Record<string, number> = {};
+
+function reply(res: ServerResponse, prefix: string, stream: boolean): void {
+  const code = status[prefix] ?? 200;
+  if (code !== 200) {
+    res.writeHead(code);
+    res.end(`${prefix} unavailable`);
+    return;
+  }
+  if (stream) {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.end(`data: {"choices":[{"delta":{"content":"from ${prefix}"}}]}\n\ndata: [DONE]\n\n`);
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(
+    JSON.stringify({
+      choices: [
+        { message: { role: 'assistant', content: `from ${prefix}` }, finish_reason: 'stop' },
+      ],
+    })
+  );
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (c) => (raw += c));
+    req.on('end', () => {
+      const prefix = (req.url ?? '').split('/')[1];
+      hits.push(prefix);
+      reply(res, prefix, (JSON.parse(raw) as { stream?: boolean }).stream === true);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // 閉じたポート = 接続拒否される endpoint
+  const closed = createServer();
+  await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+  refusedUrl = `http://127.0.0.1:${(closed.address() as AddressInfo).port}`;
+  await new Promise<void>((resolve) => closed.close(() => resolve()));
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  hits.length = 0;
+  for (const key of Object.keys(status)) delete status[key];
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+const endpoint = (baseUrl: string, model: string): LLMEndpoint => ({
+  baseUrl,
+  model,
+  provider: 'openai',
+});
+
+function buildPool(endpoints: LLMEndpoint[], clock: { t: number }) {
+  return new LLMEndpointPool(endpoints, {
+    apiKey: '',
+    thinking: false,
+    maxTokens: 256,
+    cooldownMs: 30_000,
+    now: () => clock.t,
+  });
+}
+
+const messages = [{ role: 'user' as const, content: 'hi' }];
+
+describe('LLMEndpointPool', () => {
+  it('接続拒否されたら次の endpoint にフェイルオーバーし、応答元を通知する', async () => {
+    const pool = buildPool([endpoint(refusedUrl, 'big'), endpoint(`${origin}/backup`, 'small')], {
+      t: 0,
+    });
+    const served: ServedEndpoint[] = [];
+    const res = await pool.chat(messages, { onEndpoint: (ep) => served.push(ep) });
+
+    expect(res.content).toBe('from backup');
+    expect(served).toHaveLength(1);
+    expect(served[0]).toMatchObject({ model: 'small', index: 1, provider: 'openai' });
+    expect(served[0].failedOver).toEqual([
+      { baseUrl: refusedUrl, model: 'big', error: expect.stringContaining('fetch failed') },
+    ]);
+  });
+
+  it('5xx の endpoint は cooldown 中は後回しにし、明けたら再び primary を使う', async () => {
+    const clock = { t: 0 };
+    const pool = buildPool(
+      [endpoint(`${origin}/primary`, 'big'), endpoint(`${origin}/backup`, 'small')],
+      clock
+    );
+    status.primary = 503;
+
+    expect((await pool.chat(messages)).content).toBe('from backup');
+    expect(hits).toEqual(['primary', 'backup']);
+    expect(pool.activeEndpoint.model).toBe('small');
+
+    // cooldown 中は primary を叩かない
+    hits.length = 0;
+    clock.t = 10_000;
+    expect((await pool.chat(messages)).content).toBe('from backup');
+    expect(hits).toEqual(['backup']);
+
+    // cooldown 明け: 復旧していれば primary に戻る
+    status.primary = 200;
+    hits.length = 0;
+    clock.t = 31_000;
+    expect((await pool.chat(messages)).content).toBe('from primary');
+    expect(hits).toEqual(['primary']);
+    expect(pool.activeEndpoint.index).toBe(0);
+  });
+
+  it('全 endpoint が落ちていたら最後のエラーを投げる', async () => {
+    const pool = buildPool(
+      [endpoint(`${origin}/primary`, 'big'), endpoint(`${origin}/backup`, 'small')],
+      { t: 0 }
+    );
+    status.primary = 502;
+    status.backup = 500;
+    await expect(pool.chat(messages)).rejects.toThrow('LLM API error 500: backup unavailable');
+  });
+
+  it('4xx はフェイルオーバーしない', async () => {
+    const pool = buildPool(
+      [endpoint(`${origin}/primary`, 'big'), endpoint(`${origin}/backup`, 'small')],
+      { t: 0 }
+    );
+    status.primary = 401;
+    await expect(pool.chat(messages)).rejects.toThrow('LLM API error 401');
+    expect(hits).toEqual(['primary']);
+  });
+
+  it('ストリーミングも最初の chunk 前の失敗ならフェイルオーバーする', async () => {
+    const pool = buildPool(
+      [endpoint(`${origin}/primary`, 'big'), endpoint(`${origin}/backup`, 'small')],
+      { t: 0 }
+    );
+    status.primary = 503;
+    const served: ServedEndpoint[] = [];
+    let text = '';
+    for await (const chunk of pool.chatStream(messages, { onEndpoint: (ep) => served.push(ep) })) {
+      text += chunk;
+    }
+    expect(text).toBe('from backup');
+    expect(served.map((s) => s.model)).toEqual(['small']);
+  });
+
+  it('単一 endpoint 構成ではエラーをそのまま返す', async () => {
+    const pool = buildPool([endpoint(`${origin}/primary`, 'big')], { t: 0 });
+    status.primary = 503;
+    await expect(pool.chat(messages)).rejects.toThrow('LLM API error 503');
+    expect(pool.hasFallbacks).toBe(false);
+  });
+});
+
+describe('shouldFailOver', () => {
+  it('中断済みの signal ではフェイルオーバーしない', () => {
+    const ac = new AbortController();
+    ac.abort();
+    expect(shouldFailOver(new Error('fetch failed'), ac.signal)).toBe(false);
+    expect(shouldFailOver(new Error('fetch failed'))).toBe(true);
+    expect(shouldFailOver(new Error('Ollama API error 502: bad gateway'))).toBe(true);
+    expect(shouldFailOver(new Error('LLM API error 429: slow down'))).toBe(false);
+  });
+});
+
+describe('parseFallbackEndpoints', () => {
+  const primary: LLMEndpoint = { baseUrl: 'http://gpu:8001', model: 'gemma', provider: 'auto' };
+
+  it('url|model|provider をカンマ区切りで読み、省略分は primary を引き継ぐ', () => {
+    expect(
+      parseFallbackEndpoints('http://backup:8001/, http://localhost:11434|qwen3:8b|ollama', primary)
+    ).toEqual([
+      { baseUrl: 'http://backup:8001', model: 'gemma', provider: 'auto' },
+      { baseUrl: 'http://localhost:11434', model: 'qwen3:8b', provider: 'ollama' },
+    ]);
+  });
+
+  it('不正な URL / provider は拒否する', () => {
+    expect(() => parseFallbackEndpoints('localhost:11434', primary)).toThrow(
+      'Invalid endpoint URL'
+    );
+    expect(() => parseFallbackEndpoints('http://x|m|grpc', primary)).toThrow('Invalid provider');
+  });
+});
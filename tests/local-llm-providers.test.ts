@@ -0,0 +1,391 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { LLMClient } from '../src/local-llm/llm-client.js';
+import { resolveProviderName } from '../src/local-llm/providers/index.js';
+import { __testables as llamaTestables } from '../src/local-llm/providers/llamacpp.js';
+import { __testables as anthropicTestables } from '../src/local-llm/providers/anthropic.js';
+import type { LLMMessage, LLMTool, LLMUsage } from '../src/local-llm/types.js';
+
+/**
+ * llama.cpp `/completion` と Anthropic `/v1/messages` provider を
+ * ローカルのスタブ HTTP サーバーに対して実際に叩いて、
+ * リクエスト変換・tool 呼び出し・ストリーミングの往復を確認する。
+ */
+
+interface CapturedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+type Handler = (req: CapturedRequest, res: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let captured: CapturedRequest[] = [];
+let handler: Handler = (_req, res) => res.end('{}');
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const captureReq: CapturedRequest = {
+        url: req.url ?? '',
+        headers: req.headers,
+        body: raw ? (JSON.parse(raw) as Record<string, unknown>) : {},
+      };
+      captured.push(captureReq);
+      handler(captureReq, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  captured = [];
+});
+
+function json(res: ServerResponse, body: unknown): void {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sse(res: ServerResponse, events: string[]): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const e of events) res.write(e);
+  res.end();
+}
+
+async function collect(gen: AsyncGenerator<string>): Promise<string> {
+  let out = '';
+  for await (const chunk of gen) out += chunk;
+  return out;
+}
+
+const sampleTools: LLMTool[] = [
+  {
+    name: 'read',
+    description: 'ファイルを読む',
+    parameters: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] },
+  },
+];
+
+const toolHistory: LLMMessage[] = [
+  { role: 'user', content: 'README を読んで' },
+  {
+    role: 'assistant',
+    content: '',
+    toolCalls: [{ id: 'call_1', name: 'read', arguments: { path: 'README.md' } }],
+  },
+  { role: 'tool', content: '# xangi', toolCallId: 'call_1' },
+];
+
+describe('resolveProviderName', () => {
+  it('auto は従来どおり URL と thinking から推定する', () => {
+    expect(resolveProviderName(undefined, 'http://localhost:11434', false)).toBe('ollama');
+    expect(resolveProviderName('auto', 'http://localhost:11434', true)).toBe('openai');
+    expect(resolveProviderName(undefined, 'http://localhost:8001', false)).toBe('openai');
+  });
+
+  it('明示指定は URL より優先される', () => {
+    expect(resolveProviderName('llamacpp', 'http://localhost:11434', false)).toBe('llamacpp');
+    expect(
+      new LLMClient(baseUrl, 'm', '', false, 1024, undefined, undefined, 'anthropic').providerName
+    ).toBe('anthropic');
+  });
+});
+
+describe('llama.cpp provider', () => {
+  const buildClient = () =>
+    new LLMClient(baseUrl, 'local', 'secret', false, 512, undefined, 0, 'llamacpp');
+
+  it('/apply-template でプロンプトを組み立てて /completion を叩き、<tool_call> を tool 呼び出しにする', async () => {
+    handler = (req, res) => {
+      if (req.url === '/apply-template') return json(res, { prompt: '<PROMPT>' });
+      json(res, {
+        content:
+          '確認します\n<tool_call>\n{"name": "read", "arguments": {"path": "docs/usage.md"}}\n</tool_call>',
+        stop: true,
+        stop_type: 'eos',
+      });
+    };
+
+    const result = await buildClient().chat(toolHistory, {
+      tools: sampleTools,
+      systemPrompt: 'あなたは xangi',
+    });
+
+    expect(captured.map((r) => r.url)).toEqual(['/apply-template', '/completion']);
+    expect(captured[0].headers.authorization).toBe('Bearer secret');
+    const templateMessages = captured[0].body.messages as Array<{ role: string; content: string }>;
+    expect(templateMessages[0].role).toBe('system');
+    expect(templateMessages[0].content).toContain('あなたは xangi');
+    expect(templateMessages[0].content).toContain('"name":"read"');
+    expect(templateMessages[2]).toEqual({
+      role: 'assistant',
+      content: '<tool_call>\n{"name":"read","arguments":{"path":"README.md"}}\n</tool_call>',
+    });
+    expect(templateMessages[3]).toEqual({
+      role: 'user',
+      content: '<tool_response>\n# xangi\n</tool_response>',
+    });
+    expect(captured[1].body).toMatchObject({
+      prompt: '<PROMPT>',
+      n_predict: 512,
+      stream: false,
+      temperature: 0,
+    });
+
+    expect(result.finishReason).toBe('tool_calls');
+    expect(result.content).toBe('確認します');
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls![0]).toMatchObject({
+      name: 'read',
+      arguments: { path: 'docs/usage.md' },
+    });
+  });
+
+  it('stop_type=limit は length として返す', async () => {
+    handler = (req, res) => {
+      if (req.url === '/apply-template') return json(res, { prompt: 'p' });
+      json(res, { content: '途中まで', stop: true, stop_type: 'limit' });
+    };
+    const result = await buildClient().chat([{ role: 'user', content: 'hi' }]);
+    expect(result).toEqual({ content: '途中まで', toolCalls: undefined, finishReason: 'length' });
+  });
+
+  it('ストリーミングは SSE の content を順に返す', async () => {
+    handler = (req, res) => {
+      if (req.url === '/apply-template') return json(res, { prompt: 'p' });
+      sse(res, [
+        'data: {"content":"こん","stop":false}\n\n',
+        'data: {"content":"にちは","stop":false}\n\n',
+        'data: {"content":"","stop":true,"stop_type":"eos"}\n\n',
+      ]);
+    };
+    const text = await collect(
+      buildClient().chatStream([{ role: 'user', content: 'hi' }], {
+        tools: sampleTools,
+        toolChoice: 'none',
+      })
+    );
+    expect(text).toBe('こんにちは');
+    expect(captured[1].body.stream).toBe(true);
+    // toolChoice='none' ではツール説明をプロンプトに載せない
+    const templateMessages = captured[0].body.messages as Array<{ role: string }>;
+    expect(templateMessages.map((m) => m.role)).toEqual(['user']);
+  });
+
+  it('サーバーエラーは status 付きで throw する', async () => {
+    handler = (_req, res) => {
+      res.writeHead(503);
+      res.end('loading model');
+    };
+    await expect(buildClient().chat([{ role: 'user', content: 'hi' }])).rejects.toThrow(
+      'llama.cpp API error 503: loading model'
+    );
+  });
+
+  it('JSON として読めない <tool_call> は本文に残す', () => {
+    const { content, toolCalls } = llamaTestables.extractToolCalls(
+      'a <tool_call>not json</tool_call>'
+    );
+    expect(toolCalls).toEqual([]);
+    expect(content).toBe('a <tool_call>not json</tool_call>');
+  });
+});
+
+describe('Anthropic provider', () => {
+  const buildClient = () =>
+    new LLMClient(baseUrl, 'claude-test', 'sk-test', false, 256, undefined, undefined, 'anthropic');
+
+  it('tool_use / tool_result ブロックで往復し、system はトップレベルに置く', async () => {
+    handler = (_req, res) =>
+      json(res, {
+        content: [
+          { type: 'text', text: '続けて読みます' },
+          { type: 'tool_use', id: 'toolu_2', name: 'read', input: { path: 'docs/usage.md' } },
+        ],
+        stop_reason: 'tool_use',
+      });
+
+    const result = await buildClient().chat(toolHistory, {
+      tools: sampleTools,
+      toolChoice: 'required',
+      systemPrompt: 'あなたは xangi',
+    });
+
+    const req = captured[0];
+    expect(req.url).toBe('/v1/messages');
+    expect(req.headers['x-api-key']).toBe('sk-test');
+    expect(req.headers['anthropic-version']).toBe('2023-06-01');
+    expect(req.body).toMatchObject({
+      model: 'claude-test',
+      max_tokens: 256,
+      system: 'あなたは xangi',
+      stream: false,
+      tool_choice: { type: 'any' },
+      tools: [
+        { name: 'read', description: 'ファイルを読む', input_schema: sampleTools[0].parameters },
+      ],
+    });
+    expect(req.body.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'README を読んで' }] },
+      {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'call_1', name: 'read', input: { path: 'README.md' } }],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '# xangi' }],
+      },
+    ]);
+
+    expect(result).toEqual({
+      content: '続けて読みます',
+      toolCalls: [{ id: 'toolu_2', name: 'read', arguments: { path: 'docs/usage.md' } }],
+      finishReason: 'tool_calls',
+    });
+  });
+
+  it('ストリーミングは content_block_delta の text_delta を返す', async () => {
+    handler = (_req, res) =>
+      sse(res, [
+        'event: message_start\ndata: {"type":"message_start","message":{}}\n\n',
+        'event: content_block_start\ndata: {"type":"content_block_start","index":0,"content_block":{"type":"text","text":""}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hello"}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":" world"}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+      ]);
+    const text = await collect(
+      buildClient().chatStream(toolHistory, { tools: sampleTools, toolChoice: 'none' })
+    );
+    expect(text).toBe('Hello world');
+    // 履歴に tool_use があるので tools は渡したまま tool_choice で text 応答を強制する
+    expect(captured[0].body.tool_choice).toEqual({ type: 'none' });
+    expect(captured[0].body.tools).toHaveLength(1);
+  });
+
+  it('ストリーム中の error イベントは throw する', async () => {
+    handler = (_req, res) =>
+      sse(res, [
+        'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n',
+      ]);
+    await expect(
+      collect(buildClient().chatStream([{ role: 'user', content: 'hi' }]))
+    ).rejects.toThrow('Anthropic API error: Overloaded');
+  });
+
+  it('連続する tool 結果は 1 つの user メッセージにまとめ、画像は base64 ブロックにする', () => {
+    const { system, messages } = anthropicTestables.toAnthropicMessages([
+      { role: 'system', content: '前提' },
+      { role: 'user', content: 'これは？', images: [{ base64: 'AAAA', mimeType: 'image/png' }] },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'a', name: 'read', arguments: { path: 'x' } },
+          { id: 'b', name: 'read', arguments: { path: 'y' } },
+        ],
+      },
+      { role: 'tool', content: 'X', toolCallId: 'a' },
+      { role: 'tool', content: 'Y', toolCallId: 'b' },
+    ]);
+    expect(system).toEqual(['前提']);
+    expect(messages[0].content[0]).toEqual({
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/png', data: 'AAAA' },
+    });
+    expect(messages).toHaveLength(3);
+    expect(messages[2]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'a', content: 'X' },
+        { type: 'tool_result', tool_use_id: 'b', content: 'Y' },
+      ],
+    });
+  });
+
+  it('function 指定の toolChoice は type: tool に変換する', () => {
+    const body: Record<string, unknown> = {};
+    anthropicTestables.applyAnthropicTools(body, {
+      tools: sampleTools,
+      toolChoice: { type: 'function', function: { name: 'read' } },
+    });
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'read' });
+  });
+});
+
+describe('usage の通知 (onUsage)', () => {
+  const build = (provider: 'openai' | 'ollama' | 'llamacpp' | 'anthropic') =>
+    new LLMClient(baseUrl, 'm', 'k', false, 256, undefined, undefined, provider);
+  const hi: LLMMessage[] = [{ role: 'user', content: 'hi' }];
+
+  it('OpenAI 互換: ストリームで include_usage を要求し、最終 chunk の usage を返す', async () => {
+    handler = (_req, res) =>
+      sse(res, [
+        'data: {"choices":[{"delta":{"content":"ok"}}]}\n\n',
+        'data: {"choices":[],"usage":{"prompt_tokens":120,"completion_tokens":8,"prompt_tokens_details":{"cached_tokens":100}}}\n\n',
+        'data: [DONE]\n\n',
+      ]);
+    const usages: LLMUsage[] = [];
+    await collect(build('openai').chatStream(hi, { onUsage: (u) => usages.push(u) }));
+    expect(captured[0].body.stream_options).toEqual({ include_usage: true });
+    expect(usages).toEqual([{ inputTokens: 120, outputTokens: 8, cacheReadTokens: 100 }]);
+  });
+
+  it('Ollama: prompt_eval_count / eval_count を読む', async () => {
+    handler = (_req, res) =>
+      json(res, {
+        message: { role: 'assistant', content: 'ok' },
+        done: true,
+        prompt_eval_count: 42,
+        eval_count: 7,
+      });
+    const usages: LLMUsage[] = [];
+    await build('ollama').chat(hi, { onUsage: (u) => usages.push(u) });
+    expect(usages).toEqual([{ inputTokens: 42, outputTokens: 7 }]);
+  });
+
+  it('llama.cpp: 最終 chunk の tokens_evaluated / tokens_predicted を読む', async () => {
+    handler = (req, res) => {
+      if (req.url === '/apply-template') return json(res, { prompt: 'p' });
+      sse(res, [
+        'data: {"content":"ok","stop":false}\n\n',
+        'data: {"content":"","stop":true,"tokens_evaluated":30,"tokens_predicted":2,"tokens_cached":24}\n\n',
+      ]);
+    };
+    const usages: LLMUsage[] = [];
+    await collect(build('llamacpp').chatStream(hi, { onUsage: (u) => usages.push(u) }));
+    expect(usages).toEqual([{ inputTokens: 30, outputTokens: 2, cacheReadTokens: 24 }]);
+  });
+
+  it('Anthropic: message_start と message_delta の usage を合わせ、cache 分を入力に含める', async () => {
+    handler = (_req, res) =>
+      sse(res, [
+        'data: {"type":"message_start","message":{"usage":{"input_tokens":10,"output_tokens":1,"cache_read_input_tokens":90}}}\n\n',
+        'data: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"ok"}}\n\n',
+        'data: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":15}}\n\n',
+      ]);
+    const usages: LLMUsage[] = [];
+    await collect(build('anthropic').chatStream(hi, { onUsage: (u) => usages.push(u) }));
+    expect(usages).toEqual([{ inputTokens: 100, outputTokens: 15, cacheReadTokens: 90 }]);
+  });
+
+  it('usage を返さないサーバーでは通知しない', async () => {
+    handler = (_req, res) =>
+      json(res, {
+        choices: [{ message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+      });
+    const usages: LLMUsage[] = [];
+    await build('openai').chat(hi, { onUsage: (u) => usages.push(u) });
+    expect(usages).toEqual([]);
+  });
+});
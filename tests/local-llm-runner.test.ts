@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
@@ -9,6 +9,7 @@ import {
   loadMessagesFromTranscript,
 } from '../src/local-llm/runner.js';
 import type { TranscriptEntry } from '../src/transcript-logger.js';
+import { HookRunner } from '../src/hooks.js';
 import { FRIENDLY_FALLBACK_MESSAGE } from '../src/local-llm/pseudo-toolcall.js';
 
 describe('isSessionRelatedError', () => {
@@ -877,3 +878,90 @@ describe('streaming drift-dropped-to-empty recovery (executeStreamLoop / runStre
     expect(result).toBe('明日は晴れ時々曇り、最高20℃だよ🐾');
   });
 });
+
+describe('Stop hook re-check loop (applyStopHookGate)', () => {
+  // block された継続ラウンドの応答を stop_hook_active: true で再チェックし、
+  // 通るか上限ラウンドまで繰り返す。
+  let workdir: string;
+
+  beforeEach(() => {
+    workdir = mkdtempSync(join(tmpdir(), 'xangi-stophook-'));
+    mkdirSync(join(workdir, 'logs', 'sessions'), { recursive: true });
+    delete process.env.LOCAL_LLM_MODE;
+  });
+
+  afterEach(() => {
+    rmSync(workdir, { recursive: true, force: true });
+  });
+
+  // 応答に "PASS" が含まれるまで block し、stdin の stop_hook_active を理由に埋め込む hook
+  const script = `
+    let raw = '';
+    process.stdin.on('data', (c) => (raw += c));
+    process.stdin.on('end', () => {
+      const p = JSON.parse(raw);
+      if (!p.last_assistant_message.includes('PASS')) {
+        console.error('tests failing (active=' + p.stop_hook_active + ')');
+        process.exit(2);
+      }
+    });
+  `;
+
+  function makeRunner(replies: string[], stopMaxRounds: number) {
+    const runner = new LocalLlmRunner({ workdir, model: 'test' });
+    let call = 0;
+    const internals = runner as unknown as {
+      llm: { chat: () => Promise<unknown> };
+      hooks: HookRunner;
+      trajectoryLogger: { logRunnerEvent: (common: unknown, payload: unknown) => void };
+    };
+    internals.llm = {
+      chat: async () => ({
+        content: replies[Math.min(call++, replies.length - 1)],
+        toolCalls: [],
+        finishReason: 'stop',
+      }),
+    };
+    internals.hooks = new HookRunner(
+      { Stop: [{ command: `node -e "${script.replace(/\n/g, ' ')}"` }] },
+      workdir,
+      { stopMaxRounds }
+    );
+    const logSpy = vi.spyOn(internals.trajectoryLogger, 'logRunnerEvent');
+    const events = () =>
+      logSpy.mock.calls.map(([, payload]) => payload as { event: string; details?: unknown });
+    return { runner, events };
+  }
+
+  it('継続ラウンドの応答を stop_hook_active: true で再チェックし、通ったら終える', async () => {
+    const { runner, events } = makeRunner(['done', 'fixed?', 'PASS now'], 3);
+    const { result } = await runner.run('直して', { sessionId: 'sh1', channelId: 'c1' });
+    expect(result).toBe('done\n\nfixed?\n\nPASS now');
+    expect(events()).toEqual([
+      {
+        event: 'stop_hook_block',
+        details: expect.objectContaining({ round: 1, stop_hook_active: false }),
+      },
+      {
+        event: 'stop_hook_block',
+        details: expect.objectContaining({
+          round: 2,
+          stop_hook_active: true,
+          reason: 'tests failing (active=true)',
+        }),
+      },
+      { event: 'stop_hook_pass', details: { round: 3 } },
+    ]);
+  });
+
+  it('上限ラウンドに達したら再チェックせず打ち切る', async () => {
+    const { runner, events } = makeRunner(['done', 'still failing'], 2);
+    const { result } = await runner.run('直して', { sessionId: 'sh2', channelId: 'c2' });
+    expect(result).toBe('done\n\nstill failing\n\nstill failing');
+    expect(events().map((e) => e.event)).toEqual([
+      'stop_hook_block',
+      'stop_hook_block',
+      'stop_hook_rounds_exhausted',
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawnSync } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  DEFAULT_SANDBOX_CPU_SECONDS,
+  buildSandboxCommand,
+  getSandboxLimits,
+  parseSandboxMode,
+  resolveSandboxMode,
+} from '../src/local-llm/sandbox.js';
+import { executeTool } from '../src/local-llm/tools.js';
+
+const limits = { cpuSeconds: 10, memoryMb: 256, network: false };
+
+describe('sandbox settings', () => {
+  it('不正値・未設定は off、チャンネルの指定は LOCAL_LLM_SANDBOX より優先', () => {
+    expect(parseSandboxMode(undefined)).toBe('off');
+    expect(parseSandboxMode('docker')).toBe('off');
+    expect(parseSandboxMode(' bwrap ')).toBe('bwrap');
+    expect(resolveSandboxMode(undefined, { LOCAL_LLM_SANDBOX: 'unshare' })).toBe('unshare');
+    expect(resolveSandboxMode('off', { LOCAL_LLM_SANDBOX: 'unshare' })).toBe('off');
+  });
+
+  it('制限値は正の整数以外を既定値にし、ネットワークは明示しない限り切る', () => {
+    expect(getSandboxLimits({ LOCAL_LLM_SANDBOX_CPU_SECONDS: '0' })).toEqual({
+      cpuSeconds: DEFAULT_SANDBOX_CPU_SECONDS,
+      memoryMb: 2048,
+      network: false,
+    });
+    expect(
+      getSandboxLimits({ LOCAL_LLM_SANDBOX_MEMORY_MB: '512', LOCAL_LLM_SANDBOX_NETWORK: 'true' })
+    ).toMatchObject({ memoryMb: 512, network: true });
+  });
+});
+
+describe('buildSandboxCommand', () => {
+  it('bwrap: / を読み取り専用、ワークスペースだけ書き込み可、ネットワークなし', () => {
+    const { file, args } = buildSandboxCommand('bwrap', 'make test', {
+      workspace: '/ws',
+      cwd: '/ws/app',
+      limits,
+    });
+    expect(file).toBe('bwrap');
+    expect(args.join(' ')).toContain('--ro-bind / / --dev /dev --proc /proc --tmpfs /tmp');
+    expect(args.join(' ')).toContain('--bind /ws /ws --unshare-all --die-with-parent');
+    expect(args).not.toContain('--share-net');
+    expect(args.slice(-4)).toEqual([
+      '/ws/app',
+      '/bin/sh',
+      '-c',
+      'ulimit -t 10; ulimit -v 262144; make test',
+    ]);
+
+    const withNet = buildSandboxCommand('bwrap', 'curl x', {
+      workspace: '/ws',
+      cwd: '/ws',
+      limits: { ...limits, network: true },
+    });
+    expect(withNet.args).toContain('--share-net');
+  });
+
+  it('unshare: コマンドはシェルに埋め込まず引数で渡す', () => {
+    const { file, args } = buildSandboxCommand('unshare', `echo "$HOME" '; reboot'`, {
+      workspace: '/ws',
+      cwd: '/ws',
+      limits,
+    });
+    expect(file).toBe('unshare');
+    expect(args).toContain('--net');
+    expect(args.slice(-3)).toEqual([
+      '/ws',
+      '/ws',
+      `ulimit -t 10; ulimit -v 262144; echo "$HOME" '; reboot'`,
+    ]);
+  });
+});
+
+// ユーザー名前空間が使えるホストでだけ実際に隔離を確かめる
+const canUnshare =
+  spawnSync('unshare', ['--user', '--map-root-user', '--mount', 'true']).status === 0 &&
+  spawnSync('setpriv', ['--help']).status === 0;
+
+describe.runIf(canUnshare)('exec tool in unshare sandbox', () => {
+  let workspace: string;
+  let outside: string;
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'xangi-sandbox-ws-'));
+    outside = mkdtempSync(join(tmpdir(), 'xangi-sandbox-outside-'));
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  it('ワークスペースには書けて、外には書けない', async () => {
+    const context = { workspace, sandbox: 'unshare' as const };
+    const ok = await executeTool('exec', { command: 'echo hi > a.txt && cat a.txt' }, context);
+    expect(ok).toMatchObject({ success: true, output: 'hi' });
+    expect(readFileSync(join(workspace, 'a.txt'), 'utf-8')).toBe('hi\n');
+
+    const denied = await executeTool('exec', { command: `touch ${join(outside, 'x')}` }, context);
+    expect(denied.success).toBe(false);
+    expect(existsSync(join(outside, 'x'))).toBe(false);
+
+    const remount = await executeTool('exec', { command: 'mount -o remount,rw /' }, context);
+    expect(remount.success).toBe(false);
+  });
+});
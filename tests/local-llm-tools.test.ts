@@ -1,9 +1,22 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtempSync, rmSync, writeFileSync, readFileSync, mkdirSync } from 'fs';
+import { existsSync, mkdtempSync, rmSync, writeFileSync, readFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import { executeTool } from '../src/local-llm/tools.js';
+import {
+  executeTool,
+  filterAllowedTools,
+  getAllTools,
+  resolveAllowedToolNames,
+  resolveAllowedToolPatterns,
+} from '../src/local-llm/tools.js';
 import type { ToolContext } from '../src/local-llm/types.js';
+import {
+  registerApprovalSender,
+  resolveApproval,
+  setApprovalEnabled,
+  setDefaultApprovalTarget,
+  type ApprovalRequest,
+} from '../src/approval.js';
 
 let workspace: string;
 let context: ToolContext;
@@ -268,11 +281,7 @@ describe('send_file tool', () => {
 
 describe('path traversal protection', () => {
   it('rejects ../ traversal in write', async () => {
-    const result = await executeTool(
-      'write',
-      { path: '../escape.txt', content: 'pwn' },
-      context
-    );
+    const result = await executeTool('write', { path: '../escape.txt', content: 'pwn' }, context);
     expect(result.success).toBe(false);
     expect(result.error).toMatch(/outside workspace/);
   });
@@ -351,3 +360,151 @@ describe('env-controlled size limits', () => {
     expect(result.success).toBe(true);
   });
 });
+
+describe('skill allowed-tools', () => {
+  it('Claude Code のツール名とパターンを Local LLM のツール名にする', () => {
+    expect([...resolveAllowedToolNames(['Bash(git *)', 'Read', 'WebFetch', 'send_file'])]).toEqual([
+      'exec',
+      'read',
+      'web_fetch',
+      'send_file',
+    ]);
+  });
+
+  it('パターンをツールごとにまとめ、パターンなしでも許可したツールは絞らない', () => {
+    const patterns = resolveAllowedToolPatterns([
+      'Bash(git status)',
+      'Bash(git diff:*)',
+      'Read(docs/*)',
+      'Read',
+      'Grep',
+    ]);
+    expect([...patterns]).toEqual([['exec', ['git status', 'git diff:*']]]);
+  });
+
+  it('パターンに一致しない exec は実行しない', async () => {
+    const skillContext = {
+      ...context,
+      allowedTools: new Set(['exec']),
+      allowedToolPatterns: resolveAllowedToolPatterns(['Bash(echo ok)', 'Bash(git diff:*)']),
+    };
+    const ok = await executeTool('exec', { command: 'echo ok' }, skillContext);
+    expect(ok.success).toBe(true);
+
+    for (const command of [
+      'echo other',
+      'echo ok && touch pwned.txt',
+      'echo ok; touch pwned.txt',
+      'echo ok | tee pwned.txt',
+      'echo ok > pwned.txt',
+      'echo $(touch pwned.txt)',
+      'echo ok $HOME',
+      'echo ok ${HOME}',
+    ]) {
+      const result = await executeTool('exec', { command }, skillContext);
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/not allowed for this skill/);
+    }
+    expect(existsSync(join(workspace, 'pwned.txt'))).toBe(false);
+  });
+
+  it('パス系のパターンはワークスペース基準で解決したパスと照合し、外に出るパスは拒否する', async () => {
+    mkdirSync(join(workspace, 'docs'), { recursive: true });
+    writeFileSync(join(workspace, 'docs', 'a.md'), 'doc');
+    writeFileSync(join(workspace, 'secret.txt'), 'secret');
+    const skillContext = {
+      ...context,
+      allowedTools: new Set(['read']),
+      allowedToolPatterns: resolveAllowedToolPatterns(['Read(docs/*)']),
+    };
+    for (const path of ['docs/a.md', './docs/a.md', join(workspace, 'docs', 'a.md')]) {
+      const result = await executeTool('read', { path }, skillContext);
+      expect(result.success).toBe(true);
+    }
+    for (const path of ['docs/../secret.txt', 'docs/../../etc/passwd', '/etc/passwd']) {
+      const result = await executeTool('read', { path }, skillContext);
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/not allowed for this skill/);
+    }
+  });
+
+  it('許可したツールだけを LLM に渡す', () => {
+    const names = filterAllowedTools(getAllTools(), new Set(['read', 'grep'])).map((t) => t.name);
+    expect(names).toEqual(['read', 'grep']);
+    expect(filterAllowedTools(getAllTools(), undefined)).toHaveLength(getAllTools().length);
+  });
+
+  it('許可されていないツールの呼び出しは実行しない', async () => {
+    const result = await executeTool(
+      'write',
+      { path: 'foo.txt', content: 'hello' },
+      { ...context, allowedTools: new Set(['read']) }
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/not allowed for this skill/);
+    expect(existsSync(join(workspace, 'foo.txt'))).toBe(false);
+  });
+});
+
+describe('approval gating', () => {
+  const requests: ApprovalRequest[] = [];
+  let answer = true;
+
+  beforeEach(() => {
+    requests.length = 0;
+    setApprovalEnabled(true);
+    setDefaultApprovalTarget({ platform: 'web', channelId: 'web-chat:s1' });
+    registerApprovalSender('web', (request) => {
+      requests.push(request);
+      resolveApproval(request.id, answer, 'web:127.0.0.1');
+    });
+  });
+
+  afterEach(() => {
+    setApprovalEnabled(false);
+    setDefaultApprovalTarget(undefined);
+  });
+
+  it('危険な exec は承認されてから実行する', async () => {
+    answer = true;
+    mkdirSync(join(workspace, 'build'));
+    const result = await executeTool('exec', { command: 'rm -rf build' }, context);
+    expect(result.success).toBe(true);
+    expect(requests.map((r) => r.danger.command)).toEqual(['rm -rf build']);
+    expect(existsSync(join(workspace, 'build'))).toBe(false);
+  });
+
+  it('拒否されたらツールエラーを返し、実行しない', async () => {
+    answer = false;
+    mkdirSync(join(workspace, 'build'));
+    const result = await executeTool('exec', { command: 'rm -rf build' }, context);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/denied by user/);
+    expect(existsSync(join(workspace, 'build'))).toBe(true);
+
+    const write = await executeTool('write', { path: '.env', content: 'TOKEN=x' }, context);
+    expect(write.success).toBe(false);
+    expect(requests[1].danger.command).toBe('write: .env');
+    expect(existsSync(join(workspace, '.env'))).toBe(false);
+  });
+
+  it('承認 UI が無ければ ask の exec も実行しない', async () => {
+    setDefaultApprovalTarget(undefined);
+    mkdirSync(join(workspace, 'build'));
+    const result = await executeTool('exec', { command: 'rm -rf build' }, context);
+    expect(result.success).toBe(false);
+    expect(requests).toEqual([]);
+    expect(existsSync(join(workspace, 'build'))).toBe(true);
+
+    setDefaultApprovalTarget({ platform: 'slack', channelId: 'C1' });
+    const slack = await executeTool('exec', { command: 'rm -rf build' }, context);
+    expect(slack.success).toBe(false);
+    expect(existsSync(join(workspace, 'build'))).toBe(true);
+  });
+
+  it('危険でない呼び出しは確認しない', async () => {
+    const result = await executeTool('write', { path: 'notes.md', content: 'x' }, context);
+    expect(result.success).toBe(true);
+    expect(requests).toEqual([]);
+  });
+});
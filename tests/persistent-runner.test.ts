@@ -191,6 +191,61 @@ describe('PersistentRunner', () => {
     expect(onComplete).toHaveBeenCalled();
   });
 
+  it('should report tool results by tool_use id', async () => {
+    const { getMockProcess } = await import('child_process');
+
+    const onToolUse = vi.fn();
+    const onToolResult = vi.fn();
+
+    const promise = runner.runStream('test prompt', { onToolUse, onToolResult });
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const mockProcess = getMockProcess();
+
+    mockProcess.stdout.emit(
+      'data',
+      JSON.stringify({
+        type: 'assistant',
+        message: {
+          content: [
+            { type: 'tool_use', id: 'tu_1', name: 'Bash', input: { command: 'ls' } },
+            { type: 'tool_use', id: 'tu_2', name: 'Read', input: { file_path: 'a.txt' } },
+          ],
+        },
+      }) + '\n'
+    );
+    mockProcess.stdout.emit(
+      'data',
+      JSON.stringify({
+        type: 'user',
+        message: {
+          content: [
+            { type: 'tool_result', tool_use_id: 'tu_2', is_error: true, content: 'ENOENT' },
+            { type: 'tool_result', tool_use_id: 'tu_1', content: 'a.txt' },
+            { type: 'tool_result', tool_use_id: 'unknown', content: '' },
+          ],
+        },
+      }) + '\n'
+    );
+    mockProcess.stdout.emit(
+      'data',
+      JSON.stringify({
+        type: 'result',
+        result: 'done',
+        session_id: 'test-session-123',
+        is_error: false,
+      }) + '\n'
+    );
+
+    await promise;
+
+    expect(onToolUse).toHaveBeenCalledTimes(2);
+    expect(onToolResult.mock.calls).toEqual([
+      ['Read', false],
+      ['Bash', true],
+    ]);
+  });
+
   it('should handle errors', async () => {
     const { getMockProcess } = await import('child_process');
 
@@ -151,6 +151,12 @@ describe('runtime-context', () => {
       const out = prependRuntimeContext('x');
       expect(out).toContain('x');
     });
+
+    it('appends caller-provided extras as key=value on the same line', () => {
+      const out = prependRuntimeContext('x', { llm: 'qwen3:8b@localhost:11434' });
+      const firstLine = out.split('\n')[0];
+      expect(firstLine).toMatch(/ llm=qwen3:8b@localhost:11434$/);
+    });
   });
 
   describe('repo cache TTL', () => {
@@ -0,0 +1,180 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findMissedCronRuns } from '../src/schedule-catch-up.js';
+import { Scheduler, type Schedule } from '../src/scheduler.js';
+
+const TZ = { timezone: 'Asia/Tokyo' };
+
+describe('findMissedCronRuns', () => {
+  it('returns missed ticks newest first', () => {
+    // 2026-01-05 (月) 09:00 JST = 00:00Z
+    const missed = findMissedCronRuns(
+      '0 9 * * *',
+      new Date('2026-01-01T12:00:00+09:00'),
+      new Date('2026-01-05T10:00:00+09:00'),
+      { ...TZ, limit: 10 }
+    );
+    expect(missed.map((d) => d.toISOString())).toEqual([
+      '2026-01-05T00:00:00.000Z',
+      '2026-01-04T00:00:00.000Z',
+      '2026-01-03T00:00:00.000Z',
+      '2026-01-02T00:00:00.000Z',
+    ]);
+  });
+
+  it('stops at the limit', () => {
+    const missed = findMissedCronRuns(
+      '*/15 * * * *',
+      new Date('2026-01-01T00:00:00Z'),
+      new Date('2026-01-01T12:00:00Z'),
+      { ...TZ, limit: 3 }
+    );
+    expect(missed).toHaveLength(3);
+    expect(missed[0].toISOString()).toBe('2026-01-01T11:45:00.000Z');
+  });
+
+  it('excludes the minute that contains `until`', () => {
+    const missed = findMissedCronRuns(
+      '0 9 * * *',
+      new Date('2026-01-05T08:00:00+09:00'),
+      new Date('2026-01-05T09:00:30+09:00'),
+      { ...TZ, limit: 10 }
+    );
+    expect(missed).toEqual([]);
+  });
+
+  it('excludes the tick at `since` itself', () => {
+    const missed = findMissedCronRuns(
+      '0 9 * * *',
+      new Date('2026-01-05T09:00:00+09:00'),
+      new Date('2026-01-05T12:00:00+09:00'),
+      { ...TZ, limit: 10 }
+    );
+    expect(missed).toEqual([]);
+  });
+
+  it('supports weekday names, ranges and lists', () => {
+    // 2026-01-05 は月曜、01-10 は土曜
+    const missed = findMissedCronRuns(
+      '30 8 * * mon-fri',
+      new Date('2026-01-04T00:00:00+09:00'),
+      new Date('2026-01-11T00:00:00+09:00'),
+      { ...TZ, limit: 10 }
+    );
+    expect(missed).toHaveLength(5);
+
+    const listed = findMissedCronRuns(
+      '0 9,18 * * 0,7',
+      new Date('2026-01-10T00:00:00+09:00'),
+      new Date('2026-01-12T00:00:00+09:00'),
+      { ...TZ, limit: 10 }
+    );
+    expect(listed.map((d) => d.toISOString())).toEqual([
+      '2026-01-11T09:00:00.000Z',
+      '2026-01-11T00:00:00.000Z',
+    ]);
+  });
+
+  it('evaluates ticks in the given timezone', () => {
+    const missed = findMissedCronRuns(
+      '0 9 * * *',
+      new Date('2026-01-01T00:00:00Z'),
+      new Date('2026-01-01T23:59:00Z'),
+      { timezone: 'UTC', limit: 10 }
+    );
+    expect(missed.map((d) => d.toISOString())).toEqual(['2026-01-01T09:00:00.000Z']);
+  });
+});
+
+describe('Scheduler catchUp on startAll', () => {
+  let tmpDir: string | undefined;
+  let scheduler: Scheduler | undefined;
+
+  afterEach(() => {
+    scheduler?.stopAll();
+    if (tmpDir) rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  /** 3 日前に最後に発火した毎日 0:00 の cron を用意して起動する */
+  async function bootWith(overrides: Partial<Schedule>): Promise<string[]> {
+    tmpDir = mkdtempSync(join(tmpdir(), 'schedule-catch-up-'));
+    const threeDaysAgo = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000 - 60_000);
+    const schedule: Schedule = {
+      id: 'sch_daily',
+      type: 'cron',
+      expression: '0 0 * * *',
+      message: '日報',
+      channelId: 'ch1',
+      platform: 'discord',
+      createdAt: threeDaysAgo.toISOString(),
+      enabled: true,
+      lastRunAt: threeDaysAgo.toISOString(),
+      ...overrides,
+    };
+    writeFileSync(join(tmpDir, 'schedules.json'), JSON.stringify([schedule]));
+
+    const executed: string[] = [];
+    scheduler = new Scheduler(tmpDir, { quiet: true });
+    scheduler.registerAgentRunner('discord', async (prompt) => {
+      executed.push(prompt);
+      return 'ok';
+    });
+    scheduler.startAll();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    return executed;
+  }
+
+  it('does not run missed cron ticks by default', async () => {
+    const executed = await bootWith({});
+    expect(executed).toEqual([]);
+    expect(scheduler!.history('sch_daily')[0]).toMatchObject({ outcome: 'skipped' });
+  });
+
+  it('starts tracking schedules without a run marker instead of catching up', async () => {
+    const executed = await bootWith({ catchUp: 'run-once', lastRunAt: undefined });
+    expect(executed).toEqual([]);
+    expect(scheduler!.history('sch_daily')).toEqual([]);
+    const lastRunAt = new Date(scheduler!.get('sch_daily')!.lastRunAt!).getTime();
+    expect(Date.now() - lastRunAt).toBeLessThan(5000);
+  });
+
+  it('runs once with catchUp=run-once and updates lastRunAt', async () => {
+    const executed = await bootWith({ catchUp: 'run-once' });
+    expect(executed).toEqual(['日報']);
+    const lastRunAt = new Date(scheduler!.get('sch_daily')!.lastRunAt!).getTime();
+    expect(Date.now() - lastRunAt).toBeLessThan(5000);
+  });
+
+  it('runs each missed tick up to catchUpLimit with catchUp=run-all', async () => {
+    expect(await bootWith({ catchUp: 'run-all' })).toHaveLength(3);
+    scheduler!.stopAll();
+    rmSync(tmpDir!, { recursive: true, force: true });
+
+    expect(await bootWith({ catchUp: 'run-all', catchUpLimit: 2 })).toHaveLength(2);
+    expect(scheduler!.history('sch_daily').map((r) => r.outcome)).toContain('skipped');
+  });
+
+  it('drops a past-due one-time job with catchUp=skip', async () => {
+    const executed = await bootWith({
+      type: 'once',
+      expression: undefined,
+      runAt: new Date(Date.now() - 60_000).toISOString(),
+      catchUp: 'skip',
+    });
+    expect(executed).toEqual([]);
+    expect(scheduler!.get('sch_daily')).toBeUndefined();
+    expect(scheduler!.history('sch_daily')[0].outcome).toBe('skipped');
+  });
+
+  it('still runs a past-due one-time job by default', async () => {
+    const executed = await bootWith({
+      type: 'once',
+      expression: undefined,
+      runAt: new Date(Date.now() - 60_000).toISOString(),
+    });
+    expect(executed).toEqual(['日報']);
+  });
+});
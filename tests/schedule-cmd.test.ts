@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtempSync, rmSync, existsSync, mkdirSync } from 'fs';
+import { mkdtempSync, rmSync, existsSync, mkdirSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { scheduleCmd } from '../src/cli/schedule-cmd.js';
+import { appendScheduleRun } from '../src/schedule-history.js';
 
 /**
  * src/cli/schedule-cmd.ts のリグレッションテスト。
@@ -57,3 +58,261 @@ describe('schedule-cmd WORKSPACE_PATH (PR #189)', () => {
     expect(result).toContain('スケジュールはありません');
   });
 });
+
+describe('schedule-cmd LINE / Web targets', () => {
+  let tmpDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'schedule-cmd-test-'));
+    originalEnv = { ...process.env };
+    process.env.DATA_DIR = tmpDir;
+    delete process.env.XANGI_CHANNEL_ID;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const readSchedules = () =>
+    JSON.parse(readFileSync(join(tmpDir, 'schedules.json'), 'utf-8')) as Array<{
+      channelId: string;
+      platform: string;
+    }>;
+
+  it('accepts --platform line', async () => {
+    await scheduleCmd('schedule_add', {
+      input: '毎日 7:00 天気',
+      channel: 'U1234abcd',
+      platform: 'line',
+    });
+    expect(readSchedules()[0]).toMatchObject({ channelId: 'U1234abcd', platform: 'line' });
+  });
+
+  it('takes the target from "-c web:<id>" in the input', async () => {
+    await scheduleCmd('schedule_add', { input: '-c web:abc_123 毎日 9:00 おはよう' });
+    expect(readSchedules()[0]).toMatchObject({ channelId: 'abc_123', platform: 'web' });
+  });
+
+  it('defaults to the current web session / LINE user from XANGI_CHANNEL_ID', async () => {
+    process.env.XANGI_CHANNEL_ID = 'web-chat:abc_123';
+    await scheduleCmd('schedule_add', { input: '毎日 9:00 おはよう' });
+    process.env.XANGI_CHANNEL_ID = 'line:U1234abcd';
+    await scheduleCmd('schedule_add', { input: '毎日 7:00 天気' });
+    const [web, line] = readSchedules();
+    expect(web).toMatchObject({ channelId: 'abc_123', platform: 'web' });
+    expect(line).toMatchObject({ channelId: 'U1234abcd', platform: 'line' });
+  });
+
+  it('rejects unknown platforms', async () => {
+    await expect(
+      scheduleCmd('schedule_add', { input: '毎日 9:00 おはよう', channel: 'x', platform: 'irc' })
+    ).rejects.toThrow('--platform must be one of');
+  });
+});
+
+describe('schedule-cmd schedule_history', () => {
+  let tmpDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'schedule-cmd-history-'));
+    originalEnv = { ...process.env };
+    process.env.DATA_DIR = tmpDir;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('shows recorded runs newest first with --limit', async () => {
+    for (const output of ['first', 'second', 'third']) {
+      appendScheduleRun(tmpDir, {
+        scheduleId: 's_1',
+        startedAt: new Date().toISOString(),
+        finishedAt: new Date().toISOString(),
+        durationMs: 1200,
+        outcome: 'success',
+        output,
+      });
+    }
+
+    const result = await scheduleCmd('schedule_history', { id: 's_1', limit: '2' });
+    expect(result).toContain('(2件)');
+    expect(result).toContain('third');
+    expect(result).not.toContain('first');
+  });
+
+  it('reports unknown schedules', async () => {
+    const result = await scheduleCmd('schedule_history', { id: 's_missing' });
+    expect(result).toContain('スケジュールが見つかりません');
+  });
+
+  it('requires --id and a positive --limit', async () => {
+    await expect(scheduleCmd('schedule_history', {})).rejects.toThrow('--id is required');
+    await expect(scheduleCmd('schedule_history', { id: 's_1', limit: '0' })).rejects.toThrow(
+      '--limit must be a positive integer'
+    );
+  });
+});
+
+describe('schedule-cmd --catch-up', () => {
+  let tmpDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'schedule-cmd-catchup-'));
+    originalEnv = { ...process.env };
+    process.env.DATA_DIR = tmpDir;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('stores catchUp and catchUpLimit', async () => {
+    await scheduleCmd('schedule_add', {
+      input: '毎日 9:00 日報',
+      channel: 'ch1',
+      'catch-up': 'run-all',
+      'catch-up-limit': '3',
+    });
+    const [saved] = JSON.parse(readFileSync(join(tmpDir, 'schedules.json'), 'utf-8'));
+    expect(saved.catchUp).toBe('run-all');
+    expect(saved.catchUpLimit).toBe(3);
+  });
+
+  it('rejects unknown policies and invalid limits', async () => {
+    await expect(
+      scheduleCmd('schedule_add', { input: '毎日 9:00 日報', channel: 'ch1', 'catch-up': 'all' })
+    ).rejects.toThrow('--catch-up must be one of');
+    await expect(
+      scheduleCmd('schedule_add', {
+        input: '毎日 9:00 日報',
+        channel: 'ch1',
+        'catch-up-limit': '-1',
+      })
+    ).rejects.toThrow('--catch-up-limit must be a positive integer');
+  });
+});
+
+describe('schedule-cmd timezone suffix', () => {
+  let tmpDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'schedule-cmd-tz-'));
+    originalEnv = { ...process.env };
+    process.env.DATA_DIR = tmpDir;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('stores the timezone from the input', async () => {
+    await scheduleCmd('schedule_add', { input: '毎日 9:00 おはよう tz=UTC', channel: 'ch1' });
+    const [saved] = JSON.parse(readFileSync(join(tmpDir, 'schedules.json'), 'utf-8'));
+    expect(saved.timezone).toBe('UTC');
+    expect(saved.message).toBe('おはよう');
+  });
+
+  it('rejects an unknown timezone', async () => {
+    await expect(
+      scheduleCmd('schedule_add', { input: '毎日 9:00 おはよう tz=Mars/Olympus', channel: 'ch1' })
+    ).rejects.toThrow('スケジュール形式を解析できません');
+    await expect(
+      scheduleCmd('schedule_add', { input: '15:00 hello tz=Not/AZone', channel: 'ch1' })
+    ).rejects.toThrow('スケジュール形式を解析できません');
+  });
+});
+
+describe('schedule-cmd after', () => {
+  let tmpDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'schedule-cmd-after-'));
+    originalEnv = { ...process.env };
+    process.env.DATA_DIR = tmpDir;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('adds a dependent schedule for an existing upstream', async () => {
+    await scheduleCmd('schedule_add', { input: '毎日 3:00 ビルド集計', channel: 'ch1' });
+    const [upstream] = JSON.parse(readFileSync(join(tmpDir, 'schedules.json'), 'utf-8'));
+
+    await scheduleCmd('schedule_add', {
+      input: `after ${upstream.id} --with-result 要約して`,
+      channel: 'ch1',
+    });
+    const saved = JSON.parse(readFileSync(join(tmpDir, 'schedules.json'), 'utf-8'));
+    expect(saved[1]).toMatchObject({
+      type: 'after',
+      after: upstream.id,
+      injectUpstreamResult: true,
+      message: '要約して',
+    });
+  });
+
+  it('rejects an unknown upstream', async () => {
+    await expect(
+      scheduleCmd('schedule_add', { input: 'after s_missing 要約して', channel: 'ch1' })
+    ).rejects.toThrow('上流スケジュールが見つかりません');
+  });
+
+  it('refuses to remove an upstream while dependents remain', async () => {
+    await scheduleCmd('schedule_add', { input: '毎日 3:00 ビルド集計', channel: 'ch1' });
+    const [upstream] = JSON.parse(readFileSync(join(tmpDir, 'schedules.json'), 'utf-8'));
+    await scheduleCmd('schedule_add', { input: `after ${upstream.id} 要約して`, channel: 'ch1' });
+    const [, dependent] = JSON.parse(readFileSync(join(tmpDir, 'schedules.json'), 'utf-8'));
+
+    const refused = await scheduleCmd('schedule_remove', { id: upstream.id });
+    expect(refused).toContain('下流スケジュールがあるため削除できません');
+    expect(refused).toContain(dependent.id);
+    expect(JSON.parse(readFileSync(join(tmpDir, 'schedules.json'), 'utf-8'))).toHaveLength(2);
+
+    await scheduleCmd('schedule_remove', { id: dependent.id });
+    expect(await scheduleCmd('schedule_remove', { id: upstream.id })).toContain('削除しました');
+  });
+});
+
+describe('schedule-cmd --max-retries', () => {
+  let tmpDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'schedule-cmd-retries-'));
+    originalEnv = { ...process.env };
+    process.env.DATA_DIR = tmpDir;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('stores maxRetries', async () => {
+    await scheduleCmd('schedule_add', {
+      input: '毎日 3:00 ビルド集計',
+      channel: 'ch1',
+      'max-retries': '3',
+    });
+    const [saved] = JSON.parse(readFileSync(join(tmpDir, 'schedules.json'), 'utf-8'));
+    expect(saved.maxRetries).toBe(3);
+  });
+
+  it('rejects a negative value', async () => {
+    await expect(
+      scheduleCmd('schedule_add', { input: '毎日 3:00 集計', channel: 'ch1', 'max-retries': '-2' })
+    ).rejects.toThrow('--max-retries must be a non-negative integer');
+  });
+});
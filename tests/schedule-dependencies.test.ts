@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Scheduler,
+  findScheduleCycle,
+  formatScheduleList,
+  parseScheduleInput,
+  type Schedule,
+} from '../src/scheduler.js';
+
+type ExecutableScheduler = { executeJob(schedule: Schedule): Promise<void> };
+
+function makeSchedule(id: string, overrides: Partial<Schedule> = {}): Schedule {
+  return {
+    id,
+    type: 'cron',
+    expression: '0 3 * * *',
+    message: `${id} prompt`,
+    channelId: 'ch1',
+    platform: 'discord',
+    createdAt: new Date().toISOString(),
+    enabled: true,
+    ...overrides,
+  };
+}
+
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+describe('parseScheduleInput after', () => {
+  it('parses "after <id> メッセージ"', () => {
+    const result = parseScheduleInput('after sch_build ダイジェストを書いて');
+    expect(result).toMatchObject({
+      type: 'after',
+      after: 'sch_build',
+      message: 'ダイジェストを書いて',
+    });
+    expect(result!.injectUpstreamResult).toBeUndefined();
+  });
+
+  it('parses --with-result', () => {
+    const result = parseScheduleInput('after sch_build --with-result 要約して');
+    expect(result).toMatchObject({
+      after: 'sch_build',
+      injectUpstreamResult: true,
+      message: '要約して',
+    });
+  });
+});
+
+describe('findScheduleCycle', () => {
+  it('returns the cycle path through the start id', () => {
+    const schedules = [
+      makeSchedule('a', { type: 'after', after: 'c' }),
+      makeSchedule('b', { type: 'after', after: 'a' }),
+      makeSchedule('c', { type: 'after', after: 'b' }),
+    ];
+    expect(findScheduleCycle(schedules, 'a')).toEqual(['a', 'c', 'b', 'a']);
+  });
+
+  it('returns null for a chain ending at a non-dependent schedule', () => {
+    const schedules = [
+      makeSchedule('root'),
+      makeSchedule('b', { type: 'after', after: 'root' }),
+      makeSchedule('c', { type: 'after', after: 'b' }),
+    ];
+    expect(findScheduleCycle(schedules, 'c')).toBeNull();
+  });
+
+  it('does not loop on a cycle upstream of the start id', () => {
+    const schedules = [
+      makeSchedule('x', { type: 'after', after: 'y' }),
+      makeSchedule('y', { type: 'after', after: 'x' }),
+      makeSchedule('z', { type: 'after', after: 'x' }),
+    ];
+    expect(findScheduleCycle(schedules, 'z')).toBeNull();
+  });
+});
+
+describe('Scheduler dependencies', () => {
+  let tmpDir: string;
+  let scheduler: Scheduler;
+  let prompts: string[];
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'schedule-deps-'));
+    scheduler = new Scheduler(tmpDir, { quiet: true });
+    prompts = [];
+    scheduler.registerAgentRunner('discord', async (prompt) => {
+      prompts.push(prompt);
+      if (prompt.startsWith('fail')) throw new Error('boom');
+      return `result of ${prompt.split('\n')[0]}`;
+    });
+  });
+
+  afterEach(() => {
+    scheduler.stopAll();
+    rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  function addCron(message: string): Schedule {
+    return scheduler.add({
+      type: 'cron',
+      expression: '0 3 * * *',
+      message,
+      channelId: 'ch1',
+      platform: 'discord',
+      label: 'build',
+    });
+  }
+
+  it('runs dependents after the upstream succeeds, chaining further', async () => {
+    const upstream = addCron('build summary');
+    const digest = scheduler.add({
+      type: 'after',
+      after: upstream.id,
+      message: 'digest',
+      channelId: 'ch1',
+      platform: 'discord',
+    });
+    scheduler.add({
+      type: 'after',
+      after: digest.id,
+      message: 'notify',
+      channelId: 'ch1',
+      platform: 'discord',
+    });
+
+    await (scheduler as unknown as ExecutableScheduler).executeJob(upstream);
+    await flush();
+
+    expect(prompts).toEqual(['build summary', 'digest', 'notify']);
+  });
+
+  it('injects the upstream result when requested', async () => {
+    const upstream = addCron('build summary');
+    scheduler.add({
+      type: 'after',
+      after: upstream.id,
+      injectUpstreamResult: true,
+      message: 'digest',
+      channelId: 'ch1',
+      platform: 'discord',
+    });
+
+    await (scheduler as unknown as ExecutableScheduler).executeJob(upstream);
+    await flush();
+
+    expect(prompts[1]).toBe('digest\n\n[上流ジョブ「build」の結果]\nresult of build summary');
+  });
+
+  it('does not run dependents when the upstream fails or they are disabled', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const upstream = addCron('fail build');
+    scheduler.add({
+      type: 'after',
+      after: upstream.id,
+      message: 'digest',
+      channelId: 'ch1',
+      platform: 'discord',
+    });
+    await (scheduler as unknown as ExecutableScheduler).executeJob(upstream);
+    await flush();
+    expect(prompts).toEqual(['fail build']);
+
+    const ok = addCron('ok');
+    const disabled = scheduler.add({
+      type: 'after',
+      after: ok.id,
+      message: 'disabled',
+      channelId: 'ch1',
+      platform: 'discord',
+    });
+    scheduler.toggle(disabled.id);
+    await (scheduler as unknown as ExecutableScheduler).executeJob(ok);
+    await flush();
+    expect(prompts).not.toContain('disabled');
+  });
+
+  it('rejects unknown upstreams', () => {
+    expect(() =>
+      scheduler.add({
+        type: 'after',
+        after: 'sch_missing',
+        message: 'digest',
+        channelId: 'ch1',
+        platform: 'discord',
+      })
+    ).toThrow('Upstream schedule not found');
+  });
+
+  it('refuses to remove an upstream while dependents remain', () => {
+    const upstream = addCron('build summary');
+    const digest = scheduler.add({
+      type: 'after',
+      after: upstream.id,
+      message: 'digest',
+      channelId: 'ch1',
+      platform: 'discord',
+    });
+
+    expect(() => scheduler.remove(upstream.id)).toThrow(
+      `Cannot remove ${upstream.id}: dependent schedules run after it: ${digest.id}`
+    );
+    expect(scheduler.get(upstream.id)).toBeDefined();
+
+    expect(scheduler.remove(digest.id)).toBe(true);
+    expect(scheduler.remove(upstream.id)).toBe(true);
+  });
+
+  it('refuses to trigger schedules in a cycle loaded from file', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    writeFileSync(
+      join(tmpDir, 'schedules.json'),
+      JSON.stringify([
+        makeSchedule('a', { type: 'after', after: 'b', message: 'a' }),
+        makeSchedule('b', { type: 'after', after: 'a', message: 'b' }),
+      ])
+    );
+    const loaded = new Scheduler(tmpDir, { quiet: true });
+    loaded.registerAgentRunner('discord', async (prompt) => {
+      prompts.push(prompt);
+      return 'ok';
+    });
+
+    await (loaded as unknown as ExecutableScheduler).executeJob(loaded.get('a')!);
+    await flush();
+
+    expect(prompts).toEqual(['a']);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('dependency cycle b → a → b'));
+    loaded.stopAll();
+  });
+
+  it('shows dependent schedules in the list', () => {
+    const text = formatScheduleList([
+      makeSchedule('sch_digest', {
+        type: 'after',
+        after: 'sch_build',
+        injectUpstreamResult: true,
+        expression: undefined,
+      }),
+    ]);
+    expect(text).toContain('🔗 `sch_build` の完了後');
+    expect(text).toContain('上流の結果をプロンプトに埋め込む');
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  appendScheduleRun,
+  readScheduleRuns,
+  formatScheduleHistory,
+  formatDuration,
+  formatLastRun,
+  SCHEDULE_RUN_HISTORY_LIMIT,
+  SCHEDULE_RUN_OUTPUT_MAX,
+  type ScheduleRun,
+} from '../src/schedule-history.js';
+import { Scheduler, formatScheduleList, type Schedule } from '../src/scheduler.js';
+
+function makeRun(overrides: Partial<ScheduleRun> = {}): ScheduleRun {
+  return {
+    scheduleId: 'sch_1',
+    startedAt: '2026-01-01T18:00:00.000Z',
+    finishedAt: '2026-01-01T18:00:12.300Z',
+    durationMs: 12300,
+    outcome: 'success',
+    mode: 'agent',
+    output: 'ok',
+    ...overrides,
+  };
+}
+
+describe('schedule-history', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'schedule-history-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('appends runs and reads them newest first', () => {
+    appendScheduleRun(tmpDir, makeRun({ output: 'first' }));
+    appendScheduleRun(tmpDir, makeRun({ output: 'second' }));
+
+    const runs = readScheduleRuns(tmpDir, 'sch_1');
+    expect(runs.map((r) => r.output)).toEqual(['second', 'first']);
+    expect(readScheduleRuns(tmpDir, 'sch_1', 1)).toHaveLength(1);
+    expect(readScheduleRuns(tmpDir, 'unknown')).toEqual([]);
+  });
+
+  it('truncates long output', () => {
+    appendScheduleRun(tmpDir, makeRun({ output: 'a'.repeat(SCHEDULE_RUN_OUTPUT_MAX + 100) }));
+    const [run] = readScheduleRuns(tmpDir, 'sch_1');
+    expect(run.output?.startsWith('a'.repeat(SCHEDULE_RUN_OUTPUT_MAX))).toBe(true);
+    expect(run.output).toContain('100文字省略');
+  });
+
+  it('keeps only the latest runs per schedule', () => {
+    for (let i = 0; i < SCHEDULE_RUN_HISTORY_LIMIT + 5; i++) {
+      appendScheduleRun(tmpDir, makeRun({ output: `run${i}` }));
+    }
+    const lines = readFileSync(join(tmpDir, 'schedule-runs', 'sch_1.jsonl'), 'utf-8')
+      .split('\n')
+      .filter(Boolean);
+    expect(lines).toHaveLength(SCHEDULE_RUN_HISTORY_LIMIT);
+    expect(readScheduleRuns(tmpDir, 'sch_1')[0].output).toBe(
+      `run${SCHEDULE_RUN_HISTORY_LIMIT + 4}`
+    );
+  });
+
+  it('formats durations', () => {
+    expect(formatDuration(850)).toBe('850ms');
+    expect(formatDuration(12300)).toBe('12.3秒');
+    expect(formatDuration(245000)).toBe('4分05秒');
+  });
+
+  it('formats history with outcome, error and output', () => {
+    const text = formatScheduleHistory('sch_1', [
+      makeRun({ outcome: 'failure', output: undefined, error: 'boom' }),
+      makeRun({ output: 'line1\nline2' }),
+    ]);
+    expect(text).toContain('📜 **実行履歴** `sch_1` (2件)');
+    expect(text).toContain('❌');
+    expect(text).toContain('└ ⚠️ boom');
+    expect(text).toContain('└ 💬 line1 line2');
+    expect(formatScheduleHistory('sch_1', [])).toContain('実行履歴はありません');
+  });
+
+  it('shows the last run in formatScheduleList', () => {
+    const schedule: Schedule = {
+      id: 'sch_1',
+      type: 'cron',
+      expression: '0 3 * * *',
+      message: 'nightly',
+      channelId: 'ch1',
+      platform: 'discord',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      enabled: true,
+      lastRun: {
+        startedAt: '2026-01-01T18:00:00.000Z',
+        finishedAt: '2026-01-01T18:00:12.300Z',
+        durationMs: 12300,
+        outcome: 'failure',
+        error: 'timeout',
+      },
+    };
+    const text = formatScheduleList([schedule]);
+    expect(text).toContain(`└ 🕒 前回: ${formatLastRun(schedule.lastRun!)}`);
+    expect(text).toContain('— timeout');
+  });
+});
+
+type ExecutableScheduler = { executeJob(schedule: Schedule): Promise<void> };
+
+describe('Scheduler run history', () => {
+  let tmpDir: string;
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'schedule-history-sched-'));
+    scheduler = new Scheduler(tmpDir, { quiet: true });
+  });
+
+  afterEach(() => {
+    scheduler.stopAll();
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function addCron(): Schedule {
+    return scheduler.add({
+      type: 'cron',
+      expression: '0 3 * * *',
+      message: 'nightly',
+      channelId: 'ch1',
+      platform: 'discord',
+    });
+  }
+
+  it('records a successful agent run and persists lastRun', async () => {
+    scheduler.registerAgentRunner('discord', async () => 'all good');
+    const schedule = addCron();
+
+    await (scheduler as unknown as ExecutableScheduler).executeJob(schedule);
+
+    const [run] = scheduler.history(schedule.id);
+    expect(run).toMatchObject({ outcome: 'success', mode: 'agent', output: 'all good' });
+    expect(run.durationMs).toBeGreaterThanOrEqual(0);
+
+    const reloaded = new Scheduler(tmpDir, { quiet: true });
+    expect(reloaded.get(schedule.id)?.lastRun?.outcome).toBe('success');
+    reloaded.stopAll();
+  });
+
+  it('records a failed run with the error message', async () => {
+    scheduler.registerAgentRunner('discord', async () => {
+      throw new Error('Request timed out');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const schedule = addCron();
+
+    await (scheduler as unknown as ExecutableScheduler).executeJob(schedule);
+
+    const [run] = scheduler.history(schedule.id);
+    expect(run).toMatchObject({ outcome: 'failure', error: 'Request timed out' });
+    expect(scheduler.get(schedule.id)?.lastRun).toMatchObject({
+      outcome: 'failure',
+      error: 'Request timed out',
+    });
+  });
+
+  it('records a duplicate fire as skipped without touching lastRun', async () => {
+    let resolveRun: (() => void) | undefined;
+    scheduler.registerAgentRunner(
+      'discord',
+      () =>
+        new Promise<string>((resolve) => {
+          resolveRun = () => resolve('done');
+        })
+    );
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const schedule = addCron();
+    const exec = scheduler as unknown as ExecutableScheduler;
+
+    const first = exec.executeJob(schedule);
+    await exec.executeJob(schedule);
+    expect(scheduler.history(schedule.id)[0].outcome).toBe('skipped');
+    expect(scheduler.get(schedule.id)?.lastRun).toBeUndefined();
+
+    resolveRun?.();
+    await first;
+    expect(scheduler.history(schedule.id).map((r) => r.outcome)).toEqual(['success', 'skipped']);
+    expect(scheduler.get(schedule.id)?.lastRun?.outcome).toBe('success');
+  });
+});
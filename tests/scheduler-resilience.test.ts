@@ -2,7 +2,7 @@ import { describe, it, expect, vi } from 'vitest';
 import { mkdtempSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
-import { Scheduler, type Schedule } from '../src/scheduler.js';
+import { Scheduler, TRANSIENT_RETRY_DELAY_MS, type Schedule } from '../src/scheduler.js';
 
 function makeScheduler(): Scheduler {
   const dir = mkdtempSync(join(tmpdir(), 'xangi-sched-test-'));
@@ -118,3 +118,95 @@ describe('Scheduler transient リトライ', () => {
     expect(runner).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('Scheduler maxRetries', () => {
+  it('指定回数まで指数バックオフでリトライし、試行回数を記録する', async () => {
+    const scheduler = makeScheduler();
+    const runner = vi
+      .fn<(prompt: string, channelId: string) => Promise<string>>()
+      .mockRejectedValueOnce(new Error('Request timed out after 300000ms. Killing process.'))
+      .mockRejectedValueOnce(new Error('Request timed out after 300000ms. Killing process.'))
+      .mockResolvedValueOnce('ok');
+    scheduler.registerAgentRunner('discord', runner);
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const exec = scheduler as unknown as ExecutableScheduler;
+    await exec.executeJob({ ...makeSchedule('jobRetries'), maxRetries: 3 });
+
+    expect(runner).toHaveBeenCalledTimes(3);
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining(`retrying in ${TRANSIENT_RETRY_DELAY_MS / 1000}s`),
+      expect.anything()
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining(`retrying in ${(TRANSIENT_RETRY_DELAY_MS * 2) / 1000}s`),
+      expect.anything()
+    );
+    expect(scheduler.history('jobRetries')[0]).toMatchObject({ outcome: 'success', attempts: 3 });
+    warnSpy.mockRestore();
+  });
+
+  it('最終的に失敗したら送信先に通知する', async () => {
+    const scheduler = makeScheduler();
+    const runner = vi
+      .fn<(prompt: string, channelId: string) => Promise<string>>()
+      .mockRejectedValue(new Error('Request timed out after 300000ms. Killing process.'));
+    const sent: string[] = [];
+    scheduler.registerAgentRunner('discord', runner);
+    scheduler.registerSender('discord', async (channelId, message) => {
+      sent.push(`${channelId}:${message}`);
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const exec = scheduler as unknown as ExecutableScheduler;
+    await exec.executeJob({ ...makeSchedule('jobNotice'), label: '夜間ビルド', maxRetries: 1 });
+
+    expect(runner).toHaveBeenCalledTimes(2);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toContain('ch1:⚠️ スケジュール「夜間ビルド」の実行に失敗しました（2回試行）');
+    expect(sent[0]).toContain('タイムアウト');
+    expect(scheduler.history('jobNotice')[0]).toMatchObject({ outcome: 'failure', attempts: 2 });
+  });
+
+  it('maxRetries 未指定なら失敗通知は送らない', async () => {
+    const scheduler = makeScheduler();
+    scheduler.registerAgentRunner('discord', async () => {
+      throw new Error('boom');
+    });
+    const sender = vi.fn(async () => {});
+    scheduler.registerSender('discord', sender);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const exec = scheduler as unknown as ExecutableScheduler;
+    await exec.executeJob(makeSchedule('jobSilent'));
+    expect(sender).not.toHaveBeenCalled();
+  });
+
+  it('利用上限エラーはリトライしない', async () => {
+    const scheduler = makeScheduler();
+    const runner = vi
+      .fn<(prompt: string, channelId: string) => Promise<string>>()
+      .mockRejectedValue(new Error("You've hit your usage limit"));
+    scheduler.registerAgentRunner('discord', runner);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const exec = scheduler as unknown as ExecutableScheduler;
+    await exec.executeJob({ ...makeSchedule('jobLimit'), maxRetries: 3 });
+    expect(runner).toHaveBeenCalledTimes(1);
+  });
+
+  it('負の maxRetries は追加時に拒否する', () => {
+    const scheduler = makeScheduler();
+    expect(() =>
+      scheduler.add({
+        type: 'cron',
+        expression: '0 9 * * *',
+        message: 'test',
+        channelId: 'ch1',
+        platform: 'discord',
+        maxRetries: -1,
+      })
+    ).toThrow('maxRetries must be a non-negative integer');
+  });
+});
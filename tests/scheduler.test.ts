@@ -97,6 +97,43 @@ describe('parseScheduleInput', () => {
     expect(runAt.getMonth()).toBe(2); // March = 2
   });
 
+  it('should interpret "HH:MM" in JST by default', () => {
+    const result = parseScheduleInput('15:00 レビュー');
+    expect(result!.runAt).toBe('2025-02-05T06:00:00.000Z');
+    expect(result!.timezone).toBeUndefined();
+  });
+
+  it('should accept a timezone suffix', () => {
+    const daily = parseScheduleInput('毎日 9:00 おはよう tz=UTC');
+    expect(daily!.expression).toBe('0 9 * * *');
+    expect(daily!.message).toBe('おはよう');
+    expect(daily!.timezone).toBe('UTC');
+
+    const cronResult = parseScheduleInput('cron 0 18 * * 1-5 退勤 --tz Europe/London');
+    expect(cronResult!.message).toBe('退勤');
+    expect(cronResult!.timezone).toBe('Europe/London');
+  });
+
+  it('should interpret times in the given timezone', () => {
+    // New York は 2025-02-04 19:00 (EST) → 15:00 は過ぎているので翌日
+    const time = parseScheduleInput('15:00 レビュー tz=America/New_York');
+    expect(time!.runAt).toBe('2025-02-05T20:00:00.000Z');
+
+    const date = parseScheduleInput('2025-03-01 14:00 締め切り --tz UTC');
+    expect(date!.runAt).toBe('2025-03-01T14:00:00.000Z');
+
+    // 夏時間 (EDT, UTC-4)
+    const dst = parseScheduleInput('2025-07-01 09:00 定例 tz=America/New_York');
+    expect(dst!.runAt).toBe('2025-07-01T13:00:00.000Z');
+  });
+
+  it('should return null for an invalid timezone instead of throwing', () => {
+    expect(parseScheduleInput('15:00 hello tz=Not/AZone')).toBeNull();
+    expect(parseScheduleInput('2025-03-01 14:00 締め切り --tz Mars/Olympus')).toBeNull();
+    expect(parseScheduleInput('30分後 休憩 tz=Bad/Zone')).toBeNull();
+    expect(parseScheduleInput('毎日 9:00 おはよう tz=Mars/Olympus')).toBeNull();
+  });
+
   it('should return null for unparseable input', () => {
     expect(parseScheduleInput('なんでもない')).toBeNull();
     expect(parseScheduleInput('')).toBeNull();
@@ -123,6 +160,35 @@ describe('parseScheduleInput', () => {
     expect(result!.message).toBe('起動しました');
     expect(result!.targetChannelId).toBe('123456');
   });
+
+  it('should parse LINE / Web targets with channel option', () => {
+    const line = parseScheduleInput('-c line:U1234abcd 毎日 7:00 天気を教えて');
+    expect(line).not.toBeNull();
+    expect(line!.targetPlatform).toBe('line');
+    expect(line!.targetChannelId).toBe('U1234abcd');
+    expect(line!.expression).toBe('0 7 * * *');
+    expect(line!.message).toBe('天気を教えて');
+
+    const web = parseScheduleInput('--channel web:abc_123 30分後 休憩');
+    expect(web).not.toBeNull();
+    expect(web!.targetPlatform).toBe('web');
+    expect(web!.targetChannelId).toBe('abc_123');
+    expect(web!.type).toBe('once');
+  });
+
+  it('should parse LINE / Web targets as prefix', () => {
+    const result = parseScheduleInput('line:U1234abcd 毎時 チェック');
+    expect(result).not.toBeNull();
+    expect(result!.targetPlatform).toBe('line');
+    expect(result!.targetChannelId).toBe('U1234abcd');
+    expect(result!.message).toBe('チェック');
+  });
+
+  it('should leave targetPlatform undefined for Discord channel mentions', () => {
+    const result = parseScheduleInput('<#123456> 毎日 9:00 おはよう');
+    expect(result!.targetChannelId).toBe('123456');
+    expect(result!.targetPlatform).toBeUndefined();
+  });
 });
 
 describe('Scheduler', () => {
@@ -180,6 +246,19 @@ describe('Scheduler', () => {
     ).toThrow('Invalid cron expression');
   });
 
+  it('should reject an invalid timezone', () => {
+    expect(() =>
+      scheduler.add({
+        type: 'cron',
+        expression: '0 9 * * *',
+        message: 'test',
+        channelId: 'ch1',
+        platform: 'discord',
+        timezone: 'Mars/Olympus',
+      })
+    ).toThrow('Invalid timezone');
+  });
+
   it('should reject past runAt', () => {
     expect(() =>
       scheduler.add({
@@ -406,6 +485,35 @@ describe('formatScheduleList', () => {
     expect(result).toContain('sch_test_1');
   });
 
+  it('should show the timezone when set', () => {
+    const result = formatScheduleList([
+      {
+        id: 'sch_tz',
+        type: 'cron',
+        expression: '0 9 * * *',
+        message: 'morning',
+        channelId: 'ch1',
+        platform: 'discord',
+        createdAt: new Date().toISOString(),
+        enabled: true,
+        timezone: 'America/New_York',
+      },
+      {
+        id: 'sch_tz_once',
+        type: 'once',
+        runAt: '2025-03-01T14:00:00.000Z',
+        message: 'deadline',
+        channelId: 'ch1',
+        platform: 'discord',
+        createdAt: new Date().toISOString(),
+        enabled: true,
+        timezone: 'UTC',
+      },
+    ]);
+    expect(result).toContain('`0 9 * * *` (America/New_York)');
+    expect(result).toContain('2025/3/1 14:00:00 (UTC)');
+  });
+
   it('should separate startup tasks from regular schedules', () => {
     const result = formatScheduleList([
       {
@@ -450,4 +558,32 @@ describe('formatScheduleList', () => {
     expect(result).toContain('スタートアップタスク');
     expect(result).toContain('初期化処理');
   });
+
+  it('should show LINE / Web targets without channel mention', () => {
+    const result = formatScheduleList([
+      {
+        id: 'sch_line_1',
+        type: 'cron',
+        expression: '0 7 * * *',
+        message: '天気',
+        channelId: 'U1234abcd',
+        platform: 'line',
+        createdAt: new Date().toISOString(),
+        enabled: true,
+      },
+      {
+        id: 'sch_web_1',
+        type: 'cron',
+        expression: '0 9 * * *',
+        message: 'おはよう',
+        channelId: 'abc_123',
+        platform: 'web',
+        createdAt: new Date().toISOString(),
+        enabled: true,
+      },
+    ]);
+    expect(result).toContain('LINE `U1234abcd`');
+    expect(result).toContain('Web `abc_123`');
+    expect(result).not.toContain('<#U1234abcd>');
+  });
 });
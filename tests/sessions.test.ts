@@ -17,8 +17,18 @@ import {
   createWebSession,
   setProviderSessionId,
   listAllSessions,
+  setSessionShare,
+  getWebSessionAccess,
+  hasWebSessionAccess,
+  archiveSession,
+  threadIdForContext,
   WEB_CHAT_CONTEXT_PREFIX,
 } from '../src/sessions.js';
+import {
+  subscribeEvents,
+  _resetEventsConfigForTest,
+  type PublishedEvent,
+} from '../src/events-emitter.js';
 
 describe('sessions', () => {
   let testDir: string;
@@ -254,6 +264,86 @@ describe('sessions', () => {
     });
   });
 
+  describe('web session ownership', () => {
+    it('owner と共有先の権限を返し、owner の無いセッションはログインユーザーには見えない', () => {
+      initSessions(testDir);
+      const owned = createWebSession({ owner: 'alice' });
+      const legacy = createWebSession({});
+      expect(getSessionEntry(owned)!.owner).toBe('alice');
+      expect(getSessionEntry(legacy)!.owner).toBeUndefined();
+
+      expect(getWebSessionAccess(getSessionEntry(owned), 'alice')).toBe('owner');
+      expect(getWebSessionAccess(getSessionEntry(owned), 'bob')).toBe('none');
+      expect(getWebSessionAccess(getSessionEntry(owned), undefined)).toBe('owner');
+      expect(getWebSessionAccess(getSessionEntry(legacy), 'bob')).toBe('none');
+      expect(getWebSessionAccess(getSessionEntry(legacy), undefined)).toBe('owner');
+      expect(getWebSessionAccess(undefined, 'bob')).toBe('none');
+
+      expect(setSessionShare(owned, 'bob', 'read')).toBe(true);
+      expect(getWebSessionAccess(getSessionEntry(owned), 'bob')).toBe('read');
+      expect(setSessionShare(owned, 'bob', 'write')).toBe(true);
+      expect(getWebSessionAccess(getSessionEntry(owned), 'bob')).toBe('write');
+      expect(setSessionShare(owned, 'bob', null)).toBe(true);
+      expect(getSessionEntry(owned)!.sharedWith).toBeUndefined();
+
+      // owner 自身・owner の無いセッションは共有できない
+      expect(setSessionShare(owned, 'alice', 'read')).toBe(false);
+      expect(setSessionShare(legacy, 'bob', 'read')).toBe(false);
+    });
+
+    it('権限の強さを比べる', () => {
+      expect(hasWebSessionAccess('owner', 'write')).toBe(true);
+      expect(hasWebSessionAccess('write', 'write')).toBe(true);
+      expect(hasWebSessionAccess('read', 'write')).toBe(false);
+      expect(hasWebSessionAccess('none', 'read')).toBe(false);
+      expect(hasWebSessionAccess('write', 'owner')).toBe(false);
+    });
+
+    it('共有設定は再起動後も残る', () => {
+      initSessions(testDir);
+      const id = createWebSession({ owner: 'alice' });
+      setSessionShare(id, 'bob', 'read');
+      clearSessions();
+      initSessions(testDir);
+      expect(getSessionEntry(id)).toMatchObject({ owner: 'alice', sharedWith: { bob: 'read' } });
+    });
+  });
+
+  describe('session events', () => {
+    afterEach(() => {
+      _resetEventsConfigForTest();
+    });
+
+    it('作成とアーカイブを session.created / session.archived で流す', () => {
+      initSessions(testDir);
+      const received: PublishedEvent[] = [];
+      subscribeEvents((ev) => received.push(ev));
+      const web = createWebSession({ title: 'hello' });
+      const discord = createSession('C123', { platform: 'discord' });
+      archiveSession(discord);
+      archiveSession(discord);
+
+      expect(received.map((ev) => ev.type)).toEqual([
+        'session.created',
+        'session.created',
+        'session.archived',
+      ]);
+      expect(received[0]).toMatchObject({
+        thread_id: `web:${web}`,
+        platform: 'web',
+        session_id: web,
+        title: 'hello',
+      });
+      expect(received[2]).toMatchObject({ thread_id: 'discord:C123', session_id: discord });
+    });
+
+    it('contextKey を thread_id にする', () => {
+      expect(threadIdForContext('web', `${WEB_CHAT_CONTEXT_PREFIX}abc`)).toBe('web:abc');
+      expect(threadIdForContext('slack', 'C1')).toBe('slack:C1');
+      expect(threadIdForContext('line', 'line:U1')).toBe('line:U1');
+    });
+  });
+
   describe('listAllSessions', () => {
     it('should list non-archived sessions sorted by updatedAt', () => {
       initSessions(testDir);
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  createSkillRegistry,
+  getSkills,
+  setActiveSkillRegistry,
+  type SkillRegistry,
+} from '../src/skill-registry.js';
+import type { Skill } from '../src/skills.js';
+
+function writeSkill(workdir: string, dir: string, name: string, description: string): void {
+  mkdirSync(join(workdir, dir, name), { recursive: true });
+  writeFileSync(join(workdir, dir, name, 'SKILL.md'), `---\ndescription: ${description}\n---\n`);
+}
+
+/** 購読者に次の通知が来るまで待つ */
+function nextChange(registry: SkillRegistry): Promise<Skill[]> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('no reload')), 5000);
+    const unsubscribe = registry.subscribe((skills) => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(skills);
+    });
+  });
+}
+
+describe('skill registry', () => {
+  let workdir: string;
+  let registry: SkillRegistry | undefined;
+
+  beforeEach(() => {
+    workdir = mkdtempSync(join(tmpdir(), 'skill-registry-'));
+  });
+
+  afterEach(() => {
+    registry?.stop();
+    registry = undefined;
+    setActiveSkillRegistry(null);
+    rmSync(workdir, { recursive: true, force: true });
+  });
+
+  it('reloads when a SKILL.md changes in an existing skill directory', async () => {
+    writeSkill(workdir, 'skills', 'deploy', 'v1');
+    registry = createSkillRegistry(workdir, { debounceMs: 20 });
+    expect(registry.get().map((s) => s.description)).toEqual(['v1']);
+
+    const changed = nextChange(registry);
+    writeSkill(workdir, 'skills', 'deploy', 'v2');
+    expect((await changed).map((s) => s.description)).toEqual(['v2']);
+  });
+
+  it('picks up a skill directory created after start', async () => {
+    registry = createSkillRegistry(workdir, { debounceMs: 20 });
+    expect(registry.get()).toEqual([]);
+
+    const changed = nextChange(registry);
+    writeSkill(workdir, '.claude/skills', 'notes', 'memo');
+    expect((await changed).map((s) => s.name)).toEqual(['notes']);
+  });
+
+  it('serves cached skills for the active workdir without rescanning', () => {
+    writeSkill(workdir, 'skills', 'deploy', 'v1');
+    registry = createSkillRegistry(workdir, { watch: false });
+    setActiveSkillRegistry(registry);
+
+    writeSkill(workdir, 'skills', 'notes', 'memo');
+    expect(getSkills(workdir).map((s) => s.name)).toEqual(['deploy']);
+    expect(registry.reload().map((s) => s.name)).toEqual(['deploy', 'notes']);
+    expect(getSkills(workdir).map((s) => s.name)).toEqual(['deploy', 'notes']);
+  });
+});
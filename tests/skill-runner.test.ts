@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { AgentRunner, RunOptions } from '../src/agent-runner.js';
+import { prepareSkillInvocation, runSkill, suggestSkillArguments } from '../src/skill-runner.js';
+import type { Skill } from '../src/skills.js';
+
+const deploy: Skill = {
+  name: 'deploy',
+  description: 'デプロイ',
+  path: '/skills/deploy/SKILL.md',
+  arguments: [
+    { name: 'env', type: 'string', required: true, choices: ['staging', 'production'] },
+    { name: 'dry-run', type: 'boolean', required: false, description: '確認だけ' },
+  ],
+  allowedTools: ['Bash(git *)', 'Read'],
+  model: 'sonnet',
+  timeoutMs: 50,
+};
+
+const plain: Skill = { name: 'notes', description: 'メモ', path: '/skills/notes.md' };
+
+function makeRunner(run: AgentRunner['run']): AgentRunner & { cancel: ReturnType<typeof vi.fn> } {
+  return {
+    run,
+    runStream: vi.fn(),
+    cancel: vi.fn(() => true),
+  } as unknown as AgentRunner & { cancel: ReturnType<typeof vi.fn> };
+}
+
+describe('skill-runner', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('prepareSkillInvocation', () => {
+    it('validates typed arguments and isolates manifest skills from the conversation', () => {
+      const invocation = prepareSkillInvocation([deploy], 'deploy', 'env=staging');
+
+      expect(invocation.prompt).toBe('スキル「deploy」を実行してください。引数: env=staging');
+      expect(invocation.isolated).toBe(true);
+      expect(invocation.skill).toEqual({
+        name: 'deploy',
+        model: 'sonnet',
+        allowedTools: ['Bash(git *)', 'Read'],
+      });
+      expect(() => prepareSkillInvocation([deploy], 'deploy', 'env=dev')).toThrow();
+    });
+
+    it('passes free-form arguments through for skills without a manifest', () => {
+      const invocation = prepareSkillInvocation([plain], 'notes', ' today ');
+      expect(invocation).toEqual({
+        name: 'notes',
+        prompt: 'スキル「notes」を実行してください。引数: today',
+        isolated: false,
+        timeoutMs: undefined,
+      });
+      expect(prepareSkillInvocation([], 'unknown', '').prompt).toBe(
+        'スキル「unknown」を実行してください。'
+      );
+    });
+  });
+
+  describe('runSkill', () => {
+    it('drops the conversation session and passes the skill settings to the runner', async () => {
+      const run = vi.fn(async (_prompt: string, _options?: RunOptions) => ({
+        result: 'done',
+        sessionId: 'p1',
+      }));
+      const invocation = { ...prepareSkillInvocation([deploy], 'deploy', 'staging') };
+      delete invocation.timeoutMs;
+      await runSkill(makeRunner(run), invocation, {
+        channelId: 'C1',
+        sessionId: 's1',
+        appSessionId: 'a1',
+      });
+
+      const options = run.mock.calls[0][1];
+      expect(options?.sessionId).toBeUndefined();
+      expect(options?.appSessionId).toBeUndefined();
+      expect(options?.skill?.allowedTools).toEqual(['Bash(git *)', 'Read']);
+    });
+
+    it('cancels the channel run when the skill timeout passes', async () => {
+      const runner = makeRunner(() => new Promise(() => {}));
+      const invocation = prepareSkillInvocation([deploy], 'deploy', 'staging');
+
+      await expect(runSkill(runner, invocation, { channelId: 'C1' })).rejects.toThrow(/timed out/);
+      expect(runner.cancel).toHaveBeenCalledWith('C1');
+    });
+  });
+
+  describe('suggestSkillArguments', () => {
+    it('suggests the remaining argument names', () => {
+      expect(suggestSkillArguments(deploy, '').map((s) => s.value)).toEqual(['env=', 'dry-run=']);
+      expect(suggestSkillArguments(deploy, 'env=staging ').map((s) => s.value)).toEqual([
+        'env=staging dry-run=',
+      ]);
+    });
+
+    it('suggests values for the argument being typed', () => {
+      expect(suggestSkillArguments(deploy, 'env=p').map((s) => s.value)).toEqual([
+        'env=production',
+      ]);
+      expect(suggestSkillArguments(deploy, 'env=staging dry-run=').map((s) => s.value)).toEqual([
+        'env=staging dry-run=true',
+        'env=staging dry-run=false',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { formatSkillsDoctor } from '../src/cli/skills-cmd.js';
+
+describe('skills_doctor', () => {
+  const dirs = ['/w/.claude/skills', '/w/.codex/skills', '/w/skills'];
+
+  it('lists conflicts and invalid SKILL.md files', () => {
+    const report = formatSkillsDoctor(
+      {
+        skills: [{ name: 'deploy', description: 'd', path: '/w/.claude/skills/deploy/SKILL.md' }],
+        conflicts: [
+          {
+            name: 'deploy',
+            used: '/w/.claude/skills/deploy/SKILL.md',
+            shadowed: ['/w/skills/deploy/SKILL.md'],
+          },
+        ],
+        issues: [{ path: '/w/skills/bad.md', message: 'unknown backend "gpt"' }],
+      },
+      dirs
+    );
+
+    expect(report).toContain('同名スキルの衝突 (1件)');
+    expect(report).toContain('  無視: /w/skills/deploy/SKILL.md');
+    expect(report).toContain('- /w/skills/bad.md: unknown backend "gpt"');
+  });
+
+  it('reports a clean workspace', () => {
+    const report = formatSkillsDoctor({ skills: [], conflicts: [], issues: [] }, dirs);
+    expect(report).toContain('✅ 同名スキルの衝突はありません');
+    expect(report).toContain('✅ 不正な SKILL.md はありません');
+  });
+});
@@ -1,5 +1,40 @@
-import { describe, it, expect } from 'vitest';
-import { formatSkillList, type Skill } from '../src/skills.js';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  formatSkillList,
+  formatSkillUsage,
+  parseSkillArguments,
+  parseSkillContent,
+  scanSkills,
+  tokenizeSkillArgs,
+  type Skill,
+} from '../src/skills.js';
+import { ValidationError } from '../src/errors.js';
+
+const DEPLOY_SKILL = `---
+name: deploy
+description: ステージングにデプロイする
+arguments:
+  - name: env
+    type: string
+    choices: [staging, production]
+    required: true
+    description: デプロイ先
+  - name: retries
+    type: number
+    default: 1
+  - name: dry-run
+    type: boolean
+allowed-tools: Bash(git *), Bash(npm run deploy), Read
+backend: claude-code
+model: sonnet
+timeout: 300
+---
+
+# deploy
+`;
 
 describe('skills', () => {
   describe('formatSkillList', () => {
@@ -39,4 +74,139 @@ describe('skills', () => {
       expect(result).toContain('/skill');
     });
   });
+
+  describe('parseSkillContent', () => {
+    it('should read typed arguments and the execution settings from the frontmatter', () => {
+      const skill = parseSkillContent(DEPLOY_SKILL, '/skills/deploy/SKILL.md', 'fallback');
+
+      expect(skill.name).toBe('deploy');
+      expect(skill.description).toBe('ステージングにデプロイする');
+      expect(skill.arguments).toEqual([
+        {
+          name: 'env',
+          type: 'string',
+          required: true,
+          description: 'デプロイ先',
+          choices: ['staging', 'production'],
+        },
+        { name: 'retries', type: 'number', required: false, default: 1 },
+        { name: 'dry-run', type: 'boolean', required: false },
+      ]);
+      expect(skill.allowedTools).toEqual(['Bash(git *)', 'Bash(npm run deploy)', 'Read']);
+      expect(skill.backend).toBe('claude-code');
+      expect(skill.model).toBe('sonnet');
+      expect(skill.timeoutMs).toBe(300_000);
+    });
+
+    it('should ignore invalid manifest fields with a warning', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const skill = parseSkillContent(
+        '---\nname: bad\nbackend: gpt\ntimeout: -1\narguments:\n  - name: x\n    type: date\n---\n',
+        '/skills/bad.md',
+        'bad'
+      );
+      warn.mockRestore();
+
+      expect(skill.backend).toBeUndefined();
+      expect(skill.timeoutMs).toBeUndefined();
+      expect(skill.arguments).toEqual([]);
+    });
+
+    it('should fall back to line matching when the frontmatter is not valid YAML', () => {
+      const skill = parseSkillContent(
+        '---\nname: legacy\ndescription: 説明: コロン入り\n---\n',
+        '/skills/legacy.md',
+        'fallback'
+      );
+
+      expect(skill.name).toBe('legacy');
+      expect(skill.description).toBe('説明: コロン入り');
+      expect(skill.arguments).toBeUndefined();
+    });
+  });
+
+  describe('parseSkillArguments', () => {
+    const skill = parseSkillContent(DEPLOY_SKILL, '/skills/deploy/SKILL.md', 'deploy');
+
+    it('should accept named and positional arguments and apply defaults', () => {
+      expect(parseSkillArguments(skill, 'staging dry-run=yes')).toEqual({
+        env: 'staging',
+        'dry-run': true,
+        retries: 1,
+      });
+      expect(parseSkillArguments(skill, 'retries=3 production')).toEqual({
+        env: 'production',
+        retries: 3,
+      });
+    });
+
+    it('should reject invalid input with a ValidationError', () => {
+      expect(() => parseSkillArguments(skill, '')).toThrow(ValidationError);
+      expect(() => parseSkillArguments(skill, 'env=dev')).toThrow(/staging \/ production/);
+      expect(() => parseSkillArguments(skill, 'staging retries=many')).toThrow(/数値/);
+      expect(() => parseSkillArguments(skill, 'staging force=true')).toThrow(/不明な引数/);
+      expect(() => parseSkillArguments(skill, 'staging 2 true extra')).toThrow(/多すぎ/);
+    });
+
+    it('should split quoted values as one token', () => {
+      expect(tokenizeSkillArgs('title="hello world" \'a b\' c')).toEqual([
+        'title=hello world',
+        'a b',
+        'c',
+      ]);
+    });
+
+    it('should format usage with required and optional arguments', () => {
+      expect(formatSkillUsage(skill)).toBe(
+        '/skill deploy env=<staging|production> [retries=<number>] [dry-run=<true|false>]'
+      );
+    });
+  });
+
+  describe('scanSkills', () => {
+    let workdir: string;
+
+    beforeEach(() => {
+      workdir = mkdtempSync(join(tmpdir(), 'skills-scan-'));
+    });
+
+    afterEach(() => {
+      rmSync(workdir, { recursive: true, force: true });
+    });
+
+    function writeSkill(dir: string, name: string, content: string): string {
+      mkdirSync(join(workdir, dir, name), { recursive: true });
+      const path = join(workdir, dir, name, 'SKILL.md');
+      writeFileSync(path, content);
+      return path;
+    }
+
+    it('should report same-name skills shadowed by a higher-priority directory', () => {
+      const claude = writeSkill('.claude/skills', 'deploy', '---\ndescription: claude\n---\n');
+      const std = writeSkill('skills', 'deploy', '---\ndescription: standard\n---\n');
+      writeSkill('skills', 'notes', '---\ndescription: notes\n---\n');
+
+      const scan = scanSkills(workdir);
+
+      expect(scan.skills.map((s) => [s.name, s.description])).toEqual([
+        ['deploy', 'claude'],
+        ['notes', 'notes'],
+      ]);
+      expect(scan.conflicts).toEqual([{ name: 'deploy', used: claude, shadowed: [std] }]);
+    });
+
+    it('should collect invalid SKILL.md files as issues instead of logging', () => {
+      const warn = vi.spyOn(console, 'warn');
+      const path = writeSkill('skills', 'broken', '---\nname: broken\ntimeout: soon\n---\n');
+
+      const scan = scanSkills(workdir);
+
+      expect(scan.skills.map((s) => s.name)).toEqual(['broken']);
+      expect(scan.issues).toEqual([
+        { path, message: 'timeout must be a positive number of seconds' },
+      ]);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
 });
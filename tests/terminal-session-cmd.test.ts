@@ -7,11 +7,13 @@ describe('terminalSessionCmd', () => {
     delete process.env.WEB_CHAT_PORT;
     delete process.env.XANGI_WEB_CHAT_URL;
     delete process.env.XANGI_DEVICE_INBOX_TOKEN;
+    delete process.env.WEB_CHAT_AUTH_TOKEN;
     vi.resetModules();
   });
 
   afterEach(() => {
     globalThis.fetch = originalFetch;
+    delete process.env.WEB_CHAT_AUTH_TOKEN;
     vi.restoreAllMocks();
   });
 
@@ -44,4 +46,23 @@ describe('terminalSessionCmd', () => {
     expect(out).toContain('inbox: http://127.0.0.1:18889/api/device/inbox');
     expect(out).toContain('Authorization: Bearer secret');
   });
+
+  it('sends WEB_CHAT_AUTH_TOKEN to the web chat API when set', async () => {
+    process.env.WEB_CHAT_AUTH_TOKEN = 'web-secret';
+    const calls: Array<{ url: string; init?: RequestInit }> = [];
+    globalThis.fetch = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+      calls.push({ url: String(url), init });
+      return new Response(JSON.stringify({ ok: true, sessionId: 'sess123' }), { status: 200 });
+    }) as unknown as typeof fetch;
+
+    const { terminalSessionCmd } = await import('../src/cli/terminal-session-cmd.js');
+    const out = await terminalSessionCmd({ 'base-url': 'http://127.0.0.1:18889' });
+
+    for (const call of calls) {
+      expect((call.init?.headers as Record<string, string>).Authorization).toBe(
+        'Bearer web-secret'
+      );
+    }
+    expect(out).toContain('events_auth: Authorization: Bearer web-secret');
+  });
 });
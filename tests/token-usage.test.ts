@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  addTokenUsage,
+  appendUsageRecord,
+  formatUsageSummary,
+  initTokenUsage,
+  loadUsageSummary,
+  parseClaudeUsage,
+  parseCodexUsage,
+  readUsageRecords,
+  type UsageRecord,
+} from '../src/token-usage.js';
+
+describe('token-usage', () => {
+  let dataDir: string;
+  const now = new Date(2026, 9, 19, 12, 0, 0);
+
+  const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+    ts: now.toISOString(),
+    backend: 'claude-code',
+    channelId: 'ch1',
+    appSessionId: 's1',
+    inputTokens: 100,
+    outputTokens: 10,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'xangi-usage-'));
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('parse', () => {
+    it('Claude の result から cache 込みの入力数と費用を取り出す', () => {
+      expect(
+        parseClaudeUsage({
+          usage: {
+            input_tokens: 5,
+            output_tokens: 50,
+            cache_read_input_tokens: 900,
+            cache_creation_input_tokens: 95,
+          },
+          total_cost_usd: 0.0123,
+        })
+      ).toEqual({
+        inputTokens: 1000,
+        outputTokens: 50,
+        cacheReadTokens: 900,
+        cacheCreationTokens: 95,
+        costUsd: 0.0123,
+      });
+      expect(parseClaudeUsage({ total_cost_usd: 0.1 })).toBeUndefined();
+    });
+
+    it('Codex の turn.completed usage を変換する', () => {
+      expect(
+        parseCodexUsage({ input_tokens: 2000, cached_input_tokens: 1500, output_tokens: 30 })
+      ).toEqual({ inputTokens: 2000, outputTokens: 30, cacheReadTokens: 1500 });
+      expect(parseCodexUsage(undefined)).toBeUndefined();
+    });
+
+    it('addTokenUsage は片方にしか無い項目も合算する', () => {
+      const sum = addTokenUsage(
+        { inputTokens: 10, outputTokens: 1 },
+        { inputTokens: 20, outputTokens: 2, cacheReadTokens: 5 }
+      );
+      expect(sum).toEqual({ inputTokens: 30, outputTokens: 3, cacheReadTokens: 5 });
+    });
+  });
+
+  describe('記録と集計', () => {
+    it('日別ファイルに追記し、直近 N 日分だけ読む', () => {
+      const old = new Date(2026, 9, 10, 12, 0, 0);
+      appendUsageRecord(dataDir, record({}));
+      appendUsageRecord(dataDir, record({ ts: old.toISOString() }));
+      expect(existsSync(join(dataDir, 'usage', '2026-10-19.jsonl'))).toBe(true);
+
+      expect(readUsageRecords(dataDir, 7, now)).toHaveLength(1);
+      expect(readUsageRecords(dataDir, 10, now)).toHaveLength(2);
+    });
+
+    it('backend / channel / session / day ごとに合計し、絞り込める', () => {
+      appendUsageRecord(dataDir, record({ costUsd: 0.5 }));
+      appendUsageRecord(dataDir, record({ inputTokens: 300, costUsd: 0.25 }));
+      appendUsageRecord(
+        dataDir,
+        record({ backend: 'local-llm', model: 'qwen3:8b', channelId: 'ch2', appSessionId: 's2' })
+      );
+
+      const byBackend = loadUsageSummary(dataDir, { groupBy: 'backend', now });
+      expect(byBackend.total).toMatchObject({ turns: 3, inputTokens: 500, costUsd: 0.75 });
+      expect(byBackend.rows.map((r) => [r.key, r.turns])).toEqual([
+        ['claude-code', 2],
+        ['local-llm (qwen3:8b)', 1],
+      ]);
+
+      const ch2 = loadUsageSummary(dataDir, { groupBy: 'session', channelId: 'ch2', now });
+      expect(ch2.rows).toEqual([expect.objectContaining({ key: 's2', inputTokens: 100 })]);
+
+      const byDay = loadUsageSummary(dataDir, { groupBy: 'day', now });
+      expect(byDay.rows.map((r) => r.key)).toEqual(['2026-10-19']);
+    });
+
+    it('壊れた行は飛ばす', () => {
+      mkdirSync(join(dataDir, 'usage'), { recursive: true });
+      writeFileSync(
+        join(dataDir, 'usage', '2026-10-19.jsonl'),
+        `not json\n${JSON.stringify(record({}))}\n`
+      );
+      expect(readUsageRecords(dataDir, 1, now)).toHaveLength(1);
+    });
+
+    it('initTokenUsage は保持期間を過ぎた日別ファイルを消す', () => {
+      appendUsageRecord(dataDir, record({ ts: new Date(2025, 0, 1).toISOString() }));
+      appendUsageRecord(dataDir, record({}));
+      initTokenUsage(dataDir, now);
+      expect(existsSync(join(dataDir, 'usage', '2025-01-01.jsonl'))).toBe(false);
+      expect(existsSync(join(dataDir, 'usage', '2026-10-19.jsonl'))).toBe(true);
+    });
+  });
+
+  describe('formatUsageSummary', () => {
+    it('記録が無ければその旨を返す', () => {
+      const text = formatUsageSummary(loadUsageSummary(dataDir, { now }));
+      expect(text).toContain('記録はありません');
+    });
+
+    it('行ごとの内訳と合計を出す', () => {
+      appendUsageRecord(dataDir, record({ inputTokens: 12_345, outputTokens: 678, costUsd: 1.5 }));
+      const text = formatUsageSummary(
+        loadUsageSummary(dataDir, { groupBy: 'channel', days: 1, now }),
+        '全チャンネル'
+      );
+      expect(text).toContain('直近1日・チャンネル別 (全チャンネル)');
+      expect(text).toContain('`ch1` 1ターン / 入力 12.3k / 出力 678 / $1.50');
+      expect(text).toContain('**合計**');
+    });
+  });
+});
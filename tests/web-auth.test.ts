@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+  DEFAULT_WEB_SESSION_HOURS,
+  LOGIN_BACKOFF_BASE_MS,
+  LOGIN_FREE_ATTEMPTS,
+  WEB_AUTH_COOKIE,
+  createWebAuth,
+  getWebAuthConfig,
+  hashPassword,
+  verifyPassword,
+  type WebAuthConfig,
+} from '../src/web-auth.js';
+import { webAuthCmd } from '../src/cli/web-auth-cmd.js';
+
+function fakeReq(headers: Record<string, string> = {}): IncomingMessage {
+  return { headers: { host: 'localhost:18888', ...headers }, socket: {} } as IncomingMessage;
+}
+
+function fakeRes(): ServerResponse & { headers: Record<string, string> } {
+  const headers: Record<string, string> = {};
+  return {
+    headers,
+    setHeader(name: string, value: string) {
+      headers[name.toLowerCase()] = value;
+    },
+  } as unknown as ServerResponse & { headers: Record<string, string> };
+}
+
+function cookieOf(setCookie: string): string {
+  return setCookie.split(';')[0];
+}
+
+describe('web auth', () => {
+  const aliceHash = hashPassword('wonderland');
+  const baseConfig = (overrides: Partial<WebAuthConfig> = {}): WebAuthConfig => ({
+    token: '',
+    users: new Map([
+      ['alice', aliceHash],
+      ['bob', hashPassword('builder')],
+    ]),
+    allowedUsers: ['alice'],
+    allowedOrigins: [],
+    sessionHours: 1,
+    ...overrides,
+  });
+
+  it('パスワードはハッシュで照合し、形式が不正なハッシュは常に不一致', async () => {
+    expect(aliceHash).toMatch(/^scrypt\.[0-9a-f]{32}\.[0-9a-f]{64}$/);
+    expect(await verifyPassword('wonderland', aliceHash)).toBe(true);
+    expect(await verifyPassword('wrong', aliceHash)).toBe(false);
+    expect(await verifyPassword('wonderland', 'plain-text')).toBe(false);
+  });
+
+  it('環境変数を読み、不正な WEB_CHAT_USERS のエントリは無視する', () => {
+    const config = getWebAuthConfig({
+      WEB_CHAT_AUTH_TOKEN: ' secret ',
+      WEB_CHAT_USERS: `alice:${aliceHash}, bob:plain, :${aliceHash}`,
+      WEB_CHAT_ALLOWED_USERS: 'alice, bob',
+      WEB_CHAT_ALLOWED_ORIGINS: 'https://example.com/',
+      WEB_CHAT_SESSION_HOURS: '0',
+    });
+    expect(config.token).toBe('secret');
+    expect([...config.users.keys()]).toEqual(['alice']);
+    expect(config.allowedUsers).toEqual(['alice', 'bob']);
+    expect(config.allowedOrigins).toEqual(['https://example.com']);
+    expect(config.sessionHours).toBe(DEFAULT_WEB_SESSION_HOURS);
+    expect(createWebAuth(getWebAuthConfig({})).enabled).toBe(false);
+  });
+
+  it('固定トークンは Bearer で一致したときだけ通る', () => {
+    const auth = createWebAuth(baseConfig({ token: 'secret', users: new Map() }));
+    expect(auth.enabled).toBe(true);
+    expect(auth.passwordLogin).toBe(false);
+    expect(auth.authenticate(fakeReq({ authorization: 'Bearer secret' }))).toEqual({
+      name: 'token',
+      method: 'token',
+    });
+    expect(auth.authenticate(fakeReq({ authorization: 'Bearer secre' }))).toBeNull();
+    expect(auth.authenticate(fakeReq())).toBeNull();
+  });
+
+  it('ログインで HttpOnly の Cookie を発行し、期限切れ・ログアウトで無効になる', async () => {
+    let now = 0;
+    const auth = createWebAuth(baseConfig(), () => now);
+    const result = await auth.login(fakeReq(), 'alice', 'wonderland');
+    expect(result?.user.name).toBe('alice');
+    expect(result?.cookie).toContain(`${WEB_AUTH_COOKIE}=`);
+    expect(result?.cookie).toContain('HttpOnly');
+    expect(result?.cookie).toContain('SameSite=Strict');
+    expect(result?.cookie).not.toContain('Secure');
+
+    const req = fakeReq({ cookie: cookieOf(result!.cookie) });
+    expect(auth.authenticate(req)?.name).toBe('alice');
+
+    now = 60 * 60 * 1000;
+    expect(auth.authenticate(req)).toBeNull();
+
+    now = 0;
+    const again = await auth.login(fakeReq(), 'alice', 'wonderland');
+    const req2 = fakeReq({ cookie: cookieOf(again!.cookie) });
+    expect(auth.logout(req2)).toContain('Max-Age=0');
+    expect(auth.authenticate(req2)).toBeNull();
+  });
+
+  it('誤ったパスワード・未登録ユーザー・許可リスト外はログインできない', async () => {
+    const auth = createWebAuth(baseConfig());
+    expect(await auth.login(fakeReq(), 'alice', 'wrong')).toBeNull();
+    expect(await auth.login(fakeReq(), 'carol', 'wonderland')).toBeNull();
+    expect(await auth.login(fakeReq(), 'bob', 'builder')).toBeNull();
+
+    const open = createWebAuth(baseConfig({ allowedUsers: ['*'] }));
+    expect((await open.login(fakeReq(), 'bob', 'builder'))?.user.name).toBe('bob');
+  });
+
+  it('失敗が続くと接続元 IP とユーザー名ごとに倍々でロックする', async () => {
+    let now = 0;
+    const auth = createWebAuth(baseConfig({ allowedUsers: ['*'] }), () => now);
+    const from = (ip: string) =>
+      ({ ...fakeReq(), socket: { remoteAddress: ip } }) as IncomingMessage;
+
+    for (let i = 0; i < LOGIN_FREE_ATTEMPTS - 1; i++) {
+      expect(await auth.login(from('10.0.0.1'), 'alice', 'wrong')).toBeNull();
+    }
+    expect(auth.loginRetryAfter(from('10.0.0.1'), 'alice')).toBe(0);
+    expect(await auth.login(from('10.0.0.1'), 'alice', 'wrong')).toBeNull();
+    expect(auth.loginRetryAfter(from('10.0.0.1'), 'alice')).toBe(LOGIN_BACKOFF_BASE_MS);
+
+    // ロック中は正しいパスワードでも通さない。別の IP からでも同じユーザーは、同じ IP からなら別のユーザーも拒否
+    expect(await auth.login(from('10.0.0.1'), 'alice', 'wonderland')).toBeNull();
+    expect(await auth.login(from('10.0.0.2'), 'alice', 'wonderland')).toBeNull();
+    expect(await auth.login(from('10.0.0.1'), 'bob', 'builder')).toBeNull();
+    expect(auth.loginRetryAfter(from('10.0.0.2'), 'bob')).toBe(0);
+
+    // 解除後にまた失敗するとロック時間が倍になる
+    now = LOGIN_BACKOFF_BASE_MS;
+    expect(await auth.login(from('10.0.0.2'), 'alice', 'wrong')).toBeNull();
+    expect(auth.loginRetryAfter(from('10.0.0.2'), 'alice')).toBe(LOGIN_BACKOFF_BASE_MS * 2);
+
+    // 成功するとユーザー名の記録は消えるが、接続元 IP の記録は残る
+    now = LOGIN_BACKOFF_BASE_MS * 3;
+    expect((await auth.login(from('10.0.0.2'), 'alice', 'wonderland'))?.user.name).toBe('alice');
+    expect(auth.loginRetryAfter(from('10.0.0.3'), 'alice')).toBe(0);
+    expect(await auth.login(from('10.0.0.1'), 'bob', 'wrong')).toBeNull();
+    expect(auth.loginRetryAfter(from('10.0.0.1'), 'bob')).toBe(LOGIN_BACKOFF_BASE_MS * 2);
+  });
+
+  it('https の proxy 越しなら Cookie に Secure を付ける', async () => {
+    const auth = createWebAuth(baseConfig());
+    const result = await auth.login(
+      fakeReq({ 'x-forwarded-proto': 'https' }),
+      'alice',
+      'wonderland'
+    );
+    expect(result?.cookie).toContain('Secure');
+  });
+
+  it('CORS は同一オリジンと WEB_CHAT_ALLOWED_ORIGINS だけ許可する', () => {
+    const auth = createWebAuth(baseConfig({ allowedOrigins: ['https://app.example.com'] }));
+
+    const same = fakeRes();
+    expect(auth.applyCors(fakeReq({ origin: 'http://localhost:18888' }), same)).toBe(true);
+    expect(same.headers['access-control-allow-origin']).toBeUndefined();
+
+    const allowed = fakeRes();
+    expect(auth.applyCors(fakeReq({ origin: 'https://app.example.com' }), allowed)).toBe(true);
+    expect(allowed.headers['access-control-allow-origin']).toBe('https://app.example.com');
+    expect(allowed.headers['access-control-allow-credentials']).toBe('true');
+
+    const denied = fakeRes();
+    expect(auth.applyCors(fakeReq({ origin: 'https://evil.example.com' }), denied)).toBe(false);
+    expect(denied.headers['access-control-allow-origin']).toBeUndefined();
+
+    const wildcard = createWebAuth(baseConfig({ allowedOrigins: ['*'] }));
+    const any = fakeRes();
+    expect(wildcard.applyCors(fakeReq({ origin: 'https://evil.example.com' }), any)).toBe(true);
+    expect(any.headers['access-control-allow-origin']).toBe('*');
+    expect(any.headers['access-control-allow-credentials']).toBeUndefined();
+  });
+
+  it('xangi-cmd web_hash_password は WEB_CHAT_USERS のエントリを返す', async () => {
+    const entry = webAuthCmd('web_hash_password', { user: 'alice', password: 'pw' });
+    const config = getWebAuthConfig({ WEB_CHAT_USERS: entry });
+    expect(await verifyPassword('pw', config.users.get('alice')!)).toBe(true);
+    expect(() => webAuthCmd('web_hash_password', { user: 'alice' })).toThrow('--password');
+    expect(() => webAuthCmd('web_hash_password', { user: 'a:b', password: 'pw' })).toThrow(
+      '--user'
+    );
+  });
+});
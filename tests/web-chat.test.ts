@@ -3,21 +3,27 @@ import { mkdtempSync, rmSync, existsSync, mkdirSync, writeFileSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import type { Server } from 'http';
-import { startWebChat } from '../src/web-chat.js';
+import { startWebChat, registerWebSchedulerBridge } from '../src/web-chat.js';
+import { Scheduler } from '../src/scheduler.js';
+import { LOGIN_BACKOFF_BASE_MS, LOGIN_FREE_ATTEMPTS, hashPassword } from '../src/web-auth.js';
+import { requestApproval } from '../src/approval.js';
+import { appendUsageRecord, initTokenUsage } from '../src/token-usage.js';
+import { readSessionMessages } from '../src/transcript-logger.js';
+import {
+  subscribeEvents,
+  _resetEventsConfigForTest,
+  type PublishedEvent,
+} from '../src/events-emitter.js';
 import {
   initSessions,
   clearSessions,
   listAllSessions,
   getSessionEntry,
   createSession,
+  createWebSession,
   WEB_CHAT_CONTEXT_PREFIX,
 } from '../src/sessions.js';
-import type {
-  AgentRunner,
-  RunOptions,
-  RunResult,
-  StreamCallbacks,
-} from '../src/agent-runner.js';
+import type { AgentRunner, RunOptions, RunResult, StreamCallbacks } from '../src/agent-runner.js';
 
 /**
  * 任意のタイミングで完了させられる Fake AgentRunner。
@@ -229,6 +235,45 @@ describe('web-chat HTTP API', () => {
     await readSSEUntilDone(r1.body);
   });
 
+  it('streams approval requests over the chat SSE and resolves them via POST /api/approvals/:id', async () => {
+    const id = (await (await fetch(`${baseUrl}/api/sessions`, { method: 'POST' })).json())
+      .sessionId as string;
+    const ctxKey = `${WEB_CHAT_CONTEXT_PREFIX}${id}`;
+    const chat = fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ appSessionId: id, message: 'push して' }),
+    });
+    for (let i = 0; i < 50 && runner.pending.size === 0; i++) {
+      await new Promise((r) => setTimeout(r, 20));
+    }
+
+    const approval = requestApproval(
+      { platform: 'web', channelId: ctxKey },
+      { command: 'git push origin main', matches: ['Git push'] }
+    );
+    runner.release(ctxKey);
+    const { events } = await readSSEUntilDone((await chat).body);
+    const requested = events.find((e) => e.event === 'approval')?.data;
+    expect(requested).toMatchObject({ sessionId: id, command: 'git push origin main' });
+
+    const post = (body: unknown) =>
+      fetch(`${baseUrl}/api/approvals/${requested.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    expect((await post({ approved: 'yes' })).status).toBe(404);
+    expect((await post({ approved: true })).status).toBe(200);
+    await expect(approval).resolves.toBe(true);
+    expect((await post({ approved: true })).status).toBe(404);
+
+    // ストリームが閉じたセッション宛ての承認は送れないので拒否
+    await expect(
+      requestApproval({ platform: 'web', channelId: ctxKey }, { command: 'x', matches: [] })
+    ).resolves.toBe(false);
+  });
+
   it('POST /api/chat allows two different sessions to stream concurrently', async () => {
     const a = (await (await fetch(`${baseUrl}/api/sessions`, { method: 'POST' })).json())
       .sessionId as string;
@@ -415,3 +460,446 @@ describe('web-chat HTTP API', () => {
     expect(getSessionEntry(id)).toBeUndefined();
   });
 });
+
+describe('web-chat authentication', () => {
+  let testDir: string;
+  let baseUrl = '';
+  const prevWorkspace = process.env.WORKSPACE_PATH;
+  const authEnv = [
+    'WEB_CHAT_AUTH_TOKEN',
+    'WEB_CHAT_USERS',
+    'WEB_CHAT_ALLOWED_USERS',
+    'WEB_CHAT_ALLOWED_ORIGINS',
+    'XANGI_EVEN_TERMINAL_TOKEN',
+  ];
+
+  beforeEach(async () => {
+    clearSessions();
+    testDir = mkdtempSync(join(tmpdir(), 'web-chat-auth-test-'));
+    process.env.WORKSPACE_PATH = testDir;
+    initSessions(testDir);
+    process.env.WEB_CHAT_AUTH_TOKEN = 'secret';
+    process.env.WEB_CHAT_USERS = `alice:${hashPassword('wonderland')}`;
+    process.env.WEB_CHAT_ALLOWED_USERS = 'alice';
+    process.env.WEB_CHAT_ALLOWED_ORIGINS = 'https://app.example.com';
+
+    const port = await freePort();
+    startWebChat({ agentRunner: new FakeRunner(), port });
+    baseUrl = `http://127.0.0.1:${port}`;
+    for (let i = 0; i < 30; i++) {
+      try {
+        if ((await fetch(`${baseUrl}/health`)).ok) break;
+      } catch {
+        /* not ready */
+      }
+      await new Promise((r) => setTimeout(r, 50));
+    }
+  });
+
+  afterEach(() => {
+    for (const key of authEnv) delete process.env[key];
+    clearSessions();
+    if (testDir && existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    if (prevWorkspace == null) delete process.env.WORKSPACE_PATH;
+    else process.env.WORKSPACE_PATH = prevWorkspace;
+  });
+
+  it('health と画面の HTML 以外は認証が必要', async () => {
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+    expect((await fetch(`${baseUrl}/api/sessions`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/api/config`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/api/events/stream`)).status).toBe(401);
+    const me = await (await fetch(`${baseUrl}/api/auth/me`)).json();
+    expect(me).toEqual({ enabled: true, passwordLogin: true, user: null });
+  });
+
+  it('device 用の API もプライベートネットワークからの素通りを許さない', async () => {
+    const post = (path: string, body: unknown) =>
+      fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    // テストの接続元は loopback（認証なしの運用なら device トークン無しで通る）
+    expect((await post('/api/pet/inbox', { text: 'hi' })).status).toBe(401);
+    expect((await post('/api/device/inbox', { text: 'hi' })).status).toBe(401);
+    expect((await post('/api/prompt', { prompt: 'hi' })).status).toBe(401);
+    expect((await fetch(`${baseUrl}/api/sessions?provider=claude`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/api/sessions/abc/history`)).status).toBe(401);
+
+    // 専用トークンを設定すればそれで使える
+    process.env.XANGI_EVEN_TERMINAL_TOKEN = 'device-secret';
+    const res = await fetch(`${baseUrl}/api/sessions?provider=claude`, {
+      headers: { Authorization: 'Bearer device-secret' },
+    });
+    expect(res.status).toBe(200);
+    expect((await res.json()).sessions).toEqual([]);
+  });
+
+  it('Bearer トークンで API を使える', async () => {
+    const headers = { Authorization: 'Bearer secret' };
+    const created = await fetch(`${baseUrl}/api/sessions`, { method: 'POST', headers });
+    expect(created.status).toBe(200);
+    const list = await fetch(`${baseUrl}/api/sessions`, { headers });
+    expect(list.status).toBe(200);
+    // 不一致のトークンは通さない（/api/sessions は Even Terminal 側の認証になるので別の API で見る）
+    const wrong = await fetch(`${baseUrl}/api/config`, { headers: { Authorization: 'Bearer x' } });
+    expect(wrong.status).toBe(401);
+  });
+
+  it('ログインで発行された Cookie で API を使え、ログアウトで使えなくなる', async () => {
+    const failed = await fetch(`${baseUrl}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: 'alice', password: 'wrong' }),
+    });
+    expect(failed.status).toBe(401);
+
+    const res = await fetch(`${baseUrl}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: 'alice', password: 'wonderland' }),
+    });
+    expect(res.status).toBe(200);
+    const setCookie = res.headers.get('set-cookie') || '';
+    expect(setCookie).toContain('HttpOnly');
+    const cookie = setCookie.split(';')[0];
+
+    expect((await fetch(`${baseUrl}/api/config`, { headers: { cookie } })).status).toBe(200);
+    const me = await (await fetch(`${baseUrl}/api/auth/me`, { headers: { cookie } })).json();
+    expect(me.user).toBe('alice');
+
+    await fetch(`${baseUrl}/api/auth/logout`, { method: 'POST', headers: { cookie } });
+    expect((await fetch(`${baseUrl}/api/config`, { headers: { cookie } })).status).toBe(401);
+  });
+
+  it('ログインの失敗が続くと 429 と Retry-After を返す', async () => {
+    const login = (password: string) =>
+      fetch(`${baseUrl}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: 'alice', password }),
+      });
+    for (let i = 0; i < LOGIN_FREE_ATTEMPTS; i++) {
+      expect((await login('wrong')).status).toBe(401);
+    }
+    const locked = await login('wonderland');
+    expect(locked.status).toBe(429);
+    expect(locked.headers.get('retry-after')).toBe(String(LOGIN_BACKOFF_BASE_MS / 1000));
+    expect((await locked.json()).retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it('許可していないオリジンからのリクエストは 403', async () => {
+    const headers = { Authorization: 'Bearer secret' };
+    const denied = await fetch(`${baseUrl}/api/config`, {
+      headers: { ...headers, Origin: 'https://evil.example.com' },
+    });
+    expect(denied.status).toBe(403);
+    const allowed = await fetch(`${baseUrl}/api/config`, {
+      headers: { ...headers, Origin: 'https://app.example.com' },
+    });
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+  });
+});
+
+describe('web-chat multi-user sessions', () => {
+  let testDir: string;
+  let baseUrl = '';
+  const prevWorkspace = process.env.WORKSPACE_PATH;
+  const authEnv = ['WEB_CHAT_AUTH_TOKEN', 'WEB_CHAT_USERS', 'WEB_CHAT_ALLOWED_USERS'];
+  const cookies: Record<string, string> = {};
+  let runner: FakeRunner;
+
+  const api = (user: string, path: string, init: RequestInit = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(init.headers as Record<string, string>),
+        cookie: cookies[user],
+      },
+    });
+
+  beforeEach(async () => {
+    clearSessions();
+    testDir = mkdtempSync(join(tmpdir(), 'web-chat-multiuser-test-'));
+    process.env.WORKSPACE_PATH = testDir;
+    initSessions(testDir);
+    process.env.WEB_CHAT_AUTH_TOKEN = 'secret';
+    process.env.WEB_CHAT_USERS = ['alice', 'bob', 'carol']
+      .map((u) => `${u}:${hashPassword(`${u}-pw`)}`)
+      .join(',');
+    process.env.WEB_CHAT_ALLOWED_USERS = '*';
+
+    const port = await freePort();
+    runner = new FakeRunner();
+    startWebChat({ agentRunner: runner, port });
+    baseUrl = `http://127.0.0.1:${port}`;
+    for (let i = 0; i < 30; i++) {
+      try {
+        if ((await fetch(`${baseUrl}/health`)).ok) break;
+      } catch {
+        /* not ready */
+      }
+      await new Promise((r) => setTimeout(r, 50));
+    }
+    for (const user of ['alice', 'bob', 'carol']) {
+      const res = await fetch(`${baseUrl}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: user, password: `${user}-pw` }),
+      });
+      cookies[user] = (res.headers.get('set-cookie') || '').split(';')[0];
+    }
+  });
+
+  afterEach(() => {
+    for (const ch of Array.from(runner?.pending.keys() ?? [])) {
+      runner.release(ch);
+    }
+    for (const key of authEnv) delete process.env[key];
+    clearSessions();
+    if (testDir && existsSync(testDir)) {
+      rmSync(testDir, { recursive: true });
+    }
+    if (prevWorkspace == null) delete process.env.WORKSPACE_PATH;
+    else process.env.WORKSPACE_PATH = prevWorkspace;
+  });
+
+  const createAs = async (user: string): Promise<string> => {
+    const res = await api(user, '/api/sessions', { method: 'POST' });
+    return (await res.json()).sessionId;
+  };
+  const listIds = async (user: string): Promise<string[]> => {
+    const res = await api(user, '/api/sessions');
+    return (await res.json()).sessions.map((s: { id: string }) => s.id);
+  };
+
+  it('作ったユーザーが owner になり、他のユーザーからは見えない', async () => {
+    const id = await createAs('alice');
+    expect(getSessionEntry(id)?.owner).toBe('alice');
+    expect(await listIds('alice')).toEqual([id]);
+    expect(await listIds('bob')).toEqual([]);
+
+    expect((await api('bob', `/api/sessions/${id}`)).status).toBe(404);
+    expect(
+      (await api('bob', `/api/sessions/${id}`, { method: 'PATCH', body: '{"title":"x"}' })).status
+    ).toBe(404);
+    expect((await api('bob', `/api/sessions/${id}/stop`, { method: 'POST' })).status).toBe(404);
+    expect((await api('bob', `/api/sessions/${id}/resume`, { method: 'POST' })).status).toBe(404);
+    expect((await api('bob', `/api/sessions/${id}`, { method: 'DELETE' })).status).toBe(404);
+    expect(getSessionEntry(id)).toBeDefined();
+
+    // 固定トークンは全セッションを扱える
+    const all = await fetch(`${baseUrl}/api/sessions`, {
+      headers: { Authorization: 'Bearer secret' },
+    });
+    expect((await all.json()).sessions.map((s: { id: string }) => s.id)).toEqual([id]);
+  });
+
+  it('owner の無いセッション（Discord・所有者導入前の Web）はログインユーザーに見せない', async () => {
+    const discordId = createSession('123456', { platform: 'discord', title: 'general' });
+    const legacyId = createWebSession({ title: 'legacy' });
+
+    expect(await listIds('alice')).toEqual([]);
+    for (const id of [discordId, legacyId]) {
+      expect((await api('alice', `/api/sessions/${id}`)).status).toBe(404);
+      expect(
+        (await api('alice', `/api/sessions/${id}`, { method: 'PATCH', body: '{"title":"x"}' }))
+          .status
+      ).toBe(404);
+      expect((await api('alice', `/api/sessions/${id}/stop`, { method: 'POST' })).status).toBe(404);
+      expect((await api('alice', `/api/sessions/${id}`, { method: 'DELETE' })).status).toBe(404);
+      expect(getSessionEntry(id)).toBeDefined();
+    }
+
+    // 固定トークンは従来どおり扱える
+    const all = await fetch(`${baseUrl}/api/sessions`, {
+      headers: { Authorization: 'Bearer secret' },
+    });
+    expect((await all.json()).sessions.map((s: { id: string }) => s.id).sort()).toEqual(
+      [discordId, legacyId].sort()
+    );
+  });
+
+  it('/api/usage はログインユーザーが読めるセッションの分だけ集計する', async () => {
+    initTokenUsage(testDir);
+    const aliceId = await createAs('alice');
+    const bobId = await createAs('bob');
+    const ts = new Date().toISOString();
+    for (const [appSessionId, inputTokens] of [
+      [aliceId, 100],
+      [bobId, 200],
+      [undefined, 400],
+    ] as const) {
+      appendUsageRecord(testDir, {
+        ts,
+        backend: 'claude-code',
+        inputTokens,
+        outputTokens: 0,
+        channelId: appSessionId ? `${WEB_CHAT_CONTEXT_PREFIX}${appSessionId}` : 'discord-ch',
+        appSessionId,
+      });
+    }
+
+    const mine = await (await api('alice', '/api/usage?by=session&days=1')).json();
+    expect(mine.rows.map((r: { key: string }) => r.key)).toEqual([aliceId]);
+    expect(mine.total.inputTokens).toBe(100);
+
+    const all = await (
+      await fetch(`${baseUrl}/api/usage?by=session&days=1`, {
+        headers: { Authorization: 'Bearer secret' },
+      })
+    ).json();
+    expect(all.total.inputTokens).toBe(700);
+  });
+
+  it('読み取り共有は閲覧と resume だけ、書き込み共有は名前変更・停止までできる', async () => {
+    const id = await createAs('alice');
+    const share = await api('alice', `/api/sessions/${id}/share`, {
+      method: 'POST',
+      body: JSON.stringify({ user: 'bob', access: 'read' }),
+    });
+    expect(share.status).toBe(200);
+
+    const listed = await (await api('bob', '/api/sessions')).json();
+    expect(listed.sessions[0]).toMatchObject({ id, owner: 'alice', access: 'read' });
+    expect(listed.sessions[0].sharedWith).toBeUndefined();
+    expect((await api('bob', `/api/sessions/${id}`)).status).toBe(200);
+    expect(
+      (await api('bob', `/api/sessions/${id}`, { method: 'PATCH', body: '{"title":"x"}' })).status
+    ).toBe(403);
+    const chat = await api('bob', '/api/chat', {
+      method: 'POST',
+      body: JSON.stringify({ appSessionId: id, message: 'hi' }),
+    });
+    expect(chat.status).toBe(403);
+
+    const resumed = await (
+      await api('bob', `/api/sessions/${id}/resume`, { method: 'POST' })
+    ).json();
+    expect(getSessionEntry(resumed.sessionId)?.owner).toBe('bob');
+
+    await api('alice', `/api/sessions/${id}/share`, {
+      method: 'POST',
+      body: JSON.stringify({ user: 'bob', access: 'write' }),
+    });
+    expect(
+      (await api('bob', `/api/sessions/${id}`, { method: 'PATCH', body: '{"title":"renamed"}' }))
+        .status
+    ).toBe(200);
+    expect(getSessionEntry(id)?.title).toBe('renamed');
+    expect((await api('bob', `/api/sessions/${id}/stop`, { method: 'POST' })).status).toBe(200);
+    // 削除と共有の変更は owner だけ
+    expect((await api('bob', `/api/sessions/${id}`, { method: 'DELETE' })).status).toBe(403);
+    const reshare = await api('bob', `/api/sessions/${id}/share`, {
+      method: 'POST',
+      body: JSON.stringify({ user: 'carol', access: 'read' }),
+    });
+    expect(reshare.status).toBe(403);
+    expect(await listIds('carol')).toEqual([]);
+
+    await api('alice', `/api/sessions/${id}/share`, {
+      method: 'POST',
+      body: JSON.stringify({ user: 'bob', access: 'none' }),
+    });
+    expect(await listIds('bob')).toEqual([resumed.sessionId]);
+  });
+
+  it('存在しないユーザーや不正な権限では共有できない', async () => {
+    const id = await createAs('alice');
+    const unknown = await api('alice', `/api/sessions/${id}/share`, {
+      method: 'POST',
+      body: JSON.stringify({ user: 'mallory', access: 'read' }),
+    });
+    expect(unknown.status).toBe(400);
+    const invalid = await api('alice', `/api/sessions/${id}/share`, {
+      method: 'POST',
+      body: JSON.stringify({ user: 'bob', access: 'admin' }),
+    });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('appSessionId 省略の /api/chat は他人のセッションに送らない', async () => {
+    const aliceId = await createAs('alice');
+    const pending = api('bob', '/api/chat', {
+      method: 'POST',
+      body: JSON.stringify({ message: 'hello' }),
+    });
+    for (let i = 0; i < 50 && runner.pending.size === 0; i++) {
+      await new Promise((r) => setTimeout(r, 20));
+    }
+    const bobSessions = listAllSessions().filter((s) => s.owner === 'bob');
+    expect(bobSessions).toHaveLength(1);
+    expect(bobSessions[0].id).not.toBe(aliceId);
+    runner.release(`${WEB_CHAT_CONTEXT_PREFIX}${bobSessions[0].id}`);
+    const { events } = await readSSEUntilDone((await pending).body);
+    expect(events.at(-1)?.data.sessionId).toBe(bobSessions[0].id);
+  });
+});
+
+describe('registerWebSchedulerBridge', () => {
+  let testDir: string;
+  let scheduler: Scheduler;
+  let received: PublishedEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    clearSessions();
+    _resetEventsConfigForTest();
+    testDir = mkdtempSync(join(tmpdir(), 'web-sched-test-'));
+    initSessions(testDir);
+    scheduler = new Scheduler(testDir, { quiet: true });
+    received = [];
+    unsubscribe = subscribeEvents((e) => received.push(e));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    scheduler.stopAll();
+    clearSessions();
+    _resetEventsConfigForTest();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('runs the agent in the web session context and publishes turn events', async () => {
+    const runner = new FakeRunner();
+    registerWebSchedulerBridge(scheduler, runner, testDir);
+    const id = createWebSession({ title: '朝のまとめ' });
+    const ctx = `${WEB_CHAT_CONTEXT_PREFIX}${id}`;
+
+    const pending = scheduler.getAgentRunner('web')!('おはよう', id);
+    await new Promise((r) => setTimeout(r, 10));
+    expect(runner.release(ctx)).toBe(true);
+    await expect(pending).resolves.toBe('ok');
+
+    expect(getSessionEntry(id)?.messageCount).toBe(1);
+    expect(received.map((e) => e.type)).toEqual([
+      'session.created',
+      'turn.started',
+      'turn.complete',
+    ]);
+    expect(received[0].thread_id).toBe(`web:${id}`);
+  });
+
+  it('sender appends an assistant message to the web session transcript', async () => {
+    registerWebSchedulerBridge(scheduler, new FakeRunner(), testDir);
+    const id = createWebSession({});
+    await scheduler.getSender('web')!(id, '⏰ リマインド');
+
+    const messages = readSessionMessages(testDir, id);
+    expect(messages).toHaveLength(1);
+    expect(messages[0].role).toBe('assistant');
+    expect(received.map((e) => e.type)).toEqual(['session.created', 'turn.complete']);
+  });
+
+  it('rejects unknown sessions', async () => {
+    registerWebSchedulerBridge(scheduler, new FakeRunner(), testDir);
+    await expect(scheduler.getAgentRunner('web')!('x', 'missing')).rejects.toThrow(
+      'Web session not found'
+    );
+  });
+});